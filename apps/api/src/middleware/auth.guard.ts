@@ -59,8 +59,15 @@ export function requireAuth() {
         if (revoked) return reply.code(401).send({ error: { code: 'TOKEN_REVOKED', message: 'Token revoked' } });
       }
 
+      const uid = String(payload.uid || payload.sub);
+      // Бан действует сразу, не дожидаясь истечения access-токена (ключ ставит modules/moderation)
+      if (redis) {
+        const banned = await redis.get(`auth:banned:${uid}`);
+        if (banned) return reply.code(403).send({ error: { code: 'USER_BANNED', message: 'Account is banned' } });
+      }
+
       req.user = {
-        id: String(payload.uid || payload.sub),
+        id: uid,
         email: typeof payload.email === 'string' ? payload.email : undefined,
         roles: Array.isArray(payload.roles) ? (payload.roles as any).map(String) : undefined,
         scope: typeof payload.scope === 'string' ? payload.scope : undefined,
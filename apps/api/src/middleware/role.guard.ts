@@ -13,11 +13,9 @@ export function requireRole(...allowed: string[]) {
   return async function preHandler(req: FastifyRequest, reply: FastifyReply) {
     // Сначала базовая аутентификация (JWT/JWKS и т.п.)
     await requireAuth()(req, reply);
-    // Если requireAuth уже ответил 401 — дальше не идём
-    // @ts-expect-error req.user добавляется в requireAuth
+    // Если requireAuth уже ответил 401/403 — дальше не идём (req.user — см. auth.guard.ts)
     if (!req.user) return;
 
-    // @ts-expect-error см. расширение FastifyRequest в auth.guard.ts
     const roles: string[] = Array.isArray(req.user?.roles) ? req.user.roles : [];
     const ok = roles.some(r => allowed.includes(r));
     if (!ok) {
@@ -4,11 +4,29 @@
  *  POST   /v1/auth/login    {email, password}
  *  POST   /v1/auth/refresh  {refreshToken}
  *  POST   /v1/auth/logout   {refreshToken?} | header Cookie если куки включены
+ *  POST   /v1/auth/verify-email         {token} — подтвердить email по ссылке из письма
+ *  POST   /v1/auth/verify-email/resend  {email} → 202 (ответ не раскрывает, есть ли аккаунт)
+ *  POST   /v1/auth/password/forgot      {email} → 202 (письмо со ссылкой сброса, если аккаунт есть)
+ *  POST   /v1/auth/password/reset       {token, password} — новый пароль, все сессии отзываются
+ *  POST   /v1/auth/mfa/verify  {mfaToken, code | recoveryCode} — второй шаг логина (если login вернул mfaRequired)
  *  GET    /v1/auth/sessions  (auth required) → список активных сессий
  *  POST   /v1/auth/sessions/:id/revoke  (auth required) → отзыв указанной сессии
+ *  GET    /v1/auth/mfa                   (auth) → { totpEnabled, recoveryCodesRemaining }
+ *  POST   /v1/auth/mfa/totp/setup        (auth) → { secret, otpauthUri } — для QR
+ *  POST   /v1/auth/mfa/totp/enable       (auth) {code} → { recoveryCodes }
+ *  POST   /v1/auth/mfa/disable           (auth) {code | recoveryCode}
+ *  POST   /v1/auth/mfa/recovery-codes    (auth) {code | recoveryCode} → новые { recoveryCodes }
+ *  GET    /v1/auth/oidc/providers        → { providers: ['google', ...] }
+ *  POST   /v1/auth/oidc/:provider/authorize  {mode?: 'login'|'link'} → { authorizationUrl, state, browserKey? }
+ *                                        (mode=link — auth, привязка к текущему пользователю)
+ *  POST   /v1/auth/oidc/:provider/callback   {code, state, browserKey?} → как login (или { linked } для привязки;
+ *                                        mode=link — auth тем же пользователем)
+ *  GET    /v1/auth/identities            (auth) → привязанные внешние аккаунты
+ *  DELETE /v1/auth/identities/:id        (auth) → отвязать
  *
  * Куки (опционально): если AUTH_COOKIES=true, то refresh передается/хранится в HttpOnly cookie "refresh_token".
- * В противном случае — только через JSON body.
+ * В противном случае — только через JSON body. Так же передаётся ключ браузера OIDC (cookie "oidc_browser"
+ * либо browserKey в body): callback без него state не примет.
  */
 
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
@@ -21,6 +39,7 @@ const {
   COOKIE_DOMAIN = '',
   COOKIE_SECURE = 'true',
   AUTH_JWT_ACCESS_TTL = '900',
+  OIDC_STATE_TTL = '600',
 } = process.env;
 
 function cookieEnabled(): boolean {
@@ -65,6 +84,22 @@ export const authRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     maxAge: 60 * 60 * 24 * 30, // 30d
   };
 
+  /** Ответ успешного логина (пароль или второй шаг MFA). */
+  const sendLogin = (reply: any, user: any, tokens: any) => {
+    // Если куки включены — кладём refresh в HttpOnly cookie
+    if (cookieEnabled()) {
+      reply.setCookie('refresh_token', tokens.refreshToken, { ...cookieOpts, maxAge: tokens.refreshExp - Math.floor(Date.now() / 1000) });
+    }
+    return reply.send({
+      user,
+      accessToken: tokens.accessToken,
+      accessExp: tokens.accessExp,
+      sessionId: tokens.sessionId,
+      // Отдаём refresh в body только если куки выключены
+      ...(cookieEnabled() ? {} : { refreshToken: tokens.refreshToken, refreshExp: tokens.refreshExp }),
+    });
+  };
+
   // ────────────────────────────────────────────────────────────────────────────
   // Signup
   // ────────────────────────────────────────────────────────────────────────────
@@ -122,9 +157,12 @@ export const authRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
       },
       response: {
         200: {
+          // либо токены, либо (при включённом TOTP) MFA-челлендж для POST /v1/auth/mfa/verify
           type: 'object',
-          required: ['user', 'accessToken', 'accessExp', 'sessionId'],
           properties: {
+            mfaRequired: { type: 'boolean' },
+            mfaToken: { type: 'string' },
+            mfaExp: { type: 'integer' },
             user: {
               type: 'object',
               required: ['id', 'email', 'displayName', 'roles'],
@@ -149,21 +187,9 @@ export const authRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
       const { email, password } = req.body as any;
       const ip = (req.headers['cf-connecting-ip'] as string) || (req.headers['x-real-ip'] as string) || req.ip;
       const ua = req.headers['user-agent'] as string | undefined;
-      const { user, tokens } = await auth.login({ email, password, ipAddress: ip, userAgent: ua });
-
-      // Если куки включены — кладём refresh в HttpOnly cookie
-      if (cookieEnabled()) {
-        reply.setCookie('refresh_token', tokens.refreshToken, { ...cookieOpts, maxAge: tokens.refreshExp - Math.floor(Date.now() / 1000) });
-      }
-
-      return reply.send({
-        user,
-        accessToken: tokens.accessToken,
-        accessExp: tokens.accessExp,
-        sessionId: tokens.sessionId,
-        // Отдаём refresh в body только если куки выключены
-        ...(cookieEnabled() ? {} : { refreshToken: tokens.refreshToken, refreshExp: tokens.refreshExp }),
-      });
+      const res = await auth.login({ email, password, ipAddress: ip, userAgent: ua });
+      if ('mfaRequired' in res) return reply.send(res);
+      return sendLogin(reply, res.user, res.tokens);
     },
   });
 
@@ -235,13 +261,115 @@ export const authRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     },
   });
 
+  // ────────────────────────────────────────────────────────────────────────────
+  // Email verification
+  // ────────────────────────────────────────────────────────────────────────────
+  app.post('/v1/auth/verify-email', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['token'],
+        properties: { token: { type: 'string', minLength: 1, maxLength: 256 } },
+      },
+    },
+    handler: async (req, reply) => {
+      const { token } = req.body as any;
+      await auth.verifyEmail(token);
+      return reply.send({ ok: true });
+    },
+  });
+
+  app.post('/v1/auth/verify-email/resend', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: { email: { type: 'string', format: 'email' } },
+      },
+    },
+    handler: async (req, reply) => {
+      const { email } = req.body as any;
+      await auth.requestEmailVerification(email);
+      return reply.code(202).send({ ok: true });
+    },
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Password recovery
+  // ────────────────────────────────────────────────────────────────────────────
+  app.post('/v1/auth/password/forgot', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: { email: { type: 'string', format: 'email' } },
+      },
+    },
+    handler: async (req, reply) => {
+      const { email } = req.body as any;
+      await auth.requestPasswordReset(email);
+      // одинаковый ответ для существующих и несуществующих адресов
+      return reply.code(202).send({ ok: true });
+    },
+  });
+
+  app.post('/v1/auth/password/reset', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+          token: { type: 'string', minLength: 1, maxLength: 256 },
+          password: { type: 'string', minLength: 6 },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const { token, password } = req.body as any;
+      const ip = (req.headers['cf-connecting-ip'] as string) || (req.headers['x-real-ip'] as string) || req.ip;
+      const ua = req.headers['user-agent'] as string | undefined;
+      await auth.resetPassword({ token, password, ipAddress: ip, userAgent: ua });
+      // все сессии отозваны — текущий refresh в куке тоже бесполезен
+      if (cookieEnabled()) {
+        reply.clearCookie('refresh_token', { ...cookieOpts, maxAge: 0 });
+      }
+      return reply.send({ ok: true });
+    },
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // MFA: второй шаг логина
+  // ────────────────────────────────────────────────────────────────────────────
+  app.post('/v1/auth/mfa/verify', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['mfaToken'],
+        properties: {
+          mfaToken: { type: 'string' },
+          code: { type: 'string', maxLength: 16 },
+          recoveryCode: { type: 'string', maxLength: 32 },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const { mfaToken, code, recoveryCode } = req.body as any;
+      if (!code && !recoveryCode) return reply.code(400).send({ error: 'code_required' });
+      const ip = (req.headers['cf-connecting-ip'] as string) || (req.headers['x-real-ip'] as string) || req.ip;
+      const ua = req.headers['user-agent'] as string | undefined;
+      const { user, tokens } = await auth.verifyMfaLogin({ mfaToken, code, recoveryCode, ipAddress: ip, userAgent: ua });
+      return sendLogin(reply, user, tokens);
+    },
+  });
+
   // ────────────────────────────────────────────────────────────────────────────
   // Дальше — защищённые маршруты: нужен действующий access JWT.
   // Упростим: проверим Authorization: Bearer и распарсим sub
   // ────────────────────────────────────────────────────────────────────────────
   app.addHook('preHandler', async (req, reply) => {
     // Пропускаем незащищённые
-    if (req.routerPath?.startsWith('/v1/auth/') && !req.routerPath?.startsWith('/v1/auth/sessions')) return;
+    const withUser = ['/v1/auth/sessions', '/v1/auth/mfa', '/v1/auth/oidc', '/v1/auth/identities'];
+    if (req.routerPath?.startsWith('/v1/auth/') && !withUser.some((p) => req.routerPath!.startsWith(p))) return;
     const authz = req.headers['authorization'];
     if (!authz || typeof authz !== 'string') return; // другие маршруты сами проверят
     const m = authz.match(/^Bearer\s+(.+)$/i);
@@ -279,6 +407,136 @@ export const authRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
       return reply.send({ ok: true });
     },
   });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // MFA management (auth required)
+  // ────────────────────────────────────────────────────────────────────────────
+  const proofBody = {
+    type: 'object',
+    properties: {
+      code: { type: 'string', maxLength: 16 },
+      recoveryCode: { type: 'string', maxLength: 32 },
+    },
+  };
+
+  app.get('/v1/auth/mfa', {
+    handler: async (req, reply) => {
+      const uid = (req as any).user?.id;
+      if (!uid) return reply.code(401).send({ error: 'unauthorized' });
+      return reply.send(await auth.mfaStatus(uid));
+    },
+  });
+
+  app.post('/v1/auth/mfa/totp/setup', {
+    handler: async (req, reply) => {
+      const uid = (req as any).user?.id;
+      if (!uid) return reply.code(401).send({ error: 'unauthorized' });
+      return reply.send(await auth.setupTotp(uid));
+    },
+  });
+
+  app.post('/v1/auth/mfa/totp/enable', {
+    schema: { body: { type: 'object', required: ['code'], properties: { code: { type: 'string', maxLength: 16 } } } },
+    handler: async (req, reply) => {
+      const uid = (req as any).user?.id;
+      if (!uid) return reply.code(401).send({ error: 'unauthorized' });
+      const { code } = req.body as any;
+      return reply.send(await auth.enableTotp(uid, code));
+    },
+  });
+
+  app.post('/v1/auth/mfa/disable', {
+    schema: { body: proofBody },
+    handler: async (req, reply) => {
+      const uid = (req as any).user?.id;
+      if (!uid) return reply.code(401).send({ error: 'unauthorized' });
+      const { code, recoveryCode } = (req.body as any) || {};
+      if (!code && !recoveryCode) return reply.code(400).send({ error: 'code_required' });
+      return reply.send(await auth.disableMfa(uid, { code, recoveryCode }));
+    },
+  });
+
+  app.post('/v1/auth/mfa/recovery-codes', {
+    schema: { body: proofBody },
+    handler: async (req, reply) => {
+      const uid = (req as any).user?.id;
+      if (!uid) return reply.code(401).send({ error: 'unauthorized' });
+      const { code, recoveryCode } = (req.body as any) || {};
+      if (!code && !recoveryCode) return reply.code(400).send({ error: 'code_required' });
+      return reply.send(await auth.regenerateRecoveryCodes(uid, { code, recoveryCode }));
+    },
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // OIDC: вход через внешних провайдеров и привязка аккаунтов
+  // ────────────────────────────────────────────────────────────────────────────
+  app.get('/v1/auth/oidc/providers', {
+    handler: async (_req, reply) => reply.send({ providers: auth.oidcProviders() }),
+  });
+
+  app.post('/v1/auth/oidc/:provider/authorize', {
+    schema: {
+      params: { type: 'object', required: ['provider'], properties: { provider: { type: 'string', maxLength: 32 } } },
+      body: { type: 'object', properties: { mode: { type: 'string', enum: ['login', 'link'] } } },
+    },
+    handler: async (req, reply) => {
+      const { provider } = req.params as any;
+      const mode = (req.body as any)?.mode || 'login';
+      const uid = (req as any).user?.id;
+      if (mode === 'link' && !uid) return reply.code(401).send({ error: 'unauthorized' });
+      const { authorizationUrl, state, browserKey } = await auth.oidcAuthorize(provider, { linkUserId: mode === 'link' ? uid : undefined });
+      if (cookieEnabled()) {
+        reply.setCookie('oidc_browser', browserKey, { ...cookieOpts, path: '/v1/auth/oidc', maxAge: Number(OIDC_STATE_TTL) || 600 });
+        return reply.send({ authorizationUrl, state });
+      }
+      return reply.send({ authorizationUrl, state, browserKey });
+    },
+  });
+
+  app.post('/v1/auth/oidc/:provider/callback', {
+    schema: {
+      params: { type: 'object', required: ['provider'], properties: { provider: { type: 'string', maxLength: 32 } } },
+      body: {
+        type: 'object',
+        required: ['code', 'state'],
+        properties: {
+          code: { type: 'string', maxLength: 2048 },
+          state: { type: 'string', maxLength: 128 },
+          browserKey: { type: 'string', maxLength: 128 },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const { provider } = req.params as any;
+      const { code, state, browserKey: bodyKey } = req.body as any;
+      const browserKey = cookieEnabled() ? (req.cookies?.oidc_browser as string | undefined) : (bodyKey as string | undefined);
+      if (cookieEnabled()) reply.clearCookie('oidc_browser', { ...cookieOpts, path: '/v1/auth/oidc', maxAge: 0 });
+      const ip = (req.headers['cf-connecting-ip'] as string) || (req.headers['x-real-ip'] as string) || req.ip;
+      const ua = req.headers['user-agent'] as string | undefined;
+      const viewerId = (req as any).user?.id;
+      const res = await auth.oidcCallback(provider, { code, state, browserKey, viewerId, ipAddress: ip, userAgent: ua });
+      if ('linked' in res || 'mfaRequired' in res) return reply.send(res);
+      return sendLogin(reply, res.user, res.tokens);
+    },
+  });
+
+  app.get('/v1/auth/identities', {
+    handler: async (req, reply) => {
+      const uid = (req as any).user?.id;
+      if (!uid) return reply.code(401).send({ error: 'unauthorized' });
+      return reply.send({ identities: await auth.listIdentities(uid) });
+    },
+  });
+
+  app.delete('/v1/auth/identities/:id', {
+    schema: { params: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } } },
+    handler: async (req, reply) => {
+      const uid = (req as any).user?.id;
+      if (!uid) return reply.code(401).send({ error: 'unauthorized' });
+      const { id } = req.params as any;
+      return reply.send(await auth.unlinkIdentity(uid, id));
+    },
+  });
 };
 
 export default authRoutes;
@@ -3,12 +3,35 @@ import { z } from 'zod';
 import { requireAuth } from '../../middleware/auth.guard';
 import {
   createCommunity, getCommunityById, getCommunityByHandle, updateCommunity, deleteCommunity,
-  listCommunities, joinCommunity, leaveCommunity, getMembership, setMemberRole, banMember, unbanMember, isOwner
+  listCommunities, joinCommunity, leaveCommunity, getMembership, setMemberRole, banMember, unbanMember, isOwner,
+  listJoinRequests, approveJoinRequest, rejectJoinRequest, createInvite, listInvites, revokeInvite, joinByInvite,
+  createPost, listPosts, deletePost
 } from '@modules/communities';
 import {
-  CommunityDTO, MemberDTO, CreateCommunityBody, UpdateCommunityBody, ListCommunitiesQuery
+  CommunityDTO, MemberDTO, CreateCommunityBody, UpdateCommunityBody, ListCommunitiesQuery,
+  InviteDTO, CreateInviteBody, CommunityPostDTO, CreateCommunityPostBody, PageQuery
 } from '../../schemas/communities.schema';
 
+/** Коды ошибок модуля (Error.message) → HTTP-ответ. */
+const KNOWN_ERRORS: Record<string, [number, string, string]> = {
+  community_not_found: [404, 'NOT_FOUND', 'Community not found'],
+  forbidden: [403, 'FORBIDDEN', 'Insufficient privileges'],
+  banned: [403, 'BANNED', 'You are banned in this community'],
+  handle_taken: [409, 'HANDLE_TAKEN', 'Handle is already taken'],
+  last_owner: [409, 'LAST_OWNER', 'Community must keep at least one owner'],
+  invite_invalid: [404, 'INVITE_INVALID', 'Invite link is invalid or expired'],
+  posting_not_allowed: [403, 'POSTING_NOT_ALLOWED', 'Posting is restricted by community policy'],
+  invalid_body: [400, 'INVALID_BODY', 'Post body must be 1-10000 characters'],
+};
+
+function knownError(e: any): { status: number; body: { error: { code: string; message: string } } } | null {
+  const k = KNOWN_ERRORS[String(e?.message || '')];
+  return k ? { status: k[0], body: { error: { code: k[1], message: k[2] } } } : null;
+}
+
+/** id сообщества — 32 hex-символа; остальное считаем handle. */
+const COMMUNITY_ID_RE = /^[0-9a-f]{32}$/;
+
 export default async function communitiesRoutes(app: FastifyInstance) {
   // Создать сообщество (любой аутентифицированный)
   app.withTypeProvider().post('/communities', {
@@ -22,18 +45,23 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req, reply) => {
     const body = CreateCommunityBody.parse(req.body);
-    // @ts-expect-error from requireAuth
-    const uid: string = req.user.id;
-    const c = await createCommunity({
-      kind: body.kind,
-      handle: body.handle,
-      title: body.title,
-      description: body.description ?? null,
-      isPublic: body.isPublic ?? true,
-      postingPolicy: body.postingPolicy ?? 'owners',
-      ownerId: uid
-    });
-    reply.code(201).send(c);
+    const uid = req.user!.id;
+    try {
+      const c = await createCommunity({
+        kind: body.kind,
+        handle: body.handle,
+        title: body.title,
+        description: body.description ?? null,
+        isPublic: body.isPublic ?? true,
+        postingPolicy: body.postingPolicy ?? 'owners',
+        ownerId: uid
+      });
+      reply.code(201).send(c);
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
   });
 
   // Список сообществ (публичный)
@@ -51,7 +79,8 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     }
   }, async (req) => {
     const q = ListCommunitiesQuery.parse(req.query);
-    return listCommunities(q);
+    // закрытые сообщества в каталоге не показываем — туда попадают по приглашению или заявке
+    return listCommunities({ ...q, onlyPublic: true });
   });
 
   // Получить сообщество по id|handle (публичный)
@@ -64,9 +93,8 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     }
   }, async (req, reply) => {
     const { idOrHandle } = req.params as { idOrHandle: string };
-    const data = idOrHandle.includes('-') || idOrHandle.length > 32
-      ? await getCommunityById(idOrHandle)
-      : await getCommunityByHandle(idOrHandle);
+    const data = (COMMUNITY_ID_RE.test(idOrHandle) ? await getCommunityById(idOrHandle) : null)
+      ?? await getCommunityByHandle(idOrHandle);
     if (!data) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Community not found' } });
     return data;
   });
@@ -84,8 +112,7 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req, reply) => {
     const { id } = req.params as { id: string };
-    // @ts-expect-error
-    const uid: string = req.user.id;
+    const uid = req.user!.id;
     const c = await getCommunityById(id);
     if (!c) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Community not found' } });
     if (!(await isOwner(id, uid))) {
@@ -108,8 +135,7 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req, reply) => {
     const { id } = req.params as { id: string };
-    // @ts-expect-error
-    const uid: string = req.user.id;
+    const uid = req.user!.id;
     const c = await getCommunityById(id);
     if (!c) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Community not found' } });
     if (!(await isOwner(id, uid))) {
@@ -123,7 +149,7 @@ export default async function communitiesRoutes(app: FastifyInstance) {
   // Вступить / Подписаться
   app.withTypeProvider().post('/communities/:id/join', {
     schema: {
-      summary: 'Join (group) or subscribe (channel)',
+      summary: 'Join (group) or subscribe (channel); request to join if not public',
       tags: ['communities'],
       security: [{ bearerAuth: [] }],
       params: z.object({ id: z.string() }),
@@ -132,21 +158,13 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req, reply) => {
     const { id } = req.params as { id: string };
-    // @ts-expect-error
-    const uid: string = req.user.id;
-    const c = await getCommunityById(id);
-    if (!c) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Community not found' } });
-    if (!c.is_public) {
-      // базовая политика — приватные не поддержаны в MVP
-      return reply.code(403).send({ error: { code: 'FORBIDDEN', message: 'Community is not public' } });
-    }
+    const uid = req.user!.id;
     try {
-      const m = await joinCommunity(id, uid);
-      return m;
+      // закрытое сообщество — заявка (status: pending), ждёт одобрения
+      return await joinCommunity(id, uid);
     } catch (e: any) {
-      if (String(e?.message).includes('banned')) {
-        return reply.code(403).send({ error: { code: 'BANNED', message: 'You are banned in this community' } });
-      }
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
       throw e;
     }
   });
@@ -163,11 +181,16 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req, reply) => {
     const { id } = req.params as { id: string };
-    // @ts-expect-error
-    const uid: string = req.user.id;
-    const ok = await leaveCommunity(id, uid);
-    if (!ok) return reply.code(400).send({ error: { code: 'NOT_ACTIVE', message: 'You are not active member' } });
-    reply.code(204).send(null);
+    const uid = req.user!.id;
+    try {
+      const ok = await leaveCommunity(id, uid);
+      if (!ok) return reply.code(400).send({ error: { code: 'NOT_ACTIVE', message: 'You are not active member' } });
+      reply.code(204).send(null);
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
   });
 
   // Получить моё участие
@@ -182,8 +205,7 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req) => {
     const { id } = req.params as { id: string };
-    // @ts-expect-error
-    const uid: string = req.user.id;
+    const uid = req.user!.id;
     const m = await getMembership(id, uid);
     return m;
   });
@@ -201,8 +223,7 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req, reply) => {
     const { id, userId } = req.params as { id: string; userId: string };
-    // @ts-expect-error
-    const actorId: string = req.user.id;
+    const actorId = req.user!.id;
 
     const c = await getCommunityById(id);
     if (!c) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Community not found' } });
@@ -213,9 +234,8 @@ export default async function communitiesRoutes(app: FastifyInstance) {
       if (!m) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Member not found' } });
       return m;
     } catch (e: any) {
-      if (String(e?.message).includes('forbidden')) {
-        return reply.code(403).send({ error: { code: 'FORBIDDEN', message: 'Insufficient privileges' } });
-      }
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
       throw e;
     }
   });
@@ -232,8 +252,7 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req, reply) => {
     const { id, userId } = req.params as { id: string; userId: string };
-    // @ts-expect-error
-    const actorId: string = req.user.id;
+    const actorId = req.user!.id;
     const c = await getCommunityById(id);
     if (!c) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Community not found' } });
 
@@ -242,9 +261,8 @@ export default async function communitiesRoutes(app: FastifyInstance) {
       if (!m) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Member not found' } });
       return m;
     } catch (e: any) {
-      if (String(e?.message).includes('forbidden')) {
-        return reply.code(403).send({ error: { code: 'FORBIDDEN', message: 'Insufficient privileges' } });
-      }
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
       throw e;
     }
   });
@@ -260,8 +278,7 @@ export default async function communitiesRoutes(app: FastifyInstance) {
     preHandler: [requireAuth()]
   }, async (req, reply) => {
     const { id, userId } = req.params as { id: string; userId: string };
-    // @ts-expect-error
-    const actorId: string = req.user.id;
+    const actorId = req.user!.id;
     const c = await getCommunityById(id);
     if (!c) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Community not found' } });
 
@@ -270,9 +287,227 @@ export default async function communitiesRoutes(app: FastifyInstance) {
       if (!m) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Member not found' } });
       return m;
     } catch (e: any) {
-      if (String(e?.message).includes('forbidden')) {
-        return reply.code(403).send({ error: { code: 'FORBIDDEN', message: 'Insufficient privileges' } });
-      }
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  // ── Заявки на вступление (закрытые сообщества; owner/admin/moderator)
+  app.withTypeProvider().get('/communities/:id/requests', {
+    schema: {
+      summary: 'List pending join requests',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string() }),
+      querystring: PageQuery,
+      response: { 200: z.object({ items: z.array(MemberDTO), nextCursor: z.string().nullable() }), 403: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id } = req.params as { id: string };
+    try {
+      return await listJoinRequests(id, req.user!.id, PageQuery.parse(req.query));
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  app.withTypeProvider().post('/communities/:id/requests/:userId/approve', {
+    schema: {
+      summary: 'Approve a join request',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string(), userId: z.string() }),
+      response: { 200: MemberDTO, 403: z.any(), 404: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id, userId } = req.params as { id: string; userId: string };
+    try {
+      const m = await approveJoinRequest(id, req.user!.id, userId);
+      if (!m) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Join request not found' } });
+      return m;
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  app.withTypeProvider().post('/communities/:id/requests/:userId/reject', {
+    schema: {
+      summary: 'Reject a join request',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string(), userId: z.string() }),
+      response: { 204: z.null(), 403: z.any(), 404: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id, userId } = req.params as { id: string; userId: string };
+    try {
+      const ok = await rejectJoinRequest(id, req.user!.id, userId);
+      if (!ok) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Join request not found' } });
+      reply.code(204).send(null);
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  // ── Ссылки-приглашения (owner/admin)
+  app.withTypeProvider().post('/communities/:id/invites', {
+    schema: {
+      summary: 'Create an invite link',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string() }),
+      body: CreateInviteBody,
+      response: { 201: InviteDTO, 403: z.any(), 404: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id } = req.params as { id: string };
+    const body = CreateInviteBody.parse(req.body ?? {});
+    const c = await getCommunityById(id);
+    if (!c) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Community not found' } });
+    try {
+      reply.code(201).send(await createInvite(id, req.user!.id, body));
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  app.withTypeProvider().get('/communities/:id/invites', {
+    schema: {
+      summary: 'List active invite links',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string() }),
+      response: { 200: z.object({ items: z.array(InviteDTO) }), 403: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id } = req.params as { id: string };
+    try {
+      return { items: await listInvites(id, req.user!.id) };
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  app.withTypeProvider().delete('/communities/:id/invites/:code', {
+    schema: {
+      summary: 'Revoke an invite link',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string(), code: z.string() }),
+      response: { 204: z.null(), 403: z.any(), 404: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id, code } = req.params as { id: string; code: string };
+    try {
+      const ok = await revokeInvite(id, req.user!.id, code);
+      if (!ok) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Invite not found' } });
+      reply.code(204).send(null);
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  app.withTypeProvider().post('/communities/invites/:code/join', {
+    schema: {
+      summary: 'Join by invite link (no approval needed)',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ code: z.string().max(64) }),
+      response: { 200: MemberDTO, 403: z.any(), 404: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { code } = req.params as { code: string };
+    try {
+      return await joinByInvite(code, req.user!.id);
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  // ── Публикации (posting_policy)
+  app.withTypeProvider().get('/communities/:id/posts', {
+    schema: {
+      summary: 'List community posts (members only for non-public communities)',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string() }),
+      querystring: PageQuery,
+      response: { 200: z.object({ items: z.array(CommunityPostDTO), nextCursor: z.string().nullable() }), 403: z.any(), 404: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id } = req.params as { id: string };
+    try {
+      return await listPosts(id, req.user!.id, PageQuery.parse(req.query));
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  app.withTypeProvider().post('/communities/:id/posts', {
+    schema: {
+      summary: 'Publish a post (allowed by posting_policy)',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string() }),
+      body: CreateCommunityPostBody,
+      response: { 201: CommunityPostDTO, 400: z.any(), 403: z.any(), 404: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id } = req.params as { id: string };
+    const body = CreateCommunityPostBody.parse(req.body);
+    try {
+      reply.code(201).send(await createPost(id, req.user!.id, body.body));
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
+      throw e;
+    }
+  });
+
+  app.withTypeProvider().delete('/communities/:id/posts/:postId', {
+    schema: {
+      summary: 'Delete a post (author or owner/admin/moderator)',
+      tags: ['communities'],
+      security: [{ bearerAuth: [] }],
+      params: z.object({ id: z.string(), postId: z.string() }),
+      response: { 204: z.null(), 403: z.any(), 404: z.any() }
+    },
+    preHandler: [requireAuth()]
+  }, async (req, reply) => {
+    const { id, postId } = req.params as { id: string; postId: string };
+    try {
+      const ok = await deletePost(id, postId, req.user!.id);
+      if (!ok) return reply.code(404).send({ error: { code: 'NOT_FOUND', message: 'Post not found' } });
+      reply.code(204).send(null);
+    } catch (e: any) {
+      const known = knownError(e);
+      if (known) return reply.code(known.status).send(known.body);
       throw e;
     }
   });
@@ -1,6 +1,7 @@
 /**
  * Fastify routes: Conversations
- *  GET    /v1/conversations              — список бесед (keyset)
+ *  GET    /v1/conversations              — список бесед (keyset, unread_count/mention_count)
+ *  GET    /v1/conversations/unread       — общий бейдж непрочитанного
  *  POST   /v1/conversations              — создать private/group
  *  GET    /v1/conversations/:id          — получить беседу с участниками
  *  PATCH  /v1/conversations/:id          — изменить title/topic (owner/admin)
@@ -8,6 +9,7 @@
  *  DELETE /v1/conversations/:id/members/:userId  — удалить участника / покинуть
  *  POST   /v1/conversations/:id/leave    — выйти из беседы
  *  PATCH  /v1/conversations/:id/members/:userId  — роль/уведомления
+ *  POST   /v1/conversations/:id/read     — прочитано до messageId (или до конца)
  *
  * Требование: (req as any).user.id установлен (см. auth preHandler в main.ts).
  */
@@ -18,6 +20,7 @@
  *  - Create private/group conversations
  *  - Get/update conversation
  *  - Manage members (add/remove/leave/update role)
+ *  - Read pointers / unread badge
  */
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { Pool } from 'pg';
@@ -69,6 +72,17 @@ export const conversationsRoutes: FastifyPluginAsync = async (app: FastifyInstan
     },
   });
 
+  // ────────────────────────────────────────────────────────────────────────────
+  // UNREAD BADGE
+  // ────────────────────────────────────────────────────────────────────────────
+  app.get('/v1/conversations/unread', {
+    handler: async (req, reply) => {
+      const userId = requireUser(req);
+      const out = await svc.unreadSummary(userId);
+      return reply.send(out);
+    },
+  });
+
   // ────────────────────────────────────────────────────────────────────────────
   // CREATE
   // ────────────────────────────────────────────────────────────────────────────
@@ -202,6 +216,27 @@ export const conversationsRoutes: FastifyPluginAsync = async (app: FastifyInstan
     },
   });
 
+  // ────────────────────────────────────────────────────────────────────────────
+  // READ POINTER
+  // body: { messageId? } — по умолчанию до последнего сообщения беседы
+  // ────────────────────────────────────────────────────────────────────────────
+  app.post('/v1/conversations/:id/read', {
+    schema: {
+      params: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } },
+      body: {
+        type: 'object',
+        properties: { messageId: { type: 'string' } },
+      },
+    },
+    handler: async (req, reply) => {
+      const userId = requireUser(req);
+      const { id } = req.params as any;
+      const { messageId } = (req.body as any) || {};
+      const out = await svc.markReadUpTo(userId, String(id), messageId ? String(messageId) : null);
+      return reply.send(out);
+    },
+  });
+
   // ────────────────────────────────────────────────────────────────────────────
   // UPDATE MEMBER (role/notifications)
   // ────────────────────────────────────────────────────────────────────────────
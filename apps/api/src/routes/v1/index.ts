@@ -15,6 +15,11 @@ import messagesRoutes from './messages.route';
 import channelsRoutes from './channels.route';
 import postsRoutes from './posts.route';
 import searchRoutes from './search.route';
+import presenceRoutes from './presence.route';
+import notificationsRoutes from './notifications.route';
+import usersRoutes from './users.route';
+import communitiesRoutes from './communities.route';
+import moderationRoutes from './moderation.route';
 
 export interface V1RoutesOpts {
   // можно добавить флаги/опции для отдельных модулей здесь при необходимости
@@ -30,6 +35,11 @@ export const v1Routes: FastifyPluginAsync<V1RoutesOpts> = async (app: FastifyIns
   await app.register(channelsRoutes);
   await app.register(postsRoutes);
   await app.register(searchRoutes);
+  await app.register(presenceRoutes);
+  await app.register(notificationsRoutes);
+  await app.register(usersRoutes);
+  await app.register(communitiesRoutes);
+  await app.register(moderationRoutes);
 
   // Здесь же можно регистрировать следующие модули:
   // await app.register(authRoutes);
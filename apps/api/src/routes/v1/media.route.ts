@@ -88,12 +88,12 @@ const plugin: FastifyPluginCallback = (app, _opts, done) => {
   /**
    * GET /media/:id
    * Метаданные медиа с пресайн-ссылками (оригинал + все варианты).
-   * Требует аутентификацию; ACL: владелец-только (до внедрения правил каналов/групп).
+   * Требует аутентификацию; ACL: владелец, участники диалога/канала, где медиа использовано, либо аватар.
    */
   app.get('/media/:id', {
     schema: {
       tags: ['media'],
-      summary: 'Get media metadata with presigned links (owner-only)',
+      summary: 'Get media metadata with presigned links (context ACL)',
       security: [{ bearerAuth: [] }],
       params: IdParam,
       response: {
@@ -149,12 +149,12 @@ const plugin: FastifyPluginCallback = (app, _opts, done) => {
 
   /**
    * GET /media/:id/original
-   * Точечный пресайн на оригинал. Требует аутентификацию (владелец-только).
+   * Точечный пресайн на оригинал. Требует аутентификацию (та же ACL).
    */
   app.get('/media/:id/original', {
     schema: {
       tags: ['media'],
-      summary: 'Get presigned URL for original media (owner-only)',
+      summary: 'Get presigned URL for original media (context ACL)',
       security: [{ bearerAuth: [] }],
       params: IdParam,
       response: {
@@ -184,7 +184,7 @@ const plugin: FastifyPluginCallback = (app, _opts, done) => {
   app.get('/media/:id/variant/:profile', {
     schema: {
       tags: ['media'],
-      summary: 'Get presigned URL for a media variant (owner-only)',
+      summary: 'Get presigned URL for a media variant (context ACL)',
       security: [{ bearerAuth: [] }],
       params: VariantParam,
       response: {
@@ -3,6 +3,13 @@
  *  GET    /v1/conversations/:cid/messages               — список (keyset)
  *  POST   /v1/conversations/:cid/messages               — отправка text|media
  *  POST   /v1/conversations/:cid/messages/receipts      — mark delivered/read
+ *  PATCH  /v1/conversations/:cid/messages/:mid          — правка (автор, окно правки)
+ *  GET    /v1/conversations/:cid/messages/:mid/edits    — история правок
+ *  GET    /v1/conversations/:cid/messages/:mid/thread             — тред: root + ответы (keyset ASC)
+ *  POST   /v1/conversations/:cid/messages/:mid/thread/read        — маркер прочтения треда
+ *  GET    /v1/conversations/:cid/messages/:mid/reactions          — кто реагировал (keyset, ?emoji=)
+ *  POST   /v1/conversations/:cid/messages/:mid/reactions          — поставить emoji-реакцию
+ *  DELETE /v1/conversations/:cid/messages/:mid/reactions/:emoji   — снять реакцию
  *  DELETE /v1/conversations/:cid/messages/:mid          — soft delete
  *
  * Требование: (req as any).user.id установлен (см. auth preHandler).
@@ -13,6 +20,9 @@
  *  - List messages (keyset pagination)
  *  - Send message (text|media)
  *  - Mark delivered/read receipts
+ *  - Edit message (+ edit history)
+ *  - Threads (root + replies, read markers)
+ *  - Emoji reactions (add/remove/list reactors)
  *  - Soft delete message
  */
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
@@ -69,7 +79,8 @@ export const messagesRoutes: FastifyPluginAsync = async (app: FastifyInstance) =
 
   // ────────────────────────────────────────────────────────────────────────────
   // SEND (text|media)
-  // body: { kind: 'text', text, replyTo? } | { kind: 'media', mediaId, caption?, replyTo? }
+  // body: { kind: 'text', text, replyTo?, clientId? } | { kind: 'media', mediaId, caption?, replyTo?, clientId? }
+  // clientId — дедупликация ретраев: повтор возвращает исходное сообщение (duplicate: true)
   // ────────────────────────────────────────────────────────────────────────────
   app.post('/v1/conversations/:cid/messages', {
     schema: {
@@ -83,6 +94,7 @@ export const messagesRoutes: FastifyPluginAsync = async (app: FastifyInstance) =
               kind: { const: 'text' },
               text: { type: 'string', minLength: 1 },
               replyTo: { type: 'string' },
+              clientId: { type: 'string', maxLength: 64 },
             },
           },
           {
@@ -93,6 +105,7 @@ export const messagesRoutes: FastifyPluginAsync = async (app: FastifyInstance) =
               mediaId: { type: 'string' },
               caption: { type: 'string' },
               replyTo: { type: 'string' },
+              clientId: { type: 'string', maxLength: 64 },
             },
           },
         ],
@@ -103,16 +116,23 @@ export const messagesRoutes: FastifyPluginAsync = async (app: FastifyInstance) =
       const { cid } = req.params as any;
       const body = req.body as any;
       if (body.kind === 'text') {
-        const out = await svc.sendText({ conversationId: String(cid), senderId: uid, text: String(body.text), replyTo: body.replyTo ?? null });
+        const out = await svc.sendText({
+          conversationId: String(cid),
+          authorId: uid,
+          text: String(body.text),
+          replyToId: body.replyTo ?? null,
+          clientId: body.clientId ?? null,
+        });
         return reply.send(out);
       }
       if (body.kind === 'media') {
         const out = await svc.sendMedia({
           conversationId: String(cid),
-          senderId: uid,
+          authorId: uid,
           mediaId: String(body.mediaId),
           caption: body.caption ?? null,
-          replyTo: body.replyTo ?? null,
+          replyToId: body.replyTo ?? null,
+          clientId: body.clientId ?? null,
         });
         return reply.send(out);
       }
@@ -149,6 +169,155 @@ export const messagesRoutes: FastifyPluginAsync = async (app: FastifyInstance) =
     },
   });
 
+  // ────────────────────────────────────────────────────────────────────────────
+  // EDIT
+  // body: { text } — для media это подпись (null — убрать подпись)
+  // ────────────────────────────────────────────────────────────────────────────
+  app.patch('/v1/conversations/:cid/messages/:mid', {
+    schema: {
+      params: { type: 'object', required: ['cid','mid'], properties: { cid: { type: 'string' }, mid: { type: 'string' } } },
+      body: {
+        type: 'object',
+        required: ['text'],
+        properties: {
+          text: { type: ['string', 'null'], maxLength: 10000 },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { cid, mid } = req.params as any;
+      const { text } = req.body as any;
+      const out = await svc.edit({
+        conversationId: String(cid),
+        messageId: String(mid),
+        editorId: uid,
+        text: text === null ? null : String(text),
+      });
+      return reply.send(out);
+    },
+  });
+
+  app.get('/v1/conversations/:cid/messages/:mid/edits', {
+    schema: {
+      params: { type: 'object', required: ['cid','mid'], properties: { cid: { type: 'string' }, mid: { type: 'string' } } },
+    },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { cid, mid } = req.params as any;
+      const out = await svc.listEdits(uid, String(cid), String(mid));
+      return reply.send(out);
+    },
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // THREADS
+  // ────────────────────────────────────────────────────────────────────────────
+  app.get('/v1/conversations/:cid/messages/:mid/thread', {
+    schema: {
+      params: { type: 'object', required: ['cid','mid'], properties: { cid: { type: 'string' }, mid: { type: 'string' } } },
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          after_ts: { type: 'string' },
+          after_id: { type: 'string' },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { cid, mid } = req.params as any;
+      const { limit, after_ts, after_id } = req.query as any;
+      const res = await svc.getThread(uid, String(cid), String(mid), {
+        limit: Number(limit) || 50,
+        cursor: after_ts && after_id ? { ts: String(after_ts), id: String(after_id) } : null,
+      });
+      return reply.send(res);
+    },
+  });
+
+  // body: { messageId? } — до какого ответа прочитано (по умолчанию — до последнего)
+  app.post('/v1/conversations/:cid/messages/:mid/thread/read', {
+    schema: {
+      params: { type: 'object', required: ['cid','mid'], properties: { cid: { type: 'string' }, mid: { type: 'string' } } },
+      body: {
+        type: 'object',
+        properties: { messageId: { type: 'string' } },
+      },
+    },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { cid, mid } = req.params as any;
+      const { messageId } = (req.body as any) || {};
+      const out = await svc.markThreadRead(uid, String(cid), String(mid), messageId ? String(messageId) : null);
+      return reply.send(out);
+    },
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // REACTIONS
+  // ────────────────────────────────────────────────────────────────────────────
+  app.get('/v1/conversations/:cid/messages/:mid/reactions', {
+    schema: {
+      params: { type: 'object', required: ['cid','mid'], properties: { cid: { type: 'string' }, mid: { type: 'string' } } },
+      querystring: {
+        type: 'object',
+        properties: {
+          emoji: { type: 'string', maxLength: 32 },
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          after_ts: { type: 'string' },
+          after_id: { type: 'string' },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { cid, mid } = req.params as any;
+      const { emoji, limit, after_ts, after_id } = req.query as any;
+      const res = await svc.listReactors(uid, String(cid), String(mid), {
+        emoji: emoji ? String(emoji) : null,
+        limit: Number(limit) || 50,
+        cursor: after_ts && after_id ? { ts: String(after_ts), id: String(after_id) } : null,
+      });
+      return reply.send(res);
+    },
+  });
+
+  app.post('/v1/conversations/:cid/messages/:mid/reactions', {
+    schema: {
+      params: { type: 'object', required: ['cid','mid'], properties: { cid: { type: 'string' }, mid: { type: 'string' } } },
+      body: {
+        type: 'object',
+        required: ['emoji'],
+        properties: { emoji: { type: 'string', minLength: 1, maxLength: 32 } },
+      },
+    },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { cid, mid } = req.params as any;
+      const { emoji } = req.body as any;
+      const out = await svc.addReaction(uid, String(cid), String(mid), String(emoji));
+      return reply.send(out);
+    },
+  });
+
+  app.delete('/v1/conversations/:cid/messages/:mid/reactions/:emoji', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['cid','mid','emoji'],
+        properties: { cid: { type: 'string' }, mid: { type: 'string' }, emoji: { type: 'string' } },
+      },
+    },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { cid, mid, emoji } = req.params as any;
+      const out = await svc.removeReaction(uid, String(cid), String(mid), String(emoji));
+      return reply.send(out);
+    },
+  });
+
   // ────────────────────────────────────────────────────────────────────────────
   // DELETE (soft)
   // ────────────────────────────────────────────────────────────────────────────
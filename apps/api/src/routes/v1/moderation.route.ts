@@ -0,0 +1,135 @@
+/**
+ * Fastify routes: Moderation (жалобы и админ-API)
+ *  POST   /v1/reports                 — пожаловаться на post/channel/message/user
+ *  GET    /v1/reports                 — мои жалобы (keyset: ?limit=&cursor=)
+ *  GET    /v1/admin/reports           — очередь жалоб: ?status=open&targetType=&limit=&cursor= (старые первыми)
+ *  GET    /v1/admin/reports/:id       — жалоба и история действий по её объекту
+ *  PATCH  /v1/admin/reports/:id       — разбор: {status, resolution?}
+ *  POST   /v1/admin/actions           — действие: {action, targetId, reportId?, reason?, durationSec?}
+ *  GET    /v1/admin/actions           — журнал действий: ?targetType=&targetId=&actorId=&limit=&cursor=
+ *
+ * /v1/admin/* — только роли admin и moderator (roles в access-токене).
+ */
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import * as Moderation from '@modules/moderation';
+import { requireAuth } from '../../middleware/auth.guard';
+import { requireRole } from '../../middleware/role.guard';
+
+const targetType = { type: 'string', enum: Moderation.TARGET_TYPES };
+const reportStatus = { type: 'string', enum: Moderation.REPORT_STATUSES };
+const page = {
+  limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+  cursor: { type: 'string', maxLength: 200 },
+};
+
+export const moderationRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  const staff = requireRole('admin', 'moderator');
+
+  app.post('/v1/reports', {
+    preHandler: [requireAuth()],
+    schema: {
+      body: {
+        type: 'object',
+        required: ['targetType', 'targetId', 'reason'],
+        additionalProperties: false,
+        properties: {
+          targetType,
+          targetId: { type: 'string' },
+          reason: { type: 'string', minLength: 1, maxLength: 100 },
+          comment: { type: ['string', 'null'], maxLength: 2000 },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const report = await Moderation.createReport(req.user!.id, req.body as any);
+      return reply.code(201).send(report);
+    },
+  });
+
+  app.get('/v1/reports', {
+    preHandler: [requireAuth()],
+    schema: { querystring: { type: 'object', properties: page } },
+    handler: async (req, reply) => {
+      const { limit, cursor } = req.query as any;
+      return reply.send(await Moderation.listMyReports(req.user!.id, { limit, cursor }));
+    },
+  });
+
+  app.get('/v1/admin/reports', {
+    preHandler: [staff],
+    schema: { querystring: { type: 'object', properties: { status: reportStatus, targetType, ...page } } },
+    handler: async (req, reply) => {
+      const { status, targetType: type, limit, cursor } = req.query as any;
+      return reply.send(await Moderation.listReports({ status, targetType: type, limit, cursor }));
+    },
+  });
+
+  app.get('/v1/admin/reports/:id', {
+    preHandler: [staff],
+    schema: { params: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } } },
+    handler: async (req, reply) => {
+      const { id } = req.params as any;
+      const report = await Moderation.getReport(id);
+      if (!report) return reply.code(404).send({ error: 'report_not_found' });
+      return reply.send(report);
+    },
+  });
+
+  app.patch('/v1/admin/reports/:id', {
+    preHandler: [staff],
+    schema: {
+      params: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } },
+      body: {
+        type: 'object',
+        required: ['status'],
+        additionalProperties: false,
+        properties: {
+          status: reportStatus,
+          resolution: { type: ['string', 'null'], maxLength: 2000 },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const { id } = req.params as any;
+      return reply.send(await Moderation.updateReport(req.user!.id, id, req.body as any));
+    },
+  });
+
+  app.post('/v1/admin/actions', {
+    preHandler: [staff],
+    schema: {
+      body: {
+        type: 'object',
+        required: ['action', 'targetId'],
+        additionalProperties: false,
+        properties: {
+          action: { type: 'string', enum: Object.keys(Moderation.ACTION_TARGET) },
+          targetId: { type: 'string' },
+          reportId: { type: ['string', 'null'] },
+          reason: { type: ['string', 'null'], maxLength: 500 },
+          durationSec: { type: ['integer', 'null'], minimum: 60 },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const res = await Moderation.takeAction({ id: req.user!.id, roles: req.user!.roles }, req.body as any);
+      return reply.code(res.changed ? 201 : 200).send(res);
+    },
+  });
+
+  app.get('/v1/admin/actions', {
+    preHandler: [staff],
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: { targetType, targetId: { type: 'string' }, actorId: { type: 'string' }, ...page },
+      },
+    },
+    handler: async (req, reply) => {
+      const { targetType: type, targetId, actorId, limit, cursor } = req.query as any;
+      return reply.send(await Moderation.listActions({ targetType: type, targetId, actorId, limit, cursor }));
+    },
+  });
+};
+
+export default moderationRoutes;
@@ -0,0 +1,103 @@
+/**
+ * Fastify routes: Presence
+ *  GET /v1/presence?ids=<uuid>,<uuid>   — online/offline/last-seen (до 100 пользователей)
+ *  GET /v1/presence/:userId             — то же для одного пользователя
+ *
+ * Источник — ключи Redis, которые ведёт realtime-гейтвей (apps/realtime):
+ *  - presence:conns:<userId>     ZSET соединений, score = срок жизни (ms); online ⇔ есть score > now
+ *  - presence:last_seen:<userId> ms последнего ухода в offline
+ * Пользователи в блокировке со зрителем (user_blocks, любая сторона) — «не в сети» без last-seen,
+ * как presence:query гейтвея.
+ *
+ * Требование: (req as any).user.id установлен (см. auth preHandler в main.ts).
+ */
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import Redis from 'ioredis';
+import type { Redis as RedisClient } from 'ioredis';
+import { blockedAmong } from '@modules/users';
+
+const { REDIS_URL = 'redis://redis:6379' } = process.env;
+
+const PRESENCE_QUERY_MAX = 100;
+
+type PresenceItem = { userId: string; status: 'online' | 'offline'; lastSeenAt: string | null };
+
+function isUuid(id: string) { return /^[0-9a-f-]{36}$/i.test(id); }
+
+function requireUser(req: any) {
+  const uid = req.user?.id;
+  if (!uid || !isUuid(String(uid))) {
+    const e: any = new Error('unauthorized'); e.statusCode = 401; throw e;
+  }
+  return String(uid);
+}
+
+async function readPresence(redis: RedisClient, viewerId: string, userIds: string[]): Promise<PresenceItem[]> {
+  const ids = [...new Set(userIds.filter(isUuid))].slice(0, PRESENCE_QUERY_MAX);
+  if (ids.length === 0) return [];
+  const hidden = await blockedAmong(viewerId, ids);
+  const now = Date.now();
+  const p = redis.pipeline();
+  for (const id of ids) {
+    p.zcount(`presence:conns:${id}`, now, '+inf');
+    p.zrevrange(`presence:conns:${id}`, 0, 0, 'WITHSCORES');
+    p.get(`presence:last_seen:${id}`);
+  }
+  const res = (await p.exec()) || [];
+  return ids.map((userId, i): PresenceItem => {
+    if (hidden.has(userId.toLowerCase())) return { userId, status: 'offline', lastSeenAt: null };
+    const online = Number(res[i * 3]?.[1] || 0) > 0;
+    if (online) return { userId, status: 'online', lastSeenAt: null };
+    // инстанс гейтвея упал — last_seen не записан, берём срок последнего хартбита
+    const top = (res[i * 3 + 1]?.[1] as string[] | undefined) || [];
+    const seen = Math.max(Number(res[i * 3 + 2]?.[1] || 0), Number(top[1] || 0));
+    return { userId, status: 'offline', lastSeenAt: seen > 0 ? new Date(Math.min(seen, now)).toISOString() : null };
+  });
+}
+
+export const presenceRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  const redis = new Redis(REDIS_URL, { maxRetriesPerRequest: 3 });
+
+  app.addHook('onClose', async () => {
+    try { await redis.quit(); } catch { try { await redis.disconnect(); } catch {} }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // BATCH
+  // ────────────────────────────────────────────────────────────────────────────
+  app.get('/v1/presence', {
+    schema: {
+      querystring: {
+        type: 'object',
+        required: ['ids'],
+        properties: {
+          ids: { type: 'string', description: 'Comma-separated user UUIDs (max 100)' },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { ids } = req.query as any;
+      const list = String(ids || '').split(',').map((s) => s.trim()).filter(Boolean);
+      if (list.length > PRESENCE_QUERY_MAX) return reply.code(400).send({ error: 'too_many_ids' });
+      const items = await readPresence(redis, uid, list);
+      return reply.send({ items });
+    },
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // SINGLE
+  // ────────────────────────────────────────────────────────────────────────────
+  app.get('/v1/presence/:userId', {
+    schema: { params: { type: 'object', required: ['userId'], properties: { userId: { type: 'string' } } } },
+    handler: async (req, reply) => {
+      const uid = requireUser(req);
+      const { userId } = req.params as any;
+      if (!isUuid(String(userId))) return reply.code(400).send({ error: 'invalid_id' });
+      const [item] = await readPresence(redis, uid, [String(userId)]);
+      return reply.send(item);
+    },
+  });
+};
+
+export default presenceRoutes;
@@ -0,0 +1,197 @@
+/**
+ * Fastify routes: Users (профили и каталог)
+ *  GET    /v1/users/me                 — свой профиль (email, роли, privacy)
+ *  PATCH  /v1/users/me                 — изменить displayName/nickname/bio/avatarMediaId/privacy
+ *  GET    /v1/users                    — каталог: ?q=&limit=&cursor= (keyset; скрывает discoverable=false)
+ *  GET    /v1/users/:idOrNickname      — публичный профиль (bio/аватар/email — по privacy владельца)
+ *  GET    /v1/users/me/blocks          — мой блок-лист (keyset: ?limit=&cursor=)
+ *  PUT    /v1/users/me/blocks/:userId  — заблокировать (идемпотентно)
+ *  DELETE /v1/users/me/blocks/:userId  — разблокировать
+ *  POST   /v1/users/me/deletion        — запросить удаление аккаунта (пароль; отзывает все сессии)
+ *  DELETE /v1/users/me/deletion        — отменить удаление (вход в течение срока тоже отменяет)
+ *  POST   /v1/users/me/exports         — заказать выгрузку данных (zip в S3, собирает воркер user-data)
+ *  GET    /v1/users/me/exports         — мои выгрузки
+ *  GET    /v1/users/me/exports/:id     — статус выгрузки и ссылка на архив, когда готов
+ *
+ * Все маршруты требуют аутентификации; «everyone» в privacy — любой вошедший пользователь.
+ */
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import * as Users from '@modules/users';
+import { requireAuth } from '../../middleware/auth.guard';
+
+const audience = { type: 'string', enum: ['everyone', 'contacts', 'nobody'] };
+
+const profileSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    displayName: { type: 'string' },
+    nickname: { type: ['string', 'null'] },
+    bio: { type: ['string', 'null'] },
+    avatarMediaId: { type: ['string', 'null'] },
+    email: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+  },
+};
+
+export const usersRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  app.get('/v1/users/me', {
+    preHandler: [requireAuth()],
+    handler: async (req, reply) => {
+      const me = await Users.getMe(req.user!.id);
+      if (!me) return reply.code(404).send({ error: 'user_not_found' });
+      return reply.send(me);
+    },
+  });
+
+  app.patch('/v1/users/me', {
+    preHandler: [requireAuth()],
+    schema: {
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          displayName: { type: 'string', minLength: 1, maxLength: 64 },
+          nickname: { type: ['string', 'null'], maxLength: 33 },
+          bio: { type: ['string', 'null'], maxLength: 500 },
+          avatarMediaId: { type: ['string', 'null'] },
+          privacy: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              profile: audience,
+              email: audience,
+              discoverable: { type: 'boolean' },
+              messages: audience,
+              groupInvites: audience,
+            },
+          },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const me = await Users.updateProfile(req.user!.id, (req.body as any) || {});
+      if (!me) return reply.code(404).send({ error: 'user_not_found' });
+      return reply.send(me);
+    },
+  });
+
+  app.get('/v1/users', {
+    preHandler: [requireAuth()],
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          q: { type: 'string', maxLength: 100 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          cursor: { type: 'string', maxLength: 200 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            items: { type: 'array', items: profileSchema },
+            nextCursor: { type: ['string', 'null'] },
+          },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const { q, limit, cursor } = req.query as any;
+      return reply.send(await Users.listUsers({ q, limit, cursor, viewerId: req.user!.id }));
+    },
+  });
+
+  app.get('/v1/users/me/blocks', {
+    preHandler: [requireAuth()],
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          cursor: { type: 'string', maxLength: 200 },
+        },
+      },
+    },
+    handler: async (req, reply) => {
+      const { limit, cursor } = req.query as any;
+      return reply.send(await Users.listBlocks(req.user!.id, { limit, cursor }));
+    },
+  });
+
+  app.put('/v1/users/me/blocks/:userId', {
+    preHandler: [requireAuth()],
+    schema: { params: { type: 'object', required: ['userId'], properties: { userId: { type: 'string' } } } },
+    handler: async (req, reply) => {
+      const { userId } = req.params as any;
+      return reply.send(await Users.blockUser(req.user!.id, userId));
+    },
+  });
+
+  app.delete('/v1/users/me/blocks/:userId', {
+    preHandler: [requireAuth()],
+    schema: { params: { type: 'object', required: ['userId'], properties: { userId: { type: 'string' } } } },
+    handler: async (req, reply) => {
+      const { userId } = req.params as any;
+      return reply.send(await Users.unblockUser(req.user!.id, userId));
+    },
+  });
+
+  app.post('/v1/users/me/deletion', {
+    preHandler: [requireAuth()],
+    schema: {
+      body: {
+        type: ['object', 'null'],
+        additionalProperties: false,
+        properties: { password: { type: 'string', maxLength: 256 } },
+      },
+    },
+    handler: async (req, reply) => {
+      const res = await Users.requestAccountDeletion(req.user!.id, (req.body as any) || {});
+      return reply.code(202).send(res);
+    },
+  });
+
+  app.delete('/v1/users/me/deletion', {
+    preHandler: [requireAuth()],
+    handler: async (req, reply) => reply.send(await Users.cancelAccountDeletion(req.user!.id)),
+  });
+
+  app.post('/v1/users/me/exports', {
+    preHandler: [requireAuth()],
+    handler: async (req, reply) => reply.code(202).send(await Users.requestExport(req.user!.id)),
+  });
+
+  app.get('/v1/users/me/exports', {
+    preHandler: [requireAuth()],
+    handler: async (req, reply) => reply.send(await Users.listExports(req.user!.id)),
+  });
+
+  app.get('/v1/users/me/exports/:id', {
+    preHandler: [requireAuth()],
+    schema: { params: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } } },
+    handler: async (req, reply) => {
+      const { id } = req.params as any;
+      const exp = await Users.getExport(req.user!.id, id);
+      if (!exp) return reply.code(404).send({ error: 'export_not_found' });
+      return reply.send(exp);
+    },
+  });
+
+  app.get('/v1/users/:idOrNickname', {
+    preHandler: [requireAuth()],
+    schema: {
+      params: { type: 'object', required: ['idOrNickname'], properties: { idOrNickname: { type: 'string', maxLength: 64 } } },
+      response: { 200: profileSchema },
+    },
+    handler: async (req, reply) => {
+      const { idOrNickname } = req.params as any;
+      const profile = await Users.getProfile(idOrNickname, req.user!.id);
+      if (!profile) return reply.code(404).send({ error: 'user_not_found' });
+      return reply.send(profile);
+    },
+  });
+};
+
+export default usersRoutes;
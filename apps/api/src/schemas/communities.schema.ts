@@ -48,3 +48,37 @@ export const ListCommunitiesQuery = z.object({
   limit: z.coerce.number().int().min(1).max(100).optional(),
   cursor: z.string().optional()
 });
+
+export const InviteDTO = z.object({
+  code: z.string(),
+  community_id: z.string(),
+  created_by: z.string().nullable(),
+  max_uses: z.number().nullable(),
+  uses: z.number(),
+  expires_at: z.string().nullable(),
+  revoked_at: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const CreateInviteBody = z.object({
+  maxUses: z.number().int().min(1).max(100000).nullable().optional(),
+  expiresInSec: z.number().int().min(60).max(60 * 60 * 24 * 365).nullable().optional()
+});
+
+export const CommunityPostDTO = z.object({
+  id: z.string(),
+  community_id: z.string(),
+  author_id: z.string().nullable(),
+  body: z.string(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export const CreateCommunityPostBody = z.object({
+  body: z.string().min(1).max(10000)
+});
+
+export const PageQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().optional()
+});
@@ -5,18 +5,59 @@
  * Функции:
  *  - WS /ws — авторизация по Bearer (JWT или HMAC), привязка к userId
  *  - Управление подписками на топики (user, conv:<id>, channel:<id>, feed)
+ *  - Авторизация подписок: rt:user — только свой, rt:conv — активный участник, rt:channel —
+ *    публичный/unlisted канал или участник приватного; subscribe/resume проверяют доступ заново
+ *    (кэшируются только отказы), typing — по короткому кэшу разрешений (WS_AUTHZ_CACHE_MS)
+ *  - Инвалидация по conversation:members / channel:members / channel:updated(visibility):
+ *    сокеты, потерявшие доступ, принудительно отписываются ({ type: "unsubscribed", reason })
+ *  - Баны: auth:banned:<userId> (ставит modules/moderation) проверяется при подключении и перед
+ *    каждой записью; по user:banned в rt:user все сокеты пользователя закрываются (4403 banned)
  *  - Автоподписка: user:<userId> + активные беседы и подписанные каналы (из БД)
  *  - Хартбит/пинг, защита от флуд-подписок, graceful shutdown
  *  - Мультиплекс: Redis Pub/Sub → локальные WebSocket клиенты по топику
+ *  - Typing: typing:start/typing:stop (только участники беседы), серверное истечение по TYPING_TTL_MS
+ *  - Presence: online/offline/last-seen в Redis (общий для всех инстансов гейтвея)
+ *  - Блокировки (user_blocks): заблокированные в любую сторону не видят presence друг друга
+ *    (подписка rt:presence:<id> запрещена, presence:query отдаёт offline без last-seen) и не
+ *    получают typing друг друга; кэш на инстанс (60s), сброс по user:block
+ *
+ * Клиентские действия:
+ *  { "action": "subscribe" | "unsubscribe", "topics": [...] }
+ *  { "action": "ping" }
+ *  { "action": "typing:start" | "typing:stop", "conversationId": "<uuid>" }
+ *  { "action": "presence:query", "userIds": ["<uuid>", ...] }   → { ok, type: "presence", items }
+ *  { "action": "resume", "positions": { "<topic>": "<last seq>" } } → пропущенные события + { ok, type: "resumed", topics }
+ *  { "action": "message:send", "clientId", "conversationId", "kind": "text"|"media", "text"?, "mediaId"?, "caption"?, "replyToId"? }
+ *  { "action": "receipt:delivered" | "receipt:read", "conversationId", "messageIds": [...], "clientId"? }
+ *    → { ok: true, type: "ack", action, clientId, ... } | { ok: false, error, action, clientId }
+ *    Запись идёт через MessagesService (те же правила, что у REST); повтор message:send
+ *    с тем же clientId возвращает исходное сообщение с duplicate: true.
  *
  * Топики Redis Pub/Sub:
  *  - rt:user:<userId>
  *  - rt:conv:<conversationId>
  *  - rt:channel:<channelId>
  *  - rt:feed
+ *  - rt:presence:<userId>   (presence:update — online/offline)
+ *
+ * Presence в Redis (ключи читает и REST /v1/presence в apps/api):
+ *  - presence:conns:<userId>     ZSET: member = <instance>:<conn>, score = срок жизни соединения (ms);
+ *                                продлевается хартбитом; online ⇔ есть score > now
+ *  - presence:last_seen:<userId> ms последнего ухода в offline
  *
  * Формат publish-сообщений (JSON):
- *  { "event": "message:new", "topic": "rt:conv:<id>", "ts": 1700000000000, "data": {...} }
+ *  { "seq": "1700000000000-0", "event": "message:new", "topic": "rt:conv:<id>", "ts": 1700000000000, "data": {...} }
+ *
+ * Журнал событий и resume:
+ *  - outbox-relay пишет каждое событие в Redis Stream log:<topic> (MAXLEN ~ RT_LOG_MAXLEN);
+ *    id записи — seq, монотонно растёт внутри топика. Служебные события гейтвея
+ *    (typing/presence) эфемерны и seq не имеют.
+ *  - resume: топик подписывается, события после seq досылаются из журнала, живые события
+ *    на время досылки буферизуются (без дублей и перестановок). Автоподписанные при подключении
+ *    топики до resume удерживаются: их живые события копятся, пока клиент не пришлёт resume или
+ *    другое действие (кроме ping), но не дольше WS_RESUME_HOLD_MS (./replay). Если seq уже вытеснен из
+ *    журнала или пропущено больше WS_RESUME_MAX событий — status "resync": клиент
+ *    перечитывает состояние через REST.
  *
  * ENV:
  *  PORT (default 8080)
@@ -26,6 +67,11 @@
  *  AUTH_HMAC_SECRET — альтернативно, HMAC подпись X-Timestamp:X-User-Id (см. verifyHmacAuth)
  *  WS_MAX_SUBS (default 200)
  *  WS_PING_INTERVAL_MS (default 25000)
+ *  WS_RESUME_MAX (default 500) — сколько событий на топик можно дослать при resume
+ *  WS_RESUME_HOLD_MS (default 2000) — сколько после welcome удерживать события автоподписок в ожидании resume
+ *  WS_AUTHZ_CACHE_MS (default 5000) — TTL разрешений для typing (отказы — 5s); subscribe/resume его не используют
+ *  TYPING_TTL_MS (default 6000) — через сколько без повторного typing:start рассылается typing:stop
+ *  PRESENCE_TTL_MS (default 60000) — срок жизни записи соединения без хартбита (падение инстанса)
  */
 
 import Fastify from 'fastify';
@@ -35,6 +81,9 @@ import Redis from 'ioredis';
 import { Pool } from 'pg';
 import jwt from 'jsonwebtoken';
 import crypto from 'node:crypto';
+import os from 'node:os';
+import { MessagesService } from '@modules/messages';
+import { ReplayGate } from './replay.js';
 
 const {
   PORT = '8080',
@@ -44,6 +93,11 @@ const {
   AUTH_HMAC_SECRET = '',
   WS_MAX_SUBS = '200',
   WS_PING_INTERVAL_MS = '25000',
+  WS_AUTHZ_CACHE_MS = '5000',
+  WS_RESUME_MAX = '500',
+  WS_RESUME_HOLD_MS = '2000',
+  TYPING_TTL_MS = '6000',
+  PRESENCE_TTL_MS = '60000',
 } = process.env;
 
 if (!AUTH_JWT_SECRET) {
@@ -54,14 +108,49 @@ type AuthedUser = { id: string };
 type ClientMsg =
   | { action: 'subscribe'; topics: string[] }
   | { action: 'unsubscribe'; topics: string[] }
-  | { action: 'ping' };
+  | { action: 'ping' }
+  | { action: 'typing:start'; conversationId: string }
+  | { action: 'typing:stop'; conversationId: string }
+  | { action: 'presence:query'; userIds: string[] }
+  | { action: 'resume'; positions: Record<string, string> }
+  | {
+      action: 'message:send';
+      clientId: string;
+      conversationId: string;
+      kind?: 'text' | 'media';
+      text?: string;
+      mediaId?: string;
+      caption?: string | null;
+      replyToId?: string | null;
+    }
+  | { action: 'receipt:delivered' | 'receipt:read'; conversationId: string; messageIds: string[]; clientId?: string };
+type WriteAction = 'message:send' | 'receipt:delivered' | 'receipt:read';
+type ResumeResult = {
+  topic: string;
+  status: 'ok' | 'resync' | 'forbidden';
+  replayed: number;
+  reason?: 'log_trimmed' | 'gap_too_large' | 'invalid_seq';
+};
+type PresenceItem = { userId: string; status: 'online' | 'offline'; lastSeenAt: string | null };
 type ServerMsg =
   | { ok: true; type: 'welcome'; userId: string }
   | { ok: true; type: 'subscribed'; topics: string[] }
-  | { ok: true; type: 'unsubscribed'; topics: string[] }
+  | { ok: true; type: 'unsubscribed'; topics: string[]; reason?: string }
   | { ok: true; type: 'pong'; ts: number }
-  | { ok: false; error: string }
-  | { event: string; topic: string; ts: number; data: any };
+  | { ok: true; type: 'presence'; items: PresenceItem[] }
+  | { ok: true; type: 'resumed'; topics: ResumeResult[] }
+  | {
+      ok: true;
+      type: 'ack';
+      action: WriteAction;
+      clientId: string | null;
+      conversationId: string;
+      messageId?: string;
+      createdAt?: string;
+      duplicate?: boolean;
+    }
+  | { ok: false; error: string; topics?: string[]; action?: WriteAction; clientId?: string | null }
+  | { seq?: string; event: string; topic: string; ts: number; data: any };
 
 const app = Fastify({ logger: false });
 await app.register(websocket, { options: { clientTracking: false } });
@@ -74,6 +163,7 @@ const pool = new Pool({
   idle_in_transaction_session_timeout: 8000,
   max: 10,
 });
+const messages = new MessagesService(pool);
 
 // ────────────────────────────────────────────────────────────────────────────
 // Auth helpers
@@ -110,14 +200,32 @@ function verifyHmacAuth(headers: Record<string, any>): AuthedUser | null {
   return { id: uid };
 }
 
+/** Ключ бана ставит modules/moderation (banKey); его же проверяет requireAuth в apps/api. */
+async function isBanned(userId: string): Promise<boolean> {
+  return !!(await pub.get(`auth:banned:${userId}`));
+}
+
+/** Закрыть все сокеты пользователя на этом инстансе (бан). */
+function closeUserSockets(userId: string) {
+  for (const ctx of Array.from(sockets)) {
+    if (ctx.userId.toLowerCase() !== userId.toLowerCase()) continue;
+    try { ctx.ws.close(4403, 'banned'); } catch {}
+  }
+}
+
 // ────────────────────────────────────────────────────────────────────────────
 // Topic registry & Redis subscription management
 // ────────────────────────────────────────────────────────────────────────────
 type SocketCtx = {
   userId: string;
+  connId: string;
   ws: WebSocket;
   subs: Set<string>;
   lastPongAt: number;
+  typing: Map<string, { timer: NodeJS.Timeout; announcedAt: number }>;
+  gate: ReplayGate<ServerMsg>; // живые события, отложенные до resume / на время досылки журнала
+  holdTimer: NodeJS.Timeout | null;
+  released: boolean;
 };
 
 const topicToSockets = new Map<string, Set<SocketCtx>>();
@@ -128,7 +236,13 @@ function isAllowedTopic(s: string): boolean {
   return s === 'rt:feed' ||
          /^rt:user:[0-9a-f-]{36}$/i.test(s) ||
          /^rt:conv:[0-9a-f-]{36}$/i.test(s) ||
-         /^rt:channel:[0-9a-f-]{36}$/i.test(s);
+         /^rt:channel:[0-9a-f-]{36}$/i.test(s) ||
+         /^rt:presence:[0-9a-f-]{36}$/i.test(s);
+}
+
+/** Публикация служебных событий гейтвея (typing/presence) — тот же формат, что у outbox-relay. */
+async function publishRt(topic: string, event: string, data: Record<string, any>) {
+  await pub.publish(topic, JSON.stringify({ event, topic, ts: Date.now(), data }));
 }
 
 async function redisSubscribe(topic: string) {
@@ -150,17 +264,204 @@ async function redisUnsubscribe(topic: string) {
   }
 }
 
+async function attachTopic(ctx: SocketCtx, topic: string) {
+  if (ctx.subs.has(topic)) return;
+  await redisSubscribe(topic);
+  ctx.subs.add(topic);
+  if (!topicToSockets.has(topic)) topicToSockets.set(topic, new Set());
+  topicToSockets.get(topic)!.add(ctx);
+}
+
+async function detachTopic(ctx: SocketCtx, topic: string) {
+  if (!ctx.subs.has(topic)) return;
+  ctx.subs.delete(topic);
+  ctx.gate.drop(topic);
+  topicToSockets.get(topic)?.delete(ctx);
+  if ((topicToSockets.get(topic)?.size || 0) === 0) topicToSockets.delete(topic);
+  await redisUnsubscribe(topic);
+}
+
 sub.on('message', (_channel, message) => {
   let msg: ServerMsg | null = null;
   try { msg = JSON.parse(message); } catch { return; }
   if (!msg || typeof (msg as any).topic !== 'string') return;
   const topic = (msg as any).topic as string;
+  const set = topicToSockets.get(topic);
+  if (set && set.size > 0) {
+    const typingFrom = (msg as any).event?.startsWith('typing:') ? String((msg as any).data?.userId || '') : '';
+    // user:block приходит в rt:user обеих сторон, клиентам — только блокирующему
+    const { event, data } = msg as { event?: string; data?: { by?: string } };
+    const blockBy = event === 'user:block' ? String(data?.by || '') : '';
+    for (const ctx of Array.from(set)) {
+      if (typingFrom && isHiddenPair(ctx.userId, typingFrom)) continue;
+      if (blockBy && ctx.userId.toLowerCase() !== blockBy.toLowerCase()) continue;
+      ctx.gate.live(topic, msg);
+    }
+  }
+  // само событие удаления ещё доставлено участнику, дальше — пересмотр доступа
+  onAccessEvent(topic, msg as any).catch((e) => console.warn('authz revalidate failed', e));
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// Topic authorization (кэш решений на инстанс)
+// ────────────────────────────────────────────────────────────────────────────
+// Разрешение сбрасывается только событием в топике, а до инстансов, где пользователь не подписан
+// на этот топик, оно не доходит — поэтому subscribe/resume разрешению из кэша не верят.
+const authzAllowTtlMs = Math.max(1_000, Number(WS_AUTHZ_CACHE_MS) || 5_000);
+const AUTHZ_DENY_TTL_MS = 5_000;
+const BLOCK_CACHE_TTL_MS = 60_000;
+const AUTHZ_CACHE_MAX = 50_000;
+const authzCache = new Map<string, { ok: boolean; until: number }>(); // `${userId}|${topic}`
+
+function authzKey(userId: string, topic: string) { return `${userId}|${topic}`; }
+
+function invalidateAuthz(userId: string, topic: string) {
+  authzCache.delete(authzKey(userId, topic));
+}
+
+function invalidateAuthzTopic(topic: string) {
+  const suffix = `|${topic}`;
+  for (const k of authzCache.keys()) if (k.endsWith(suffix)) authzCache.delete(k);
+}
+
+function rememberAuthz(userId: string, topic: string, ok: boolean) {
+  const now = Date.now();
+  if (authzCache.size >= AUTHZ_CACHE_MAX) {
+    for (const [k, v] of authzCache) if (v.until <= now) authzCache.delete(k);
+    if (authzCache.size >= AUTHZ_CACHE_MAX) authzCache.clear();
+  }
+  authzCache.set(authzKey(userId, topic), { ok, until: now + (ok ? authzAllowTtlMs : AUTHZ_DENY_TTL_MS) });
+}
+
+async function checkTopicAccess(userId: string, topic: string): Promise<boolean> {
+  if (topic === 'rt:feed') return true;
+  const [, kind, id] = topic.split(':');
+  if (kind === 'user') return id.toLowerCase() === userId.toLowerCase();
+  if (kind === 'presence') return !(await blocksFor(userId)).has(id.toLowerCase());
+  if (kind === 'conv') {
+    const q = await pool.query(
+      `SELECT 1 FROM conversation_members
+        WHERE conversation_id = $1 AND user_id = $2 AND left_at IS NULL
+        LIMIT 1`,
+      [id, userId]
+    );
+    return !!q.rowCount;
+  }
+  if (kind === 'channel') {
+    // приватные каналы — только участникам (как ChannelsService.getByIdOrSlug)
+    const q = await pool.query(
+      `SELECT 1
+         FROM channels c
+        WHERE c.id = $1 AND c.deleted_at IS NULL
+          AND (c.visibility <> 'private'
+               OR EXISTS (SELECT 1 FROM channel_members cm
+                           WHERE cm.channel_id = c.id AND cm.user_id = $2 AND cm.left_at IS NULL))
+        LIMIT 1`,
+      [id, userId]
+    );
+    return !!q.rowCount;
+  }
+  return false;
+}
+
+/** fresh — проверить по БД даже при закэшированном разрешении (кэшированный отказ действует). */
+async function canAccessTopic(userId: string, topic: string, fresh = false): Promise<boolean> {
+  const hit = authzCache.get(authzKey(userId, topic));
+  if (hit && hit.until > Date.now() && !(fresh && hit.ok)) return hit.ok;
+  const ok = await checkTopicAccess(userId, topic);
+  rememberAuthz(userId, topic, ok);
+  return ok;
+}
+
+/** Принудительная отписка сокетов пользователя, если доступ к топику пропал. */
+async function revalidateTopic(topic: string, userId?: string) {
   const set = topicToSockets.get(topic);
   if (!set || set.size === 0) return;
+  const verdicts = new Map<string, boolean>();
   for (const ctx of Array.from(set)) {
-    try { ctx.ws.send(JSON.stringify(msg)); } catch {}
+    if (userId && ctx.userId !== userId) continue;
+    if (!verdicts.has(ctx.userId)) verdicts.set(ctx.userId, await canAccessTopic(ctx.userId, topic));
+    if (verdicts.get(ctx.userId)) continue;
+    if (topic.startsWith('rt:conv:')) {
+      try { await typingStop(ctx, topic.slice('rt:conv:'.length), 'disconnect'); } catch {}
+    }
+    await detachTopic(ctx, topic);
+    try {
+      ctx.ws.send(JSON.stringify({ ok: true, type: 'unsubscribed', topics: [topic], reason: 'access_revoked' } satisfies ServerMsg));
+    } catch {}
   }
-});
+}
+
+async function onAccessEvent(topic: string, msg: { event?: string; data?: any }) {
+  const data = msg.data || {};
+  if (msg.event === 'user:banned' && topic.startsWith('rt:user:')) {
+    closeUserSockets(topic.slice('rt:user:'.length));
+    return;
+  }
+  if (msg.event === 'user:block' && topic.startsWith('rt:user:')) {
+    // топик — любая из сторон, data.userId — другая; сброс симметричен
+    const blocker = topic.slice('rt:user:'.length).toLowerCase();
+    const blocked = typeof data.userId === 'string' ? data.userId.toLowerCase() : '';
+    if (!isUuid(blocker) || !isUuid(blocked)) return;
+    blockCache.delete(blocker);
+    blockCache.delete(blocked);
+    invalidateAuthz(blocked, `rt:presence:${blocker}`);
+    invalidateAuthz(blocker, `rt:presence:${blocked}`);
+    if (data.action === 'blocked') {
+      await revalidateTopic(`rt:presence:${blocker}`, blocked);
+      await revalidateTopic(`rt:presence:${blocked}`, blocker);
+    }
+    return;
+  }
+  if (msg.event === 'conversation:members' || msg.event === 'channel:members') {
+    const uid = typeof data.userId === 'string' ? data.userId : '';
+    if (!isUuid(uid)) return;
+    invalidateAuthz(uid, topic);
+    if (data.action === 'removed') await revalidateTopic(topic, uid);
+    return;
+  }
+  if (msg.event === 'channel:updated' && data.visibility !== undefined) {
+    invalidateAuthzTopic(topic);
+    if (data.visibility === 'private') await revalidateTopic(topic);
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Blocks (кэш на инстанс): id пользователей, заблокированных userId или заблокировавших его
+// ────────────────────────────────────────────────────────────────────────────
+const blockCache = new Map<string, { ids: Set<string>; until: number; loading?: Promise<Set<string>> }>();
+
+async function blocksFor(userId: string): Promise<Set<string>> {
+  const key = userId.toLowerCase();
+  const hit = blockCache.get(key);
+  if (hit && hit.until > Date.now()) return hit.ids;
+  if (hit?.loading) return hit.loading;
+  const loading = (async () => {
+    const q = await pool.query(
+      `SELECT blocked_id AS id FROM user_blocks WHERE blocker_id = $1
+       UNION
+       SELECT blocker_id AS id FROM user_blocks WHERE blocked_id = $1`,
+      [key]
+    );
+    const ids = new Set<string>(q.rows.map((r: any) => String(r.id).toLowerCase()));
+    blockCache.set(key, { ids, until: Date.now() + BLOCK_CACHE_TTL_MS });
+    return ids;
+  })();
+  blockCache.set(key, { ids: hit?.ids ?? new Set(), until: 0, loading });
+  try {
+    return await loading;
+  } catch (e) {
+    blockCache.delete(key);
+    throw e;
+  }
+}
+
+/** Синхронная проверка для рассылки: берём кэш зрителя (загружен при подключении), протухший — обновляем в фоне. */
+function isHiddenPair(viewerId: string, otherId: string): boolean {
+  const hit = blockCache.get(viewerId.toLowerCase());
+  if (!hit || hit.until <= Date.now()) blocksFor(viewerId).catch((e) => console.warn('blocks refresh failed', e));
+  return !!hit?.ids.has(otherId.toLowerCase());
+}
 
 // ────────────────────────────────────────────────────────────────────────────
 // Bootstrap auto-subscriptions from DB
@@ -182,11 +483,15 @@ async function preloadUserTopics(userId: string): Promise<string[]> {
       topics.add(`rt:conv:${String(r.id)}`);
     }
 
-    // Подписанные каналы
+    // Подписанные каналы (приватные — только если пользователь участник)
     const ch = await pool.query(
-      `SELECT channel_id AS id
-         FROM channel_follows
-        WHERE user_id = $1
+      `SELECT f.channel_id AS id
+         FROM channel_follows f
+         JOIN channels c ON c.id = f.channel_id AND c.deleted_at IS NULL
+        WHERE f.user_id = $1
+          AND (c.visibility <> 'private'
+               OR EXISTS (SELECT 1 FROM channel_members cm
+                           WHERE cm.channel_id = c.id AND cm.user_id = $1 AND cm.left_at IS NULL))
         LIMIT 500`,
       [userId]
     );
@@ -197,9 +502,232 @@ async function preloadUserTopics(userId: string): Promise<string[]> {
     console.warn('preload topics failed', e);
   }
 
+  // выборка из БД — то же решение, что дала бы проверка доступа
+  for (const t of topics) rememberAuthz(userId, t, true);
   return Array.from(topics);
 }
 
+// ────────────────────────────────────────────────────────────────────────────
+// Resume from the per-topic event log
+// ────────────────────────────────────────────────────────────────────────────
+const resumeMax = Math.max(1, Math.min(Number(WS_RESUME_MAX) || 500, 10_000));
+const resumeHoldMs = Math.max(0, Math.min(Number(WS_RESUME_HOLD_MS) || 2_000, 30_000));
+
+function isSeq(s: string) { return /^\d{1,16}-\d{1,16}$/.test(s); }
+
+/** Отпустить удержанные автоподписки: клиент начал работу без resume или время вышло. */
+function releaseHeld(ctx: SocketCtx) {
+  if (ctx.holdTimer) { clearTimeout(ctx.holdTimer); ctx.holdTimer = null; }
+  ctx.gate.release();
+}
+
+function logEntryToMsg(id: string, fields: string[]): ServerMsg | null {
+  const i = fields.indexOf('msg');
+  if (i < 0 || i + 1 >= fields.length) return null;
+  try { return { seq: id, ...JSON.parse(fields[i + 1]) }; } catch { return null; }
+}
+
+/** Подписка + досылка событий после `after`. Вызывать после проверки доступа. */
+async function resumeTopic(ctx: SocketCtx, topic: string, after: string): Promise<ResumeResult> {
+  const key = `log:${topic}`;
+  // null — досылки не было, отложенное отдаётся целиком
+  return ctx.gate.replay(topic, async (): Promise<{ result: ResumeResult; lastSent: string | null }> => {
+    await attachTopic(ctx, topic);
+    if (!isSeq(after)) return { result: { topic, status: 'resync', replayed: 0, reason: 'invalid_seq' }, lastSent: null };
+
+    // якорь должен ещё лежать в журнале — иначе часть событий после него вытеснена
+    const anchor = await pub.xrange(key, after, after);
+    if (!anchor.length) return { result: { topic, status: 'resync', replayed: 0, reason: 'log_trimmed' }, lastSent: null };
+
+    const entries = await pub.xrange(key, `(${after}`, '+', 'COUNT', resumeMax + 1);
+    if (entries.length > resumeMax) return { result: { topic, status: 'resync', replayed: 0, reason: 'gap_too_large' }, lastSent: null };
+
+    let lastSent = after;
+    for (const [id, fields] of entries) {
+      const msg = logEntryToMsg(id, fields);
+      if (msg) ctx.ws.send(JSON.stringify(msg));
+      lastSent = id;
+    }
+    return { result: { topic, status: 'ok', replayed: entries.length }, lastSent };
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Writes over WS (message:send / receipts) → MessagesService
+// ────────────────────────────────────────────────────────────────────────────
+const RECEIPTS_MAX = 500;
+
+function writeError(e: any): string {
+  const status = Number(e?.statusCode || 0);
+  if (status >= 400 && status < 500) return String(e.message || 'bad_request');
+  console.warn('ws write failed', e);
+  return 'internal';
+}
+
+async function handleWrite(ctx: SocketCtx, msg: Extract<ClientMsg, { action: WriteAction }>): Promise<ServerMsg> {
+  // бан мог прийти, пока событие user:banned ещё в пути
+  if (await isBanned(ctx.userId)) {
+    closeUserSockets(ctx.userId);
+    throw Object.assign(new Error('banned'), { statusCode: 403 });
+  }
+  const conversationId = String(msg.conversationId || '');
+  if (!isUuid(conversationId)) {
+    const e: any = new Error('bad_conversation_id'); e.statusCode = 400; throw e;
+  }
+
+  if (msg.action === 'message:send') {
+    if (!msg.clientId) { const e: any = new Error('client_id_required'); e.statusCode = 400; throw e; }
+    const common = {
+      conversationId,
+      authorId: ctx.userId,
+      replyToId: msg.replyToId ?? null,
+      clientId: String(msg.clientId),
+    };
+    const out = (msg.kind ?? 'text') === 'media'
+      ? await messages.sendMedia({ ...common, mediaId: String(msg.mediaId || ''), caption: msg.caption ?? null })
+      : await messages.sendText({ ...common, text: String(msg.text ?? '') });
+    try { await typingStop(ctx, conversationId, 'stop'); } catch {}
+    return {
+      ok: true, type: 'ack', action: msg.action, clientId: common.clientId, conversationId,
+      messageId: out.id, createdAt: out.createdAt, duplicate: out.duplicate,
+    };
+  }
+
+  const ids = Array.isArray(msg.messageIds) ? [...new Set(msg.messageIds.map(String))] : [];
+  if (ids.length === 0 || ids.length > RECEIPTS_MAX) {
+    const e: any = new Error('bad_message_ids'); e.statusCode = 400; throw e;
+  }
+  if (msg.action === 'receipt:delivered') await messages.markDelivered(ctx.userId, conversationId, ids);
+  else await messages.markRead(ctx.userId, conversationId, ids);
+  return { ok: true, type: 'ack', action: msg.action, clientId: msg.clientId ?? null, conversationId };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Typing indicators
+// ────────────────────────────────────────────────────────────────────────────
+const typingTtlMs = Math.min(30_000, Math.max(2_000, Number(TYPING_TTL_MS) || 6_000));
+
+async function typingStart(ctx: SocketCtx, conversationId: string) {
+  const now = Date.now();
+  const cur = ctx.typing.get(conversationId);
+  const timer = setTimeout(() => {
+    typingStop(ctx, conversationId, 'timeout').catch((e) => console.warn('typing timeout publish failed', e));
+  }, typingTtlMs);
+  if (cur) {
+    clearTimeout(cur.timer);
+    cur.timer = timer;
+    // повторные start чаще TTL/2 только продлевают таймер, без рассылки
+    if (now - cur.announcedAt < typingTtlMs / 2) return;
+    cur.announcedAt = now;
+  } else {
+    ctx.typing.set(conversationId, { timer, announcedAt: now });
+  }
+  await publishRt(`rt:conv:${conversationId}`, 'typing:start', {
+    conversationId, userId: ctx.userId, expiresAt: new Date(now + typingTtlMs).toISOString(),
+  });
+}
+
+async function typingStop(ctx: SocketCtx, conversationId: string, reason: 'stop' | 'timeout' | 'disconnect') {
+  const cur = ctx.typing.get(conversationId);
+  if (!cur) return;
+  clearTimeout(cur.timer);
+  ctx.typing.delete(conversationId);
+  await publishRt(`rt:conv:${conversationId}`, 'typing:stop', { conversationId, userId: ctx.userId, reason });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Presence (общий для всех инстансов через Redis)
+// ────────────────────────────────────────────────────────────────────────────
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+const presenceTtlMs = Math.max(Number(WS_PING_INTERVAL_MS) * 2, Number(PRESENCE_TTL_MS) || 60_000);
+const PRESENCE_QUERY_MAX = 100;
+
+function presenceConnsKey(userId: string) { return `presence:conns:${userId}`; }
+function presenceLastSeenKey(userId: string) { return `presence:last_seen:${userId}`; }
+
+async function presenceOnline(ctx: SocketCtx) {
+  const now = Date.now();
+  const key = presenceConnsKey(ctx.userId);
+  const res = await pub.multi()
+    .zremrangebyscore(key, '-inf', now)
+    .zcard(key)
+    .zadd(key, now + presenceTtlMs, ctx.connId)
+    .pexpire(key, presenceTtlMs * 2)
+    .exec();
+  const before = Number(res?.[1]?.[1] || 0);
+  if (before === 0) {
+    await publishRt(`rt:presence:${ctx.userId}`, 'presence:update', { userId: ctx.userId, status: 'online', lastSeenAt: null });
+  }
+}
+
+async function presenceOffline(ctx: SocketCtx) {
+  const now = Date.now();
+  const key = presenceConnsKey(ctx.userId);
+  const res = await pub.multi()
+    .zrem(key, ctx.connId)
+    .zremrangebyscore(key, '-inf', now)
+    .zcard(key)
+    .exec();
+  const left = Number(res?.[2]?.[1] || 0);
+  if (left > 0) return; // у пользователя есть другие живые соединения
+  await pub.set(presenceLastSeenKey(ctx.userId), String(now));
+  await publishRt(`rt:presence:${ctx.userId}`, 'presence:update', {
+    userId: ctx.userId, status: 'offline', lastSeenAt: new Date(now).toISOString(),
+  });
+}
+
+async function presenceHeartbeat() {
+  if (sockets.size === 0) return;
+  const expiresAt = Date.now() + presenceTtlMs;
+  const p = pub.pipeline();
+  for (const ctx of sockets) {
+    if (ctx.released) continue;
+    const key = presenceConnsKey(ctx.userId);
+    p.zadd(key, expiresAt, ctx.connId);
+    p.pexpire(key, presenceTtlMs * 2);
+  }
+  await p.exec();
+}
+
+async function presenceQuery(viewerId: string, userIds: string[]): Promise<PresenceItem[]> {
+  const ids = [...new Set(userIds.filter(isUuid))].slice(0, PRESENCE_QUERY_MAX);
+  if (ids.length === 0) return [];
+  const hidden = await blocksFor(viewerId);
+  const now = Date.now();
+  const p = pub.pipeline();
+  for (const id of ids) {
+    p.zcount(presenceConnsKey(id), now, '+inf');
+    p.zrevrange(presenceConnsKey(id), 0, 0, 'WITHSCORES');
+    p.get(presenceLastSeenKey(id));
+  }
+  const res = (await p.exec()) || [];
+  return ids.map((userId, i) => {
+    // заблокированным — «не в сети», без last-seen (как у давно не заходившего)
+    if (hidden.has(userId.toLowerCase())) return { userId, status: 'offline', lastSeenAt: null };
+    const online = Number(res[i * 3]?.[1] || 0) > 0;
+    if (online) return { userId, status: 'online', lastSeenAt: null };
+    // при падении инстанса last_seen не записан — берём срок последнего хартбита
+    const top = (res[i * 3 + 1]?.[1] as string[] | undefined) || [];
+    const seen = Math.max(Number(res[i * 3 + 2]?.[1] || 0), Number(top[1] || 0));
+    return { userId, status: 'offline', lastSeenAt: seen > 0 ? new Date(Math.min(seen, now)).toISOString() : null };
+  });
+}
+
+/** Освобождение ресурсов сокета (close / shutdown) — идемпотентно. */
+async function releaseSocket(ctx: SocketCtx) {
+  if (ctx.released) return;
+  ctx.released = true;
+  sockets.delete(ctx);
+  if (ctx.holdTimer) { clearTimeout(ctx.holdTimer); ctx.holdTimer = null; }
+  for (const cid of Array.from(ctx.typing.keys())) {
+    try { await typingStop(ctx, cid, 'disconnect'); } catch {}
+  }
+  try { await presenceOffline(ctx); } catch (e) { console.warn('presence offline failed', e); }
+  if (![...sockets].some((c) => c.userId === ctx.userId)) blockCache.delete(ctx.userId.toLowerCase());
+  // отписка всех топиков
+  for (const t of Array.from(ctx.subs)) await detachTopic(ctx, t);
+}
+
 // ────────────────────────────────────────────────────────────────────────────
 app.register(async (f) => {
   f.get('/healthz', async () => ({ ok: true }));
@@ -214,22 +742,61 @@ app.register(async (f) => {
       try { (conn.socket as WebSocket).close(4401, 'unauthorized'); } catch {}
       return;
     }
+    let banned: boolean;
+    try { banned = await isBanned(user.id); } catch (e) {
+      console.warn('ban check failed', e);
+      try { (conn.socket as WebSocket).close(1011, 'internal'); } catch {}
+      return;
+    }
+    if (banned) {
+      try { (conn.socket as WebSocket).close(4403, 'banned'); } catch {}
+      return;
+    }
+    // закрыт во время проверки бана — close уже не придёт к обработчику ниже
+    if ((conn.socket as WebSocket).readyState !== WebSocket.OPEN) return;
 
     const ws = conn.socket as WebSocket;
-    const ctx: SocketCtx = { userId: user.id, ws, subs: new Set(), lastPongAt: Date.now() };
-    sockets.add(ctx);
+    const ctx: SocketCtx = {
+      userId: user.id,
+      connId: `${INSTANCE_ID}:${crypto.randomUUID()}`,
+      ws,
+      subs: new Set(),
+      lastPongAt: Date.now(),
+      typing: new Map(),
+      gate: new ReplayGate<ServerMsg>((m) => { try { ws.send(JSON.stringify(m)); } catch {} }),
+      holdTimer: null,
+      released: false,
+    };
+
+    // close — до первого await: сокет, закрытый во время рукопожатия, иначе остался бы в sockets
+    // и presence навсегда. Освобождение ждёт конца рукопожатия, чтобы снять и то, что оно успело записать.
+    let handshake: Promise<void> = Promise.resolve();
+    ws.on('close', async () => {
+      await handshake.catch(() => {});
+      await releaseSocket(ctx);
+    });
 
-    // Autoload initial topics
-    const initTopics = await preloadUserTopics(user.id);
     const maxSubs = Math.max(1, Number(WS_MAX_SUBS) || 200);
-    for (const t of initTopics.slice(0, maxSubs)) {
-      await redisSubscribe(t);
-      ctx.subs.add(t);
-      if (!topicToSockets.has(t)) topicToSockets.set(t, new Set());
-      topicToSockets.get(t)!.add(ctx);
-    }
+    sockets.add(ctx);
+    handshake = (async () => {
+      try { await presenceOnline(ctx); } catch (e) { console.warn('presence online failed', e); }
+
+      try { await blocksFor(user.id); } catch (e) { console.warn('blocks preload failed', e); }
+
+      // Autoload initial topics
+      const initTopics = await preloadUserTopics(user.id);
+      for (const t of initTopics.slice(0, maxSubs)) {
+        if (ws.readyState !== WebSocket.OPEN) break;
+        // до resume живые события автоподписок копятся (иначе досылка их повторит)
+        ctx.gate.hold(t);
+        await attachTopic(ctx, t);
+      }
+    })();
+    await handshake;
+    if (ws.readyState !== WebSocket.OPEN) return;
 
     ws.send(JSON.stringify({ ok: true, type: 'welcome', userId: user.id } satisfies ServerMsg));
+    ctx.holdTimer = setTimeout(() => releaseHeld(ctx), resumeHoldMs);
 
     ws.on('message', async (buf) => {
       let msg: ClientMsg | null = null;
@@ -248,6 +815,87 @@ app.register(async (f) => {
         ws.send(JSON.stringify({ ok: true, type: 'pong', ts: Date.now() } satisfies ServerMsg));
         return;
       }
+      // resume отпускает удержанное сам, после досылки; любое другое действие — сразу
+      if (msg.action !== 'resume') releaseHeld(ctx);
+
+      if (msg.action === 'typing:start' || msg.action === 'typing:stop') {
+        const cid = String((msg as any).conversationId || '');
+        if (!isUuid(cid)) {
+          ws.send(JSON.stringify({ ok: false, error: 'bad_conversation_id' } satisfies ServerMsg));
+          return;
+        }
+        try {
+          if (msg.action === 'typing:stop') {
+            await typingStop(ctx, cid, 'stop');
+            return;
+          }
+          if (!(await canAccessTopic(ctx.userId, `rt:conv:${cid}`))) {
+            ws.send(JSON.stringify({ ok: false, error: 'forbidden' } satisfies ServerMsg));
+            return;
+          }
+          await typingStart(ctx, cid);
+        } catch (e) {
+          console.warn('typing failed', e);
+          ws.send(JSON.stringify({ ok: false, error: 'internal' } satisfies ServerMsg));
+        }
+        return;
+      }
+
+      if (msg.action === 'presence:query' && Array.isArray(msg.userIds)) {
+        try {
+          const items = await presenceQuery(ctx.userId, msg.userIds.map(String));
+          ws.send(JSON.stringify({ ok: true, type: 'presence', items } satisfies ServerMsg));
+        } catch (e) {
+          console.warn('presence query failed', e);
+          ws.send(JSON.stringify({ ok: false, error: 'internal' } satisfies ServerMsg));
+        }
+        return;
+      }
+
+      if (msg.action === 'message:send' || msg.action === 'receipt:delivered' || msg.action === 'receipt:read') {
+        const clientId = (msg as any).clientId != null ? String((msg as any).clientId) : null;
+        try {
+          ws.send(JSON.stringify(await handleWrite(ctx, msg)));
+        } catch (e) {
+          ws.send(JSON.stringify({ ok: false, error: writeError(e), action: msg.action, clientId } satisfies ServerMsg));
+        }
+        return;
+      }
+
+      if (msg.action === 'resume' && msg.positions && typeof msg.positions === 'object') {
+        const entries = Object.entries(msg.positions)
+          .filter(([t]) => isAllowedTopic(t))
+          .slice(0, maxSubs);
+        if (entries.length === 0) {
+          releaseHeld(ctx);
+          ws.send(JSON.stringify({ ok: false, error: 'no_topics' } satisfies ServerMsg));
+          return;
+        }
+        const fresh = entries.filter(([t]) => !ctx.subs.has(t)).length;
+        if (ctx.subs.size + fresh > maxSubs) {
+          releaseHeld(ctx);
+          ws.send(JSON.stringify({ ok: false, error: 'too_many_subscriptions' } satisfies ServerMsg));
+          return;
+        }
+        const results: ResumeResult[] = [];
+        try {
+          for (const [t, after] of entries) {
+            if (!(await canAccessTopic(ctx.userId, t, true))) {
+              results.push({ topic: t, status: 'forbidden', replayed: 0 });
+              continue;
+            }
+            results.push(await resumeTopic(ctx, t, String(after)));
+          }
+        } catch (e) {
+          console.warn('resume failed', e);
+          ws.send(JSON.stringify({ ok: false, error: 'internal' } satisfies ServerMsg));
+          return;
+        } finally {
+          releaseHeld(ctx); // автоподписки, не упомянутые в resume, — отдать отложенное
+        }
+        ws.send(JSON.stringify({ ok: true, type: 'resumed', topics: results } satisfies ServerMsg));
+        return;
+      }
 
       if ((msg.action === 'subscribe' || msg.action === 'unsubscribe') && Array.isArray(msg.topics)) {
         const want = [...new Set(msg.topics.filter(isAllowedTopic))];
@@ -262,22 +910,26 @@ app.register(async (f) => {
             ws.send(JSON.stringify({ ok: false, error: 'too_many_subscriptions' } satisfies ServerMsg));
             return;
           }
-          for (const t of want) {
-            if (ctx.subs.has(t)) continue;
-            await redisSubscribe(t);
-            ctx.subs.add(t);
-            if (!topicToSockets.has(t)) topicToSockets.set(t, new Set());
-            topicToSockets.get(t)!.add(ctx);
+          const denied: string[] = [];
+          const granted: string[] = [];
+          try {
+            for (const t of want) {
+              if (await canAccessTopic(ctx.userId, t, true)) granted.push(t); else denied.push(t);
+            }
+          } catch (e) {
+            console.warn('authz check failed', e);
+            ws.send(JSON.stringify({ ok: false, error: 'internal' } satisfies ServerMsg));
+            return;
           }
-          ws.send(JSON.stringify({ ok: true, type: 'subscribed', topics: want } satisfies ServerMsg));
-        } else {
-          for (const t of want) {
-            if (!ctx.subs.has(t)) continue;
-            ctx.subs.delete(t);
-            topicToSockets.get(t)?.delete(ctx);
-            if ((topicToSockets.get(t)?.size || 0) === 0) topicToSockets.delete(t);
-            await redisUnsubscribe(t);
+          if (denied.length > 0) {
+            // все-или-ничего: клиент узнаёт, какие топики запрещены, и повторяет без них
+            ws.send(JSON.stringify({ ok: false, error: 'forbidden', topics: denied } satisfies ServerMsg));
+            return;
           }
+          for (const t of granted) await attachTopic(ctx, t);
+          ws.send(JSON.stringify({ ok: true, type: 'subscribed', topics: granted } satisfies ServerMsg));
+        } else {
+          for (const t of want) await detachTopic(ctx, t);
           ws.send(JSON.stringify({ ok: true, type: 'unsubscribed', topics: want } satisfies ServerMsg));
         }
         return;
@@ -285,17 +937,6 @@ app.register(async (f) => {
 
       ws.send(JSON.stringify({ ok: false, error: 'unsupported_action' } satisfies ServerMsg));
     });
-
-    ws.on('close', async () => {
-      sockets.delete(ctx);
-      // отписка всех топиков
-      for (const t of ctx.subs) {
-        topicToSockets.get(t)?.delete(ctx);
-        if ((topicToSockets.get(t)?.size || 0) === 0) topicToSockets.delete(t);
-        await redisUnsubscribe(t);
-      }
-      ctx.subs.clear();
-    });
   });
 });
 
@@ -313,13 +954,17 @@ const interval = setInterval(() => {
       try { ctx.ws.terminate(); } catch {}
     }
   }
+  presenceHeartbeat().catch((e) => console.warn('presence heartbeat failed', e));
 }, Math.max(10_000, Number(WS_PING_INTERVAL_MS) || 25_000));
 
 // graceful shutdown
 async function shutdown() {
   console.log('realtime: shutdown...');
   clearInterval(interval);
-  try { for (const ctx of sockets) { try { ctx.ws.close(1001, 'server_shutdown'); } catch {} } } catch {}
+  // presence/typing снимаем до закрытия Redis, иначе другие инстансы увидят «вечный online»
+  const open = Array.from(sockets);
+  await Promise.all(open.map((ctx) => releaseSocket(ctx).catch(() => {})));
+  try { for (const ctx of open) { try { ctx.ws.close(1001, 'server_shutdown'); } catch {} } } catch {}
   try { await pool.end(); } catch {}
   try { await sub.quit(); } catch { try { await sub.disconnect(); } catch {} }
   try { await pub.quit(); } catch { try { await pub.disconnect(); } catch {} }
@@ -0,0 +1,78 @@
+/**
+ * ReplayGate — порядок доставки живых событий и досылки журнала (resume) для одного сокета.
+ *
+ *  - hold(topic): топик, подписанный при подключении (автоподписка), удерживается — живые события
+ *    копятся в буфере, пока клиент не пришлёт resume или любое другое действие (release) либо
+ *    не истечёт WS_RESUME_HOLD_MS. Иначе события, доставленные до resume, пришли бы повторно из
+ *    журнала и раньше пропущенных;
+ *  - replay(topic, run): на время досылки живые события топика буферизуются (вместе с
+ *    удержанными); после досылки буфер отдаётся без записей с seq не новее последней досланной;
+ *  - события без seq (typing/presence) не дедуплицируются.
+ */
+
+export type LiveMsg = { seq?: string; [key: string]: unknown };
+
+/** Сравнение id Redis Stream (<ms>-<n>). */
+export function seqCmp(a: string, b: string): number {
+  const [am, an] = a.split('-').map(Number);
+  const [bm, bn] = b.split('-').map(Number);
+  return am !== bm ? am - bm : an - bn;
+}
+
+export class ReplayGate<M extends LiveMsg = LiveMsg> {
+  private buffers = new Map<string, M[]>(); // topic → отложенные живые события
+  private held = new Set<string>();
+
+  constructor(private send: (msg: M) => void) {}
+
+  hold(topic: string) {
+    if (this.buffers.has(topic)) return;
+    this.buffers.set(topic, []);
+    this.held.add(topic);
+  }
+
+  /** Живое событие топика: доставить сразу или отложить. */
+  live(topic: string, msg: M) {
+    const pending = this.buffers.get(topic);
+    if (pending) pending.push(msg);
+    else this.send(msg);
+  }
+
+  /**
+   * Досылка журнала: run отправляет записи сам и возвращает seq последней досланной
+   * (null — досылки не было, буфер отдаётся целиком).
+   */
+  async replay<T>(topic: string, run: () => Promise<{ result: T; lastSent: string | null }>): Promise<T> {
+    this.held.delete(topic);
+    const pending = this.buffers.get(topic) ?? [];
+    this.buffers.set(topic, pending);
+    let lastSent: string | null = null;
+    try {
+      const out = await run();
+      lastSent = out.lastSent;
+      return out.result;
+    } finally {
+      this.buffers.delete(topic);
+      for (const msg of pending) {
+        if (lastSent && msg.seq && seqCmp(msg.seq, lastSent) <= 0) continue; // уже досланы из журнала
+        this.send(msg);
+      }
+    }
+  }
+
+  /** Отпустить удержанные топики (resume для них не пришёл). */
+  release() {
+    for (const topic of Array.from(this.held)) {
+      this.held.delete(topic);
+      const pending = this.buffers.get(topic) ?? [];
+      this.buffers.delete(topic);
+      for (const msg of pending) this.send(msg);
+    }
+  }
+
+  /** Отписка от топика: отложенное больше не нужно. */
+  drop(topic: string) {
+    this.held.delete(topic);
+    this.buffers.delete(topic);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Контракт провайдеров доставки notify-воркера.
+ *
+ * Провайдер получает одно уведомление и один endpoint пользователя (строка
+ * notification_endpoints) и либо доставляет, либо бросает DeliveryError:
+ *  - permanent: true  — повтор бессмысленен (адресат не существует, 4xx, 410 Gone);
+ *                       сообщение уходит в DLQ, а при disableEndpoint — endpoint отключается;
+ *  - permanent: false — временная ошибка, повтор по политике провайдера (retry.ts);
+ *                       retryAfterMs — подсказка сервера (Retry-After), не меньше backoff.
+ */
+
+export type ProviderName = 'email' | 'webpush' | 'webhook';
+
+export type NotifyPayload = {
+  userId: string;
+  kind: string; // e.g. 'message', 'post', 'system'
+  title?: string;
+  body?: string;
+  meta?: Record<string, any>;
+  channels?: ProviderName[]; // ограничить доставку каналами; по умолчанию — все endpoint'ы
+  to?: string; // транзакционное письмо на этот адрес мимо endpoint'ов (подтверждение email, сброс пароля)
+};
+
+export type Endpoint = {
+  id: string;
+  userId: string;
+  kind: ProviderName;
+  target: string | null;   // webpush endpoint / webhook URL / email-адрес (подставляет воркер)
+  keys: { p256dh: string; auth: string } | null;
+  secret: string | null;
+};
+
+/** deliveryId стабилен между повторами — получатель может по нему дедуплицировать. */
+export type DeliveryContext = { deliveryId: string; attempt: number };
+
+export interface NotifyProvider {
+  readonly name: ProviderName;
+  send(payload: NotifyPayload, endpoint: Endpoint, ctx: DeliveryContext): Promise<void>;
+}
+
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    public permanent: boolean,
+    public opts: { retryAfterMs?: number; disableEndpoint?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+/** HTTP-статус → постоянная/временная ошибка (общая логика webpush и webhook). */
+export function httpDeliveryError(provider: string, status: number, retryAfter?: string | null): DeliveryError {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  if (status === 404 || status === 410) {
+    return new DeliveryError(`${provider}: endpoint gone (${status})`, true, { disableEndpoint: true });
+  }
+  if (status === 408 || status === 429 || status >= 500) {
+    return new DeliveryError(`${provider}: http ${status}`, false, { retryAfterMs });
+  }
+  return new DeliveryError(`${provider}: http ${status}`, true);
+}
+
+function parseRetryAfter(v?: string | null): number | undefined {
+  if (!v) return undefined;
+  const sec = Number(v);
+  if (Number.isFinite(sec) && sec >= 0) return sec * 1000;
+  const at = Date.parse(v);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
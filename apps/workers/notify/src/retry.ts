@@ -0,0 +1,50 @@
+/**
+ * Политики повторов по провайдерам.
+ *
+ * ENV (на провайдер, NAME = EMAIL | WEBPUSH | WEBHOOK):
+ *  NOTIFY_<NAME>_MAX_ATTEMPTS   — всего попыток, включая первую
+ *  NOTIFY_<NAME>_BACKOFF_MS     — задержка после первой неудачи (далее ×2)
+ *  NOTIFY_<NAME>_MAX_BACKOFF_MS — потолок задержки
+ *
+ * Задержка: min(max, base * 2^(attempt-1)) с джиттером ±20%; Retry-After сервера
+ * может только увеличить её.
+ */
+import type { ProviderName } from './provider.js';
+
+export type RetryPolicy = { maxAttempts: number; backoffMs: number; maxBackoffMs: number };
+
+const DEFAULTS: Record<ProviderName, RetryPolicy> = {
+  email: { maxAttempts: 5, backoffMs: 30_000, maxBackoffMs: 60 * 60_000 },
+  webpush: { maxAttempts: 4, backoffMs: 5_000, maxBackoffMs: 10 * 60_000 },
+  webhook: { maxAttempts: 8, backoffMs: 10_000, maxBackoffMs: 6 * 60 * 60_000 },
+};
+
+export function policyFor(name: ProviderName, env: Record<string, string | undefined> = process.env): RetryPolicy {
+  const d = DEFAULTS[name];
+  const key = name.toUpperCase();
+  const num = (v: string | undefined, def: number, min: number) => {
+    const n = Number(v);
+    return Number.isFinite(n) && n >= min ? Math.floor(n) : def;
+  };
+  return {
+    maxAttempts: num(env[`NOTIFY_${key}_MAX_ATTEMPTS`], d.maxAttempts, 1),
+    backoffMs: num(env[`NOTIFY_${key}_BACKOFF_MS`], d.backoffMs, 0),
+    maxBackoffMs: num(env[`NOTIFY_${key}_MAX_BACKOFF_MS`], d.maxBackoffMs, 0),
+  };
+}
+
+/**
+ * Задержка перед следующей попыткой после неудачной попытки номер `attempt` (1-based)
+ * или null, если попытки исчерпаны.
+ */
+export function nextDelayMs(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterMs?: number,
+  rand: () => number = Math.random
+): number | null {
+  if (attempt >= policy.maxAttempts) return null;
+  const exp = Math.min(policy.maxBackoffMs, policy.backoffMs * 2 ** Math.max(0, attempt - 1));
+  const jittered = Math.round(exp * (0.8 + rand() * 0.4));
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
@@ -0,0 +1,220 @@
+/**
+ * SMTP-провайдер (email) — минимальный клиент RFC 5321 без внешних зависимостей:
+ * EHLO → [STARTTLS → EHLO] → [AUTH PLAIN] → MAIL FROM → RCPT TO → DATA → QUIT.
+ * Одно письмо — одно соединение (нагрузка notify невелика, пул не нужен).
+ *
+ * Ответы 4xx и сетевые ошибки — временные (повтор), 5xx — постоянные (DLQ).
+ * Тело — text/plain UTF-8 в base64, тема — RFC 2047 (=?UTF-8?B?…?=).
+ *
+ * ENV:
+ *  SMTP_HOST, SMTP_PORT=587, SMTP_SECURE=0 (1 — TLS сразу, порт 465),
+ *  SMTP_STARTTLS=auto (auto | required | off), SMTP_USER, SMTP_PASS,
+ *  SMTP_FROM (обязателен), SMTP_HELO=<hostname>, SMTP_TIMEOUT_MS=15000,
+ *  SMTP_TLS_INSECURE=0 (1 — не проверять сертификат, только для локальных стендов)
+ */
+import net from 'node:net';
+import os from 'node:os';
+import tls from 'node:tls';
+import { DeliveryError } from './provider.js';
+import type { DeliveryContext, Endpoint, NotifyPayload, NotifyProvider } from './provider.js';
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  starttls: 'auto' | 'required' | 'off';
+  user: string | null;
+  pass: string | null;
+  from: string;
+  helo: string;
+  timeoutMs: number;
+  rejectUnauthorized: boolean;
+};
+
+export function smtpConfigFromEnv(env: Record<string, string | undefined> = process.env): SmtpConfig {
+  const starttls = env.SMTP_STARTTLS === 'required' || env.SMTP_STARTTLS === 'off' ? env.SMTP_STARTTLS : 'auto';
+  return {
+    host: env.SMTP_HOST || 'localhost',
+    port: Number(env.SMTP_PORT) || 587,
+    secure: env.SMTP_SECURE === '1',
+    starttls,
+    user: env.SMTP_USER || null,
+    pass: env.SMTP_PASS || null,
+    from: env.SMTP_FROM || '',
+    helo: env.SMTP_HELO || os.hostname(),
+    timeoutMs: Math.max(1000, Number(env.SMTP_TIMEOUT_MS) || 15_000),
+    rejectUnauthorized: env.SMTP_TLS_INSECURE !== '1',
+  };
+}
+
+type Reply = { code: number; lines: string[] };
+
+const ADDRESS_RE = /^[^\s<>@",;]+@[^\s<>@",;]+$/;
+
+/** Одна SMTP-сессия поверх сокета; поддерживает апгрейд до TLS (STARTTLS). */
+class SmtpSession {
+  private buf = '';
+  private pending: string[] = [];
+  private replies: Reply[] = [];
+  private waiter: { resolve: (r: Reply) => void; reject: (e: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', this.onData);
+    socket.on('timeout', () => this.fail(new Error('smtp timeout')));
+    socket.on('error', (e) => this.fail(e));
+    socket.on('close', () => this.fail(new Error('smtp connection closed')));
+  }
+
+  private onData = (chunk: string) => {
+    this.buf += chunk;
+    let i: number;
+    while ((i = this.buf.indexOf('\n')) >= 0) {
+      const line = this.buf.slice(0, i).replace(/\r$/, '');
+      this.buf = this.buf.slice(i + 1);
+      this.pending.push(line);
+      // "250-…" — продолжение многострочного ответа, "250 …" — последняя строка
+      const m = line.match(/^(\d{3})(?: |$)/);
+      if (!m) continue;
+      const reply = { code: Number(m[1]), lines: this.pending.map((l) => l.slice(4)) };
+      this.pending = [];
+      if (this.waiter) { const w = this.waiter; this.waiter = null; w.resolve(reply); } else this.replies.push(reply);
+    }
+  };
+
+  private fail(e: Error) {
+    if (!this.failure) this.failure = e;
+    if (this.waiter) { const w = this.waiter; this.waiter = null; w.reject(e); }
+  }
+
+  read(): Promise<Reply> {
+    const ready = this.replies.shift();
+    if (ready) return Promise.resolve(ready);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => { this.waiter = { resolve, reject }; });
+  }
+
+  async cmd(line: string, expect: number[]): Promise<Reply> {
+    this.socket.write(line + '\r\n');
+    const r = await this.read();
+    if (!expect.includes(r.code)) throw replyError(line.split(' ')[0], r);
+    return r;
+  }
+
+  async upgrade(host: string, rejectUnauthorized: boolean) {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('timeout');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const s = tls.connect({ socket: plain, servername: host, rejectUnauthorized }, () => resolve(s));
+      s.once('error', reject);
+    });
+    this.buf = '';
+    this.attach(secure);
+  }
+
+  write(data: string) { this.socket.write(data); }
+
+  close() { try { this.socket.end(); } catch {} try { this.socket.destroy(); } catch {} }
+}
+
+function replyError(stage: string, r: Reply): DeliveryError {
+  const text = `smtp ${stage}: ${r.code} ${r.lines.join(' ').slice(0, 200)}`;
+  return new DeliveryError(text, r.code >= 500);
+}
+
+function encodeHeader(v: string): string {
+  return /^[\x20-\x7e]*$/.test(v) ? v : `=?UTF-8?B?${Buffer.from(v, 'utf8').toString('base64')}?=`;
+}
+
+/** Письмо целиком (заголовки + base64-тело), строки через CRLF, с dot-stuffing. */
+export function buildMessage(opts: { from: string; to: string; subject: string; text: string; messageId: string; date?: Date }): string {
+  const body = Buffer.from(opts.text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  const headers = [
+    `From: ${opts.from}`,
+    `To: <${opts.to}>`,
+    `Subject: ${encodeHeader(opts.subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${(opts.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${opts.messageId}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+  return (headers.join('\r\n') + '\r\n\r\n' + body).replace(/^\./gm, '..');
+}
+
+export class SmtpProvider implements NotifyProvider {
+  readonly name = 'email' as const;
+
+  constructor(private cfg: SmtpConfig = smtpConfigFromEnv()) {
+    if (!cfg.from) throw new Error('SMTP_FROM env var is required');
+  }
+
+  async send(payload: NotifyPayload, endpoint: Endpoint, ctx: DeliveryContext): Promise<void> {
+    const to = String(endpoint.target || '');
+    if (!ADDRESS_RE.test(to)) throw new DeliveryError('smtp: invalid recipient', true, { disableEndpoint: true });
+    const sender = (this.cfg.from.match(/<([^>]+)>/)?.[1] ?? this.cfg.from).trim();
+
+    const message = buildMessage({
+      from: this.cfg.from,
+      to,
+      subject: payload.title || 'Notification',
+      text: payload.body || payload.title || '',
+      messageId: `${ctx.deliveryId.replace(/[^A-Za-z0-9._-]/g, '.')}@${this.cfg.helo}`,
+    });
+
+    let session: SmtpSession | null = null;
+    try {
+      session = new SmtpSession(await this.connect(), this.cfg.timeoutMs);
+      const greet = await session.read();
+      if (greet.code !== 220) throw replyError('greeting', greet);
+
+      const ehlo = await session.cmd(`EHLO ${this.cfg.helo}`, [250]);
+      const canTls = ehlo.lines.some((l) => /^STARTTLS\b/i.test(l));
+      if (!this.cfg.secure && this.cfg.starttls !== 'off' && canTls) {
+        await session.cmd('STARTTLS', [220]);
+        await session.upgrade(this.cfg.host, this.cfg.rejectUnauthorized);
+        await session.cmd(`EHLO ${this.cfg.helo}`, [250]);
+      } else if (!this.cfg.secure && this.cfg.starttls === 'required') {
+        throw new DeliveryError('smtp: STARTTLS not offered', false);
+      }
+
+      if (this.cfg.user) {
+        const token = Buffer.from(`\0${this.cfg.user}\0${this.cfg.pass ?? ''}`, 'utf8').toString('base64');
+        await session.cmd(`AUTH PLAIN ${token}`, [235]);
+      }
+
+      await session.cmd(`MAIL FROM:<${sender}>`, [250]);
+      await session.cmd(`RCPT TO:<${to}>`, [250, 251]);
+      await session.cmd('DATA', [354]);
+      session.write(message + '\r\n');
+      await session.cmd('.', [250]);
+      try { await session.cmd('QUIT', [221]); } catch {}
+    } catch (e: any) {
+      if (e instanceof DeliveryError) throw e;
+      throw new DeliveryError(`smtp: ${String(e?.message || e)}`, false);
+    } finally {
+      session?.close();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const opts = { host: this.cfg.host, port: this.cfg.port, timeout: this.cfg.timeoutMs };
+      const s: net.Socket = this.cfg.secure
+        ? tls.connect({ ...opts, servername: this.cfg.host, rejectUnauthorized: this.cfg.rejectUnauthorized }, () => done())
+        : net.connect(opts, () => done());
+      const done = () => { s.removeListener('error', reject); resolve(s); };
+      s.once('error', reject);
+    });
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Webhook-провайдер: POST JSON на URL endpoint'а пользователя.
+ *
+ * Заголовки:
+ *  X-Notify-Id        — deliveryId (одинаков во всех повторах)
+ *  X-Notify-Timestamp — unix-секунды
+ *  X-Notify-Signature — sha256=<hex HMAC-SHA256(secret, "<timestamp>.<body>")>
+ *
+ * 2xx — доставлено; 404/410 — endpoint отключается; прочие 4xx — постоянная ошибка;
+ * 408/429/5xx и сетевые ошибки — повтор (Retry-After учитывается).
+ * URL только https и только на публичные адреса (защита от SSRF), если не разрешено явно:
+ * адрес проверяется в lookup самого соединения (publicLookup), поэтому DNS, сменивший ответ
+ * между проверкой и запросом (rebinding), на внутренний адрес не уведёт.
+ *
+ * ENV: NOTIFY_WEBHOOK_TIMEOUT_MS=5000, NOTIFY_WEBHOOK_ALLOW_INSECURE=0 (http и приватные сети — для локальных стендов)
+ */
+import crypto from 'node:crypto';
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import { DeliveryError, httpDeliveryError } from './provider.js';
+import type { DeliveryContext, Endpoint, NotifyPayload, NotifyProvider } from './provider.js';
+
+export type WebhookConfig = { timeoutMs: number; allowInsecure: boolean };
+
+export function webhookConfigFromEnv(env: Record<string, string | undefined> = process.env): WebhookConfig {
+  return {
+    timeoutMs: Math.max(500, Number(env.NOTIFY_WEBHOOK_TIMEOUT_MS) || 5000),
+    allowInsecure: env.NOTIFY_WEBHOOK_ALLOW_INSECURE === '1',
+  };
+}
+
+const privateNets = new net.BlockList();
+for (const [addr, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4],
+] as const) privateNets.addSubnet(addr, prefix, 'ipv4');
+for (const [addr, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  privateNets.addSubnet(addr, prefix, 'ipv6');
+}
+
+function isPrivate(address: string, family: number): boolean {
+  return privateNets.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/** dns.lookup для сокета вебхука: соединение идёт только на проверенный публичный адрес. */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addrs) => {
+    if (err || !addrs.length) return callback(new DeliveryError('webhook: dns lookup failed', false), '', 0);
+    if (addrs.some((a) => isPrivate(a.address, a.family))) {
+      return callback(new DeliveryError('webhook: private address', true, { disableEndpoint: true }), '', 0);
+    }
+    if (options.all) return (callback as (e: null, a: dns.LookupAddress[]) => void)(null, addrs);
+    callback(null, addrs[0].address, addrs[0].family);
+  });
+};
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export class WebhookProvider implements NotifyProvider {
+  readonly name = 'webhook' as const;
+
+  constructor(private cfg: WebhookConfig = webhookConfigFromEnv()) {}
+
+  async send(payload: NotifyPayload, endpoint: Endpoint, ctx: DeliveryContext): Promise<void> {
+    if (!endpoint.target || !endpoint.secret) throw new DeliveryError('webhook: endpoint incomplete', true, { disableEndpoint: true });
+    const url = await this.checkUrl(endpoint.target);
+
+    const body = JSON.stringify({
+      id: ctx.deliveryId,
+      userId: payload.userId,
+      kind: payload.kind,
+      title: payload.title ?? null,
+      body: payload.body ?? null,
+      meta: payload.meta ?? null,
+    });
+    const ts = Math.floor(Date.now() / 1000);
+
+    let res: { status: number; retryAfter: string | null };
+    try {
+      res = await this.post(url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'messenger-notify/1.0',
+        'X-Notify-Id': ctx.deliveryId,
+        'X-Notify-Timestamp': String(ts),
+        'X-Notify-Signature': signWebhook(endpoint.secret, ts, body),
+      });
+    } catch (e: any) {
+      if (e instanceof DeliveryError) throw e;
+      const timeout = e?.name === 'TimeoutError' || e?.cause?.name === 'TimeoutError';
+      throw new DeliveryError(`webhook: ${timeout ? 'timeout' : String(e?.message || e)}`, false);
+    }
+    if (res.status >= 200 && res.status < 300) return;
+    throw httpDeliveryError('webhook', res.status, res.retryAfter);
+  }
+
+  /** POST без редиректов (редирект мог бы увести на внутренний адрес); тело ответа не нужно. */
+  private post(url: URL, body: string, headers: Record<string, string>): Promise<{ status: number; retryAfter: string | null }> {
+    const request = url.protocol === 'https:' ? https.request : http.request;
+    return new Promise((resolve, reject) => {
+      const req = request(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: this.cfg.allowInsecure ? undefined : publicLookup,
+        signal: AbortSignal.timeout(this.cfg.timeoutMs),
+      }, (res) => {
+        // дочитываем, чтобы освободить сокет
+        res.resume();
+        res.on('end', () => {
+          const ra = res.headers['retry-after'];
+          resolve({ status: res.statusCode || 0, retryAfter: (Array.isArray(ra) ? ra[0] : ra) ?? null });
+        });
+        res.on('error', reject);
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  private async checkUrl(raw: string): Promise<URL> {
+    let url: URL;
+    try { url = new URL(raw); } catch { throw new DeliveryError('webhook: invalid url', true, { disableEndpoint: true }); }
+    if (this.cfg.allowInsecure) return url;
+    if (url.protocol !== 'https:') throw new DeliveryError('webhook: https required', true, { disableEndpoint: true });
+
+    // имена проверяет publicLookup при соединении; IP-литералы lookup не проходят
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isPrivate(host, net.isIP(host))) {
+      throw new DeliveryError('webhook: private address', true, { disableEndpoint: true });
+    }
+    return url;
+  }
+}
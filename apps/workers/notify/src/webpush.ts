@@ -0,0 +1,161 @@
+/**
+ * Web Push-провайдер без внешних зависимостей:
+ *  - шифрование payload — RFC 8291 (aes128gcm, ECDH P-256 + HKDF-SHA256, одна запись);
+ *  - авторизация у push-сервиса — VAPID (RFC 8292): JWT ES256 { aud: origin endpoint, exp, sub }.
+ *
+ * 201/202 — принято push-сервисом; 404/410 — подписка мертва, endpoint отключается;
+ * 413 и прочие 4xx — постоянная ошибка; 429/5xx — повтор.
+ *
+ * ENV:
+ *  VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY — base64url (формат `web-push generate-vapid-keys`)
+ *  VAPID_SUBJECT=mailto:admin@example.com
+ *  WEBPUSH_TTL_SEC=86400, WEBPUSH_TIMEOUT_MS=5000
+ */
+import crypto from 'node:crypto';
+import { DeliveryError, httpDeliveryError } from './provider.js';
+import type { DeliveryContext, Endpoint, NotifyPayload, NotifyProvider } from './provider.js';
+
+export type WebPushConfig = {
+  vapidPublicKey: string;
+  vapidPrivateKey: string;
+  subject: string;
+  ttlSec: number;
+  timeoutMs: number;
+};
+
+export function webPushConfigFromEnv(env: Record<string, string | undefined> = process.env): WebPushConfig {
+  return {
+    vapidPublicKey: env.VAPID_PUBLIC_KEY || '',
+    vapidPrivateKey: env.VAPID_PRIVATE_KEY || '',
+    subject: env.VAPID_SUBJECT || 'mailto:admin@example.com',
+    ttlSec: Math.max(0, Number(env.WEBPUSH_TTL_SEC ?? 86400)),
+    timeoutMs: Math.max(500, Number(env.WEBPUSH_TIMEOUT_MS) || 5000),
+  };
+}
+
+const RECORD_SIZE = 4096;
+const MAX_PLAINTEXT = RECORD_SIZE - 16 /* tag */ - 1 /* delimiter */ - 86 /* header */;
+
+function b64u(buf: Buffer | Uint8Array): string { return Buffer.from(buf).toString('base64url'); }
+function unb64u(s: string): Buffer { return Buffer.from(s, 'base64url'); }
+
+/**
+ * RFC 8291: зашифровать plaintext для подписки (p256dh — публичный ключ UA, auth — секрет).
+ * Возвращает тело запроса: salt(16) | rs(4) | idlen(1) | keyid(65) | ciphertext.
+ */
+export function encryptPayload(
+  plaintext: Buffer,
+  p256dh: string,
+  auth: string,
+  opts: { salt?: Buffer; ecdh?: crypto.ECDH } = {}
+): Buffer {
+  const uaPublic = unb64u(p256dh);
+  const authSecret = unb64u(auth);
+  if (uaPublic.length !== 65 || authSecret.length < 16) throw new DeliveryError('webpush: bad subscription keys', true, { disableEndpoint: true });
+  if (plaintext.length > MAX_PLAINTEXT) throw new DeliveryError('webpush: payload too large', true);
+
+  const ecdh = opts.ecdh ?? crypto.createECDH('prime256v1');
+  if (!opts.ecdh) ecdh.generateKeys();
+  const asPublic = ecdh.getPublicKey();
+  let shared: Buffer;
+  try { shared = ecdh.computeSecret(uaPublic); } catch {
+    throw new DeliveryError('webpush: bad subscription keys', true, { disableEndpoint: true });
+  }
+  const salt = opts.salt ?? crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', shared, authSecret, keyInfo, 32));
+  const cek = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', cek, nonce);
+  const body = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+  return Buffer.concat([header, asPublic, body]);
+}
+
+/** VAPID JWT (ES256, подпись в формате r||s). */
+export function vapidJwt(audience: string, subject: string, key: crypto.KeyObject, expSec: number): string {
+  const head = b64u(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = b64u(Buffer.from(JSON.stringify({ aud: audience, exp: expSec, sub: subject })));
+  const sig = crypto.sign('sha256', Buffer.from(`${head}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+  return `${head}.${claims}.${b64u(sig)}`;
+}
+
+function vapidPrivateKey(publicKey: string, privateKey: string): crypto.KeyObject {
+  const pub = unb64u(publicKey);
+  if (pub.length !== 65 || pub[0] !== 4) throw new Error('VAPID_PUBLIC_KEY must be an uncompressed P-256 point (base64url)');
+  return crypto.createPrivateKey({
+    key: { kty: 'EC', crv: 'P-256', d: privateKey, x: b64u(pub.subarray(1, 33)), y: b64u(pub.subarray(33, 65)) },
+    format: 'jwk',
+  });
+}
+
+export class WebPushProvider implements NotifyProvider {
+  readonly name = 'webpush' as const;
+  private key: crypto.KeyObject;
+  private jwtCache = new Map<string, { token: string; exp: number }>();
+
+  constructor(private cfg: WebPushConfig = webPushConfigFromEnv()) {
+    if (!cfg.vapidPublicKey || !cfg.vapidPrivateKey) throw new Error('VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY env vars are required');
+    this.key = vapidPrivateKey(cfg.vapidPublicKey, cfg.vapidPrivateKey);
+  }
+
+  async send(payload: NotifyPayload, endpoint: Endpoint, ctx: DeliveryContext): Promise<void> {
+    if (!endpoint.target || !endpoint.keys) throw new DeliveryError('webpush: endpoint incomplete', true, { disableEndpoint: true });
+    let url: URL;
+    try { url = new URL(endpoint.target); } catch { throw new DeliveryError('webpush: invalid endpoint', true, { disableEndpoint: true }); }
+
+    const body = encryptPayload(pushBody(payload, ctx.deliveryId), endpoint.keys.p256dh, endpoint.keys.auth);
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Encoding': 'aes128gcm',
+          TTL: String(this.cfg.ttlSec),
+          Urgency: payload.kind === 'message' ? 'high' : 'normal',
+          Authorization: `vapid t=${this.jwtFor(url.origin)}, k=${this.cfg.vapidPublicKey}`,
+        },
+        body,
+        signal: AbortSignal.timeout(this.cfg.timeoutMs),
+      });
+    } catch (e: any) {
+      throw new DeliveryError(`webpush: ${e?.name === 'TimeoutError' ? 'timeout' : String(e?.message || e)}`, false);
+    }
+    try { await res.arrayBuffer(); } catch {}
+    if (res.status >= 200 && res.status < 300) return;
+    throw httpDeliveryError('webpush', res.status, res.headers.get('retry-after'));
+  }
+
+  /** JWT на origin push-сервиса живёт 12ч; переиспользуем, пока до истечения > 1ч. */
+  private jwtFor(origin: string): string {
+    const now = Math.floor(Date.now() / 1000);
+    const hit = this.jwtCache.get(origin);
+    if (hit && hit.exp - now > 3600) return hit.token;
+    const exp = now + 12 * 3600;
+    const token = vapidJwt(origin, this.cfg.subject, this.key, exp);
+    this.jwtCache.set(origin, { token, exp });
+    return token;
+  }
+}
+
+/** JSON для service worker; длинный body укорачивается, чтобы влезть в одну запись. */
+function pushBody(payload: NotifyPayload, id: string): Buffer {
+  const base = { id, kind: payload.kind, title: payload.title ?? null, body: payload.body ?? null, meta: payload.meta ?? null };
+  let buf = Buffer.from(JSON.stringify(base));
+  if (buf.length <= MAX_PLAINTEXT) return buf;
+  buf = Buffer.from(JSON.stringify({ ...base, meta: null }));
+  let text = String(base.body ?? '');
+  while (buf.length > MAX_PLAINTEXT && text.length > 0) {
+    text = text.slice(0, Math.floor(text.length * 0.8));
+    buf = Buffer.from(JSON.stringify({ ...base, meta: null, body: text + '…' }));
+  }
+  return buf;
+}
@@ -0,0 +1,199 @@
+/**
+ * Документы поиска из Postgres: одна строка (live-индексация) или страница по id (backfill reindex).
+ * Удалённое, скрытое модератором и заблокированное (а также контент удалённых пользователей)
+ * не выбирается — такой документ считается отсутствующим и снимается из индекса.
+ *
+ * acl — данные для фильтров по зрителю (modules/search):
+ *  - message: visibility='members'; виден участникам meta.conversation_id;
+ *  - post/channel: visibility канала; private/unlisted — только участникам канала;
+ *  - user: visibility='public' | 'hidden' (privacy.discoverable=false) и членства самого пользователя —
+ *    conversations, channels, blocked (в обе стороны). Поиск подставляет их terms lookup'ом
+ *    по документу user:<viewerId>, поэтому смена членства переиндексирует только документ пользователя.
+ * media_types — типы вложений message/post (image | video | audio | file по MIME media_files);
+ *   у поста — posts.media_id (миграция 029) и набор post_media.
+ */
+
+import type { Pool } from 'pg';
+
+export type DocType = 'message' | 'post' | 'channel' | 'user';
+export const DOC_TYPES: DocType[] = ['channel', 'user', 'post', 'message'];
+
+export type SearchDoc = {
+  id: string;
+  type: DocType;
+  tenant_id: string | null;
+  owner_id: string;
+  created_at: any;
+  updated_at: any;
+  text: string;
+  tokens: string[];
+  meta: Record<string, any>;
+  acl?: { visibility: string; conversations?: string[]; channels?: string[]; blocked?: string[] };
+  media_types?: string[];
+};
+
+type Source = { select: string; alias: string; toDoc: (r: any) => SearchDoc };
+
+function mediaType(mime: string) {
+  return `CASE split_part(${mime}, '/', 1) WHEN 'image' THEN 'image' WHEN 'video' THEN 'video'
+                                           WHEN 'audio' THEN 'audio' ELSE 'file' END`;
+}
+
+function channelBlocked(channelId: string) {
+  return `SELECT 1 FROM channel_blocks b
+           WHERE b.channel_id = ${channelId} AND (b.expires_at IS NULL OR b.expires_at > now_utc())`;
+}
+
+const SOURCES: Record<DocType, Source> = {
+  message: {
+    alias: 'm',
+    select: `SELECT m.id, m.conversation_id, m.author_id, m.text, m.created_at, m.updated_at,
+                    ARRAY(SELECT ${mediaType('mf.mime')} FROM media_files mf WHERE mf.id = m.media_id) AS media_types
+               FROM messages m
+               JOIN users a ON a.id = m.author_id AND a.deleted_at IS NULL
+              WHERE m.deleted_at IS NULL`,
+    toDoc: (r) => {
+      const text = String(r.text || '');
+      return {
+        id: String(r.id),
+        type: 'message',
+        tenant_id: null,
+        owner_id: String(r.author_id),
+        created_at: r.created_at,
+        updated_at: r.updated_at,
+        text,
+        tokens: splitTokens(text),
+        meta: { conversation_id: String(r.conversation_id) },
+        acl: { visibility: 'members' },
+        media_types: r.media_types || [],
+      };
+    },
+  },
+  post: {
+    alias: 'p',
+    select: `SELECT p.id, p.channel_id, p.author_id, p.title, p.body, p.created_at, p.updated_at,
+                    c.visibility,
+                    ARRAY(SELECT DISTINCT ${mediaType('mf.mime')}
+                            FROM media_files mf
+                           WHERE mf.id IN (SELECT p.media_id UNION SELECT pm.media_id FROM post_media pm WHERE pm.post_id = p.id)
+                         ) AS media_types
+               FROM posts p
+               JOIN channels c ON c.id = p.channel_id
+               JOIN users a ON a.id = p.author_id AND a.deleted_at IS NULL
+              WHERE p.status = 'published' AND p.deleted_at IS NULL AND p.hidden_at IS NULL
+                AND NOT EXISTS (${channelBlocked('p.channel_id')})`,
+    toDoc: (r) => {
+      const text = [r.title, r.body].filter(Boolean).map(String).join('\n');
+      return {
+        id: String(r.id),
+        type: 'post',
+        tenant_id: null,
+        owner_id: String(r.author_id),
+        created_at: r.created_at,
+        updated_at: r.updated_at,
+        text,
+        tokens: splitTokens(text),
+        meta: { channel_id: String(r.channel_id), title: r.title || null },
+        acl: { visibility: String(r.visibility || 'private') },
+        media_types: r.media_types || [],
+      };
+    },
+  },
+  channel: {
+    alias: 'c',
+    select: `SELECT c.id, c.slug, c.title, c.description, c.owner_id, c.visibility, c.created_at, c.updated_at
+               FROM channels c
+              WHERE NOT EXISTS (${channelBlocked('c.id')})`,
+    toDoc: (r) => {
+      const text = [r.title, r.description].filter(Boolean).map(String).join('\n');
+      return {
+        id: String(r.id),
+        type: 'channel',
+        tenant_id: null,
+        owner_id: String(r.owner_id),
+        created_at: r.created_at,
+        updated_at: r.updated_at,
+        text,
+        tokens: splitTokens(text),
+        meta: { slug: r.slug, title: r.title || null },
+        acl: { visibility: String(r.visibility || 'private') },
+      };
+    },
+  },
+  user: {
+    alias: 'u',
+    select: `SELECT u.id, u.nickname, u.display_name, u.bio, u.created_at, u.updated_at,
+                    COALESCE((u.privacy->>'discoverable')::boolean, true) AS discoverable,
+                    ARRAY(SELECT cm.conversation_id::text FROM conversation_members cm
+                           WHERE cm.user_id = u.id AND cm.left_at IS NULL) AS conversations,
+                    ARRAY(SELECT chm.channel_id::text FROM channel_members chm
+                           WHERE chm.user_id = u.id AND chm.left_at IS NULL) AS channels,
+                    ARRAY(SELECT b.blocked_id::text FROM user_blocks b WHERE b.blocker_id = u.id
+                          UNION
+                          SELECT b.blocker_id::text FROM user_blocks b WHERE b.blocked_id = u.id) AS blocked
+               FROM users u WHERE u.deleted_at IS NULL`,
+    toDoc: (r) => {
+      const text = [r.display_name, r.nickname, r.bio].filter(Boolean).map(String).join('\n');
+      return {
+        id: String(r.id),
+        type: 'user',
+        tenant_id: null,
+        owner_id: String(r.id),
+        created_at: r.created_at,
+        updated_at: r.updated_at,
+        text,
+        tokens: splitTokens(text),
+        meta: { nickname: r.nickname || null, display_name: r.display_name || null },
+        acl: {
+          visibility: r.discoverable === false ? 'hidden' : 'public',
+          conversations: r.conversations || [],
+          channels: r.channels || [],
+          blocked: r.blocked || [],
+        },
+      };
+    },
+  },
+};
+
+function source(type: DocType): Source {
+  const s = SOURCES[type];
+  if (!s) throw new Error('unsupported_type');
+  return s;
+}
+
+/** Текущее состояние документа; null — удалён/скрыт/не существует. */
+export async function loadDoc(pool: Pick<Pool, 'query'>, type: DocType, id: string): Promise<SearchDoc | null> {
+  const s = source(type);
+  const q = await pool.query(`${s.select} AND ${s.alias}.id = $1 LIMIT 1`, [id]);
+  return q.rowCount ? s.toDoc(q.rows[0]) : null;
+}
+
+/** Страница для backfill: keyset по id (после afterId, по возрастанию). */
+export async function loadPage(pool: Pick<Pool, 'query'>, type: DocType, afterId: string | null, limit: number): Promise<SearchDoc[]> {
+  const s = source(type);
+  const q = await pool.query(
+    `${s.select} AND ($1::uuid IS NULL OR ${s.alias}.id > $1::uuid) ORDER BY ${s.alias}.id LIMIT $2`,
+    [afterId, limit]
+  );
+  return q.rows.map(s.toDoc);
+}
+
+/** id постов канала (keyset по id) — для переиндексации после смены видимости/блокировки канала. */
+export async function channelPostIds(pool: Pick<Pool, 'query'>, channelId: string, afterId: string | null, limit: number): Promise<string[]> {
+  const q = await pool.query(
+    `SELECT id FROM posts WHERE channel_id = $1 AND ($2::uuid IS NULL OR id > $2::uuid) ORDER BY id LIMIT $3`,
+    [channelId, afterId, limit]
+  );
+  return q.rows.map((r: any) => String(r.id));
+}
+
+export function splitTokens(s: string): string[] {
+  return Array.from(new Set(
+    String(s || '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+      .split(/\s+/g)
+      .filter(Boolean)
+      .slice(0, 128)
+  ));
+}
@@ -0,0 +1,126 @@
+/**
+ * Версии индекса контента.
+ *  - Физические индексы: <prefix>-content-v<N>; запросы и запись идут через алиас <prefix>-content.
+ *  - Новая версия = новый mapping/settings: добавить запись в INDEX_VERSIONS и выполнить
+ *    `reindex start` (src/reindex-cli.ts) — индекс создаётся, заполняется из Postgres,
+ *    алиас переключается атомарно. Существующие версии не меняем: mapping индекса неизменяем.
+ *  - Свежая установка сразу создаёт LATEST_INDEX_VERSION (ensureIndex в src/index.ts).
+ */
+
+const analysis = {
+  analyzer: {
+    text_ru_en: {
+      type: 'custom',
+      tokenizer: 'standard',
+      filter: ['lowercase', 'russian_morphology', 'english_morphology', 'asciifolding'],
+    },
+  },
+};
+
+export const INDEX_VERSIONS: Record<number, { settings: Record<string, any>; mappings: Record<string, any> }> = {
+  1: {
+    settings: { number_of_shards: 1, number_of_replicas: 0, analysis },
+    mappings: {
+      dynamic: 'strict',
+      properties: {
+        id: { type: 'keyword' },
+        type: { type: 'keyword' },
+        tenant_id: { type: 'keyword' },
+        owner_id: { type: 'keyword' },
+        created_at: { type: 'date' },
+        updated_at: { type: 'date' },
+        text: { type: 'text', analyzer: 'text_ru_en', term_vector: 'with_positions_offsets' },
+        tokens: { type: 'keyword' },
+        meta: { type: 'object', enabled: true },
+      },
+    },
+  },
+  // v2: meta с явной схемой (id для фильтров — keyword), точное совпадение text.exact
+  2: {
+    settings: { number_of_shards: 1, number_of_replicas: 0, analysis },
+    mappings: { dynamic: 'strict', properties: v2Properties() },
+  },
+  // v3: acl — видимость документа и членства пользователя (фильтры modules/search по зрителю)
+  3: {
+    settings: { number_of_shards: 1, number_of_replicas: 0, analysis },
+    mappings: { dynamic: 'strict', properties: { ...v2Properties(), acl: aclProperty() } },
+  },
+  // v4: media_types — типы вложений message/post (фильтры has:media / has:image)
+  4: {
+    settings: { number_of_shards: 1, number_of_replicas: 0, analysis },
+    mappings: {
+      dynamic: 'strict',
+      properties: { ...v2Properties(), acl: aclProperty(), media_types: { type: 'keyword' } }, // image | video | audio | file
+    },
+  },
+};
+
+/** Поле документа → версия индекса, в которой оно появилось (см. fitDoc). */
+const FIELDS_SINCE: Record<string, number> = { acl: 3, media_types: 4 };
+
+function aclProperty(): Record<string, any> {
+  return {
+    type: 'object',
+    dynamic: 'strict',
+    properties: {
+      visibility: { type: 'keyword' },   // public | unlisted | private | members | hidden
+      conversations: { type: 'keyword' }, // только user: активные беседы (terms lookup)
+      channels: { type: 'keyword' },      // только user: каналы, где он участник
+      blocked: { type: 'keyword' },       // только user: блокировки в обе стороны
+    },
+  };
+}
+
+function v2Properties(): Record<string, any> {
+  return {
+    id: { type: 'keyword' },
+    type: { type: 'keyword' },
+    tenant_id: { type: 'keyword' },
+    owner_id: { type: 'keyword' },
+    created_at: { type: 'date' },
+    updated_at: { type: 'date' },
+    text: {
+      type: 'text',
+      analyzer: 'text_ru_en',
+      term_vector: 'with_positions_offsets',
+      fields: { exact: { type: 'text', analyzer: 'standard' } },
+    },
+    tokens: { type: 'keyword' },
+    meta: {
+      type: 'object',
+      dynamic: 'strict',
+      properties: {
+        conversation_id: { type: 'keyword' },
+        channel_id: { type: 'keyword' },
+        title: { type: 'text', analyzer: 'text_ru_en' },
+        slug: { type: 'keyword' },
+        nickname: { type: 'keyword' },
+        display_name: { type: 'text', analyzer: 'text_ru_en' },
+      },
+    },
+  };
+}
+
+export const LATEST_INDEX_VERSION = Math.max(...Object.keys(INDEX_VERSIONS).map(Number));
+
+export function aliasName(prefix: string) { return `${prefix}-content`; }
+export function indexName(prefix: string, version: number) { return `${prefix}-content-v${version}`; }
+
+/**
+ * Документ под mapping версии: mapping строгий, поэтому поля новее версии индекса
+ * (FIELDS_SINCE, например acl до v3) отбрасываются — индекс старой версии продолжает обновляться до reindex.
+ */
+export function fitDoc<T extends object>(doc: T, version: number | null): T {
+  if (version === null) return doc;
+  const newer = Object.keys(FIELDS_SINCE).filter((f) => FIELDS_SINCE[f] > version && f in doc);
+  if (!newer.length) return doc;
+  const out = { ...doc } as Record<string, unknown>;
+  for (const f of newer) delete out[f];
+  return out as T;
+}
+
+/** Номер версии из имени физического индекса (null — имя не по схеме). */
+export function versionOf(index: string): number | null {
+  const m = /-content-v(\d+)$/.exec(index);
+  return m ? Number(m[1]) : null;
+}
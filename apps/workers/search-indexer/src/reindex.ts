@@ -0,0 +1,168 @@
+/* eslint-disable no-console */
+/**
+ * Полная переиндексация без простоя (команды — src/reindex-cli.ts).
+ *
+ * start:
+ *  1) создаёт <prefix>-content-v<N> (mapping из src/mappings.ts, refresh_interval=-1 на время заливки);
+ *  2) включает зеркалирование: живой индексатор пишет каждое изменение и в алиас, и в новый индекс
+ *     (поле mirror в search:reindex; индексатор перечитывает его раз в MIRROR_TTL_MS) и ждёт settleMs;
+ *  3) заливает документы из Postgres пачками keyset по id, после каждой пачки сохраняет чекпоинт
+ *     (cursor:<type>, count:<type>) — повторный start продолжает с места остановки;
+ *  4) атомарно переключает алиас (updateAliases remove+add одним запросом). Старый индекс
+ *     продолжает получать живые записи, чтобы откат ничего не терял.
+ * rollback: до переключения — прерывает заливку и удаляет новый индекс; после — возвращает алиас.
+ * finalize: выключает зеркалирование; --delete-old удаляет прежний индекс.
+ *
+ * Гонки backfill/live снимает версия документа = updated_at (src/opensearch.ts).
+ */
+
+import type { Pool } from 'pg';
+import type { Redis } from 'ioredis';
+import { DOC_TYPES, loadPage } from './documents.js';
+import { INDEX_VERSIONS, LATEST_INDEX_VERSION, aliasName, indexName } from './mappings.js';
+import { bulkWrite, OsClient } from './opensearch.js';
+
+export const REINDEX_KEY = 'search:reindex';
+
+export type ReindexPhase = 'backfill' | 'flipped' | 'rolled_back' | 'aborted' | 'done';
+
+export type ReindexCtx = {
+  os: OsClient;
+  pool: Pick<Pool, 'query'>;
+  redis: Pick<Redis, 'hgetall' | 'hset' | 'hdel' | 'hget' | 'del'>;
+  prefix: string;
+  batchSize: number;
+  settleMs: number;
+  log?: (msg: string) => void;
+};
+
+function sleep(ms: number) { return new Promise(res => setTimeout(res, ms)); }
+
+/** Индексы, в которые живой индексатор дублирует запись (помимо алиаса). */
+export async function readMirror(redis: Pick<Redis, 'hget'>): Promise<string[]> {
+  const v = await redis.hget(REINDEX_KEY, 'mirror');
+  return v ? v.split(',').filter(Boolean) : [];
+}
+
+/** Физический индекс, на который сейчас указывает алиас (null — алиаса нет). */
+export async function currentIndex(ctx: Pick<ReindexCtx, 'os' | 'prefix'>): Promise<string | null> {
+  const res: any = await ctx.os.indices.getAlias({ name: aliasName(ctx.prefix) }).catch((e: any) => {
+    if (e?.meta?.statusCode === 404) return null;
+    throw e;
+  });
+  const names = Object.keys(res?.body || {});
+  return names[0] || null;
+}
+
+async function flipAlias(ctx: ReindexCtx, from: string, to: string) {
+  const alias = aliasName(ctx.prefix);
+  await ctx.os.indices.updateAliases({
+    body: { actions: [{ remove: { index: from, alias } }, { add: { index: to, alias } }] },
+  });
+}
+
+export async function startReindex(ctx: ReindexCtx, opts: { version?: number } = {}) {
+  const log = ctx.log || console.log;
+  const version = opts.version ?? LATEST_INDEX_VERSION;
+  const def = INDEX_VERSIONS[version];
+  if (!def) throw new Error('unknown_version');
+
+  const current = await currentIndex(ctx);
+  if (!current) throw new Error('alias_missing');
+  const target = indexName(ctx.prefix, version);
+  if (current === target) return { status: 'up_to_date' as const, index: current };
+
+  const state = await ctx.redis.hgetall(REINDEX_KEY);
+  const resume = state.phase === 'backfill' && state.target === target;
+  if (state.phase === 'backfill' && !resume) throw new Error('reindex_in_progress');
+  if (state.phase === 'flipped') throw new Error('finalize_or_rollback_first');
+  if (resume && state.source !== current) throw new Error('alias_changed');
+
+  if (!resume) {
+    const exists = await ctx.os.indices.exists({ index: target }).then((r: any) => !!r.body);
+    if (exists) {
+      // остаток прерванной/откаченной попытки: под алиасом его нет, данные неполные
+      log(`reindex: dropping stale ${target}`);
+      await ctx.os.indices.delete({ index: target });
+    }
+    await ctx.os.indices.create({
+      index: target,
+      body: {
+        settings: { ...def.settings, refresh_interval: '-1' },
+        mappings: def.mappings,
+      },
+    });
+    await ctx.redis.del(REINDEX_KEY);
+    await ctx.redis.hset(REINDEX_KEY, {
+      target, source: current, phase: 'backfill', mirror: target, started_at: new Date().toISOString(),
+    });
+    // индексаторы должны увидеть mirror раньше, чем мы прочитаем первую пачку
+    await sleep(ctx.settleMs);
+  } else {
+    log(`reindex: resuming ${current} → ${target}`);
+  }
+
+  const counts: Record<string, number> = {};
+  for (const type of DOC_TYPES) {
+    let cursor: string | null = (resume && state[`cursor:${type}`]) || null;
+    counts[type] = Number((resume && state[`count:${type}`]) || 0);
+    if (state[`done:${type}`] && resume) continue;
+
+    for (;;) {
+      const docs = await loadPage(ctx.pool, type, cursor, ctx.batchSize);
+      if (!docs.length) break;
+      await bulkWrite(ctx.os, target, docs);
+      cursor = docs[docs.length - 1].id;
+      counts[type] += docs.length;
+      await ctx.redis.hset(REINDEX_KEY, { [`cursor:${type}`]: cursor, [`count:${type}`]: String(counts[type]) });
+      if (docs.length < ctx.batchSize) break;
+    }
+    await ctx.redis.hset(REINDEX_KEY, { [`done:${type}`]: '1' });
+    log(`reindex: ${type} — ${counts[type]} docs`);
+  }
+
+  await ctx.os.indices.putSettings({ index: target, body: { index: { refresh_interval: def.settings.refresh_interval ?? '1s' } } });
+  await ctx.os.indices.refresh({ index: target });
+
+  // на время переключения пишем в оба индекса; после — старый остаётся зеркалом для отката
+  await ctx.redis.hset(REINDEX_KEY, { mirror: `${target},${current}` });
+  await sleep(ctx.settleMs);
+  await flipAlias(ctx, current, target);
+  await ctx.redis.hset(REINDEX_KEY, { phase: 'flipped', mirror: current, flipped_at: new Date().toISOString() });
+  log(`reindex: alias ${aliasName(ctx.prefix)} → ${target}`);
+
+  return { status: 'flipped' as const, from: current, to: target, counts };
+}
+
+export async function rollbackReindex(ctx: ReindexCtx) {
+  const state = await ctx.redis.hgetall(REINDEX_KEY);
+
+  if (state.phase === 'backfill') {
+    await ctx.redis.hset(REINDEX_KEY, { phase: 'aborted' });
+    await ctx.redis.hdel(REINDEX_KEY, 'mirror');
+    await ctx.os.indices.delete({ index: state.target }).catch(() => {});
+    return { status: 'aborted' as const, index: state.target };
+  }
+  if (state.phase !== 'flipped') throw new Error('nothing_to_rollback');
+
+  const current = await currentIndex(ctx);
+  if (current !== state.target) throw new Error('alias_changed');
+  await flipAlias(ctx, state.target, state.source);
+  await ctx.redis.hset(REINDEX_KEY, { phase: 'rolled_back', rolled_back_at: new Date().toISOString() });
+  await ctx.redis.hdel(REINDEX_KEY, 'mirror');
+  return { status: 'rolled_back' as const, from: state.target, to: state.source };
+}
+
+export async function finalizeReindex(ctx: ReindexCtx, opts: { deleteOld?: boolean } = {}) {
+  const state = await ctx.redis.hgetall(REINDEX_KEY);
+  if (state.phase !== 'flipped') throw new Error('nothing_to_finalize');
+  await ctx.redis.hset(REINDEX_KEY, { phase: 'done' });
+  await ctx.redis.hdel(REINDEX_KEY, 'mirror');
+  if (opts.deleteOld) await ctx.os.indices.delete({ index: state.source }).catch(() => {});
+  return { status: 'done' as const, index: state.target, deletedOld: !!opts.deleteOld };
+}
+
+export async function reindexStatus(ctx: ReindexCtx) {
+  const [state, current] = await Promise.all([ctx.redis.hgetall(REINDEX_KEY), currentIndex(ctx)]);
+  return { alias: aliasName(ctx.prefix), current, latest: indexName(ctx.prefix, LATEST_INDEX_VERSION), state };
+}
@@ -0,0 +1,206 @@
+/**
+ * Сборка выгрузки данных пользователя (GDPR, статья 20). Состав архива:
+ *  README.txt          — описание файлов;
+ *  profile.json        — профиль, privacy, привязанные OIDC-аккаунты, сессии, блок-лист, endpoint'ы уведомлений;
+ *  conversations.json  — участие в беседах (без чужих сообщений);
+ *  messages.ndjson     — свои сообщения (по строке на сообщение, без удалённых);
+ *  posts.json          — свои посты;
+ *  communities.json    — участие в сообществах и свои публикации в них;
+ *  media.json          — свои загрузки со ссылками на скачивание (пресайн, живут столько же, сколько архив).
+ */
+import type { ZipEntry } from './zip.js';
+
+export type Db = { query: (text: string, params?: any[]) => Promise<{ rows: any[]; rowCount?: number | null }> };
+
+const MESSAGES_PAGE = 1000;
+
+const README = `This archive contains the data associated with your account.
+
+profile.json        your profile, privacy settings, linked sign-in providers, sessions, blocked users
+                    and notification endpoints
+conversations.json  conversations you are or were a member of
+messages.ndjson     messages you wrote, one JSON object per line
+posts.json          posts you authored
+communities.json    communities you are or were a member of, and your posts there
+media.json          files you uploaded; "url" is a temporary download link that expires together
+                    with this archive
+
+All timestamps are UTC (ISO 8601).
+`;
+
+function iso(v: unknown): string | null {
+  return v ? new Date(v as any).toISOString() : null;
+}
+
+async function profile(db: Db, userId: string) {
+  const u = await db.query(
+    `SELECT id, email, display_name, nickname, bio, privacy, roles, avatar_media_id,
+            email_verified_at, created_at, updated_at, deletion_scheduled_for
+       FROM users WHERE id = $1 LIMIT 1`,
+    [userId]
+  );
+  if (!u.rowCount) return null;
+  const r = u.rows[0];
+  const [identities, sessions, blocks, endpoints] = await Promise.all([
+    db.query(`SELECT provider, email, created_at, last_login_at FROM user_identities WHERE user_id = $1 ORDER BY created_at`, [userId]),
+    db.query(
+      `SELECT id, user_agent, host(ip_address) AS ip_address, created_at, expires_at, revoked_at, revoked_reason
+         FROM auth_sessions WHERE user_id = $1 ORDER BY created_at DESC LIMIT 500`,
+      [userId]
+    ),
+    db.query(`SELECT blocked_id, created_at FROM user_blocks WHERE blocker_id = $1 ORDER BY created_at`, [userId]),
+    db.query(`SELECT kind, label, created_at, disabled_at FROM notification_endpoints WHERE user_id = $1 ORDER BY created_at`, [userId]),
+  ]);
+  return {
+    id: String(r.id),
+    email: String(r.email),
+    emailVerifiedAt: iso(r.email_verified_at),
+    displayName: r.display_name,
+    nickname: r.nickname ?? null,
+    bio: r.bio ?? null,
+    avatarMediaId: r.avatar_media_id ?? null,
+    privacy: r.privacy ?? {},
+    roles: r.roles ?? [],
+    createdAt: iso(r.created_at),
+    updatedAt: iso(r.updated_at),
+    deletionScheduledFor: iso(r.deletion_scheduled_for),
+    identities: identities.rows.map((i) => ({
+      provider: i.provider, email: i.email ?? null, linkedAt: iso(i.created_at), lastLoginAt: iso(i.last_login_at),
+    })),
+    sessions: sessions.rows.map((s) => ({
+      id: String(s.id), userAgent: s.user_agent ?? null, ipAddress: s.ip_address ?? null,
+      createdAt: iso(s.created_at), expiresAt: iso(s.expires_at), revokedAt: iso(s.revoked_at), revokedReason: s.revoked_reason ?? null,
+    })),
+    blockedUsers: blocks.rows.map((b) => ({ userId: String(b.blocked_id), blockedAt: iso(b.created_at) })),
+    notificationEndpoints: endpoints.rows.map((e) => ({
+      kind: e.kind, label: e.label ?? null, createdAt: iso(e.created_at), disabledAt: iso(e.disabled_at),
+    })),
+  };
+}
+
+async function conversations(db: Db, userId: string) {
+  const q = await db.query(
+    `SELECT c.id, c.type, c.title, cm.role, cm.joined_at, cm.left_at
+       FROM conversation_members cm
+       JOIN conversations c ON c.id = cm.conversation_id
+      WHERE cm.user_id = $1
+      ORDER BY cm.joined_at`,
+    [userId]
+  );
+  return q.rows.map((r) => ({
+    id: String(r.id), type: r.type, title: r.title ?? null, role: r.role, joinedAt: iso(r.joined_at), leftAt: iso(r.left_at),
+  }));
+}
+
+/** Свои сообщения keyset-страницами, по строке NDJSON на сообщение. */
+async function messages(db: Db, userId: string): Promise<string> {
+  const lines: string[] = [];
+  let cur: { created_at: string; id: string } | null = null;
+  for (;;) {
+    const q: { rows: any[] } = await db.query(
+      `SELECT id, conversation_id, kind, text, media_id, reply_to_id, created_at, edited_at
+         FROM messages
+        WHERE author_id = $1 AND deleted_at IS NULL
+          AND ($2::timestamptz IS NULL OR (created_at, id) > ($2::timestamptz, $3::uuid))
+        ORDER BY created_at, id
+        LIMIT ${MESSAGES_PAGE}`,
+      [userId, cur?.created_at ?? null, cur?.id ?? null]
+    );
+    for (const r of q.rows) {
+      lines.push(JSON.stringify({
+        id: String(r.id), conversationId: String(r.conversation_id), kind: r.kind, text: r.text ?? null,
+        mediaId: r.media_id ?? null, replyToId: r.reply_to_id ?? null, createdAt: iso(r.created_at), editedAt: iso(r.edited_at),
+      }));
+    }
+    if (q.rows.length < MESSAGES_PAGE) break;
+    const last = q.rows[q.rows.length - 1];
+    cur = { created_at: new Date(last.created_at).toISOString(), id: String(last.id) };
+  }
+  return lines.length ? lines.join('\n') + '\n' : '';
+}
+
+async function posts(db: Db, userId: string) {
+  const q = await db.query(
+    `SELECT p.id, p.channel_id, p.title, p.body, p.status, p.published_at, p.created_at, p.updated_at,
+            COALESCE(array_agg(pm.media_id ORDER BY pm.ord) FILTER (WHERE pm.media_id IS NOT NULL), '{}') AS media_ids
+       FROM posts p
+       LEFT JOIN post_media pm ON pm.post_id = p.id
+      WHERE p.author_id = $1 AND p.deleted_at IS NULL
+      GROUP BY p.id
+      ORDER BY p.created_at`,
+    [userId]
+  );
+  return q.rows.map((r) => ({
+    id: String(r.id), channelId: String(r.channel_id), title: r.title ?? null, body: r.body ?? null, status: r.status,
+    mediaIds: (r.media_ids || []).map(String),
+    publishedAt: iso(r.published_at), createdAt: iso(r.created_at), updatedAt: iso(r.updated_at),
+  }));
+}
+
+async function communities(db: Db, userId: string) {
+  const [members, posts] = await Promise.all([
+    db.query(
+      `SELECT c.id, c.kind, c.handle, c.title, cm.role, cm.status, cm.joined_at
+         FROM community_members cm
+         JOIN communities c ON c.id = cm.community_id
+        WHERE cm.user_id = $1
+        ORDER BY cm.joined_at`,
+      [userId]
+    ),
+    db.query(
+      `SELECT id, community_id, body, created_at, updated_at
+         FROM community_posts
+        WHERE author_id = $1 AND deleted_at IS NULL
+        ORDER BY created_at`,
+      [userId]
+    ),
+  ]);
+  return {
+    memberships: members.rows.map((r) => ({
+      id: String(r.id), kind: r.kind, handle: r.handle, title: r.title, role: r.role, status: r.status, joinedAt: iso(r.joined_at),
+    })),
+    posts: posts.rows.map((r) => ({
+      id: String(r.id), communityId: String(r.community_id), body: r.body, createdAt: iso(r.created_at), updatedAt: iso(r.updated_at),
+    })),
+  };
+}
+
+async function media(db: Db, userId: string, presign: (key: string) => Promise<string>) {
+  const q = await db.query(
+    `SELECT id, storage_key, mime, size, width, height, duration_sec, created_at
+       FROM media_files
+      WHERE owner_id = $1 AND quarantined = false AND antivirus_status <> 'infected'
+      ORDER BY created_at`,
+    [userId]
+  );
+  const out: any[] = [];
+  for (const r of q.rows) {
+    out.push({
+      id: String(r.id), mime: r.mime, size: Number(r.size), width: r.width ?? null, height: r.height ?? null,
+      durationSec: r.duration_sec == null ? null : Number(r.duration_sec), createdAt: iso(r.created_at),
+      url: await presign(String(r.storage_key)),
+    });
+  }
+  return out;
+}
+
+/** Файлы архива; null — пользователя нет. */
+export async function buildExportEntries(
+  db: Db,
+  userId: string,
+  opts: { presign: (key: string) => Promise<string>; now?: Date }
+): Promise<ZipEntry[] | null> {
+  const prof = await profile(db, userId);
+  if (!prof) return null;
+  const mtime = opts.now ?? new Date();
+  const json = (v: unknown) => JSON.stringify(v, null, 2) + '\n';
+  return [
+    { name: 'README.txt', data: README, mtime },
+    { name: 'profile.json', data: json(prof), mtime },
+    { name: 'conversations.json', data: json(await conversations(db, userId)), mtime },
+    { name: 'messages.ndjson', data: await messages(db, userId), mtime },
+    { name: 'posts.json', data: json(await posts(db, userId)), mtime },
+    { name: 'communities.json', data: json(await communities(db, userId)), mtime },
+    { name: 'media.json', data: json(await media(db, userId, opts.presign)), mtime },
+  ];
+}
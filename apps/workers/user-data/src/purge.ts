@@ -0,0 +1,172 @@
+/**
+ * Обезличивание аккаунта после истечения срока удаления (users.deletion_scheduled_for).
+ * Строка users остаётся (на неё ссылаются беседы, посты, модерация), но без персональных данных:
+ *  - свои сообщения, посты и публикации в сообществах: содержимое стирается, помечаются удалёнными;
+ *    у сообщений и публикаций снимается author_id, пост остаётся за обезличенным аккаунтом
+ *    (posts.author_id NOT NULL);
+ *  - медиа из сообщений, постов (post_media и posts.media_id) и аватар отвязываются с декрементом
+ *    ref_count — media-gc удалит файлы после своего grace; у своих загрузок снимается owner_id;
+ *  - реакции, упоминания, отметки о прочтении, блок-лист, OIDC-привязки, MFA, токены писем,
+ *    endpoint'ы уведомлений удаляются; участие в беседах и сообществах закрывается
+ *    (единственный owner сообщества остаётся им — обезличенным);
+ *  - все сессии отзываются (revoked_reason = 'account_deleted');
+ *  - из поиска снимаются пользователь, его сообщения и посты (q:search.delete через outbox,
+ *    с тем же dedupe_key, что у modules/outbox enqueueSearch — ждущая индексация заменяется удалением);
+ *  - выгрузки помечаются expired, ключи их архивов возвращаются вызывающему для удаления из S3.
+ * Выполняется в транзакции вызывающего; повторный вызов для уже удалённого — no-op.
+ */
+import type { Db } from './export.js';
+
+export type PurgeResult = { purged: boolean; exportKeys: string[] };
+
+export async function purgeUser(cli: Db, userId: string): Promise<PurgeResult> {
+  const u = await cli.query(
+    `SELECT id, email FROM users
+      WHERE id = $1 AND deleted_at IS NULL
+        AND deletion_scheduled_for IS NOT NULL AND deletion_scheduled_for <= now_utc()
+      FOR UPDATE`,
+    [userId]
+  );
+  if (!u.rowCount) return { purged: false, exportKeys: [] };
+  const email = String(u.rows[0].email);
+
+  // ── медиа: декремент до отвязки (сообщения — включая ранее удалённые, они тоже держат ссылку)
+  await cli.query(
+    `UPDATE media_files mf SET ref_count = GREATEST(mf.ref_count - x.n, 0), updated_at = now_utc()
+       FROM (SELECT media_id, count(*)::int AS n FROM messages
+              WHERE author_id = $1 AND media_id IS NOT NULL GROUP BY media_id) x
+      WHERE mf.id = x.media_id`,
+    [userId]
+  );
+  await cli.query(
+    `UPDATE media_files mf SET ref_count = GREATEST(mf.ref_count - x.n, 0), updated_at = now_utc()
+       FROM (SELECT pm.media_id, count(*)::int AS n FROM post_media pm
+               JOIN posts p ON p.id = pm.post_id
+              WHERE p.author_id = $1 GROUP BY pm.media_id) x
+      WHERE mf.id = x.media_id`,
+    [userId]
+  );
+  await cli.query(
+    `UPDATE media_files mf SET ref_count = GREATEST(mf.ref_count - x.n, 0), updated_at = now_utc()
+       FROM (SELECT media_id, count(*)::int AS n FROM posts
+              WHERE author_id = $1 AND media_id IS NOT NULL GROUP BY media_id) x
+      WHERE mf.id = x.media_id`,
+    [userId]
+  );
+  await cli.query(
+    `UPDATE media_files mf SET ref_count = GREATEST(mf.ref_count - 1, 0), updated_at = now_utc()
+       FROM users u WHERE u.id = $1 AND mf.id = u.avatar_media_id`,
+    [userId]
+  );
+  await cli.query(`DELETE FROM post_media pm USING posts p WHERE p.id = pm.post_id AND p.author_id = $1`, [userId]);
+  await cli.query(`UPDATE media_files SET owner_id = NULL, updated_at = now_utc() WHERE owner_id = $1`, [userId]);
+
+  // ── поиск: снимаем документы, пока ещё известны id
+  await cli.query(
+    `INSERT INTO outbox_events (topic, event, payload, delivery, dedupe_key)
+     SELECT 'q:search.delete', 'job', jsonb_build_object('type', t.type, 'id', t.id), 'stream',
+            'search:' || t.type || ':' || t.id
+       FROM (
+         SELECT 'user' AS type, $1::uuid AS id
+         UNION ALL SELECT 'message', id FROM messages WHERE author_id = $1 AND deleted_at IS NULL
+         UNION ALL SELECT 'post', id FROM posts WHERE author_id = $1 AND deleted_at IS NULL
+       ) t
+     ON CONFLICT (dedupe_key) WHERE published_at IS NULL AND dedupe_key IS NOT NULL
+     DO UPDATE SET topic = EXCLUDED.topic, payload = EXCLUDED.payload`,
+    [userId]
+  );
+
+  // ── содержимое
+  await cli.query(
+    `DELETE FROM message_edits e USING messages m WHERE m.id = e.message_id AND m.author_id = $1`,
+    [userId]
+  );
+  await cli.query(
+    `DELETE FROM message_mentions mm USING messages m WHERE m.id = mm.message_id AND m.author_id = $1`,
+    [userId]
+  );
+  await cli.query(
+    `UPDATE messages
+        SET text = NULL, media_id = NULL, author_id = NULL,
+            deleted_at = COALESCE(deleted_at, now_utc()), updated_at = now_utc()
+      WHERE author_id = $1`,
+    [userId]
+  );
+  await cli.query(
+    `UPDATE posts
+        SET title = NULL, body = NULL, media_id = NULL, deleted_at = COALESCE(deleted_at, now_utc()), updated_at = now_utc()
+      WHERE author_id = $1`,
+    [userId]
+  );
+  await cli.query(
+    `UPDATE community_posts
+        SET body = NULL, author_id = NULL, deleted_at = COALESCE(deleted_at, now_utc()), updated_at = now_utc()
+      WHERE author_id = $1`,
+    [userId]
+  );
+  await cli.query(`DELETE FROM reactions WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM message_mentions WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM message_receipts WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM message_thread_reads WHERE user_id = $1`, [userId]);
+  await cli.query(`UPDATE feed_events SET user_id = NULL WHERE user_id = $1`, [userId]);
+  await cli.query(
+    `UPDATE conversation_members SET left_at = now_utc(), updated_at = now_utc()
+      WHERE user_id = $1 AND left_at IS NULL`,
+    [userId]
+  );
+  // единственный owner сообщества остаётся им (обезличенным): последнего owner снять нельзя
+  await cli.query(
+    `UPDATE community_members cm SET status = 'left', updated_at = now_utc()
+      WHERE cm.user_id = $1 AND cm.status IN ('active','pending')
+        AND (cm.role <> 'owner' OR EXISTS (
+          SELECT 1 FROM community_members o
+           WHERE o.community_id = cm.community_id AND o.user_id <> $1 AND o.role = 'owner' AND o.status = 'active'))`,
+    [userId]
+  );
+
+  // ── учётные данные
+  await cli.query(
+    `UPDATE auth_sessions SET revoked_at = now_utc(), revoked_reason = 'account_deleted', updated_at = now_utc()
+      WHERE user_id = $1 AND revoked_at IS NULL`,
+    [userId]
+  );
+  await cli.query(`DELETE FROM user_identities WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM auth_oidc_states WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM auth_mfa_recovery_codes WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM auth_mfa_totp WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM auth_email_tokens WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM notification_endpoints WHERE user_id = $1`, [userId]);
+  await cli.query(`DELETE FROM user_blocks WHERE blocker_id = $1 OR blocked_id = $1`, [userId]);
+
+  // ── прощальное письмо уходит на прежний адрес (payload.to), до того как он стёрт
+  await cli.query(
+    `INSERT INTO outbox_events (topic, event, payload, delivery) VALUES ('q:notify', 'job', $1::jsonb, 'stream')`,
+    [JSON.stringify({
+      userId, to: email, kind: 'account.deleted', title: 'Your account has been deleted',
+      body: 'Your account and the data associated with it have been deleted as you requested.',
+    })]
+  );
+
+  await cli.query(
+    `UPDATE users
+        SET email = 'deleted+' || id::text || '@invalid', email_verified_at = NULL,
+            password_hash = '!deleted', display_name = 'Deleted account',
+            nickname = NULL, bio = NULL, avatar_media_id = NULL,
+            privacy = '{}'::jsonb, roles = '{}'::text[],
+            deletion_scheduled_for = NULL, deleted_at = now_utc(), updated_at = now_utc()
+      WHERE id = $1`,
+    [userId]
+  );
+  await cli.query(
+    `INSERT INTO auth_security_events (user_id, kind) VALUES ($1, 'account_deleted')`,
+    [userId]
+  );
+
+  const exp = await cli.query(
+    `UPDATE user_data_exports SET status = 'expired', expires_at = LEAST(COALESCE(expires_at, now_utc()), now_utc())
+      WHERE user_id = $1 AND status <> 'expired'
+      RETURNING storage_key`,
+    [userId]
+  );
+  return { purged: true, exportKeys: exp.rows.map((r) => r.storage_key).filter(Boolean).map(String) };
+}
@@ -0,0 +1,49 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 012_outbox.sql
+-- Transactional outbox для realtime-событий: доменные сервисы пишут строку
+-- в той же транзакции, что и изменение данных; воркер outbox-relay забирает
+-- неопубликованные строки (FOR UPDATE SKIP LOCKED) и делает PUBLISH в rt:*.
+-- Откат транзакции = откат события, потеря события при падении relay исключена.
+-- Требования: 001 (now_utc).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS outbox_events (
+  id            bigserial PRIMARY KEY,
+  topic         text NOT NULL,                        -- напр. 'rt:conv:<uuid>'
+  event         text NOT NULL,                        -- напр. 'message:new'
+  payload       jsonb NOT NULL DEFAULT '{}'::jsonb,
+  attempts      int NOT NULL DEFAULT 0,
+  last_error    text NULL,
+  created_at    timestamptz NOT NULL DEFAULT now_utc(),
+  published_at  timestamptz NULL
+);
+
+COMMENT ON TABLE outbox_events IS 'Очередь realtime-событий, записанных в транзакциях доменных сервисов.';
+
+-- Выборка relay: только неопубликованные, в порядке вставки
+CREATE INDEX IF NOT EXISTS idx_outbox_events_pending
+  ON outbox_events (id)
+  WHERE published_at IS NULL;
+
+-- Очистка опубликованных
+CREATE INDEX IF NOT EXISTS idx_outbox_events_published_at
+  ON outbox_events (published_at)
+  WHERE published_at IS NOT NULL;
+
+-- Будим relay через LISTEN/NOTIFY (доставляется только после COMMIT)
+CREATE OR REPLACE FUNCTION outbox_events_notify() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM pg_notify('outbox_events', '');
+  RETURN NULL;
+END$$;
+
+DROP TRIGGER IF EXISTS trg_outbox_events_notify ON outbox_events;
+CREATE TRIGGER trg_outbox_events_notify
+AFTER INSERT ON outbox_events
+FOR EACH STATEMENT
+EXECUTE FUNCTION outbox_events_notify();
+
+COMMIT;
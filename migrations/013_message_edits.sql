@@ -0,0 +1,39 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 013_message_edits.sql
+-- Редактирование сообщений: история правок (message_edits) и доставка
+-- задач в Redis Streams через outbox (delivery='stream': XADD вместо PUBLISH),
+-- чтобы переиндексация поиска ставилась в той же транзакции, что и правка.
+-- Требования: 005 (messages), 012 (outbox_events).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+-- ── История правок: хранится прежний и новый текст каждой правки
+CREATE TABLE IF NOT EXISTS message_edits (
+  id           bigserial PRIMARY KEY,
+  message_id   uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  editor_id    uuid NULL REFERENCES users(id) ON DELETE SET NULL,
+  old_text     text NULL,
+  new_text     text NULL,
+  edited_at    timestamptz NOT NULL DEFAULT now_utc()
+);
+
+COMMENT ON TABLE message_edits IS 'История правок сообщений (старый/новый текст).';
+
+CREATE INDEX IF NOT EXISTS idx_message_edits_message
+  ON message_edits (message_id, edited_at DESC, id DESC);
+
+-- ── Outbox: способ доставки
+-- 'publish' — Redis PUBLISH <topic> (realtime), 'stream' — XADD <topic> * data <json> (очереди воркеров)
+ALTER TABLE IF EXISTS outbox_events
+  ADD COLUMN IF NOT EXISTS delivery text NOT NULL DEFAULT 'publish';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'outbox_events_delivery_check') THEN
+    ALTER TABLE outbox_events
+      ADD CONSTRAINT outbox_events_delivery_check CHECK (delivery IN ('publish','stream'));
+  END IF;
+END$$;
+
+COMMIT;
@@ -0,0 +1,67 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 014_message_reactions.sql
+-- Emoji-реакции на сообщения в общей таблице reactions:
+--  - target_type расширен до ('post','message');
+--  - FK target_id → posts снят (полиморфная цель), очистка — триггерами AFTER DELETE;
+--  - emoji text для сообщений (произвольный emoji), kind (enum) остаётся для постов.
+-- Требования: 005 (messages), 007 (reactions).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+-- ── Полиморфная цель
+ALTER TABLE reactions DROP CONSTRAINT IF EXISTS reactions_target_id_fkey;
+ALTER TABLE reactions DROP CONSTRAINT IF EXISTS reactions_target_type_check;
+ALTER TABLE reactions
+  ADD CONSTRAINT reactions_target_type_check CHECK (target_type IN ('post','message'));
+
+-- ── Emoji для сообщений; kind обязателен только для постов
+ALTER TABLE reactions ADD COLUMN IF NOT EXISTS emoji text NULL;
+ALTER TABLE reactions ALTER COLUMN kind DROP NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'reactions_payload_check') THEN
+    ALTER TABLE reactions ADD CONSTRAINT reactions_payload_check CHECK (
+      (target_type = 'post'    AND kind IS NOT NULL)
+   OR (target_type = 'message' AND emoji IS NOT NULL AND char_length(emoji) BETWEEN 1 AND 32)
+    );
+  END IF;
+END$$;
+
+COMMENT ON COLUMN reactions.emoji IS 'Emoji-реакция (для target_type=message).';
+
+-- Один пользователь — один экземпляр конкретного emoji на сообщение
+CREATE UNIQUE INDEX IF NOT EXISTS ux_reactions_message_emoji
+  ON reactions (target_id, user_id, emoji)
+  WHERE target_type = 'message';
+
+-- Агрегаты по сообщению и список реагировавших (keyset)
+CREATE INDEX IF NOT EXISTS idx_reactions_message_emoji_created
+  ON reactions (target_id, emoji, created_at DESC, id DESC)
+  WHERE target_type = 'message';
+
+-- ── Очистка реакций при физическом удалении цели (вместо снятого FK)
+CREATE OR REPLACE FUNCTION trg_reactions_target_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM reactions WHERE target_type = TG_ARGV[0] AND target_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS t_posts_reactions_delete ON posts;
+CREATE TRIGGER t_posts_reactions_delete
+AFTER DELETE ON posts
+FOR EACH ROW
+EXECUTE FUNCTION trg_reactions_target_delete('post');
+
+DROP TRIGGER IF EXISTS t_messages_reactions_delete ON messages;
+CREATE TRIGGER t_messages_reactions_delete
+AFTER DELETE ON messages
+FOR EACH ROW
+EXECUTE FUNCTION trg_reactions_target_delete('message');
+
+COMMIT;
@@ -0,0 +1,37 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 015_message_threads.sql
+-- Треды по reply_to_id: индекс под выборку ответов (keyset ASC) и агрегаты
+-- (reply_count / last_reply_at), персональные маркеры прочтения тредов.
+-- Требования: 001 (users), 005 (messages).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+-- Ответы на сообщение в хронологическом порядке (только живые)
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to_created
+  ON messages (reply_to_id, created_at, id)
+  WHERE reply_to_id IS NOT NULL AND deleted_at IS NULL;
+
+-- ── Маркеры прочтения тредов (per user)
+CREATE TABLE IF NOT EXISTS message_thread_reads (
+  root_message_id       uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id               uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  last_read_message_id  uuid NULL REFERENCES messages(id) ON DELETE SET NULL,
+  last_read_at          timestamptz NOT NULL,  -- created_at последнего прочитанного ответа
+  created_at            timestamptz NOT NULL DEFAULT now_utc(),
+  updated_at            timestamptz NOT NULL DEFAULT now_utc(),
+  PRIMARY KEY (root_message_id, user_id)
+);
+
+COMMENT ON TABLE message_thread_reads IS 'До какого ответа пользователь прочитал тред (root_message_id).';
+
+CREATE INDEX IF NOT EXISTS idx_message_thread_reads_user
+  ON message_thread_reads (user_id, updated_at DESC);
+
+DROP TRIGGER IF EXISTS trg_message_thread_reads_set_updated_at ON message_thread_reads;
+CREATE TRIGGER trg_message_thread_reads_set_updated_at
+BEFORE UPDATE ON message_thread_reads
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+COMMIT;
@@ -0,0 +1,36 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 016_read_pointers.sql
+-- Указатели прочтения на участника беседы (last_read_message_id/last_read_at)
+-- вместо подсчёта по message_receipts, и упоминания (@nickname) для mention_count.
+-- Требования: 004 (conversation_members), 005 (messages).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+-- ── Указатель прочтения: двигается только вперёд (контролирует приложение)
+ALTER TABLE IF EXISTS conversation_members
+  ADD COLUMN IF NOT EXISTS last_read_message_id uuid NULL REFERENCES messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS last_read_at timestamptz NULL;
+
+COMMENT ON COLUMN conversation_members.last_read_at IS 'created_at последнего прочитанного сообщения; NULL — считать от joined_at.';
+
+-- Непрочитанные считаем по (conversation_id, created_at) > last_read_at
+CREATE INDEX IF NOT EXISTS idx_messages_conv_created_alive
+  ON messages (conversation_id, created_at)
+  WHERE deleted_at IS NULL;
+
+-- ── Упоминания пользователей в сообщениях
+CREATE TABLE IF NOT EXISTS message_mentions (
+  message_id       uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id          uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  conversation_id  uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  created_at       timestamptz NOT NULL,   -- = messages.created_at (для сравнения с last_read_at)
+  PRIMARY KEY (message_id, user_id)
+);
+
+COMMENT ON TABLE message_mentions IS 'Кого упомянули (@nickname) в сообщении; основа mention_count.';
+
+CREATE INDEX IF NOT EXISTS idx_message_mentions_user_conv_created
+  ON message_mentions (user_id, conversation_id, created_at);
+
+COMMIT;
@@ -0,0 +1,26 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 017_message_client_ids.sql
+-- Клиентский id сообщения для дедупликации повторных отправок (WS message:send,
+-- ретраи HTTP после обрыва связи): один client_id на автора в беседе.
+-- Требования: 005 (messages).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS client_id text NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'messages_client_id_check') THEN
+    ALTER TABLE messages ADD CONSTRAINT messages_client_id_check
+      CHECK (client_id IS NULL OR char_length(client_id) BETWEEN 1 AND 64);
+  END IF;
+END$$;
+
+COMMENT ON COLUMN messages.client_id IS 'Id, сгенерированный клиентом; повторная отправка с тем же id возвращает исходное сообщение.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_messages_author_client_id
+  ON messages (conversation_id, author_id, client_id)
+  WHERE client_id IS NOT NULL;
+
+COMMIT;
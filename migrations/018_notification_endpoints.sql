@@ -0,0 +1,56 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 018_notification_endpoints.sql
+-- Куда доставлять уведомления пользователя (worker-notify):
+--  - email   — на email аккаунта (target NULL), регистрация = согласие на письма;
+--  - webpush — подписка браузера (endpoint + ключи p256dh/auth), VAPID;
+--  - webhook — произвольный HTTPS URL, подпись HMAC секретом endpoint'а.
+-- Постоянные ошибки провайдера (410 Gone и т.п.) отключают endpoint (disabled_at).
+-- Требования: 001 (users).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_endpoint_kind') THEN
+    CREATE TYPE notification_endpoint_kind AS ENUM ('email','webpush','webhook');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS notification_endpoints (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id          uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind             notification_endpoint_kind NOT NULL,
+  target           text NULL,            -- webpush endpoint / webhook URL; NULL для email
+  keys             jsonb NULL,           -- webpush: { p256dh, auth }
+  secret           text NULL,            -- webhook: ключ HMAC-подписи
+  label            text NULL,            -- user agent / имя устройства
+  created_at       timestamptz NOT NULL DEFAULT now_utc(),
+  updated_at       timestamptz NOT NULL DEFAULT now_utc(),
+  last_success_at  timestamptz NULL,
+  last_error       text NULL,
+  disabled_at      timestamptz NULL,
+  CHECK (
+    (kind = 'email'   AND target IS NULL)
+ OR (kind = 'webpush' AND target IS NOT NULL AND keys ? 'p256dh' AND keys ? 'auth')
+ OR (kind = 'webhook' AND target IS NOT NULL AND secret IS NOT NULL)
+  )
+);
+
+COMMENT ON TABLE notification_endpoints IS 'Зарегистрированные пользователем каналы доставки уведомлений (email / web push / webhook).';
+
+-- Одна запись на (user, kind, target); email — одна на пользователя
+CREATE UNIQUE INDEX IF NOT EXISTS ux_notification_endpoints_target
+  ON notification_endpoints (user_id, kind, COALESCE(target, ''));
+
+CREATE INDEX IF NOT EXISTS idx_notification_endpoints_user_active
+  ON notification_endpoints (user_id)
+  WHERE disabled_at IS NULL;
+
+DROP TRIGGER IF EXISTS trg_notification_endpoints_set_updated_at ON notification_endpoints;
+CREATE TRIGGER trg_notification_endpoints_set_updated_at
+BEFORE UPDATE ON notification_endpoints
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+COMMIT;
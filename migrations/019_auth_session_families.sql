@@ -0,0 +1,86 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 019_auth_session_families.sql
+-- Обнаружение повторного использования refresh-токенов:
+--  - family_id — цепочка ротаций одной сессии (корень логина и все его замены);
+--    предъявление уже ротированного токена отзывает всю цепочку;
+--  - revoked_reason — почему сессия отозвана ('rotated' | 'logout' | 'revoked' | 'reuse_detected' ...);
+--  - auth_security_events — журнал инцидентов безопасности аккаунта.
+-- Требования: 001 (users), 002 (auth_sessions).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+ALTER TABLE auth_sessions
+  ADD COLUMN IF NOT EXISTS family_id      uuid NULL,
+  ADD COLUMN IF NOT EXISTS revoked_reason text NULL;
+
+COMMENT ON COLUMN auth_sessions.family_id      IS 'Цепочка ротаций: id первой сессии логина; общая для всех её замен.';
+COMMENT ON COLUMN auth_sessions.revoked_reason IS 'Причина отзыва: rotated / logout / revoked / reuse_detected.';
+
+-- Backfill: семья = корень цепочки replaced_by
+WITH RECURSIVE chain AS (
+  SELECT s.id, s.replaced_by, s.id AS family_id
+    FROM auth_sessions s
+   WHERE s.family_id IS NULL
+     AND NOT EXISTS (SELECT 1 FROM auth_sessions p WHERE p.replaced_by = s.id)
+  UNION ALL
+  SELECT n.id, n.replaced_by, c.family_id
+    FROM auth_sessions n
+    JOIN chain c ON n.id = c.replaced_by
+)
+UPDATE auth_sessions s
+   SET family_id = c.family_id
+  FROM chain c
+ WHERE s.id = c.id AND s.family_id IS NULL;
+
+UPDATE auth_sessions SET family_id = id WHERE family_id IS NULL;
+
+-- Ротированные ранее сессии оставались активными — закрываем их
+UPDATE auth_sessions
+   SET revoked_at = now_utc(), revoked_reason = 'rotated'
+ WHERE replaced_by IS NOT NULL AND revoked_at IS NULL;
+
+-- Новая сессия без family_id начинает свою семью
+CREATE OR REPLACE FUNCTION auth_sessions_default_family() RETURNS trigger AS $$
+BEGIN
+  IF NEW.family_id IS NULL THEN
+    NEW.family_id := NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_auth_sessions_default_family ON auth_sessions;
+CREATE TRIGGER trg_auth_sessions_default_family
+BEFORE INSERT ON auth_sessions
+FOR EACH ROW
+EXECUTE FUNCTION auth_sessions_default_family();
+
+ALTER TABLE auth_sessions ALTER COLUMN family_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_family
+  ON auth_sessions (family_id)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_refresh_hash
+  ON auth_sessions (refresh_hash);
+
+-- Журнал инцидентов безопасности
+CREATE TABLE IF NOT EXISTS auth_security_events (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind         text NOT NULL,              -- напр. 'refresh_reuse'
+  session_id   uuid NULL,                  -- без FK: сессии чистит GC, журнал остаётся
+  family_id    uuid NULL,
+  ip_address   inet NULL,
+  user_agent   text NULL,
+  meta         jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at   timestamptz NOT NULL DEFAULT now_utc()
+);
+
+COMMENT ON TABLE auth_security_events IS 'Аудит событий безопасности аккаунта (reuse refresh-токена и т.п.).';
+
+CREATE INDEX IF NOT EXISTS idx_auth_security_events_user
+  ON auth_security_events (user_id, created_at DESC, id DESC);
+
+COMMIT;
@@ -0,0 +1,51 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 020_auth_email_tokens.sql
+-- Подтверждение email и сброс пароля:
+--  - users.email_verified_at — когда адрес подтверждён (существующие аккаунты считаем подтверждёнными);
+--  - auth_email_tokens — одноразовые токены (храним только SHA-256), с истечением;
+--    email фиксируется на момент выдачи: смена адреса делает старый токен подтверждения бесполезным,
+--    по нему же считается rate limit выдачи.
+-- Требования: 001 (users).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS email_verified_at timestamptz NULL;
+
+COMMENT ON COLUMN users.email_verified_at IS 'Время подтверждения email; NULL — не подтверждён.';
+
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'auth_email_token_purpose') THEN
+    CREATE TYPE auth_email_token_purpose AS ENUM ('verify_email','password_reset');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS auth_email_tokens (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose     auth_email_token_purpose NOT NULL,
+  token_hash  char(64) NOT NULL CHECK (token_hash ~ '^[0-9a-f]{64}$'),
+  email       citext NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now_utc(),
+  expires_at  timestamptz NOT NULL,
+  used_at     timestamptz NULL
+);
+
+COMMENT ON TABLE auth_email_tokens IS 'Одноразовые токены подтверждения email и сброса пароля (только хэш).';
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_auth_email_tokens_hash
+  ON auth_email_tokens (token_hash);
+
+-- Rate limit: выдачи на адрес за окно
+CREATE INDEX IF NOT EXISTS idx_auth_email_tokens_email_created
+  ON auth_email_tokens (email, purpose, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_auth_email_tokens_user_active
+  ON auth_email_tokens (user_id, purpose)
+  WHERE used_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,46 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 021_auth_mfa.sql
+-- Двухфакторная аутентификация:
+--  - auth_mfa_totp — TOTP-секрет пользователя (зашифрован AES-256-GCM ключом сервиса);
+--    enabled_at IS NULL — настройка начата, но код ещё не подтверждён;
+--    last_used_step защищает от повторного использования того же кода;
+--    failed_attempts/locked_until — ограничение перебора кодов;
+--  - auth_mfa_recovery_codes — одноразовые коды восстановления (только SHA-256).
+-- Требования: 001 (users).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS auth_mfa_totp (
+  user_id          uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret_enc       text NOT NULL,
+  enabled_at       timestamptz NULL,
+  last_used_step   bigint NULL,
+  failed_attempts  int NOT NULL DEFAULT 0,
+  locked_until     timestamptz NULL,
+  created_at       timestamptz NOT NULL DEFAULT now_utc(),
+  updated_at       timestamptz NOT NULL DEFAULT now_utc()
+);
+
+COMMENT ON TABLE auth_mfa_totp IS 'TOTP (RFC 6238) второй фактор; секрет хранится зашифрованным.';
+
+DROP TRIGGER IF EXISTS trg_auth_mfa_totp_set_updated_at ON auth_mfa_totp;
+CREATE TRIGGER trg_auth_mfa_totp_set_updated_at
+BEFORE UPDATE ON auth_mfa_totp
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+CREATE TABLE IF NOT EXISTS auth_mfa_recovery_codes (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash   char(64) NOT NULL CHECK (code_hash ~ '^[0-9a-f]{64}$'),
+  created_at  timestamptz NOT NULL DEFAULT now_utc(),
+  used_at     timestamptz NULL
+);
+
+COMMENT ON TABLE auth_mfa_recovery_codes IS 'Одноразовые коды восстановления доступа при потере TOTP-устройства.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_auth_mfa_recovery_codes_user_hash
+  ON auth_mfa_recovery_codes (user_id, code_hash);
+
+COMMIT;
@@ -0,0 +1,50 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 022_user_identities.sql
+-- Вход через внешних OIDC-провайдеров:
+--  - user_identities — привязка (provider, subject) → users; один внешний аккаунт —
+--    ровно один пользователь, у пользователя может быть несколько провайдеров;
+--  - auth_oidc_states — незавершённые авторизации (state → PKCE verifier, nonce), одноразовые,
+--    живут минуты; user_id заполнен, если это привязка к уже вошедшему пользователю;
+--  - users.password_hash для аккаунтов, созданных через OIDC, — маркер '!oidc:<random>',
+--    пароль по нему не проверяется (задать пароль можно через сброс пароля).
+-- Требования: 001 (users).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_identities (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id         uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider        text NOT NULL CHECK (provider ~ '^[a-z0-9_-]{1,32}$'),
+  subject         text NOT NULL CHECK (length(subject) BETWEEN 1 AND 255),
+  email           citext NULL,
+  email_verified  boolean NOT NULL DEFAULT false,
+  created_at      timestamptz NOT NULL DEFAULT now_utc(),
+  last_login_at   timestamptz NULL
+);
+
+COMMENT ON TABLE user_identities IS 'Внешние (OIDC) аккаунты, привязанные к пользователям.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_user_identities_provider_subject
+  ON user_identities (provider, subject);
+
+-- Один аккаунт провайдера на пользователя
+CREATE UNIQUE INDEX IF NOT EXISTS ux_user_identities_user_provider
+  ON user_identities (user_id, provider);
+
+CREATE TABLE IF NOT EXISTS auth_oidc_states (
+  state_hash     char(64) PRIMARY KEY CHECK (state_hash ~ '^[0-9a-f]{64}$'),
+  provider       text NOT NULL,
+  code_verifier  text NOT NULL,
+  nonce          text NOT NULL,
+  user_id        uuid NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at     timestamptz NOT NULL DEFAULT now_utc(),
+  expires_at     timestamptz NOT NULL
+);
+
+COMMENT ON TABLE auth_oidc_states IS 'Незавершённые OIDC-авторизации (state/PKCE/nonce); удаляются при использовании.';
+
+CREATE INDEX IF NOT EXISTS idx_auth_oidc_states_expires
+  ON auth_oidc_states (expires_at);
+
+COMMIT;
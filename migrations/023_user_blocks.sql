@@ -0,0 +1,32 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 023_user_blocks.sql
+-- Блокировка пользователей:
+--  - user_blocks — кто кого заблокировал; блокировка действует в обе стороны:
+--    нельзя начать личный диалог, писать в существующий личный диалог, добавлять
+--    друг друга в группы; гейтвей скрывает друг от друга presence и typing;
+--  - users.privacy дополняется ключами messages / groupInvites (кто может написать
+--    первым / добавить в группу) — схема JSONB не меняется, значения по умолчанию в коде.
+-- Требования: 001 (users).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id  uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  blocked_id  uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at  timestamptz NOT NULL DEFAULT now_utc(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+COMMENT ON TABLE user_blocks IS 'Блок-лист пользователей; проверки симметричны (любое направление).';
+
+-- Проверка «заблокировал ли меня кто-то» и список для гейтвея
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked
+  ON user_blocks (blocked_id, blocker_id);
+
+-- Keyset-список своих блокировок
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocker_created
+  ON user_blocks (blocker_id, created_at DESC);
+
+COMMIT;
@@ -0,0 +1,83 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 024_account_deletion.sql
+-- Удаление аккаунта и выгрузка данных (GDPR):
+--  - users.deletion_scheduled_for — удаление запрошено; по истечении срока воркер user-data
+--    обезличивает аккаунт (deleted_at, email/имя/ник/bio стираются), вход в течение срока —
+--    отменяет удаление;
+--  - messages: у удалённых сообщений может не быть содержимого (текст и медиа стираются при
+--    удалении аккаунта), поэтому проверка kind/text/media применяется только к живым;
+--  - user_data_exports — заявки на выгрузку: архив (zip) кладётся в S3, ссылка выдаётся
+--    пресайном, объект удаляется по expires_at.
+-- Требования: 001 (users), 005 (messages).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS deletion_scheduled_for timestamptz NULL;
+
+COMMENT ON COLUMN users.deletion_scheduled_for IS 'Запрошено удаление аккаунта; после этого момента аккаунт обезличивается.';
+
+CREATE INDEX IF NOT EXISTS idx_users_deletion_due
+  ON users (deletion_scheduled_for)
+  WHERE deletion_scheduled_for IS NOT NULL AND deleted_at IS NULL;
+
+-- Безымянный CHECK из 005 (kind ↔ text/media) заменяем именованным, допускающим пустые удалённые
+DO $$
+DECLARE c record;
+BEGIN
+  FOR c IN
+    SELECT conname FROM pg_constraint
+     WHERE conrelid = 'messages'::regclass AND contype = 'c'
+       AND pg_get_constraintdef(oid) LIKE '%kind%'
+       AND conname <> 'messages_content_check'
+  LOOP
+    EXECUTE format('ALTER TABLE messages DROP CONSTRAINT %I', c.conname);
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'messages_content_check') THEN
+    ALTER TABLE messages ADD CONSTRAINT messages_content_check CHECK (
+      deleted_at IS NOT NULL
+      OR (kind = 'text'   AND text IS NOT NULL)
+      OR (kind = 'media'  AND media_id IS NOT NULL)
+      OR (kind = 'system' AND text IS NOT NULL)
+    );
+  END IF;
+END$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_data_export_status') THEN
+    CREATE TYPE user_data_export_status AS ENUM ('pending','running','ready','failed','expired');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS user_data_exports (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status        user_data_export_status NOT NULL DEFAULT 'pending',
+  storage_key   text NULL,              -- exports/<userId>/<id>.zip, когда status = 'ready'
+  size_bytes    bigint NULL,
+  error         text NULL,
+  attempts      int NOT NULL DEFAULT 0,
+  created_at    timestamptz NOT NULL DEFAULT now_utc(),
+  started_at    timestamptz NULL,
+  completed_at  timestamptz NULL,
+  expires_at    timestamptz NULL
+);
+
+COMMENT ON TABLE user_data_exports IS 'Выгрузки данных пользователя (zip в S3, ссылка — пресайн).';
+
+CREATE INDEX IF NOT EXISTS idx_user_data_exports_user_created
+  ON user_data_exports (user_id, created_at DESC);
+
+-- Не больше одной незавершённой выгрузки на пользователя
+CREATE UNIQUE INDEX IF NOT EXISTS ux_user_data_exports_active
+  ON user_data_exports (user_id)
+  WHERE status IN ('pending','running');
+
+CREATE INDEX IF NOT EXISTS idx_user_data_exports_expiring
+  ON user_data_exports (expires_at)
+  WHERE status = 'ready';
+
+COMMIT;
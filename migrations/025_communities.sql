@@ -0,0 +1,166 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 025_communities.sql
+-- Сообщества (modules/communities, /v1/communities):
+--  - communities — канал (подписчики читают) или группа (участники); id — 32 hex-символа
+--    (uuid без дефисов), handle уникален; members_count/posts_count ведут триггеры;
+--  - community_members — роль и статус участия; 'pending' — заявка на вступление в закрытое
+--    сообщество, ждёт одобрения owner/admin/moderator; последнего owner снять/понизить нельзя;
+--  - community_invites — ссылки-приглашения (код, лимит использований, срок); вступление по
+--    ссылке минует заявку, но не бан;
+--  - community_posts — публикации; кто может писать, задаёт communities.posting_policy.
+-- Требования: 001 (users).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS communities (
+  id              text PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', '')
+                  CHECK (id ~ '^[0-9a-f]{32}$'),
+  kind            text NOT NULL CHECK (kind IN ('channel','group')),
+  handle          text NOT NULL CHECK (handle ~ '^[a-z0-9_]{3,32}$'),
+  title           text NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  description     text NULL CHECK (description IS NULL OR char_length(description) <= 2000),
+  owner_id        uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  is_public       boolean NOT NULL DEFAULT true,
+  posting_policy  text NOT NULL DEFAULT 'owners' CHECK (posting_policy IN ('owners','members')),
+  members_count   integer NOT NULL DEFAULT 0 CHECK (members_count >= 0),
+  posts_count     integer NOT NULL DEFAULT 0 CHECK (posts_count >= 0),
+  created_at      timestamptz NOT NULL DEFAULT now_utc(),
+  updated_at      timestamptz NOT NULL DEFAULT now_utc()
+);
+
+COMMENT ON TABLE communities IS 'Сообщества: каналы и группы; закрытые (is_public=false) — вступление по заявке или приглашению.';
+COMMENT ON COLUMN communities.posting_policy IS 'owners — публикуют owner/admin; members — любой активный участник, кроме подписчиков.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_communities_handle ON communities (handle);
+CREATE INDEX IF NOT EXISTS idx_communities_created_desc ON communities (created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_communities_owner ON communities (owner_id);
+
+DROP TRIGGER IF EXISTS trg_communities_set_updated_at ON communities;
+CREATE TRIGGER trg_communities_set_updated_at
+BEFORE UPDATE ON communities
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+CREATE TABLE IF NOT EXISTS community_members (
+  community_id  text NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  user_id       uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role          text NOT NULL DEFAULT 'member' CHECK (role IN ('owner','admin','moderator','member','subscriber')),
+  status        text NOT NULL DEFAULT 'active' CHECK (status IN ('active','banned','left','pending')),
+  joined_at     timestamptz NOT NULL DEFAULT now_utc(),
+  updated_at    timestamptz NOT NULL DEFAULT now_utc(),
+  PRIMARY KEY (community_id, user_id)
+);
+
+COMMENT ON TABLE community_members IS 'Участие в сообществах; pending — заявка на вступление.';
+
+CREATE INDEX IF NOT EXISTS idx_community_members_user ON community_members (user_id, updated_at DESC) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_community_members_pending ON community_members (community_id, joined_at) WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS trg_community_members_set_updated_at ON community_members;
+CREATE TRIGGER trg_community_members_set_updated_at
+BEFORE UPDATE ON community_members
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+-- Последний активный owner не может уйти, быть понижен или забанен
+CREATE OR REPLACE FUNCTION community_members_keep_owner() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF OLD.role = 'owner' AND OLD.status = 'active'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'owner' OR NEW.status <> 'active')
+     AND EXISTS (SELECT 1 FROM communities WHERE id = OLD.community_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM community_members
+        WHERE community_id = OLD.community_id AND user_id <> OLD.user_id
+          AND role = 'owner' AND status = 'active'
+     ) THEN
+    RAISE EXCEPTION 'last_owner' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END$$;
+
+DROP TRIGGER IF EXISTS trg_community_members_keep_owner ON community_members;
+CREATE TRIGGER trg_community_members_keep_owner
+BEFORE UPDATE OR DELETE ON community_members
+FOR EACH ROW
+EXECUTE FUNCTION community_members_keep_owner();
+
+-- members_count — активные участники (pending/left/banned не считаются)
+CREATE OR REPLACE FUNCTION community_members_count() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE','DELETE') AND OLD.status = 'active' THEN
+    UPDATE communities SET members_count = GREATEST(members_count - 1, 0) WHERE id = OLD.community_id;
+  END IF;
+  IF TG_OP IN ('INSERT','UPDATE') AND NEW.status = 'active' THEN
+    UPDATE communities SET members_count = members_count + 1 WHERE id = NEW.community_id;
+  END IF;
+  RETURN NULL;
+END$$;
+
+DROP TRIGGER IF EXISTS trg_community_members_count ON community_members;
+CREATE TRIGGER trg_community_members_count
+AFTER INSERT OR UPDATE OF status OR DELETE ON community_members
+FOR EACH ROW
+EXECUTE FUNCTION community_members_count();
+
+CREATE TABLE IF NOT EXISTS community_invites (
+  code          text PRIMARY KEY CHECK (code ~ '^[A-Za-z0-9_-]{16,64}$'),
+  community_id  text NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  created_by    uuid NULL REFERENCES users(id) ON DELETE SET NULL,
+  max_uses      integer NULL CHECK (max_uses IS NULL OR max_uses > 0),
+  uses          integer NOT NULL DEFAULT 0 CHECK (uses >= 0),
+  expires_at    timestamptz NULL,
+  revoked_at    timestamptz NULL,
+  created_at    timestamptz NOT NULL DEFAULT now_utc()
+);
+
+COMMENT ON TABLE community_invites IS 'Ссылки-приглашения в сообщества (минуют заявку на вступление).';
+
+CREATE INDEX IF NOT EXISTS idx_community_invites_community ON community_invites (community_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS community_posts (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id  text NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  author_id     uuid NULL REFERENCES users(id) ON DELETE SET NULL,
+  body          text NULL,
+  created_at    timestamptz NOT NULL DEFAULT now_utc(),
+  updated_at    timestamptz NOT NULL DEFAULT now_utc(),
+  deleted_at    timestamptz NULL,
+  CHECK (deleted_at IS NOT NULL OR char_length(body) BETWEEN 1 AND 10000)
+);
+
+COMMENT ON TABLE community_posts IS 'Публикации в сообществах; право публикации — communities.posting_policy.';
+
+CREATE INDEX IF NOT EXISTS idx_community_posts_feed
+  ON community_posts (community_id, created_at DESC, id DESC)
+  WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_community_posts_author ON community_posts (author_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS trg_community_posts_set_updated_at ON community_posts;
+CREATE TRIGGER trg_community_posts_set_updated_at
+BEFORE UPDATE ON community_posts
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+-- posts_count — неудалённые публикации
+CREATE OR REPLACE FUNCTION community_posts_count() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE','DELETE') AND OLD.deleted_at IS NULL THEN
+    UPDATE communities SET posts_count = GREATEST(posts_count - 1, 0) WHERE id = OLD.community_id;
+  END IF;
+  IF TG_OP IN ('INSERT','UPDATE') AND NEW.deleted_at IS NULL THEN
+    UPDATE communities SET posts_count = posts_count + 1 WHERE id = NEW.community_id;
+  END IF;
+  RETURN NULL;
+END$$;
+
+DROP TRIGGER IF EXISTS trg_community_posts_count ON community_posts;
+CREATE TRIGGER trg_community_posts_count
+AFTER INSERT OR UPDATE OF deleted_at OR DELETE ON community_posts
+FOR EACH ROW
+EXECUTE FUNCTION community_posts_count();
+
+COMMIT;
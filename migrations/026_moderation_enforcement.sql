@@ -0,0 +1,28 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 026_moderation_enforcement.sql
+-- Применение решений модерации (modules/moderation, /v1/reports, /v1/admin/*) к таблицам из 008:
+--  - posts.hidden_at — пост скрыт модератором (hide_post/unhide_post); статус автора не меняется,
+--    поэтому снятие скрытия возвращает пост как был;
+--  - одна незакрытая жалоба пользователя на один объект (повтор — 409 already_reported);
+--  - очередь модерации по объекту (сколько жалоб на него открыто).
+-- Удаление сообщений модератором — messages.deleted_at (restore_message снимает его, пока текст не стёрт).
+-- Требования: 007 (posts), 008 (reports, moderation_actions, user_bans, channel_blocks).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS hidden_at timestamptz NULL;
+
+COMMENT ON COLUMN posts.hidden_at IS 'Скрыт модератором (moderation_actions: hide_post); NULL — виден.';
+
+CREATE INDEX IF NOT EXISTS idx_posts_hidden ON posts (hidden_at) WHERE hidden_at IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_reports_open_per_reporter
+  ON reports (reporter_id, target_type, target_id)
+  WHERE status IN ('open','reviewing');
+
+CREATE INDEX IF NOT EXISTS idx_reports_target_open
+  ON reports (target_type, target_id)
+  WHERE status IN ('open','reviewing');
+
+COMMIT;
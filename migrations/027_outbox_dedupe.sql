@@ -0,0 +1,22 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 027_outbox_dedupe.sql
+-- Схлопывание задач outbox: строки с dedupe_key (напр. 'search:post:<uuid>') —
+-- «последнее состояние документа». Пока строка не опубликована, повторная запись
+-- с тем же ключом обновляет её (ON CONFLICT … DO UPDATE), а не добавляет новую,
+-- поэтому серия правок одного документа даёт одну задачу индексатору.
+-- После публикации ключ освобождается: следующее изменение ставит новую задачу.
+-- Требования: 012 (outbox_events), 013 (delivery).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+ALTER TABLE IF EXISTS outbox_events
+  ADD COLUMN IF NOT EXISTS dedupe_key text NULL;
+
+COMMENT ON COLUMN outbox_events.dedupe_key IS 'Ключ схлопывания: не больше одной неопубликованной строки на ключ.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_outbox_events_pending_dedupe
+  ON outbox_events (dedupe_key)
+  WHERE published_at IS NULL AND dedupe_key IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 028_oidc_state_binding.sql
+-- Привязка OIDC-state к браузеру, начавшему авторизацию: authorize выдаёт одноразовый
+-- ключ браузера (HttpOnly cookie или тело ответа), здесь хранится его SHA-256; callback
+-- без совпадающего ключа отклоняется — чужой code+state (login CSRF, навязанная привязка
+-- внешнего аккаунта) не принимается.
+-- Требования: 022 (auth_oidc_states).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+ALTER TABLE IF EXISTS auth_oidc_states
+  ADD COLUMN IF NOT EXISTS browser_hash char(64) NULL CHECK (browser_hash ~ '^[0-9a-f]{64}$');
+
+COMMENT ON COLUMN auth_oidc_states.browser_hash IS 'SHA-256 ключа браузера, начавшего авторизацию; NULL — старые строки, callback их отклоняет.';
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 029_post_media_id.sql
+-- Основное медиа поста: PostsService (create/attachMedia) хранит его в posts.media_id и
+-- ведёт по нему media_files.ref_count, но в 007 колонки нет — только post_media. Доступ к
+-- медиа, поиск и удаление данных пользователя учитывают обе ссылки.
+-- Требования: 003 (media_files), 007 (posts).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+ALTER TABLE IF EXISTS posts
+  ADD COLUMN IF NOT EXISTS media_id uuid NULL REFERENCES media_files(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_posts_media ON posts(media_id) WHERE media_id IS NOT NULL;
+
+COMMENT ON COLUMN posts.media_id IS 'Основное медиа поста (учитывается в media_files.ref_count); вложения — post_media.';
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 030_avatar_ref_count.sql
+-- Аватар держит ссылку на медиа: users.updateProfile ведёт по нему media_files.ref_count.
+-- Здесь учитываются аватары живых пользователей, выставленные раньше, — иначе media-gc
+-- считал бы их сиротами (ref_count = 0).
+-- Требования: 003 (media_files), 011 (users.avatar_media_id).
+-- ─────────────────────────────────────────────────────────────────────────────
+
+BEGIN;
+
+UPDATE media_files mf
+   SET ref_count = mf.ref_count + x.n, updated_at = now_utc()
+  FROM (SELECT avatar_media_id, count(*)::int AS n FROM users
+         WHERE avatar_media_id IS NOT NULL AND deleted_at IS NULL GROUP BY avatar_media_id) x
+ WHERE mf.id = x.avatar_media_id;
+
+COMMIT;
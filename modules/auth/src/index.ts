@@ -2,9 +2,21 @@
  * AuthService
  * - Регистрация (email+password) с Argon2id
  * - Логин: выдача access(JWT) + refresh(opaque), создание строки в auth_sessions (храним SHA-256 хэш)
- * - Ротация refresh: при refresh() создаёт новую сессию и помечает старую replaced_by
+ * - Ротация refresh: при refresh() создаёт новую сессию в той же семье (family_id), старую
+ *   отзывает (revoked_reason='rotated') и помечает replaced_by
+ * - Reuse detection: предъявление уже ротированного refresh отзывает всю семью сессий,
+ *   пишет auth_security_events и шлёт алерт user:notification (миграция 019)
  * - Logout: revoke текущую refresh-сессию
  * - Управление сессиями: list(), revoke(sessionId)
+ * - MFA: TOTP (RFC 6238) + коды восстановления; login() при включённом TOTP отдаёт
+ *   MFA-челлендж (JWT с отдельной audience), токены — verifyMfaLogin() (миграция 021)
+ * - OIDC-вход (authorization code + PKCE) и привязка внешних аккаунтов (user_identities,
+ *   миграция 022); провайдеры и их ENV — в oidc.ts
+ * - Подтверждение email и сброс пароля одноразовыми токенами (auth_email_tokens, миграция 020);
+ *   письма уходят через q:notify (транзакционно, enqueueJob)
+ * - Вход отменяет запрошенное удаление аккаунта (users.deletion_scheduled_for, миграция 024)
+ * - Access-токен несёт roles (для requireRole); забаненному (user_bans) токены не выдаются — ни
+ *   при входе, ни при refresh
  *
  * ENV (обязательные/рекомендуемые):
  *  AUTH_JWT_ISSUER         (напр. "messenger.api")
@@ -13,12 +25,25 @@
  *  AUTH_JWT_REFRESH_TTL    (в секундах, напр. 2592000 = 30 дней)
  *  AUTH_JWT_SECRET         (32+ байт; используется HMAC SHA-256 через 'jose')
  *  PASSWORD_MIN_LENGTH     (по умолчанию 8)
+ *  AUTH_REQUIRE_EMAIL_VERIFICATION (true — логин только с подтверждённым email; по умолчанию false)
+ *  AUTH_VERIFY_TOKEN_TTL / AUTH_RESET_TOKEN_TTL (секунды; 86400 / 3600)
+ *  AUTH_EMAIL_TOKEN_MAX_PER_HOUR (писем на адрес и назначение в час; 3)
+ *  APP_PUBLIC_URL          (база ссылок в письмах, напр. "https://app.example.com")
+ *  AUTH_MFA_ENC_KEY        (ключ шифрования TOTP-секретов, 32+ символа; по умолчанию AUTH_JWT_SECRET)
+ *  AUTH_MFA_ISSUER         (issuer в otpauth:// URI; "Messenger")
+ *  AUTH_MFA_CHALLENGE_TTL  (секунды на второй шаг логина; 300)
+ *  OIDC_STATE_TTL          (секунды на возврат от провайдера; 600)
+ *  AUTH_MFA_MAX_ATTEMPTS / AUTH_MFA_LOCK_SEC (неверных кодов подряд до блокировки / её длительность; 5 / 900)
  */
 
 import { Pool, DatabaseError } from 'pg';
 import * as argon2 from 'argon2';
-import { createHash, randomBytes } from 'node:crypto';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
 import { SignJWT, jwtVerify, JWTPayload } from 'jose';
+import { enqueue, enqueueJob, enqueueSearch, topics, withTx } from '@modules/outbox';
+import { base32Encode, newTotpSecret, otpauthUri, verifyTotp } from './totp.js';
+import { OidcClient, oidcProvidersFromEnv, pkcePair } from './oidc.js';
+import type { OidcClaims } from './oidc.js';
 
 export type UserSafe = {
   id: string;
@@ -36,6 +61,20 @@ export type Tokens = {
   sessionId: string;
 };
 
+/** Результат login(): токены либо (при включённом TOTP) MFA-челлендж. */
+export type MfaChallenge = { mfaRequired: true; mfaToken: string; mfaExp: number };
+export type LoginResult = { user: UserSafe; tokens: Tokens } | MfaChallenge;
+
+/** Второй фактор: TOTP-код или одноразовый код восстановления. */
+export type MfaProof = { code?: string; recoveryCode?: string };
+
+/** Привязанный внешний аккаунт (user_identities). */
+export type IdentityView = { id: string; provider: string; email: string | null; createdAt: string; lastLoginAt: string | null };
+
+function identityView(r: any): IdentityView {
+  return { id: String(r.id), provider: String(r.provider), email: r.email ?? null, createdAt: r.created_at, lastLoginAt: r.last_login_at ?? null };
+}
+
 export class AuthError extends Error {
   statusCode: number;
 
@@ -56,8 +95,7 @@ export class AuthService {
   async signup(input: { email: string; password: string; displayName?: string; nickname?: string | null }): Promise<UserSafe> {
     const email = this.normalizeEmail(input.email);
     const pwd = String(input.password || '');
-    const minLen = Math.max(6, Number(this.env.PASSWORD_MIN_LENGTH) || 8);
-    if (pwd.length < minLen) throw this.err(400, `password_too_short (min ${minLen})`);
+    this.ensurePasswordLength(pwd);
 
     const hash = await argon2.hash(pwd, { type: argon2.argon2id, memoryCost: 19456, timeCost: 2, parallelism: 1 });
     const display = input.displayName?.trim() || email.split('@')[0];
@@ -65,14 +103,19 @@ export class AuthService {
 
     let user: UserSafe | null = null;
     try {
-      const q = await this.pool.query(
-        `INSERT INTO users (email, password_hash, display_name, nickname, roles)
-         VALUES ($1, $2, $3, $4, $5)
-         RETURNING id, email, display_name, nickname, roles`,
-        [email, hash, display, nickname, []]
-      );
-      const r = q.rows[0];
-      user = { id: String(r.id), email: String(r.email), displayName: String(r.display_name), nickname: r.nickname, roles: r.roles || [] };
+      user = await withTx(this.pool, async (cli) => {
+        const q = await cli.query(
+          `INSERT INTO users (email, password_hash, display_name, nickname, roles)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING id, email, display_name, nickname, roles`,
+          [email, hash, display, nickname, []]
+        );
+        const r = q.rows[0];
+        const created: UserSafe = { id: String(r.id), email: String(r.email), displayName: String(r.display_name), nickname: r.nickname, roles: r.roles || [] };
+        await this.issueEmailToken(cli, created.id, created.email, 'verify_email');
+        await enqueueSearch(cli, 'index', { type: 'user', id: created.id });
+        return created;
+      });
     } catch (e: any) {
       if (e instanceof DatabaseError) {
         if (e.code === '23505') {
@@ -86,69 +129,360 @@ export class AuthService {
     return user;
   }
 
-  async login(input: { email: string; password: string; userAgent?: string; ipAddress?: string }): Promise<{ user: UserSafe; tokens: Tokens }> {
+  /**
+   * Логин по паролю. Если у пользователя включён TOTP — вместо токенов возвращается
+   * MFA-челлендж; токены выдаёт verifyMfaLogin() после проверки второго фактора.
+   */
+  async login(input: { email: string; password: string; userAgent?: string; ipAddress?: string }): Promise<LoginResult> {
     const email = this.normalizeEmail(input.email);
     const q = await this.pool.query(
-      `SELECT id, email, password_hash, display_name, nickname, roles, deleted_at
-         FROM users WHERE email = $1 AND deleted_at IS NULL LIMIT 1`,
+      `SELECT u.id, u.email, u.password_hash, u.display_name, u.nickname, u.roles, u.email_verified_at, u.deleted_at,
+              (t.user_id IS NOT NULL) AS mfa_enabled
+         FROM users u
+         LEFT JOIN auth_mfa_totp t ON t.user_id = u.id AND t.enabled_at IS NOT NULL
+        WHERE u.email = $1 AND u.deleted_at IS NULL LIMIT 1`,
       [email]
     );
     if (!q.rowCount) throw this.err(401, 'invalid_credentials');
 
     const u = q.rows[0];
+    // аккаунт создан через OIDC и пароля не имеет
+    if (String(u.password_hash).startsWith('!')) throw this.err(401, 'invalid_credentials');
     const ok = await argon2.verify(String(u.password_hash), String(input.password || ''));
     if (!ok) throw this.err(401, 'invalid_credentials');
 
+    if (!u.email_verified_at && this.env.AUTH_REQUIRE_EMAIL_VERIFICATION === 'true') throw this.err(403, 'email_not_verified');
+
+    if (u.mfa_enabled) return this.signMfaChallenge(String(u.id));
+
     const user: UserSafe = { id: String(u.id), email: String(u.email), displayName: String(u.display_name), nickname: u.nickname, roles: u.roles || [] };
     const tokens = await this.issueTokensAndSession(user.id, input.userAgent, input.ipAddress);
     return { user, tokens };
   }
 
-  async refresh(input: { refreshToken: string; userAgent?: string; ipAddress?: string }): Promise<Tokens> {
-    const token = String(input.refreshToken || '');
-    const hash = this.hashRefresh(token);
+  // ────────────────────────────────────────────────────────────────────────────
+  // OIDC (внешние провайдеры)
+  // ────────────────────────────────────────────────────────────────────────────
 
-    // Ищем активную сессию по хэшу
-    const s = await this.pool.query(
-      `SELECT id, user_id, revoked_at, replaced_by, expires_at
-         FROM auth_sessions
-        WHERE refresh_hash = $1 AND revoked_at IS NULL
-        LIMIT 1`,
-      [hash]
+  oidcProviders(): string[] {
+    return Array.from(this.oidcClients().keys());
+  }
+
+  /**
+   * Начать авторизацию у провайдера: state/nonce/PKCE сохраняются в auth_oidc_states.
+   * linkUserId — привязать внешний аккаунт к уже вошедшему пользователю вместо логина.
+   * browserKey — ключ браузера (в БД только хэш, миграция 028): его предъявляет callback.
+   */
+  async oidcAuthorize(
+    providerId: string,
+    opts: { linkUserId?: string } = {}
+  ): Promise<{ authorizationUrl: string; state: string; browserKey: string }> {
+    const client = this.oidcClient(providerId);
+    if (opts.linkUserId) this.ensureUuid(opts.linkUserId);
+    const state = randomBytes(32).toString('base64url');
+    const browserKey = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    const pkce = pkcePair();
+    const authorizationUrl = await client.authorizationUrl({ state, nonce, codeChallenge: pkce.challenge });
+
+    await this.pool.query(`DELETE FROM auth_oidc_states WHERE expires_at < now_utc()`);
+    await this.pool.query(
+      `INSERT INTO auth_oidc_states (state_hash, provider, code_verifier, nonce, user_id, browser_hash, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, now_utc() + make_interval(secs => $7))`,
+      [
+        this.hashRefresh(state), client.cfg.id, pkce.verifier, nonce, opts.linkUserId ?? null,
+        this.hashRefresh(browserKey), this.ttlFromEnv(this.env.OIDC_STATE_TTL, 600),
+      ]
     );
-    if (!s.rowCount) throw this.err(401, 'invalid_refresh');
+    return { authorizationUrl, state, browserKey };
+  }
 
-    const sess = s.rows[0];
-    if (new Date(sess.expires_at).getTime() <= Date.now()) throw this.err(401, 'refresh_expired');
+  /**
+   * Завершить авторизацию (code + state с redirect_uri). Для логина — те же Tokens, что и
+   * login() (или MFA-челлендж); для привязки — привязанная identity.
+   * Пользователь находится по (provider, sub); новый создаётся по email из ID token. Если адрес
+   * уже занят — 409 account_exists (войти паролем и привязать), кроме провайдеров с TRUST_EMAIL
+   * и подтверждённым email.
+   * state принимается только вместе с browserKey из oidcAuthorize (тот же браузер); привязку
+   * завершает только тот же вошедший пользователь (viewerId), что её начал.
+   */
+  async oidcCallback(
+    providerId: string,
+    input: { code: string; state: string; browserKey?: string; viewerId?: string; userAgent?: string; ipAddress?: string }
+  ): Promise<LoginResult | { linked: IdentityView }> {
+    const client = this.oidcClient(providerId);
+    const st = await this.pool.query(
+      `DELETE FROM auth_oidc_states
+        WHERE state_hash = $1 AND provider = $2
+        RETURNING code_verifier, nonce, user_id, browser_hash, expires_at`,
+      [this.hashRefresh(String(input.state || '')), client.cfg.id]
+    );
+    if (!st.rowCount || new Date(st.rows[0].expires_at).getTime() <= Date.now()) throw this.err(400, 'invalid_oidc_state');
+    const { code_verifier, nonce, user_id: linkUserId, browser_hash } = st.rows[0];
+    if (!browser_hash || !input.browserKey || this.hashRefresh(input.browserKey) !== browser_hash) throw this.err(400, 'invalid_oidc_state');
+    if (linkUserId && String(linkUserId) !== input.viewerId) throw this.err(403, 'oidc_link_user_mismatch');
+
+    const claims = await client.exchange(String(input.code || ''), code_verifier, nonce);
+
+    if (linkUserId) {
+      const linked = await withTx(this.pool, async (cli) => {
+        const view = await this.linkIdentity(cli, String(linkUserId), client.cfg.id, claims);
+        await cli.query(
+          `INSERT INTO auth_security_events (user_id, kind, ip_address, user_agent, meta)
+           VALUES ($1, 'identity_linked', $2, $3, $4::jsonb)`,
+          [linkUserId, input.ipAddress || null, input.userAgent || null, JSON.stringify({ provider: client.cfg.id })]
+        );
+        return view;
+      });
+      return { linked };
+    }
 
-    // Ротация: создаём новую сессию, текущую ссылаем на новую
-    const newTok = this.newOpaqueToken();
-    const newHash = this.hashRefresh(newTok);
-    const now = new Date();
-    const refreshExp = this.addSeconds(now, this.refreshTtl());
+    const userId = await withTx(this.pool, async (cli) => {
+      const idq = await cli.query(
+        `UPDATE user_identities SET last_login_at = now_utc(), email = COALESCE($3, email), email_verified = $4
+          WHERE provider = $1 AND subject = $2
+          RETURNING user_id`,
+        [client.cfg.id, claims.subject, claims.email, claims.emailVerified]
+      );
+      if (idq.rowCount) return String(idq.rows[0].user_id);
+
+      if (!claims.email) throw this.err(400, 'oidc_email_required');
+      const existing = await cli.query(`SELECT id FROM users WHERE email = $1 AND deleted_at IS NULL LIMIT 1`, [claims.email]);
+      if (existing.rowCount) {
+        if (!(client.cfg.trustEmail && claims.emailVerified)) throw this.err(409, 'account_exists');
+        const uid = String(existing.rows[0].id);
+        await this.linkIdentity(cli, uid, client.cfg.id, claims);
+        return uid;
+      }
+
+      const display = claims.name?.trim() || claims.email.split('@')[0];
+      const ins = await cli.query(
+        `INSERT INTO users (email, password_hash, display_name, nickname, roles, email_verified_at)
+         VALUES ($1, $2, $3, NULL, $4, CASE WHEN $5 THEN now_utc() ELSE NULL END)
+         RETURNING id`,
+        [claims.email, '!oidc:' + randomBytes(16).toString('hex'), display, [], claims.emailVerified]
+      );
+      const uid = String(ins.rows[0].id);
+      await this.linkIdentity(cli, uid, client.cfg.id, claims);
+      await enqueueSearch(cli, 'index', { type: 'user', id: uid });
+      if (!claims.emailVerified) await this.issueEmailToken(cli, uid, claims.email, 'verify_email');
+      return uid;
+    });
 
     const q = await this.pool.query(
-      `WITH new_sess AS (
-         INSERT INTO auth_sessions (user_id, refresh_hash, user_agent, ip_address, expires_at)
-         VALUES ($1, $2, $3, $4, $5)
-         RETURNING id
-       )
-       UPDATE auth_sessions
-          SET replaced_by = (SELECT id FROM new_sess), updated_at = now_utc()
-        WHERE id = $6
-       RETURNING (SELECT id FROM new_sess) AS new_id`,
-      [sess.user_id, newHash, input.userAgent || null, input.ipAddress || null, refreshExp.toISOString(), sess.id]
+      `SELECT u.id, u.email, u.display_name, u.nickname, u.roles, u.email_verified_at, u.deleted_at,
+              (t.user_id IS NOT NULL) AS mfa_enabled
+         FROM users u
+         LEFT JOIN auth_mfa_totp t ON t.user_id = u.id AND t.enabled_at IS NOT NULL
+        WHERE u.id = $1 LIMIT 1`,
+      [userId]
     );
+    const u = q.rows[0];
+    if (!u || u.deleted_at) throw this.err(401, 'invalid_credentials');
+    if (!u.email_verified_at && this.env.AUTH_REQUIRE_EMAIL_VERIFICATION === 'true') throw this.err(403, 'email_not_verified');
+    if (u.mfa_enabled) return this.signMfaChallenge(userId);
+
+    const user: UserSafe = { id: String(u.id), email: String(u.email), displayName: String(u.display_name), nickname: u.nickname, roles: u.roles || [] };
+    const tokens = await this.issueTokensAndSession(user.id, input.userAgent, input.ipAddress);
+    return { user, tokens };
+  }
+
+  async listIdentities(userId: string): Promise<IdentityView[]> {
+    this.ensureUuid(userId);
+    const q = await this.pool.query(
+      `SELECT id, provider, email, created_at, last_login_at
+         FROM user_identities WHERE user_id = $1
+        ORDER BY created_at`,
+      [userId]
+    );
+    return q.rows.map(identityView);
+  }
+
+  /** Отвязать провайдера; нельзя убрать последний способ входа (нет пароля и других identity). */
+  async unlinkIdentity(userId: string, identityId: string): Promise<{ ok: true }> {
+    this.ensureUuid(userId); this.ensureUuid(identityId);
+    await withTx(this.pool, async (cli) => {
+      const u = await cli.query(
+        `SELECT (password_hash NOT LIKE '!%') AS has_password,
+                (SELECT count(*)::int FROM user_identities WHERE user_id = $1) AS identities
+           FROM users WHERE id = $1 FOR UPDATE`,
+        [userId]
+      );
+      if (!u.rowCount) throw this.err(404, 'user_not_found');
+      const d = await cli.query(
+        `DELETE FROM user_identities WHERE id = $1 AND user_id = $2 RETURNING provider`,
+        [identityId, userId]
+      );
+      if (!d.rowCount) throw this.err(404, 'identity_not_found');
+      if (!u.rows[0].has_password && Number(u.rows[0].identities) <= 1) throw this.err(409, 'last_login_method');
+      await cli.query(
+        `INSERT INTO auth_security_events (user_id, kind, meta) VALUES ($1, 'identity_unlinked', $2::jsonb)`,
+        [userId, JSON.stringify({ provider: d.rows[0].provider })]
+      );
+    });
+    return { ok: true };
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // MFA (TOTP + коды восстановления)
+  // ────────────────────────────────────────────────────────────────────────────
+
+  /** Второй шаг логина: MFA-челлендж + TOTP-код или код восстановления. */
+  async verifyMfaLogin(input: MfaProof & { mfaToken: string; userAgent?: string; ipAddress?: string }): Promise<{ user: UserSafe; tokens: Tokens }> {
+    let userId: string;
+    try {
+      const { payload } = await jwtVerify(String(input.mfaToken || ''), this.jwtSecretKey(), {
+        issuer: this.env.AUTH_JWT_ISSUER || 'messenger.api',
+        audience: this.mfaAudience(),
+      });
+      if (payload.typ !== 'mfa_challenge' || !payload.sub) throw new Error('bad');
+      userId = String(payload.sub);
+    } catch {
+      throw this.err(401, 'invalid_mfa_token');
+    }
+
+    await this.checkSecondFactor(userId, input, input.ipAddress);
+
+    const q = await this.pool.query(
+      `SELECT id, email, display_name, nickname, roles FROM users WHERE id = $1 AND deleted_at IS NULL LIMIT 1`,
+      [userId]
+    );
+    if (!q.rowCount) throw this.err(401, 'invalid_mfa_token');
+    const u = q.rows[0];
+    const user: UserSafe = { id: String(u.id), email: String(u.email), displayName: String(u.display_name), nickname: u.nickname, roles: u.roles || [] };
+    const tokens = await this.issueTokensAndSession(user.id, input.userAgent, input.ipAddress);
+    return { user, tokens };
+  }
+
+  async mfaStatus(userId: string): Promise<{ totpEnabled: boolean; recoveryCodesRemaining: number }> {
+    this.ensureUuid(userId);
+    const q = await this.pool.query(
+      `SELECT EXISTS (SELECT 1 FROM auth_mfa_totp WHERE user_id = $1 AND enabled_at IS NOT NULL) AS enabled,
+              (SELECT count(*)::int FROM auth_mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL) AS remaining`,
+      [userId]
+    );
+    return { totpEnabled: !!q.rows[0]?.enabled, recoveryCodesRemaining: Number(q.rows[0]?.remaining ?? 0) };
+  }
+
+  /** Начать подключение TOTP: новый секрет (пока не подтверждён) и otpauth:// URI для QR. */
+  async setupTotp(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    this.ensureUuid(userId);
+    const u = await this.pool.query(`SELECT email FROM users WHERE id = $1 AND deleted_at IS NULL LIMIT 1`, [userId]);
+    if (!u.rowCount) throw this.err(404, 'user_not_found');
+
+    const secret = newTotpSecret();
+    const q = await this.pool.query(
+      `INSERT INTO auth_mfa_totp (user_id, secret_enc)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE
+         SET secret_enc = EXCLUDED.secret_enc, last_used_step = NULL, failed_attempts = 0, locked_until = NULL
+         WHERE auth_mfa_totp.enabled_at IS NULL
+       RETURNING user_id`,
+      [userId, this.encryptSecret(secret)]
+    );
+    if (!q.rowCount) throw this.err(409, 'mfa_already_enabled');
+    const issuer = this.env.AUTH_MFA_ISSUER || 'Messenger';
+    return { secret, otpauthUri: otpauthUri(secret, String(u.rows[0].email), issuer) };
+  }
+
+  /** Подтвердить TOTP первым кодом; возвращает коды восстановления (показываются один раз). */
+  async enableTotp(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    this.ensureUuid(userId);
+    return withTx(this.pool, async (cli) => {
+      const q = await cli.query(`SELECT secret_enc, enabled_at FROM auth_mfa_totp WHERE user_id = $1 FOR UPDATE`, [userId]);
+      if (!q.rowCount) throw this.err(409, 'mfa_setup_required');
+      if (q.rows[0].enabled_at) throw this.err(409, 'mfa_already_enabled');
+      const step = verifyTotp(this.decryptSecret(q.rows[0].secret_enc), code);
+      if (step === null) throw this.err(400, 'invalid_mfa_code');
+
+      await cli.query(
+        `UPDATE auth_mfa_totp SET enabled_at = now_utc(), last_used_step = $2, failed_attempts = 0 WHERE user_id = $1`,
+        [userId, step]
+      );
+      const recoveryCodes = await this.replaceRecoveryCodes(cli, userId);
+      await cli.query(`INSERT INTO auth_security_events (user_id, kind) VALUES ($1, 'mfa_enabled')`, [userId]);
+      await this.securityAlert(cli, userId, 'Two-factor authentication enabled', 'Sign-ins now require a code from your authenticator app.', { event: 'mfa_enabled' });
+      return { recoveryCodes };
+    });
+  }
+
+  async disableMfa(userId: string, proof: MfaProof): Promise<{ ok: true }> {
+    this.ensureUuid(userId);
+    await this.checkSecondFactor(userId, proof);
+    await withTx(this.pool, async (cli) => {
+      await cli.query(`DELETE FROM auth_mfa_totp WHERE user_id = $1`, [userId]);
+      await cli.query(`DELETE FROM auth_mfa_recovery_codes WHERE user_id = $1`, [userId]);
+      await cli.query(`INSERT INTO auth_security_events (user_id, kind) VALUES ($1, 'mfa_disabled')`, [userId]);
+      await this.securityAlert(cli, userId, 'Two-factor authentication disabled', 'If this was not you, reset your password and enable it again.', { event: 'mfa_disabled' });
+    });
+    return { ok: true };
+  }
+
+  async regenerateRecoveryCodes(userId: string, proof: MfaProof): Promise<{ recoveryCodes: string[] }> {
+    this.ensureUuid(userId);
+    await this.checkSecondFactor(userId, proof);
+    return withTx(this.pool, async (cli) => {
+      const recoveryCodes = await this.replaceRecoveryCodes(cli, userId);
+      await cli.query(`INSERT INTO auth_security_events (user_id, kind) VALUES ($1, 'mfa_recovery_regenerated')`, [userId]);
+      return { recoveryCodes };
+    });
+  }
+
+  async refresh(input: { refreshToken: string; userAgent?: string; ipAddress?: string }): Promise<Tokens> {
+    const token = String(input.refreshToken || '');
+    const hash = this.hashRefresh(token);
+
+    const out = await withTx(this.pool, async (cli) => {
+      // Ищем сессию по хэшу, включая отозванные — иначе повтор ротированного токена не отличить от мусора
+      const s = await cli.query(
+        `SELECT id, user_id, family_id, revoked_at, replaced_by, expires_at
+           FROM auth_sessions
+          WHERE refresh_hash = $1
+          ORDER BY created_at DESC
+          LIMIT 1
+          FOR UPDATE`,
+        [hash]
+      );
+      if (!s.rowCount) throw this.err(401, 'invalid_refresh');
+      const sess = s.rows[0];
+
+      // Токен уже ротирован: его предъявляет кто-то второй — отзываем всю семью
+      if (sess.replaced_by) {
+        await this.revokeFamilyOnReuse(cli, sess, input);
+        return null;
+      }
+      if (sess.revoked_at) throw this.err(401, 'invalid_refresh');
+      if (new Date(sess.expires_at).getTime() <= Date.now()) throw this.err(401, 'refresh_expired');
+      const { roles } = await this.accessClaims(cli, String(sess.user_id));
+
+      // Ротация: новая сессия в той же семье, текущая отзывается и ссылается на новую
+      const newTok = this.newOpaqueToken();
+      const refreshExp = this.addSeconds(new Date(), this.refreshTtl());
+      const q = await cli.query(
+        `WITH new_sess AS (
+           INSERT INTO auth_sessions (user_id, family_id, refresh_hash, user_agent, ip_address, expires_at)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING id
+         )
+         UPDATE auth_sessions
+            SET replaced_by = (SELECT id FROM new_sess), revoked_at = now_utc(), revoked_reason = 'rotated', updated_at = now_utc()
+          WHERE id = $7
+         RETURNING (SELECT id FROM new_sess) AS new_id`,
+        [sess.user_id, sess.family_id, this.hashRefresh(newTok), input.userAgent || null, input.ipAddress || null, refreshExp.toISOString(), sess.id]
+      );
+      return { userId: String(sess.user_id), roles, sessionId: String(q.rows[0].new_id), refreshToken: newTok, refreshExp };
+    });
+    // отзыв семьи должен закоммититься, поэтому ошибка — после транзакции
+    if (!out) throw this.err(401, 'refresh_reused');
 
-    const newSessionId = String(q.rows[0].new_id);
     // Возвращаем новые пары токенов
-    const access = await this.signAccessJwt({ sub: String(sess.user_id) });
+    const access = await this.signAccessJwt({ sub: out.userId, roles: out.roles });
     return {
       accessToken: access.token,
       accessExp: access.exp,
-      refreshToken: newTok,
-      refreshExp: Math.floor(refreshExp.getTime() / 1000),
-      sessionId: newSessionId,
+      refreshToken: out.refreshToken,
+      refreshExp: Math.floor(out.refreshExp.getTime() / 1000),
+      sessionId: out.sessionId,
     };
   }
 
@@ -158,7 +492,7 @@ export class AuthService {
     if (input.refreshToken) {
       const hash = this.hashRefresh(String(input.refreshToken));
       await this.pool.query(
-        `UPDATE auth_sessions SET revoked_at = now_utc(), updated_at = now_utc()
+        `UPDATE auth_sessions SET revoked_at = now_utc(), revoked_reason = 'logout', updated_at = now_utc()
           WHERE refresh_hash = $1 AND revoked_at IS NULL`,
         [hash]
       );
@@ -167,7 +501,7 @@ export class AuthService {
 
     if (input.sessionId) {
       await this.pool.query(
-        `UPDATE auth_sessions SET revoked_at = now_utc(), updated_at = now_utc()
+        `UPDATE auth_sessions SET revoked_at = now_utc(), revoked_reason = 'logout', updated_at = now_utc()
           WHERE id = $1 AND revoked_at IS NULL`,
         [input.sessionId]
       );
@@ -177,6 +511,91 @@ export class AuthService {
     return { ok: true };
   }
 
+  // ────────────────────────────────────────────────────────────────────────────
+  // Подтверждение email / сброс пароля
+  // ────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Выслать письмо подтверждения повторно. Ответ не зависит от существования адреса,
+   * уже подтверждённого статуса и rate limit — чтобы по нему нельзя было перебирать аккаунты.
+   */
+  async requestEmailVerification(emailRaw: string): Promise<{ ok: true }> {
+    const email = this.normalizeEmail(emailRaw);
+    await withTx(this.pool, async (cli) => {
+      const q = await cli.query(
+        `SELECT id, email FROM users WHERE email = $1 AND deleted_at IS NULL AND email_verified_at IS NULL LIMIT 1`,
+        [email]
+      );
+      if (q.rowCount) await this.issueEmailToken(cli, String(q.rows[0].id), String(q.rows[0].email), 'verify_email');
+    });
+    return { ok: true };
+  }
+
+  async verifyEmail(token: string): Promise<{ ok: true; userId: string }> {
+    return withTx(this.pool, async (cli) => {
+      const t = await this.consumeEmailToken(cli, token, 'verify_email');
+      // токен выдан на адрес, который с тех пор мог смениться
+      const u = await cli.query(
+        `UPDATE users SET email_verified_at = COALESCE(email_verified_at, now_utc()), updated_at = now_utc()
+          WHERE id = $1 AND email = $2 AND deleted_at IS NULL
+          RETURNING id`,
+        [t.userId, t.email]
+      );
+      if (!u.rowCount) throw this.err(400, 'invalid_token');
+      return { ok: true as const, userId: t.userId };
+    });
+  }
+
+  /** Запросить сброс пароля; ответ одинаковый для любых адресов (см. requestEmailVerification). */
+  async requestPasswordReset(emailRaw: string): Promise<{ ok: true }> {
+    const email = this.normalizeEmail(emailRaw);
+    await withTx(this.pool, async (cli) => {
+      const q = await cli.query(`SELECT id, email FROM users WHERE email = $1 AND deleted_at IS NULL LIMIT 1`, [email]);
+      if (q.rowCount) await this.issueEmailToken(cli, String(q.rows[0].id), String(q.rows[0].email), 'password_reset');
+    });
+    return { ok: true };
+  }
+
+  /**
+   * Установить новый пароль по токену сброса: токен и все прочие активные токены сброса
+   * гасятся, все refresh-сессии отзываются, адрес считается подтверждённым.
+   */
+  async resetPassword(input: { token: string; password: string; ipAddress?: string; userAgent?: string }): Promise<{ ok: true }> {
+    const pwd = String(input.password || '');
+    this.ensurePasswordLength(pwd);
+    const hash = await argon2.hash(pwd, { type: argon2.argon2id, memoryCost: 19456, timeCost: 2, parallelism: 1 });
+
+    await withTx(this.pool, async (cli) => {
+      const t = await this.consumeEmailToken(cli, input.token, 'password_reset');
+      // как в verifyEmail: письмо со сбросом могло уйти на прежний адрес
+      const u = await cli.query(
+        `UPDATE users
+            SET password_hash = $2, email_verified_at = COALESCE(email_verified_at, now_utc()), updated_at = now_utc()
+          WHERE id = $1 AND email = $3 AND deleted_at IS NULL
+          RETURNING id`,
+        [t.userId, hash, t.email]
+      );
+      if (!u.rowCount) throw this.err(400, 'invalid_token');
+      await cli.query(
+        `UPDATE auth_email_tokens SET used_at = now_utc()
+          WHERE user_id = $1 AND purpose = 'password_reset' AND used_at IS NULL`,
+        [t.userId]
+      );
+      const r = await cli.query(
+        `UPDATE auth_sessions
+            SET revoked_at = now_utc(), revoked_reason = 'password_reset', updated_at = now_utc()
+          WHERE user_id = $1 AND revoked_at IS NULL`,
+        [t.userId]
+      );
+      await cli.query(
+        `INSERT INTO auth_security_events (user_id, kind, ip_address, user_agent, meta)
+         VALUES ($1, 'password_reset', $2, $3, $4::jsonb)`,
+        [t.userId, input.ipAddress || null, input.userAgent || null, JSON.stringify({ revokedSessions: r.rowCount ?? 0 })]
+      );
+    });
+    return { ok: true };
+  }
+
   async listSessions(userId: string): Promise<Array<{
     id: string; createdAt: string; revokedAt: string | null; replacedBy: string | null; expiresAt: string;
     userAgent: string | null; ipAddress: string | null;
@@ -205,7 +624,7 @@ export class AuthService {
     this.ensureUuid(userId);
     this.ensureUuid(sessionId);
     await this.pool.query(
-      `UPDATE auth_sessions SET revoked_at = now_utc(), updated_at = now_utc()
+      `UPDATE auth_sessions SET revoked_at = now_utc(), revoked_reason = 'revoked', updated_at = now_utc()
         WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
       [sessionId, userId]
     );
@@ -216,8 +635,283 @@ export class AuthService {
   // Внутреннее
   // ────────────────────────────────────────────────────────────────────────────
 
+  /**
+   * Повтор ротированного refresh-токена: токен утёк (или клиент сломан). Отзываем все
+   * активные сессии семьи, пишем auth_security_events и шлём пользователю алерт
+   * (rt:user — user:notification, q:notify — email/push). Всё в транзакции refresh().
+   */
+  private async revokeFamilyOnReuse(cli: any, sess: any, input: { userAgent?: string; ipAddress?: string }) {
+    const userId = String(sess.user_id);
+    const familyId = String(sess.family_id);
+    const r = await cli.query(
+      `UPDATE auth_sessions
+          SET revoked_at = now_utc(), revoked_reason = 'reuse_detected', updated_at = now_utc()
+        WHERE family_id = $1 AND revoked_at IS NULL`,
+      [familyId]
+    );
+    await cli.query(
+      `INSERT INTO auth_security_events (user_id, kind, session_id, family_id, ip_address, user_agent, meta)
+       VALUES ($1, 'refresh_reuse', $2, $3, $4, $5, $6::jsonb)`,
+      [userId, sess.id, familyId, input.ipAddress || null, input.userAgent || null, JSON.stringify({ revokedSessions: r.rowCount ?? 0 })]
+    );
+    await this.securityAlert(
+      cli, userId,
+      'Suspicious sign-in activity',
+      'An old session token was reused, so we signed out the affected device. If this was not you, change your password.',
+      { event: 'refresh_reuse', familyId, ip: input.ipAddress || null, userAgent: input.userAgent || null }
+    );
+  }
+
+  private async linkIdentity(cli: any, userId: string, provider: string, claims: OidcClaims): Promise<IdentityView> {
+    const cur = await cli.query(
+      `SELECT user_id FROM user_identities WHERE provider = $1 AND subject = $2 FOR UPDATE`,
+      [provider, claims.subject]
+    );
+    if (cur.rowCount && String(cur.rows[0].user_id) !== userId) throw this.err(409, 'identity_in_use');
+    try {
+      const q = await cli.query(
+        `INSERT INTO user_identities (user_id, provider, subject, email, email_verified, last_login_at)
+         VALUES ($1, $2, $3, $4, $5, now_utc())
+         ON CONFLICT (provider, subject) DO UPDATE
+           SET email = EXCLUDED.email, email_verified = EXCLUDED.email_verified
+         RETURNING id, provider, email, created_at, last_login_at`,
+        [userId, provider, claims.subject, claims.email, claims.emailVerified]
+      );
+      return identityView(q.rows[0]);
+    } catch (e: any) {
+      if (e instanceof DatabaseError && e.code === '23505' && e.constraint === 'ux_user_identities_user_provider') {
+        throw this.err(409, 'provider_already_linked');
+      }
+      throw e;
+    }
+  }
+
+  private oidcClientsCache: Map<string, OidcClient> | null = null;
+  private oidcClients(): Map<string, OidcClient> {
+    if (!this.oidcClientsCache) {
+      const opts = { allowInsecure: this.env.OIDC_ALLOW_INSECURE === 'true' };
+      this.oidcClientsCache = new Map();
+      oidcProvidersFromEnv(this.env).forEach((cfg, id) => this.oidcClientsCache!.set(id, new OidcClient(cfg, opts)));
+    }
+    return this.oidcClientsCache;
+  }
+  private oidcClient(providerId: string): OidcClient {
+    const c = this.oidcClients().get(String(providerId || '').toLowerCase());
+    if (!c) throw this.err(404, 'oidc_provider_not_found');
+    return c;
+  }
+
+  /** Алерт безопасности: rt:user (user:notification) + q:notify (email/push). */
+  private async securityAlert(cli: any, userId: string, title: string, body: string, meta: Record<string, any>) {
+    const alert = { kind: 'security', title, body, meta };
+    await enqueue(cli, topics.user(userId), 'user:notification', alert);
+    await enqueueJob(cli, 'q:notify', { userId, ...alert });
+  }
+
+  /**
+   * Проверить второй фактор (TOTP-код или код восстановления). Неудачи считаются в
+   * auth_mfa_totp.failed_attempts; после AUTH_MFA_MAX_ATTEMPTS подряд — блокировка на
+   * AUTH_MFA_LOCK_SEC. Счётчик коммитится и при ошибке, поэтому 4xx бросается после транзакции.
+   */
+  private async checkSecondFactor(userId: string, proof: MfaProof, ipAddress?: string): Promise<void> {
+    const maxAttempts = Math.max(1, Number(this.env.AUTH_MFA_MAX_ATTEMPTS) || 5);
+    const lockSec = this.ttlFromEnv(this.env.AUTH_MFA_LOCK_SEC, 15 * 60);
+
+    const failure = await withTx(this.pool, async (cli): Promise<AuthError | null> => {
+      const q = await cli.query(
+        `SELECT secret_enc, last_used_step, failed_attempts, locked_until
+           FROM auth_mfa_totp WHERE user_id = $1 AND enabled_at IS NOT NULL FOR UPDATE`,
+        [userId]
+      );
+      if (!q.rowCount) return this.err(409, 'mfa_not_enabled');
+      const row = q.rows[0];
+      if (row.locked_until && new Date(row.locked_until).getTime() > Date.now()) return this.err(429, 'mfa_locked');
+
+      let ok = false;
+      if (proof.recoveryCode) {
+        const r = await cli.query(
+          `UPDATE auth_mfa_recovery_codes SET used_at = now_utc()
+            WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+            RETURNING id`,
+          [userId, this.hashRecoveryCode(proof.recoveryCode)]
+        );
+        ok = !!r.rowCount;
+        if (ok) {
+          await cli.query(
+            `INSERT INTO auth_security_events (user_id, kind, ip_address) VALUES ($1, 'mfa_recovery_code_used', $2)`,
+            [userId, ipAddress || null]
+          );
+        }
+      } else if (proof.code) {
+        const step = verifyTotp(this.decryptSecret(row.secret_enc), proof.code);
+        // код одного шага принимается один раз
+        ok = step !== null && (row.last_used_step === null || step > Number(row.last_used_step));
+        if (ok) await cli.query(`UPDATE auth_mfa_totp SET last_used_step = $2 WHERE user_id = $1`, [userId, step]);
+      }
+
+      if (ok) {
+        if (row.failed_attempts) await cli.query(`UPDATE auth_mfa_totp SET failed_attempts = 0, locked_until = NULL WHERE user_id = $1`, [userId]);
+        return null;
+      }
+      const attempts = Number(row.failed_attempts) + 1;
+      const lock = attempts >= maxAttempts;
+      await cli.query(
+        `UPDATE auth_mfa_totp
+            SET failed_attempts = $2, locked_until = CASE WHEN $3 THEN now_utc() + make_interval(secs => $4) ELSE NULL END
+          WHERE user_id = $1`,
+        [userId, lock ? 0 : attempts, lock, lockSec]
+      );
+      return this.err(401, 'invalid_mfa_code');
+    });
+    if (failure) throw failure;
+  }
+
+  private async replaceRecoveryCodes(cli: any, userId: string): Promise<string[]> {
+    const count = Math.min(Math.max(Number(this.env.AUTH_MFA_RECOVERY_CODES) || 10, 4), 20);
+    const codes = Array.from({ length: count }, () => {
+      const raw = base32Encode(randomBytes(5)).toLowerCase(); // 8 символов
+      return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+    });
+    await cli.query(`DELETE FROM auth_mfa_recovery_codes WHERE user_id = $1`, [userId]);
+    await cli.query(
+      `INSERT INTO auth_mfa_recovery_codes (user_id, code_hash)
+       SELECT $1, unnest($2::text[])`,
+      [userId, codes.map((c) => this.hashRecoveryCode(c))]
+    );
+    return codes;
+  }
+
+  private async signMfaChallenge(userId: string): Promise<MfaChallenge> {
+    const ttl = this.ttlFromEnv(this.env.AUTH_MFA_CHALLENGE_TTL, 300);
+    const now = Math.floor(Date.now() / 1000);
+    const exp = now + ttl;
+    // отдельная audience: челлендж не принимается как access-токен
+    const token = await new SignJWT({ typ: 'mfa_challenge' })
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .setSubject(userId)
+      .setIssuedAt(now)
+      .setIssuer(this.env.AUTH_JWT_ISSUER || 'messenger.api')
+      .setAudience(this.mfaAudience())
+      .setExpirationTime(exp)
+      .sign(this.jwtSecretKey());
+    return { mfaRequired: true, mfaToken: token, mfaExp: exp };
+  }
+
+  private mfaAudience(): string {
+    return `${this.env.AUTH_JWT_AUDIENCE || 'messenger.web'}#mfa`;
+  }
+
+  /** AES-256-GCM; ключ — SHA-256(AUTH_MFA_ENC_KEY || AUTH_JWT_SECRET). Формат: v1.<iv>.<tag>.<ct> (base64url). */
+  private encryptSecret(plain: string): string {
+    const iv = randomBytes(12);
+    const c = createCipheriv('aes-256-gcm', this.mfaKey(), iv);
+    const ct = Buffer.concat([c.update(plain, 'utf8'), c.final()]);
+    return ['v1', iv.toString('base64url'), c.getAuthTag().toString('base64url'), ct.toString('base64url')].join('.');
+  }
+  private decryptSecret(enc: string): string {
+    const [v, iv, tag, ct] = String(enc).split('.');
+    if (v !== 'v1') throw this.err(500, 'mfa_secret_format');
+    const d = createDecipheriv('aes-256-gcm', this.mfaKey(), Buffer.from(iv, 'base64url'));
+    d.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([d.update(Buffer.from(ct, 'base64url')), d.final()]).toString('utf8');
+  }
+  private mfaKey(): Buffer {
+    const src = this.env.AUTH_MFA_ENC_KEY || this.env.AUTH_JWT_SECRET;
+    if (!src || src.length < 32) throw this.err(500, 'AUTH_MFA_ENC_KEY too short (>=32 chars)');
+    return createHash('sha256').update(src, 'utf8').digest();
+  }
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(String(code).toLowerCase().replace(/[^a-z0-9]/g, ''), 'utf8').digest('hex');
+  }
+
+  /**
+   * Выдать одноразовый токен и поставить письмо в q:notify (to = адрес на момент выдачи).
+   * Rate limit — AUTH_EMAIL_TOKEN_MAX_PER_HOUR выдач на (email, purpose) за час; сверх него
+   * молча ничего не делаем. Прежние неиспользованные токены того же назначения гасятся.
+   */
+  private async issueEmailToken(cli: any, userId: string, email: string, purpose: 'verify_email' | 'password_reset') {
+    const maxPerHour = Math.max(1, Number(this.env.AUTH_EMAIL_TOKEN_MAX_PER_HOUR) || 3);
+    const c = await cli.query(
+      `SELECT count(*)::int AS n FROM auth_email_tokens
+        WHERE email = $1 AND purpose = $2 AND created_at > now_utc() - interval '1 hour'`,
+      [email, purpose]
+    );
+    if (c.rows[0].n >= maxPerHour) return;
+
+    const token = this.newOpaqueToken();
+    const ttl = purpose === 'verify_email'
+      ? this.ttlFromEnv(this.env.AUTH_VERIFY_TOKEN_TTL, 60 * 60 * 24)
+      : this.ttlFromEnv(this.env.AUTH_RESET_TOKEN_TTL, 60 * 60);
+    await cli.query(
+      `UPDATE auth_email_tokens SET used_at = now_utc()
+        WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL`,
+      [userId, purpose]
+    );
+    await cli.query(
+      `INSERT INTO auth_email_tokens (user_id, purpose, token_hash, email, expires_at)
+       VALUES ($1, $2, $3, $4, now_utc() + make_interval(secs => $5))`,
+      [userId, purpose, this.hashRefresh(token), email, ttl]
+    );
+
+    const base = String(this.env.APP_PUBLIC_URL || 'http://localhost:3000').replace(/\/+$/, '');
+    const link = purpose === 'verify_email'
+      ? `${base}/verify-email?token=${token}`
+      : `${base}/reset-password?token=${token}`;
+    const mins = Math.round(ttl / 60);
+    await enqueueJob(cli, 'q:notify', purpose === 'verify_email'
+      ? { userId, to: email, kind: 'auth.verify_email', title: 'Confirm your email', body: `Open the link to confirm your email address (valid for ${mins} min):\n${link}` }
+      : { userId, to: email, kind: 'auth.password_reset', title: 'Reset your password', body: `Open the link to set a new password (valid for ${mins} min):\n${link}\n\nIf you did not request this, ignore this email.` });
+  }
+
+  /** Погасить токен (одноразово, атомарно); иначе 400 invalid_token. */
+  private async consumeEmailToken(cli: any, token: string, purpose: 'verify_email' | 'password_reset'): Promise<{ userId: string; email: string }> {
+    const raw = String(token || '');
+    if (!raw || raw.length > 256) throw this.err(400, 'invalid_token');
+    const q = await cli.query(
+      `UPDATE auth_email_tokens SET used_at = now_utc()
+        WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > now_utc()
+        RETURNING user_id, email`,
+      [this.hashRefresh(raw), purpose]
+    );
+    if (!q.rowCount) throw this.err(400, 'invalid_token');
+    return { userId: String(q.rows[0].user_id), email: String(q.rows[0].email) };
+  }
+
+
+  /**
+   * Роли для access-токена (их проверяет requireRole); действующий бан (user_bans, миграция 008)
+   * запрещает выдачу токенов — 403 user_banned.
+   */
+  private async accessClaims(cli: any, userId: string): Promise<{ roles: string[] }> {
+    const q = await cli.query(
+      `SELECT u.roles, (b.user_id IS NOT NULL) AS banned
+         FROM users u
+         LEFT JOIN user_bans b ON b.user_id = u.id AND (b.expires_at IS NULL OR b.expires_at > now_utc())
+        WHERE u.id = $1 LIMIT 1`,
+      [userId]
+    );
+    const r = q.rows[0];
+    if (r?.banned) throw this.err(403, 'user_banned');
+    return { roles: (r?.roles || []).map(String) };
+  }
+
+  /** Выдать токены и сессию; успешный вход отменяет запрошенное удаление аккаунта (миграция 024). */
   private async issueTokensAndSession(userId: string, userAgent?: string, ipAddress?: string): Promise<Tokens> {
-    const access = await this.signAccessJwt({ sub: userId });
+    const { roles } = await this.accessClaims(this.pool, userId);
+    const cancelled = await this.pool.query(
+      `UPDATE users SET deletion_scheduled_for = NULL, updated_at = now_utc()
+        WHERE id = $1 AND deletion_scheduled_for IS NOT NULL AND deleted_at IS NULL
+        RETURNING id`,
+      [userId]
+    );
+    if (cancelled.rowCount) {
+      await this.pool.query(
+        `INSERT INTO auth_security_events (user_id, kind, ip_address, user_agent) VALUES ($1, 'account_deletion_cancelled', $2, $3)`,
+        [userId, ipAddress || null, userAgent || null]
+      );
+    }
+
+    const access = await this.signAccessJwt({ sub: userId, roles });
     const refreshToken = this.newOpaqueToken();
     const refreshHash = this.hashRefresh(refreshToken);
     const now = new Date();
@@ -271,6 +965,15 @@ export class AuthService {
     return payload;
   }
 
+  private ensurePasswordLength(pwd: string) {
+    const minLen = Math.max(6, Number(this.env.PASSWORD_MIN_LENGTH) || 8);
+    if (pwd.length < minLen) throw this.err(400, `password_too_short (min ${minLen})`);
+  }
+  private ttlFromEnv(v: string | undefined, def: number): number {
+    const s = Number(v);
+    return Number.isFinite(s) && s > 0 ? Math.floor(s) : def;
+  }
+
   private accessTtl(): number {
     const s = Number(this.env.AUTH_JWT_ACCESS_TTL);
     return Number.isFinite(s) && s > 0 ? s : 900; // 15 минут по умолчанию
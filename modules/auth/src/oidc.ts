@@ -0,0 +1,167 @@
+/**
+ * OIDC-клиент (authorization code + PKCE S256) для входа через внешних провайдеров.
+ *
+ * Провайдеры описываются в ENV:
+ *  OIDC_PROVIDERS=google,mock               — список id
+ *  OIDC_<ID>_ISSUER=https://accounts.google.com
+ *  OIDC_<ID>_CLIENT_ID, OIDC_<ID>_CLIENT_SECRET (пусто — публичный клиент, только PKCE)
+ *  OIDC_<ID>_REDIRECT_URI=https://app.example.com/auth/callback/google
+ *  OIDC_<ID>_SCOPES="openid email profile"
+ *  OIDC_<ID>_TRUST_EMAIL=false              — true: подтверждённый провайдером email сразу
+ *                                             привязывается к существующему аккаунту с тем же адресом
+ *  OIDC_ALLOW_INSECURE=false                — true: http-issuer (локальный mock-провайдер)
+ *
+ * Endpoint'ы берутся из <issuer>/.well-known/openid-configuration (кэшируется на время жизни процесса),
+ * ID token проверяется по JWKS провайдера (jose): подпись, iss, aud, exp и nonce.
+ */
+import { createHash, randomBytes } from 'node:crypto';
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
+
+export type OidcProviderConfig = {
+  id: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string;
+  trustEmail: boolean;
+};
+
+export type OidcClaims = {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+};
+
+type Discovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+};
+
+export function oidcProvidersFromEnv(env: Record<string, string | undefined> = process.env): Map<string, OidcProviderConfig> {
+  const out = new Map<string, OidcProviderConfig>();
+  const ids = String(env.OIDC_PROVIDERS || '').split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  for (const id of ids) {
+    if (!/^[a-z0-9_-]{1,32}$/.test(id)) continue;
+    const key = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`;
+    const issuer = env[key + 'ISSUER'];
+    const clientId = env[key + 'CLIENT_ID'];
+    const redirectUri = env[key + 'REDIRECT_URI'];
+    if (!issuer || !clientId || !redirectUri) continue;
+    out.set(id, {
+      id,
+      issuer: issuer.replace(/\/+$/, ''),
+      clientId,
+      clientSecret: env[key + 'CLIENT_SECRET'] || null,
+      redirectUri,
+      scopes: env[key + 'SCOPES'] || 'openid email profile',
+      trustEmail: env[key + 'TRUST_EMAIL'] === 'true',
+    });
+  }
+  return out;
+}
+
+/** PKCE: verifier (43+ символа) и S256 challenge. */
+export function pkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+export class OidcClient {
+  private discovery: Promise<Discovery> | null = null;
+  private jwks: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+  constructor(readonly cfg: OidcProviderConfig, private opts: { allowInsecure?: boolean; timeoutMs?: number } = {}) {}
+
+  async authorizationUrl(p: { state: string; nonce: string; codeChallenge: string }): Promise<string> {
+    const d = await this.discover();
+    const url = new URL(d.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.cfg.clientId);
+    url.searchParams.set('redirect_uri', this.cfg.redirectUri);
+    url.searchParams.set('scope', this.cfg.scopes);
+    url.searchParams.set('state', p.state);
+    url.searchParams.set('nonce', p.nonce);
+    url.searchParams.set('code_challenge', p.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+  }
+
+  /** Обменять code на токены и вернуть проверенные claims ID token'а. */
+  async exchange(code: string, codeVerifier: string, nonce: string): Promise<OidcClaims> {
+    const d = await this.discover();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.cfg.redirectUri,
+      code_verifier: codeVerifier,
+      client_id: this.cfg.clientId,
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+    if (this.cfg.clientSecret) {
+      headers.Authorization = 'Basic ' + Buffer.from(
+        `${encodeURIComponent(this.cfg.clientId)}:${encodeURIComponent(this.cfg.clientSecret)}`
+      ).toString('base64');
+    }
+    const res = await this.fetchJson(d.token_endpoint, { method: 'POST', headers, body: body.toString() });
+    if (!res.ok || typeof res.json?.id_token !== 'string') throw oidcErr(401, 'oidc_exchange_failed');
+
+    let payload: JWTPayload;
+    try {
+      this.jwks ??= createRemoteJWKSet(new URL(d.jwks_uri));
+      ({ payload } = await jwtVerify(res.json.id_token, this.jwks, { issuer: d.issuer, audience: this.cfg.clientId }));
+    } catch {
+      throw oidcErr(401, 'oidc_invalid_id_token');
+    }
+    if (payload.nonce !== nonce || !payload.sub) throw oidcErr(401, 'oidc_invalid_id_token');
+
+    let email = typeof payload.email === 'string' ? payload.email : null;
+    let emailVerified = payload.email_verified === true || payload.email_verified === 'true';
+    let name = typeof payload.name === 'string' ? payload.name : null;
+    // часть провайдеров кладёт профиль только в userinfo
+    if (!email && d.userinfo_endpoint && typeof res.json.access_token === 'string') {
+      const ui = await this.fetchJson(d.userinfo_endpoint, { headers: { Authorization: `Bearer ${res.json.access_token}`, Accept: 'application/json' } });
+      if (ui.ok && ui.json?.sub === payload.sub) {
+        email = typeof ui.json.email === 'string' ? ui.json.email : null;
+        emailVerified = ui.json.email_verified === true || ui.json.email_verified === 'true';
+        name = name ?? (typeof ui.json.name === 'string' ? ui.json.name : null);
+      }
+    }
+    return { subject: String(payload.sub), email: email ? email.trim().toLowerCase() : null, emailVerified, name };
+  }
+
+  private discover(): Promise<Discovery> {
+    if (!this.discovery) {
+      this.discovery = (async () => {
+        if (!this.opts.allowInsecure && !this.cfg.issuer.startsWith('https://')) throw oidcErr(500, 'oidc_issuer_must_be_https');
+        const res = await this.fetchJson(`${this.cfg.issuer}/.well-known/openid-configuration`, { headers: { Accept: 'application/json' } });
+        const d = res.json as Discovery | null;
+        if (!res.ok || !d || d.issuer?.replace(/\/+$/, '') !== this.cfg.issuer || !d.authorization_endpoint || !d.token_endpoint || !d.jwks_uri) {
+          throw oidcErr(502, 'oidc_discovery_failed');
+        }
+        return d;
+      })();
+      // неудачу не кэшируем — следующий запрос попробует снова
+      this.discovery.catch(() => { this.discovery = null; });
+    }
+    return this.discovery;
+  }
+
+  private async fetchJson(url: string, init: RequestInit): Promise<{ ok: boolean; json: any }> {
+    try {
+      const res = await fetch(url, { ...init, redirect: 'error', signal: AbortSignal.timeout(this.opts.timeoutMs ?? 5000) });
+      const json = await res.json().catch(() => null);
+      return { ok: res.ok, json };
+    } catch {
+      throw oidcErr(502, 'oidc_provider_unavailable');
+    }
+  }
+}
+
+function oidcErr(status: number, code: string): Error {
+  const e: any = new Error(code); e.statusCode = status; return e;
+}
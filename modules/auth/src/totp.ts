@@ -0,0 +1,89 @@
+/**
+ * TOTP (RFC 6238) поверх HOTP (RFC 4226): HMAC-SHA1, 6 цифр, шаг 30 с —
+ * параметры по умолчанию, которые понимают все приложения-аутентификаторы.
+ * Секрет — 20 случайных байт, в URI и для ручного ввода — base32 без паддинга.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export const TOTP_PERIOD = 30;
+export const TOTP_DIGITS = 6;
+
+const B32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0, value = 0, out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += B32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += B32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(s: string): Buffer {
+  const clean = s.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0, value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const i = B32.indexOf(ch);
+    if (i < 0) throw new Error('invalid base32');
+    value = (value << 5) | i;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+export function newTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function hotp(secret: Buffer, counter: number): string {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const mac = createHmac('sha1', secret).update(msg).digest();
+  const off = mac[mac.length - 1] & 0x0f;
+  const bin = ((mac[off] & 0x7f) << 24) | (mac[off + 1] << 16) | (mac[off + 2] << 8) | mac[off + 3];
+  return String(bin % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+export function totpStep(nowMs: number = Date.now()): number {
+  return Math.floor(nowMs / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Проверить код с допуском ±window шагов (рассинхрон часов).
+ * Возвращает совпавший шаг (для защиты от повтора кода) или null.
+ */
+export function verifyTotp(secretB32: string, code: string, opts: { nowMs?: number; window?: number } = {}): number | null {
+  const c = String(code || '').replace(/\s+/g, '');
+  if (!/^\d{6}$/.test(c)) return null;
+  const secret = base32Decode(secretB32);
+  const step = totpStep(opts.nowMs);
+  const window = opts.window ?? 1;
+  for (let d = -window; d <= window; d++) {
+    const cand = hotp(secret, step + d);
+    if (timingSafeEqual(Buffer.from(cand), Buffer.from(c))) return step + d;
+  }
+  return null;
+}
+
+/** otpauth:// URI для QR-кода (Key Uri Format). */
+export function otpauthUri(secretB32: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const q = new URLSearchParams({
+    secret: secretB32,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${q.toString()}`;
+}
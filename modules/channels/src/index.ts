@@ -16,14 +16,28 @@
  *  - channel_counters(channel_id uuid PK, followers bigint, posts bigint, views bigint, likes bigint, updated_at)
  *  - posts(id uuid, channel_id uuid, author_id uuid, title text, text text, media_id uuid,
  *          state enum('draft','published','archived'), published_at timestamptz, deleted_at)
+ *  - channel_blocks (008) — заблокированный модератором канал скрыт из каталога, читать его
+ *    могут только owner/admin
+ *  - outbox_events (012) — realtime-события пишутся в той же транзакции:
+ *      channel:updated / channel:members / channel:follow → rt:channel:<id>,
+ *      channel:new → rt:user:<ownerId>
+ *  - поиск (CDC, enqueueSearch): create / update / publish / transferOwnership — q:search.index
+ *      { type: 'channel', id }, archive — q:search.delete (архивный канал в индекс не возвращается);
+ *      смена visibility — { type: 'channel', id, scope: 'posts' } (acl постов);
+ *      смена состава участников — { type: 'user', id } (acl.channels для фильтра поиска)
  */
 
 import { Pool } from 'pg';
+import { enqueue, enqueueSearch, topics, withTx } from '@modules/outbox';
 
 export type ChannelVisibility = 'public'|'unlisted'|'private';
 export type MemberRole = 'owner'|'admin'|'moderator'|'member';
 export type Cursor = { score: number; id: string };
 
+/** Действующая блокировка канала модератором (channel_blocks, миграция 008); алиас канала — c. */
+const CHANNEL_BLOCKED = `EXISTS (SELECT 1 FROM channel_blocks b
+  WHERE b.channel_id = c.id AND (b.expires_at IS NULL OR b.expires_at > now_utc()))`;
+
 export class ChannelsService {
   constructor(private pool: Pool) {}
 
@@ -39,23 +53,28 @@ export class ChannelsService {
     if (!title) this.errThrow(400, 'title_required');
 
     try {
-      const q = await this.pool.query(
-        `INSERT INTO channels (owner_id, slug, title, about, visibility, is_archived, published_at)
-         VALUES ($1, $2, $3, $4, $5, false, now_utc())
-         RETURNING id`,
-        [ownerId, slug, title, input.about ?? null, input.visibility ?? 'public']
-      );
-      const id = String(q.rows[0].id);
-      // владелец становится членом (owner)
-      await this.pool.query(
-        `INSERT INTO channel_members (channel_id, user_id, role, joined_at, left_at)
-         VALUES ($1, $2, 'owner', now_utc(), NULL)
-         ON CONFLICT (channel_id, user_id) DO UPDATE SET left_at = NULL, role='owner', updated_at = now_utc()`,
-        [id, ownerId]
-      );
-      // завести счётчики
-      await this.ensureCounters(id);
-      return { id };
+      return await withTx(this.pool, async (cli) => {
+        const q = await cli.query(
+          `INSERT INTO channels (owner_id, slug, title, about, visibility, is_archived, published_at)
+           VALUES ($1, $2, $3, $4, $5, false, now_utc())
+           RETURNING id`,
+          [ownerId, slug, title, input.about ?? null, input.visibility ?? 'public']
+        );
+        const id = String(q.rows[0].id);
+        // владелец становится членом (owner)
+        await cli.query(
+          `INSERT INTO channel_members (channel_id, user_id, role, joined_at, left_at)
+           VALUES ($1, $2, 'owner', now_utc(), NULL)
+           ON CONFLICT (channel_id, user_id) DO UPDATE SET left_at = NULL, role='owner', updated_at = now_utc()`,
+          [id, ownerId]
+        );
+        // завести счётчики
+        await this.ensureCounters(cli, id);
+        await enqueue(cli, topics.user(ownerId), 'channel:new', { channelId: id, slug });
+        await enqueueSearch(cli, 'index', { type: 'channel', id });
+        await enqueueSearch(cli, 'index', { type: 'user', id: ownerId });
+        return { id };
+      });
     } catch (e: any) {
       const msg = String(e?.message || '').toLowerCase();
       if (msg.includes('unique') && msg.includes('slug')) this.errThrow(409, 'slug_exists');
@@ -76,7 +95,20 @@ export class ChannelsService {
     if (!sets.length) return this.getByIdOrSlug(actorId, channelId);
 
     vals.push(channelId);
-    await this.pool.query(`UPDATE channels SET ${sets.join(', ')}, updated_at = now_utc() WHERE id = $${vals.length}`, vals);
+    await withTx(this.pool, async (cli) => {
+      const upd = await cli.query(
+        `UPDATE channels SET ${sets.join(', ')}, updated_at = now_utc() WHERE id = $${vals.length} RETURNING is_archived`,
+        vals
+      );
+      const changed: Record<string, any> = {};
+      if (input.title !== undefined) changed.title = input.title ?? null;
+      if (input.about !== undefined) changed.about = input.about ?? null;
+      if (input.visibility !== undefined) changed.visibility = input.visibility;
+      await enqueue(cli, topics.channel(channelId), 'channel:updated', { channelId, actorId, ...changed });
+      if (upd.rows[0]?.is_archived) await enqueueSearch(cli, 'delete', { type: 'channel', id: channelId });
+      else if (input.visibility !== undefined) await enqueueSearch(cli, 'index', { type: 'channel', id: channelId, scope: 'posts' });
+      else await enqueueSearch(cli, 'index', { type: 'channel', id: channelId });
+    });
     return this.getByIdOrSlug(actorId, channelId);
   }
 
@@ -85,7 +117,11 @@ export class ChannelsService {
     const role = await this.memberRole(actorId, channelId);
     if (!role) this.errThrow(404, 'channel_not_found');
     if (!this.canManage(role)) this.errThrow(403, 'forbidden');
-    await this.pool.query(`UPDATE channels SET is_archived = false, published_at = COALESCE(published_at, now_utc()), updated_at=now_utc() WHERE id=$1`, [channelId]);
+    await withTx(this.pool, async (cli) => {
+      await cli.query(`UPDATE channels SET is_archived = false, published_at = COALESCE(published_at, now_utc()), updated_at=now_utc() WHERE id=$1`, [channelId]);
+      await enqueue(cli, topics.channel(channelId), 'channel:updated', { channelId, actorId, isArchived: false });
+      await enqueueSearch(cli, 'index', { type: 'channel', id: channelId });
+    });
     return { ok: true as const };
   }
 
@@ -94,7 +130,11 @@ export class ChannelsService {
     const role = await this.memberRole(actorId, channelId);
     if (!role) this.errThrow(404, 'channel_not_found');
     if (!this.canManage(role)) this.errThrow(403, 'forbidden');
-    await this.pool.query(`UPDATE channels SET is_archived = true, updated_at=now_utc() WHERE id=$1`, [channelId]);
+    await withTx(this.pool, async (cli) => {
+      await cli.query(`UPDATE channels SET is_archived = true, updated_at=now_utc() WHERE id=$1`, [channelId]);
+      await enqueue(cli, topics.channel(channelId), 'channel:updated', { channelId, actorId, isArchived: true });
+      await enqueueSearch(cli, 'delete', { type: 'channel', id: channelId });
+    });
     return { ok: true as const };
   }
 
@@ -106,7 +146,10 @@ export class ChannelsService {
     const cli = await this.pool.connect();
     try {
       await cli.query('BEGIN');
-      await cli.query(`UPDATE channels SET owner_id=$1, updated_at=now_utc() WHERE id=$2`, [newOwnerId, channelId]);
+      const upd = await cli.query(
+        `UPDATE channels SET owner_id=$1, updated_at=now_utc() WHERE id=$2 RETURNING is_archived`,
+        [newOwnerId, channelId]
+      );
       // прежний владелец становится админом, новый — owner
       await cli.query(
         `INSERT INTO channel_members (channel_id, user_id, role, joined_at, left_at)
@@ -120,6 +163,11 @@ export class ChannelsService {
           WHERE channel_id=$1 AND user_id=$2 AND left_at IS NULL`,
         [channelId, actorId]
       );
+      await enqueue(cli, topics.channel(channelId), 'channel:updated', { channelId, actorId, ownerId: newOwnerId });
+      await enqueue(cli, topics.channel(channelId), 'channel:members', { channelId, action: 'role', userId: newOwnerId, role: 'owner' });
+      await enqueue(cli, topics.channel(channelId), 'channel:members', { channelId, action: 'role', userId: actorId, role: 'admin' });
+      if (!upd.rows[0]?.is_archived) await enqueueSearch(cli, 'index', { type: 'channel', id: channelId });
+      await enqueueSearch(cli, 'index', { type: 'user', id: newOwnerId });
       await cli.query('COMMIT');
       return { ok: true as const };
     } catch (e) {
@@ -153,6 +201,8 @@ export class ChannelsService {
            DO UPDATE SET role=EXCLUDED.role, left_at=NULL, updated_at=now_utc()`,
           [channelId, m.userId, r]
         );
+        await enqueue(cli, topics.channel(channelId), 'channel:members', { channelId, action: 'added', userId: m.userId, role: r });
+        await enqueueSearch(cli, 'index', { type: 'user', id: m.userId });
       }
       await cli.query('COMMIT');
       return { ok: true as const };
@@ -183,11 +233,17 @@ export class ChannelsService {
     const isOwner = Number(r.rows[0].is_owner || 0) > 0;
     if (isOwner && owners <= 1) this.errThrow(400, 'cannot_remove_last_owner');
 
-    await this.pool.query(
-      `UPDATE channel_members SET left_at = now_utc(), updated_at = now_utc()
-        WHERE channel_id=$1 AND user_id=$2 AND left_at IS NULL`,
-      [channelId, memberId]
-    );
+    await withTx(this.pool, async (cli) => {
+      const upd = await cli.query(
+        `UPDATE channel_members SET left_at = now_utc(), updated_at = now_utc()
+          WHERE channel_id=$1 AND user_id=$2 AND left_at IS NULL`,
+        [channelId, memberId]
+      );
+      if (upd.rowCount) {
+        await enqueue(cli, topics.channel(channelId), 'channel:members', { channelId, action: 'removed', userId: memberId });
+        await enqueueSearch(cli, 'index', { type: 'user', id: memberId });
+      }
+    });
     return { ok: true as const };
   }
 
@@ -198,11 +254,16 @@ export class ChannelsService {
     if (!this.canManage(my)) this.errThrow(403, 'forbidden');
     if (role === 'owner') this.errThrow(400, 'use_transfer_ownership');
 
-    await this.pool.query(
-      `UPDATE channel_members SET role=$1, updated_at=now_utc()
-        WHERE channel_id=$2 AND user_id=$3 AND left_at IS NULL`,
-      [role, channelId, memberId]
-    );
+    await withTx(this.pool, async (cli) => {
+      const upd = await cli.query(
+        `UPDATE channel_members SET role=$1, updated_at=now_utc()
+          WHERE channel_id=$2 AND user_id=$3 AND left_at IS NULL`,
+        [role, channelId, memberId]
+      );
+      if (upd.rowCount) {
+        await enqueue(cli, topics.channel(channelId), 'channel:members', { channelId, action: 'role', userId: memberId, role });
+      }
+    });
     return { ok: true as const };
   }
 
@@ -212,21 +273,29 @@ export class ChannelsService {
 
   async follow(userId: string, channelId: string): Promise<{ following: true }> {
     this.ensureUuid(userId); this.ensureUuid(channelId);
-    await this.pool.query(
-      `INSERT INTO channel_follows (channel_id, user_id, created_at)
-       VALUES ($1, $2, now_utc())
-       ON CONFLICT DO NOTHING`,
-      [channelId, userId]
-    );
-    // Счётчик обновляет воркер/cron, но для UX можно оптимистично инкрементнуть:
-    await this.pool.query(`UPDATE channel_counters SET followers = followers + 1, updated_at = now_utc() WHERE channel_id=$1`, [channelId]).catch(() => {});
+    await withTx(this.pool, async (cli) => {
+      const ins = await cli.query(
+        `INSERT INTO channel_follows (channel_id, user_id, created_at)
+         VALUES ($1, $2, now_utc())
+         ON CONFLICT DO NOTHING`,
+        [channelId, userId]
+      );
+      if (!ins.rowCount) return;
+      // Счётчик обновляет воркер/cron, но для UX можно оптимистично инкрементнуть:
+      await cli.query(`UPDATE channel_counters SET followers = followers + 1, updated_at = now_utc() WHERE channel_id=$1`, [channelId]);
+      await enqueue(cli, topics.channel(channelId), 'channel:follow', { channelId, userId, following: true });
+    });
     return { following: true as const };
   }
 
   async unfollow(userId: string, channelId: string): Promise<{ following: false }> {
     this.ensureUuid(userId); this.ensureUuid(channelId);
-    await this.pool.query(`DELETE FROM channel_follows WHERE channel_id=$1 AND user_id=$2`, [channelId, userId]);
-    await this.pool.query(`UPDATE channel_counters SET followers = GREATEST(0, followers - 1), updated_at = now_utc() WHERE channel_id=$1`, [channelId]).catch(() => {});
+    await withTx(this.pool, async (cli) => {
+      const del = await cli.query(`DELETE FROM channel_follows WHERE channel_id=$1 AND user_id=$2`, [channelId, userId]);
+      if (!del.rowCount) return;
+      await cli.query(`UPDATE channel_counters SET followers = GREATEST(0, followers - 1), updated_at = now_utc() WHERE channel_id=$1`, [channelId]);
+      await enqueue(cli, topics.channel(channelId), 'channel:follow', { channelId, userId, following: false });
+    });
     return { following: false as const };
   }
 
@@ -249,7 +318,8 @@ export class ChannelsService {
              coalesce(cc.followers,0) AS followers,
              coalesce(cc.posts,0) AS posts,
              coalesce(cc.views,0) AS views,
-             coalesce(cc.likes,0) AS likes
+             coalesce(cc.likes,0) AS likes,
+             ${CHANNEL_BLOCKED} AS is_blocked
         FROM channels c
         LEFT JOIN channel_counters cc ON cc.channel_id = c.id
        WHERE c.${isUuid ? 'id' : 'slug'} = $1
@@ -261,6 +331,11 @@ export class ChannelsService {
     if (!q.rowCount) this.errThrow(404, 'channel_not_found');
 
     const row = q.rows[0];
+    // заблокированный модератором канал видят только его owner/admin
+    if (row.is_blocked) {
+      const role = viewerId ? await this.memberRole(viewerId, String(row.id)) : null;
+      if (!role || !this.canManage(role)) this.errThrow(403, 'channel_blocked');
+    }
     // приватные каналы видят только участники
     if (row.visibility === 'private' && viewerId) {
       const m = await this.pool.query(
@@ -274,14 +349,14 @@ export class ChannelsService {
     return row;
   }
 
-  /** Каталог каналов: keyset по вычисленному score (followers*2 + posts + recent_boost). */
+  /** Каталог каналов: keyset по вычисленному score (followers*2 + posts + recent_boost); без заблокированных. */
   async list(opts: { limit?: number; cursor?: Cursor | null; query?: string | null; visibility?: ChannelVisibility }): Promise<{ items: any[]; nextCursor: Cursor | null }> {
     const limit = Math.min(Math.max(1, opts.limit ?? 24), 100);
     const query = (opts.query || '').trim();
     const visibility = opts.visibility ?? 'public';
 
     const params: any[] = [visibility, limit + 1];
-    let where = `c.visibility = $1 AND c.is_archived = false AND c.deleted_at IS NULL`;
+    let where = `c.visibility = $1 AND c.is_archived = false AND c.deleted_at IS NULL AND NOT ${CHANNEL_BLOCKED}`;
     if (query) {
       params.push(`%${query.toLowerCase()}%`);
       where += ` AND (lower(c.title) LIKE $${params.length} OR lower(c.about) LIKE $${params.length})`;
@@ -330,8 +405,8 @@ export class ChannelsService {
   // Вспомогательные
   // ────────────────────────────────────────────────────────────────────────────
 
-  private async ensureCounters(channelId: string) {
-    await this.pool.query(
+  private async ensureCounters(cli: any, channelId: string) {
+    await cli.query(
       `INSERT INTO channel_counters (channel_id, followers, posts, views, likes)
        VALUES ($1, 0, 0, 0, 0)
        ON CONFLICT (channel_id) DO NOTHING`,
@@ -361,6 +436,7 @@ export class ChannelsService {
       .slice(0, 64);
   }
 
+
   private ensureUuid(id: string) {
     if (!/^[0-9a-f-]{36}$/i.test(id)) this.errThrow(400, 'invalid_uuid');
   }
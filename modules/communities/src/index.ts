@@ -1,4 +1,5 @@
-import { sql } from '@db/index';
+import { randomBytes } from 'node:crypto';
+import { sql, transaction } from '@db/index';
 
 export type Community = {
   id: string;
@@ -46,6 +47,8 @@ export type ListParams = {
   cursor?: string; // b64 "created_at|id"
 };
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 function clamp(n: number, min: number, max: number) { return Math.max(min, Math.min(max, n)); }
 
 function decodeCursor(c?: string | null): { created_at: string; id: string } | null {
@@ -72,19 +75,28 @@ export async function createCommunity(input: CreateInput): Promise<Community> {
   const isPublic = input.isPublic ?? true;
   const posting = input.postingPolicy ?? 'owners';
 
-  const rows = await sql<Community[]>`
-    INSERT INTO communities (id, kind, handle, title, description, owner_id, is_public, posting_policy)
-    VALUES (${input.id ?? sql`replace(gen_random_uuid()::text, '-', '')`}, ${input.kind}, ${handle}, ${title}, ${desc}, ${input.ownerId}, ${isPublic}, ${posting})
-    RETURNING *
-  `;
-  // создаём запись участника-владельца
-  await sql/* sql */`
-    INSERT INTO community_members (community_id, user_id, role, status)
-    VALUES (${rows[0].id}, ${input.ownerId}, 'owner', 'active')
-    ON CONFLICT (community_id, user_id) DO UPDATE
-      SET role='owner', status='active', updated_at=now()
-  `;
-  return rows[0];
+  try {
+    return await transaction(async (trx) => {
+      const rows = await trx<Community[]>`
+        INSERT INTO communities (id, kind, handle, title, description, owner_id, is_public, posting_policy)
+        VALUES (${input.id ?? trx`replace(gen_random_uuid()::text, '-', '')`}, ${input.kind}, ${handle}, ${title}, ${desc}, ${input.ownerId}, ${isPublic}, ${posting})
+        RETURNING *
+      `;
+      // создаём запись участника-владельца
+      await trx`
+        INSERT INTO community_members (community_id, user_id, role, status)
+        VALUES (${rows[0].id}, ${input.ownerId}, 'owner', 'active')
+        ON CONFLICT (community_id, user_id) DO UPDATE
+          SET role='owner', status='active', updated_at=now()
+      `;
+      // счётчик обновлён триггером после INSERT выше
+      const fresh = await trx<Community[]>`SELECT * FROM communities WHERE id = ${rows[0].id}`;
+      return fresh[0];
+    });
+  } catch (e: any) {
+    if (e?.code === '23505') throw new Error('handle_taken');
+    throw e;
+  }
 }
 
 export async function getCommunityById(id: string): Promise<Community | null> {
@@ -177,6 +189,10 @@ export async function isAdminOrOwner(communityId: string, userId: string): Promi
   return rows.length > 0;
 }
 
+/**
+ * Вступить (группа) или подписаться (канал). В открытое сообщество — сразу active, в закрытое —
+ * заявка со статусом pending (одобряют owner/admin/moderator). Активное участие не меняется.
+ */
 export async function joinCommunity(communityId: string, userId: string): Promise<Member> {
   const c = await getCommunityById(communityId);
   if (!c) throw new Error('community_not_found');
@@ -184,27 +200,33 @@ export async function joinCommunity(communityId: string, userId: string): Promis
   // если забанен — запретим
   const m = await getMembership(communityId, userId);
   if (m && m.status === 'banned') throw new Error('banned');
+  if (m && (m.status === 'active' || m.status === 'pending')) return m;
 
   const role: Member['role'] = c.kind === 'channel' ? 'subscriber' : 'member';
+  const status: Member['status'] = c.is_public ? 'active' : 'pending';
 
   const rows = await sql<Member[]>`
     INSERT INTO community_members (community_id, user_id, role, status)
-    VALUES (${communityId}, ${userId}, ${role}, 'active')
+    VALUES (${communityId}, ${userId}, ${role}, ${status})
     ON CONFLICT (community_id, user_id) DO UPDATE
-      SET status = 'active',
+      SET status = ${status},
           role = CASE WHEN community_members.role = 'owner' THEN 'owner' ELSE ${role} END,
+          joined_at = now(),
           updated_at = now()
+      WHERE community_members.status NOT IN ('banned')
     RETURNING *
   `;
+  if (!rows.length) throw new Error('banned');
   return rows[0];
 }
 
 export async function leaveCommunity(communityId: string, userId: string): Promise<boolean> {
   // владелец не может «уйти» не передав владение — триггер базы предотвратит снятие последнего owner
+  // pending — отзыв собственной заявки
   const res = await sql`
     UPDATE community_members
        SET status='left', updated_at=now()
-     WHERE community_id=${communityId} AND user_id=${userId} AND status='active'
+     WHERE community_id=${communityId} AND user_id=${userId} AND status IN ('active','pending')
   `;
   // @ts-ignore
   const count = Number(res?.count ?? res?.rowCount ?? 0);
@@ -249,3 +271,233 @@ export async function unbanMember(communityId: string, actorId: string, targetUs
   `;
   return rows[0] ?? null;
 }
+
+export async function isModerator(communityId: string, userId: string): Promise<boolean> {
+  const rows = await sql`SELECT 1 FROM community_members WHERE community_id=${communityId} AND user_id=${userId} AND role IN ('owner','admin','moderator') AND status='active' LIMIT 1`;
+  return rows.length > 0;
+}
+
+/* ─────────────────────────────
+ * Join requests (pending)
+ * ──────────────────────────── */
+export async function listJoinRequests(
+  communityId: string,
+  actorId: string,
+  params: { limit?: number; cursor?: string } = {}
+): Promise<{ items: Member[]; nextCursor: string | null }> {
+  if (!(await isModerator(communityId, actorId))) throw new Error('forbidden');
+  const limit = clamp(params.limit ?? 50, 1, 200);
+  const cur = decodeCursor(params.cursor);
+  const rows = await sql<Member[]>`
+    SELECT * FROM community_members
+     WHERE community_id = ${communityId} AND status = 'pending'
+       ${cur ? sql`AND (joined_at, user_id) > (${cur.created_at}::timestamptz, ${cur.id})` : sql``}
+     ORDER BY joined_at ASC, user_id ASC
+     LIMIT ${limit + 1}
+  `;
+  let nextCursor: string | null = null;
+  if (rows.length > limit) {
+    const last = rows[limit - 1];
+    nextCursor = encodeCursor(new Date(last.joined_at).toISOString(), last.user_id);
+  }
+  return { items: rows.slice(0, limit), nextCursor };
+}
+
+export async function approveJoinRequest(communityId: string, actorId: string, targetUserId: string): Promise<Member | null> {
+  if (!(await isModerator(communityId, actorId))) throw new Error('forbidden');
+  if (!UUID_RE.test(targetUserId)) return null;
+  const rows = await sql<Member[]>`
+    UPDATE community_members
+       SET status='active', joined_at=now(), updated_at=now()
+     WHERE community_id=${communityId} AND user_id=${targetUserId} AND status='pending'
+     RETURNING *
+  `;
+  return rows[0] ?? null;
+}
+
+export async function rejectJoinRequest(communityId: string, actorId: string, targetUserId: string): Promise<boolean> {
+  if (!(await isModerator(communityId, actorId))) throw new Error('forbidden');
+  if (!UUID_RE.test(targetUserId)) return false;
+  const rows = await sql`
+    DELETE FROM community_members
+     WHERE community_id=${communityId} AND user_id=${targetUserId} AND status='pending'
+     RETURNING user_id
+  `;
+  return rows.length > 0;
+}
+
+/* ─────────────────────────────
+ * Invite links
+ * ──────────────────────────── */
+export type Invite = {
+  code: string;
+  community_id: string;
+  created_by: string | null;
+  max_uses: number | null;
+  uses: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+export async function createInvite(
+  communityId: string,
+  actorId: string,
+  input: { maxUses?: number | null; expiresInSec?: number | null } = {}
+): Promise<Invite> {
+  if (!(await isAdminOrOwner(communityId, actorId))) throw new Error('forbidden');
+  const code = randomBytes(16).toString('base64url');
+  const ttl = input.expiresInSec ? Math.max(60, Math.floor(input.expiresInSec)) : null;
+  const rows = await sql<Invite[]>`
+    INSERT INTO community_invites (code, community_id, created_by, max_uses, expires_at)
+    VALUES (${code}, ${communityId}, ${actorId}, ${input.maxUses ?? null},
+            ${ttl ? sql`now() + make_interval(secs => ${ttl})` : null})
+    RETURNING *
+  `;
+  return rows[0];
+}
+
+export async function listInvites(communityId: string, actorId: string): Promise<Invite[]> {
+  if (!(await isAdminOrOwner(communityId, actorId))) throw new Error('forbidden');
+  return sql<Invite[]>`
+    SELECT * FROM community_invites
+     WHERE community_id = ${communityId} AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > now())
+       AND (max_uses IS NULL OR uses < max_uses)
+     ORDER BY created_at DESC
+     LIMIT 100
+  `;
+}
+
+export async function revokeInvite(communityId: string, actorId: string, code: string): Promise<boolean> {
+  if (!(await isAdminOrOwner(communityId, actorId))) throw new Error('forbidden');
+  const rows = await sql`
+    UPDATE community_invites SET revoked_at = now()
+     WHERE community_id = ${communityId} AND code = ${code} AND revoked_at IS NULL
+     RETURNING code
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Вступить по приглашению: сразу active (заявка не нужна), бан приглашение не снимает.
+ * Использование засчитывается, только если участие действительно появилось.
+ */
+export async function joinByInvite(code: string, userId: string): Promise<Member> {
+  return transaction(async (trx) => {
+    const inv = await trx<(Invite & { kind: Community['kind'] })[]>`
+      SELECT i.*, c.kind FROM community_invites i
+        JOIN communities c ON c.id = i.community_id
+       WHERE i.code = ${code}
+       FOR UPDATE OF i
+    `;
+    const i = inv[0];
+    if (!i || i.revoked_at || (i.expires_at && new Date(i.expires_at).getTime() <= Date.now())
+        || (i.max_uses != null && i.uses >= i.max_uses)) {
+      throw new Error('invite_invalid');
+    }
+
+    const cur = await trx<Member[]>`
+      SELECT * FROM community_members WHERE community_id = ${i.community_id} AND user_id = ${userId} FOR UPDATE
+    `;
+    if (cur[0]?.status === 'banned') throw new Error('banned');
+    if (cur[0]?.status === 'active') return cur[0];
+
+    const role: Member['role'] = i.kind === 'channel' ? 'subscriber' : 'member';
+    const rows = await trx<Member[]>`
+      INSERT INTO community_members (community_id, user_id, role, status)
+      VALUES (${i.community_id}, ${userId}, ${role}, 'active')
+      ON CONFLICT (community_id, user_id) DO UPDATE
+        SET status = 'active', role = ${role}, joined_at = now(), updated_at = now()
+      RETURNING *
+    `;
+    await trx`UPDATE community_invites SET uses = uses + 1 WHERE code = ${code}`;
+    return rows[0];
+  });
+}
+
+/* ─────────────────────────────
+ * Posts (posting_policy)
+ * ──────────────────────────── */
+export type CommunityPost = {
+  id: string;
+  community_id: string;
+  author_id: string | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const POST_MAX = 10_000;
+
+/** owners — публикуют owner/admin; members — любой активный участник, кроме подписчиков канала. */
+export function canPost(c: Pick<Community, 'posting_policy'>, m: Pick<Member, 'role' | 'status'> | null): boolean {
+  if (!m || m.status !== 'active') return false;
+  if (m.role === 'owner' || m.role === 'admin') return true;
+  return c.posting_policy === 'members' && m.role !== 'subscriber';
+}
+
+export async function createPost(communityId: string, userId: string, body: string): Promise<CommunityPost> {
+  const text = String(body ?? '').trim();
+  if (!text || text.length > POST_MAX) throw new Error('invalid_body');
+  const c = await getCommunityById(communityId);
+  if (!c) throw new Error('community_not_found');
+  const m = await getMembership(communityId, userId);
+  if (m?.status === 'banned') throw new Error('banned');
+  if (!canPost(c, m)) throw new Error('posting_not_allowed');
+
+  const rows = await sql<CommunityPost[]>`
+    INSERT INTO community_posts (community_id, author_id, body)
+    VALUES (${communityId}, ${userId}, ${text})
+    RETURNING id, community_id, author_id, body, created_at, updated_at
+  `;
+  return rows[0];
+}
+
+/** Лента сообщества; закрытое — только активным участникам. */
+export async function listPosts(
+  communityId: string,
+  viewerId: string | null,
+  params: { limit?: number; cursor?: string } = {}
+): Promise<{ items: CommunityPost[]; nextCursor: string | null }> {
+  const c = await getCommunityById(communityId);
+  if (!c) throw new Error('community_not_found');
+  if (!c.is_public) {
+    const m = viewerId ? await getMembership(communityId, viewerId) : null;
+    if (!m || m.status !== 'active') throw new Error('forbidden');
+  }
+  const limit = clamp(params.limit ?? 20, 1, 100);
+  const cur = decodeCursor(params.cursor);
+  const rows = await sql<CommunityPost[]>`
+    SELECT id, community_id, author_id, body, created_at, updated_at
+      FROM community_posts
+     WHERE community_id = ${communityId} AND deleted_at IS NULL
+       ${cur ? sql`AND (created_at, id) < (${cur.created_at}::timestamptz, ${cur.id})` : sql``}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ${limit + 1}
+  `;
+  let nextCursor: string | null = null;
+  if (rows.length > limit) {
+    const last = rows[limit - 1];
+    nextCursor = encodeCursor(new Date(last.created_at).toISOString(), last.id);
+  }
+  return { items: rows.slice(0, limit), nextCursor };
+}
+
+/** Удалить публикацию: автор или owner/admin/moderator. */
+export async function deletePost(communityId: string, postId: string, actorId: string): Promise<boolean> {
+  if (!UUID_RE.test(postId)) return false;
+  const rows = await sql<{ author_id: string | null }[]>`
+    SELECT author_id FROM community_posts
+     WHERE id = ${postId} AND community_id = ${communityId} AND deleted_at IS NULL
+     LIMIT 1
+  `;
+  if (!rows.length) return false;
+  if (rows[0].author_id !== actorId && !(await isModerator(communityId, actorId))) throw new Error('forbidden');
+  const res = await sql`
+    UPDATE community_posts SET body = NULL, deleted_at = now(), updated_at = now()
+     WHERE id = ${postId} AND deleted_at IS NULL
+     RETURNING id
+  `;
+  return res.length > 0;
+}
@@ -1,21 +1,41 @@
 /**
  * ConversationsService
  * - createPrivate(otherUserId) / createGroup(title, members)
- * - listForUser(userId, opts) — keyset-пагинация по активности (last_message_at/created_at)
+ * - listForUser(userId, opts) — keyset-пагинация по активности (last_message_at/created_at),
+ *   с unread_count / mention_count / last_read_* по указателю прочтения участника
+ * - markReadUpTo(userId, conversationId, messageId?) — сдвинуть указатель прочтения
+ * - unreadSummary(userId) — общий бейдж непрочитанного (без muted-бесед)
  * - getById(userId, conversationId) — с проверкой членства
  * - updateConversation(userId, conversationId, {title, topic}) — только owner/admin
  * - addMembers / removeMember / leave
  * - updateMemberSettings (role/notifications)
+ * - Блокировки и privacy (023_user_blocks.sql): новый личный диалог — только если нет блокировки
+ *   в любую сторону и privacy.messages собеседника допускает; добавление в группу (createGroup,
+ *   addMembers) — то же с privacy.groupInvites. 403 user_blocked — блокировал сам actor,
+ *   privacy_restricted — блокировка/настройки другой стороны (не раскрываем, что именно).
  *
- * Требования к БД: миграции 004_conversations.sql, 005_messages.sql применены.
+ * Realtime (через outbox, в той же транзакции):
+ *  - conversation:new → rt:user:<id> (новая беседа / добавление в беседу)
+ *  - conversation:updated, conversation:members → rt:conv:<id>
+ *  - conversation:settings → rt:user:<id> (личные настройки уведомлений)
+ *  - conversation:read → rt:conv:<id> (указатель прочтения участника)
+ * Поиск: смена состава беседы переиндексирует документы участников ({ type: 'user' }, acl.conversations) —
+ * по ним modules/search фильтрует сообщения.
+ *
+ * Требования к БД: миграции 004_conversations.sql, 005_messages.sql, 012_outbox.sql, 016_read_pointers.sql,
+ * 023_user_blocks.sql применены.
  */
 
 import { Pool } from 'pg';
+import { enqueue, enqueueMany, enqueueSearch, topics, withTx } from '@modules/outbox';
 
 export type Cursor = { ts: string; id: string }; // для keyset
 export type MemberRole = 'owner' | 'admin' | 'member';
 export type ConversationType = 'private' | 'group';
 
+/** Счётчик непрочитанных ограничен сверху (клиент показывает «999+»). */
+export const UNREAD_CAP = 999;
+
 export class ConversationsService {
   constructor(private pool: Pool) {}
 
@@ -42,6 +62,8 @@ export class ConversationsService {
     );
     if (q.rowCount) return { id: String(q.rows[0].id) };
 
+    await this.assertReachable(userId, otherUserId, 'messages');
+
     // Создаем новую беседу и двух участников в транзакции
     const cli = await this.pool.connect();
     try {
@@ -59,6 +81,10 @@ export class ConversationsService {
          ON CONFLICT DO NOTHING`,
         [convId, userId, otherUserId]
       );
+      await enqueueMany(cli, [userId, otherUserId].map((uid) => ({
+        topic: topics.user(uid), event: 'conversation:new', data: { conversationId: convId, type: 'private' },
+      })));
+      for (const uid of [userId, otherUserId]) await enqueueSearch(cli, 'index', { type: 'user', id: uid });
       await cli.query('COMMIT');
       return { id: convId };
     } catch (e) {
@@ -77,6 +103,7 @@ export class ConversationsService {
 
     const memberIds = Array.from(new Set([...(input.memberIds || [])])).filter((id) => id !== ownerId);
     memberIds.forEach(this.ensureUuid);
+    for (const uid of memberIds) await this.assertReachable(ownerId, uid, 'groupInvites');
 
     const cli = await this.pool.connect();
     try {
@@ -108,6 +135,11 @@ export class ConversationsService {
         await cli.query(`INSERT INTO conversation_members (conversation_id, user_id, role) VALUES ${chunks.join(',')} ON CONFLICT DO NOTHING`, values);
       }
 
+      await enqueueMany(cli, [ownerId, ...memberIds].map((uid) => ({
+        topic: topics.user(uid), event: 'conversation:new', data: { conversationId: convId, type: 'group' },
+      })));
+      for (const uid of [ownerId, ...memberIds]) await enqueueSearch(cli, 'index', { type: 'user', id: uid });
+
       await cli.query('COMMIT');
       return { id: convId };
     } catch (e) {
@@ -163,9 +195,12 @@ export class ConversationsService {
 
     const q = await this.pool.query(
       `
-      SELECT c.id, c.type, c.title, c.topic, c.created_by, c.created_at, c.updated_at, c.last_message_at
+      SELECT c.id, c.type, c.title, c.topic, c.created_by, c.created_at, c.updated_at, c.last_message_at,
+             m.last_read_message_id, m.last_read_at,
+             u.unread_count, mc.mention_count
         FROM conversations c
         JOIN conversation_members m ON m.conversation_id = c.id
+        ${this.unreadJoins()}
        WHERE m.user_id = $1
          AND m.left_at IS NULL
          AND c.deleted_at IS NULL
@@ -186,6 +221,69 @@ export class ConversationsService {
     return { items: rows, nextCursor };
   }
 
+  /** Общий бейдж: сколько бесед с непрочитанным, сумма сообщений и упоминаний. Muted-беседы не учитываются. */
+  async unreadSummary(userId: string): Promise<{ conversations: number; messages: number; mentions: number }> {
+    this.ensureUuid(userId);
+    const q = await this.pool.query(
+      `
+      SELECT COUNT(*) FILTER (WHERE u.unread_count > 0)::int AS conversations,
+             COALESCE(SUM(u.unread_count), 0)::int AS messages,
+             COALESCE(SUM(mc.mention_count), 0)::int AS mentions
+        FROM conversation_members m
+        JOIN conversations c ON c.id = m.conversation_id AND c.deleted_at IS NULL
+        ${this.unreadJoins()}
+       WHERE m.user_id = $1
+         AND m.left_at IS NULL
+         AND COALESCE((m.notifications->>'muted')::boolean, false) = false
+      `,
+      [userId]
+    );
+    const r = q.rows[0] || {};
+    return { conversations: Number(r.conversations || 0), messages: Number(r.messages || 0), mentions: Number(r.mentions || 0) };
+  }
+
+  /** Отметить беседу прочитанной до messageId (по умолчанию — до последнего сообщения). Только вперёд. */
+  async markReadUpTo(userId: string, conversationId: string, messageId?: string | null) {
+    this.ensureUuid(userId); this.ensureUuid(conversationId);
+    if (messageId) this.ensureUuid(messageId);
+    const can = await this.userRole(userId, conversationId);
+    if (!can) throw this.err(404, 'conversation_not_found');
+
+    const target = messageId
+      ? await this.pool.query(
+          `SELECT id, created_at FROM messages WHERE id = $1 AND conversation_id = $2 LIMIT 1`,
+          [messageId, conversationId]
+        )
+      : await this.pool.query(
+          `SELECT id, created_at FROM messages
+            WHERE conversation_id = $1 AND deleted_at IS NULL
+            ORDER BY created_at DESC, id DESC
+            LIMIT 1`,
+          [conversationId]
+        );
+    if (!target.rowCount) {
+      if (messageId) throw this.err(404, 'message_not_found');
+      return { ok: true as const, changed: false };
+    }
+    const { id: lastId, created_at: lastAt } = target.rows[0];
+
+    const changed = await withTx(this.pool, async (cli) => {
+      const upd = await cli.query(
+        `UPDATE conversation_members
+            SET last_read_message_id = $3, last_read_at = $4, updated_at = now_utc()
+          WHERE conversation_id = $1 AND user_id = $2 AND left_at IS NULL
+            AND (last_read_at IS NULL OR last_read_at < $4)`,
+        [conversationId, userId, lastId, lastAt]
+      );
+      if (!upd.rowCount) return false;
+      await enqueue(cli, topics.conv(conversationId), 'conversation:read', {
+        conversationId, userId, lastReadMessageId: String(lastId), lastReadAt: lastAt,
+      });
+      return true;
+    });
+    return { ok: true as const, changed };
+  }
+
   // ────────────────────────────────────────────────────────────────────────────
   // Изменение беседы / участники
   // ────────────────────────────────────────────────────────────────────────────
@@ -209,7 +307,13 @@ export class ConversationsService {
 
     vals.push(conversationId);
     const sql = `UPDATE conversations SET ${sets.join(', ')}, updated_at = now_utc() WHERE id = $${vals.length} RETURNING id`;
-    await this.pool.query(sql, vals);
+    await withTx(this.pool, async (cli) => {
+      await cli.query(sql, vals);
+      const changed: Record<string, any> = {};
+      if (title !== undefined) changed.title = title;
+      if (topic !== undefined) changed.topic = topic;
+      await enqueue(cli, topics.conv(conversationId), 'conversation:updated', { conversationId, actorId, ...changed });
+    });
 
     return this.getById(actorId, conversationId);
   }
@@ -221,11 +325,22 @@ export class ConversationsService {
     if (!can) throw this.err(404, 'conversation_not_found');
     if (can.role === 'member') throw this.err(403, 'forbidden');
 
+    members.forEach((m) => this.ensureUuid(m.userId));
+    // действующим участникам меняется только роль — это не приглашение
+    const active = await this.pool.query(
+      `SELECT user_id FROM conversation_members
+        WHERE conversation_id = $1 AND left_at IS NULL AND user_id = ANY($2::uuid[])`,
+      [conversationId, members.map((m) => m.userId)]
+    );
+    const already = new Set(active.rows.map((r: any) => String(r.user_id)));
+    for (const m of members) {
+      if (m.userId !== actorId && !already.has(m.userId)) await this.assertReachable(actorId, m.userId, 'groupInvites');
+    }
+
     const cli = await this.pool.connect();
     try {
       await cli.query('BEGIN');
       for (const m of members) {
-        this.ensureUuid(m.userId);
         const role = m.role ?? 'member';
         await cli.query(
           `INSERT INTO conversation_members (conversation_id, user_id, role, joined_at, left_at)
@@ -234,6 +349,9 @@ export class ConversationsService {
            SET left_at = NULL, role = EXCLUDED.role, updated_at = now_utc()`,
           [conversationId, m.userId, role]
         );
+        await enqueue(cli, topics.conv(conversationId), 'conversation:members', { conversationId, action: 'added', userId: m.userId, role });
+        await enqueue(cli, topics.user(m.userId), 'conversation:new', { conversationId });
+        await enqueueSearch(cli, 'index', { type: 'user', id: m.userId });
       }
       await cli.query('COMMIT');
     } catch (e) {
@@ -265,12 +383,18 @@ export class ConversationsService {
     const isOwner = Number(r.rows[0].is_owner || 0) > 0;
     if (isOwner && owners <= 1) throw this.err(400, 'cannot_remove_last_owner');
 
-    await this.pool.query(
-      `UPDATE conversation_members
-          SET left_at = now_utc(), updated_at = now_utc()
-        WHERE conversation_id=$1 AND user_id=$2 AND left_at IS NULL`,
-      [conversationId, memberId]
-    );
+    await withTx(this.pool, async (cli) => {
+      const upd = await cli.query(
+        `UPDATE conversation_members
+            SET left_at = now_utc(), updated_at = now_utc()
+          WHERE conversation_id=$1 AND user_id=$2 AND left_at IS NULL`,
+        [conversationId, memberId]
+      );
+      if (upd.rowCount) {
+        await enqueue(cli, topics.conv(conversationId), 'conversation:members', { conversationId, action: 'removed', userId: memberId });
+        await enqueueSearch(cli, 'index', { type: 'user', id: memberId });
+      }
+    });
     return { ok: true as const };
   }
 
@@ -292,11 +416,20 @@ export class ConversationsService {
     if (!sets.length) return { ok: true as const };
 
     vals.push(conversationId, memberId);
-    await this.pool.query(
-      `UPDATE conversation_members SET ${sets.join(', ')}, updated_at = now_utc()
-        WHERE conversation_id = $${vals.length - 1} AND user_id = $${vals.length} AND left_at IS NULL`,
-      vals
-    );
+    await withTx(this.pool, async (cli) => {
+      const upd = await cli.query(
+        `UPDATE conversation_members SET ${sets.join(', ')}, updated_at = now_utc()
+          WHERE conversation_id = $${vals.length - 1} AND user_id = $${vals.length} AND left_at IS NULL`,
+        vals
+      );
+      if (!upd.rowCount) return;
+      if (input.role) {
+        await enqueue(cli, topics.conv(conversationId), 'conversation:members', { conversationId, action: 'role', userId: memberId, role: input.role });
+      }
+      if (input.notifications !== undefined) {
+        await enqueue(cli, topics.user(memberId), 'conversation:settings', { conversationId, notifications: input.notifications });
+      }
+    });
     return { ok: true as const };
   }
 
@@ -304,6 +437,67 @@ export class ConversationsService {
   // Вспомогательные
   // ────────────────────────────────────────────────────────────────────────────
 
+  /**
+   * LATERAL-подзапросы непрочитанного для участника m (пользователь — $1):
+   *  u.unread_count  — чужие живые сообщения после last_read_at (или joined_at), не более UNREAD_CAP
+   *  mc.mention_count — упоминания пользователя после того же указателя
+   */
+  private unreadJoins(): string {
+    return `
+        LEFT JOIN LATERAL (
+          SELECT COUNT(*)::int AS unread_count
+            FROM (
+              SELECT 1
+                FROM messages mm
+               WHERE mm.conversation_id = m.conversation_id
+                 AND mm.deleted_at IS NULL
+                 AND mm.author_id IS DISTINCT FROM $1
+                 AND mm.created_at > COALESCE(m.last_read_at, m.joined_at)
+               LIMIT ${UNREAD_CAP}
+            ) x
+        ) u ON true
+        LEFT JOIN LATERAL (
+          SELECT COUNT(*)::int AS mention_count
+            FROM message_mentions mn
+            JOIN messages mm ON mm.id = mn.message_id AND mm.deleted_at IS NULL
+           WHERE mn.user_id = $1
+             AND mn.conversation_id = m.conversation_id
+             AND mn.created_at > COALESCE(m.last_read_at, m.joined_at)
+        ) mc ON true`;
+  }
+
+  /**
+   * Может ли actor начать диалог с target / добавить его в группу: блокировка в любую сторону
+   * запрещает всегда, privacy target (messages | groupInvites) — everyone/contacts/nobody,
+   * contacts — есть общий активный диалог.
+   */
+  private async assertReachable(actorId: string, targetId: string, key: 'messages' | 'groupInvites') {
+    const q = await this.pool.query(
+      `
+      SELECT
+        EXISTS (SELECT 1 FROM user_blocks b WHERE b.blocker_id = $1 AND b.blocked_id = $2) AS blocked_by_me,
+        EXISTS (SELECT 1 FROM user_blocks b WHERE b.blocker_id = $2 AND b.blocked_id = $1) AS blocked_me,
+        COALESCE(u.privacy->>$3, 'everyone') AS audience,
+        EXISTS (
+          SELECT 1
+            FROM conversation_members a
+            JOIN conversation_members b ON b.conversation_id = a.conversation_id
+           WHERE a.user_id = $1 AND a.left_at IS NULL
+             AND b.user_id = $2 AND b.left_at IS NULL
+        ) AS is_contact
+        FROM users u
+       WHERE u.id = $2 AND u.deleted_at IS NULL
+      `,
+      [actorId, targetId, key]
+    );
+    if (!q.rowCount) throw this.err(404, 'user_not_found');
+    const r = q.rows[0];
+    if (r.blocked_by_me) throw this.err(403, 'user_blocked');
+    if (r.blocked_me || r.audience === 'nobody' || (r.audience === 'contacts' && !r.is_contact)) {
+      throw this.err(403, 'privacy_restricted');
+    }
+  }
+
   private async userRole(userId: string, conversationId: string): Promise<{ role: MemberRole } | null> {
     const q = await this.pool.query(
       `SELECT role FROM conversation_members
@@ -315,6 +509,7 @@ export class ConversationsService {
     return { role: q.rows[0].role as MemberRole };
   }
 
+
   private ensureUuid(id: string) {
     if (!/^[0-9a-f-]{36}$/i.test(id)) throw this.err(400, 'invalid_uuid');
   }
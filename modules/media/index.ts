@@ -2,6 +2,7 @@
 import { z } from 'zod';
 import { sql, transaction } from '@db/index';
 import { presignGetObject } from '@s3/index';
+import { redis } from '@redis/index';
 
 /* ============================================================================
  * Типы и схемы
@@ -85,15 +86,82 @@ function mapMetaRow(r: any, variants: any[]): MediaMeta {
  * ========================================================================== */
 
 /**
- * Простая и строгая ACL: доступ только владельцу (created_by).
- * До подключения моделей каналов/групп это безопасное дефолт-поведение.
+ * Контекстная ACL. Доступ к медиа есть, если requester:
+ *  - его загрузил (created_by);
+ *  - участник диалога (left_at IS NULL), где медиа прикреплено к неудалённому сообщению;
+ *  - видит пост с этим медиа (posts.media_id или post_media): опубликован и не скрыт
+ *    модерацией в канале, который не private, либо requester — участник канала; черновики и
+ *    скрытые — автору и owner/admin/moderator канала;
+ *  - медиа — аватар живого пользователя (видят все аутентифицированные).
+ *
+ * Решения кэшируются в Redis `media:acl:<mediaId>:<userId>` ('1' | '0') на
+ * MEDIA_ACL_CACHE_SEC (по умолчанию 60 с; отказ — не дольше 10 с, чтобы только что
+ * отправленное сообщение с медиа быстро стало доступно получателям). Без Redis — без кэша.
+ * Отзыв доступа (выход из диалога/канала) вступает в силу не позже TTL.
  */
-function checkAccessOrThrow(requesterId: string | undefined, ownerId: string) {
-  if (!requesterId || requesterId !== ownerId) {
-    const e: any = new Error('Forbidden');
-    e.code = 'FORBIDDEN';
-    throw e;
+const ACL_ALLOW_TTL = Math.max(0, Number(process.env.MEDIA_ACL_CACHE_SEC ?? 60));
+const ACL_DENY_TTL = Math.min(ACL_ALLOW_TTL, 10);
+
+const aclKey = (mediaId: string, userId: string) => `media:acl:${mediaId}:${userId}`;
+
+async function resolveAccess(mediaId: string, requesterId: string): Promise<boolean> {
+  const rows = await sql`
+    SELECT
+      EXISTS (
+        SELECT 1
+          FROM messages m
+          JOIN conversation_members cm ON cm.conversation_id = m.conversation_id
+                                      AND cm.user_id = ${requesterId} AND cm.left_at IS NULL
+          JOIN conversations c ON c.id = m.conversation_id AND c.deleted_at IS NULL
+         WHERE m.media_id = ${mediaId} AND m.deleted_at IS NULL
+      ) AS via_message,
+      EXISTS (
+        SELECT 1
+          FROM posts p
+          JOIN channels ch ON ch.id = p.channel_id AND ch.deleted_at IS NULL
+          LEFT JOIN channel_members chm ON chm.channel_id = p.channel_id
+                                       AND chm.user_id = ${requesterId} AND chm.left_at IS NULL
+         WHERE p.deleted_at IS NULL
+           AND (p.media_id = ${mediaId}
+                OR EXISTS (SELECT 1 FROM post_media pm WHERE pm.post_id = p.id AND pm.media_id = ${mediaId}))
+           AND (
+                 (p.status = 'published' AND p.hidden_at IS NULL
+                   AND (ch.visibility <> 'private' OR chm.user_id IS NOT NULL))
+              OR p.author_id = ${requesterId}
+              OR chm.role IN ('owner', 'admin', 'moderator')
+           )
+      ) AS via_post,
+      EXISTS (
+        SELECT 1 FROM users u WHERE u.avatar_media_id = ${mediaId} AND u.deleted_at IS NULL
+      ) AS via_avatar
+  `;
+  const r = rows[0];
+  return !!(r && (r.via_message || r.via_post || r.via_avatar));
+}
+
+/**
+ * Бросает FORBIDDEN, если у requester нет доступа к медиа (см. правила выше).
+ */
+async function checkAccessOrThrow(mediaId: string, requesterId: string | undefined, ownerId: string): Promise<void> {
+  if (requesterId && requesterId === ownerId) return;
+  if (requesterId) {
+    const key = aclKey(mediaId, requesterId);
+    let allowed: boolean | null = null;
+    if (redis && ACL_ALLOW_TTL > 0) {
+      const hit = await redis.get(key).catch(() => null);
+      if (hit === '1' || hit === '0') allowed = hit === '1';
+    }
+    if (allowed === null) {
+      allowed = await resolveAccess(mediaId, requesterId);
+      if (redis && ACL_ALLOW_TTL > 0) {
+        await redis.set(key, allowed ? '1' : '0', 'EX', allowed ? ACL_ALLOW_TTL : Math.max(1, ACL_DENY_TTL)).catch(() => {});
+      }
+    }
+    if (allowed) return;
   }
+  const e: any = new Error('Forbidden');
+  e.code = 'FORBIDDEN';
+  throw e;
 }
 
 /* ============================================================================
@@ -102,7 +170,7 @@ function checkAccessOrThrow(requesterId: string | undefined, ownerId: string) {
 
 /**
  * Получить метаданные медиа + пресайн-ссылки (оригинал и все варианты).
- * ACL: владелец-только.
+ * ACL: см. checkAccessOrThrow.
  */
 export async function getMetaWithLinks(args: { mediaId: string; requesterId: string }): Promise<MediaWithLinks> {
   const mediaId = IdSchema.parse(args.mediaId);
@@ -123,7 +191,7 @@ export async function getMetaWithLinks(args: { mediaId: string; requesterId: str
   const m = rows[0];
 
   // ACL
-  checkAccessOrThrow(requesterId, m.created_by);
+  await checkAccessOrThrow(mediaId, requesterId, m.created_by);
 
   // Грузим варианты
   const vars = await sql`
@@ -250,14 +318,14 @@ export async function getPresignedVariant(args: { mediaId: string; profile: stri
     requesterId: OwnerSchema
   }).parse(args);
 
-  // Проверяем владельца
+  // Проверяем доступ
   const owner = await sql`SELECT created_by FROM media_files WHERE id = ${mediaId}`;
   if (!owner.length) {
     const e: any = new Error('Media not found');
     e.code = 'NOT_FOUND';
     throw e;
   }
-  checkAccessOrThrow(requesterId, owner[0].created_by);
+  await checkAccessOrThrow(mediaId, requesterId, owner[0].created_by);
 
   // Ищем вариант
   const v = await sql`
@@ -291,7 +359,7 @@ export async function getPresignedOriginal(args: { mediaId: string; requesterId:
     e.code = 'NOT_FOUND';
     throw e;
   }
-  checkAccessOrThrow(requesterId, rows[0].created_by);
+  await checkAccessOrThrow(mediaId, requesterId, rows[0].created_by);
 
   const url = await presignGetObject(rows[0].storage_key);
   return { url };
@@ -1,9 +1,13 @@
 /**
  * MessagesService
  * Возможности:
- *  - sendText / sendMedia / sendSystem
+ *  - sendText / sendMedia / sendSystem (text/media — с дедупликацией по clientId)
  *  - list (keyset-пагинация по created_at DESC, id DESC)
  *  - receipts: markDelivered / markRead (per user)
+ *  - edit (только автор, в окне MESSAGE_EDIT_WINDOW_SEC) + история правок listEdits
+ *  - emoji-реакции: addReaction / removeReaction / listReactors; агрегаты — inline в list()
+ *  - треды по reply_to_id: getThread (root + ответы, keyset ASC), markThreadRead;
+ *    reply_count / last_reply_at / thread_last_read_at — inline в list()
  *  - delete (soft) и restore (опционально)
  *
  * Требования к БД:
@@ -14,15 +18,34 @@
  *             created_at, updated_at)
  *  - message_receipts(message_id, user_id, delivered_at, read_at, PRIMARY KEY(message_id, user_id))
  *  - media_files(id uuid, ref_count int, quarantined bool, antivirus_status enum, owner_id, mime, ...)
+ *  - message_edits(message_id, editor_id, old_text, new_text, edited_at) — 013
+ *  - reactions(target_type='message', target_id, user_id, emoji, created_at) — 014
+ *  - message_thread_reads(root_message_id, user_id, last_read_message_id, last_read_at) — 015
+ *  - conversation_members.last_read_message_id/last_read_at, message_mentions — 016
+ *  - messages.client_id + ux_messages_author_client_id — 017
  *
  * Бизнес-правила:
  *  - Отправлять может только участник беседы без left_at.
+ *  - В личной беседе блокировка в любую сторону (user_blocks, 023) запрещает отправку:
+ *    403 user_blocked — заблокировал автор, privacy_restricted — собеседник.
  *  - MEDIA: разрешено только если media.clean (antivirus_status <> 'infected' AND NOT quarantined).
  *  - reply_to должно ссылаться на сообщение из той же беседы.
  *  - Обновлять conversations.last_message_at при успешной отправке (NOW()).
+ *  - Править можно только свои text/media (caption) сообщения, не удалённые, не старше окна правки.
+ *  - Повторная отправка с тем же clientId (автор + беседа) не создаёт новое сообщение,
+ *    а возвращает исходное с duplicate: true.
+ *  - Отправка и markRead двигают указатель прочтения участника (только вперёд);
+ *    @nickname участников беседы сохраняются в message_mentions (при правке — пересчёт).
+ *
+ * Realtime: каждое изменение пишет событие в outbox (012_outbox.sql) в той же транзакции —
+ *  message:new / message:edited / message:reaction / message:delivered / message:read / message:deleted → rt:conv:<id>,
+ *  thread:read → rt:user:<id> (синхронизация маркера между устройствами).
+ *  Поиск (CDC, enqueueSearch): отправка text/media и правка — q:search.index { type: 'message', id },
+ *  удаление — q:search.delete; системные сообщения не индексируются.
  */
 
 import { Pool } from 'pg';
+import { enqueue, enqueueSearch, topics } from '@modules/outbox';
 
 export type Cursor = { ts: string; id: string };
 export type MessageKind = 'text'|'media'|'system';
@@ -32,6 +55,7 @@ export type SendTextInput = {
   authorId: string;
   text: string;
   replyToId?: string | null;
+  clientId?: string | null; // дедупликация ретраев, [A-Za-z0-9_-]{1,64}
 };
 
 export type SendMediaInput = {
@@ -40,8 +64,11 @@ export type SendMediaInput = {
   mediaId: string;       // ссылка на media_files
   caption?: string | null;
   replyToId?: string | null;
+  clientId?: string | null;
 };
 
+export type SendResult = { id: string; createdAt: string; duplicate: boolean };
+
 export type SendSystemInput = {
   conversationId: string;
   actorId: string;
@@ -49,22 +76,54 @@ export type SendSystemInput = {
   meta?: any;
 };
 
+export type ReactionSummary = { emoji: string; count: number; me: boolean };
+
+export type EditInput = {
+  conversationId: string;
+  messageId: string;
+  editorId: string;
+  text: string | null; // для media — подпись (null = убрать)
+};
+
+/** @nickname из текста (формат Handle: [a-z0-9_]{3,32}), без дублей, не более 50. */
+export function extractMentions(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const out = new Set<string>();
+  for (const m of String(text).matchAll(/(?:^|[^\w@])@([a-z0-9_]{3,32})(?![\w])/gi)) {
+    out.add(m[1].toLowerCase());
+    if (out.size >= 50) break;
+  }
+  return [...out];
+}
+
 export class MessagesService {
-  constructor(private pool: Pool) {}
+  constructor(
+    private pool: Pool,
+    private cfg = {
+      editWindowSec: Number(process.env.MESSAGE_EDIT_WINDOW_SEC || 48 * 3600), // 48h
+    }
+  ) {}
 
   // ────────────────────────────────────────────────────────────────────────────
   // Отправка
   // ────────────────────────────────────────────────────────────────────────────
 
-  async sendText(input: SendTextInput): Promise<{ id: string }> {
+  async sendText(input: SendTextInput): Promise<SendResult> {
     this.ensureUuid(input.conversationId);
     this.ensureUuid(input.authorId);
     const text = (input.text ?? '').trim();
     if (!text) this.errThrow(400, 'text_required');
     if (input.replyToId) this.ensureUuid(input.replyToId);
+    const clientId = this.normClientId(input.clientId);
 
     await this.ensureMember(input.conversationId, input.authorId);
 
+    if (clientId) {
+      const dup = await this.findByClientId(input.conversationId, input.authorId, clientId);
+      if (dup) return dup;
+    }
+    await this.ensureNotBlocked(input.conversationId, input.authorId);
+
     // reply_to проверка (если задан)
     if (input.replyToId) {
       const ok = await this.isMessageInConversation(input.replyToId, input.conversationId);
@@ -75,12 +134,13 @@ export class MessagesService {
     try {
       await cli.query('BEGIN');
       const q = await cli.query(
-        `INSERT INTO messages (conversation_id, author_id, kind, text, reply_to_id)
-         VALUES ($1, $2, 'text', $3, $4)
-         RETURNING id`,
-         [input.conversationId, input.authorId, text, input.replyToId ?? null]
+        `INSERT INTO messages (conversation_id, author_id, kind, text, reply_to_id, client_id)
+         VALUES ($1, $2, 'text', $3, $4, $5)
+         RETURNING id, created_at`,
+         [input.conversationId, input.authorId, text, input.replyToId ?? null, clientId]
       );
       const msgId = String(q.rows[0].id);
+      await this.syncMentions(cli, msgId, input.conversationId, input.authorId, text, q.rows[0].created_at);
 
       // обновить last_message_at
       await cli.query(
@@ -90,24 +150,43 @@ export class MessagesService {
 
       // квитанция отправителя «доставлено и прочитано» сразу
       await this.upsertReceipt(cli, msgId, input.authorId, { delivered: true, read: true });
+      await this.advanceReadPointer(cli, input.conversationId, input.authorId, [msgId]);
+
+      await enqueue(cli, topics.conv(input.conversationId), 'message:new', {
+        conversationId: input.conversationId, messageId: msgId, senderId: input.authorId, kind: 'text',
+        replyToId: input.replyToId ?? null, clientId,
+      });
+      await enqueueSearch(cli, 'index', { type: 'message', id: msgId });
 
       await cli.query('COMMIT');
-      return { id: msgId };
+      return { id: msgId, createdAt: new Date(q.rows[0].created_at).toISOString(), duplicate: false };
     } catch (e) {
       try { await cli.query('ROLLBACK'); } catch {}
+      // гонка двух ретраев с одним clientId — отдаём победителя
+      if (clientId && (e as any)?.code === '23505') {
+        const dup = await this.findByClientId(input.conversationId, input.authorId, clientId);
+        if (dup) return dup;
+      }
       throw e;
     } finally {
       cli.release();
     }
   }
 
-  async sendMedia(input: SendMediaInput): Promise<{ id: string }> {
+  async sendMedia(input: SendMediaInput): Promise<SendResult> {
     this.ensureUuid(input.conversationId);
     this.ensureUuid(input.authorId);
     this.ensureUuid(input.mediaId);
     if (input.replyToId) this.ensureUuid(input.replyToId);
+    const clientId = this.normClientId(input.clientId);
     await this.ensureMember(input.conversationId, input.authorId);
 
+    if (clientId) {
+      const dup = await this.findByClientId(input.conversationId, input.authorId, clientId);
+      if (dup) return dup;
+    }
+    await this.ensureNotBlocked(input.conversationId, input.authorId);
+
     // Проверим media доступность
     const m = await this.pool.query(
       `SELECT id, quarantined, antivirus_status FROM media_files WHERE id = $1`,
@@ -135,23 +214,35 @@ export class MessagesService {
       );
 
       const q = await cli.query(
-        `INSERT INTO messages (conversation_id, author_id, kind, text, media_id, reply_to_id)
-         VALUES ($1, $2, 'media', $3, $4, $5)
-         RETURNING id`,
-         [input.conversationId, input.authorId, input.caption ?? null, input.mediaId, input.replyToId ?? null]
+        `INSERT INTO messages (conversation_id, author_id, kind, text, media_id, reply_to_id, client_id)
+         VALUES ($1, $2, 'media', $3, $4, $5, $6)
+         RETURNING id, created_at`,
+         [input.conversationId, input.authorId, input.caption ?? null, input.mediaId, input.replyToId ?? null, clientId]
       );
       const msgId = String(q.rows[0].id);
+      await this.syncMentions(cli, msgId, input.conversationId, input.authorId, input.caption ?? null, q.rows[0].created_at);
 
       await cli.query(
         `UPDATE conversations SET last_message_at = now_utc(), updated_at = now_utc() WHERE id = $1`,
         [input.conversationId]
       );
       await this.upsertReceipt(cli, msgId, input.authorId, { delivered: true, read: true });
+      await this.advanceReadPointer(cli, input.conversationId, input.authorId, [msgId]);
+
+      await enqueue(cli, topics.conv(input.conversationId), 'message:new', {
+        conversationId: input.conversationId, messageId: msgId, senderId: input.authorId, kind: 'media',
+        replyToId: input.replyToId ?? null, clientId,
+      });
+      await enqueueSearch(cli, 'index', { type: 'message', id: msgId });
 
       await cli.query('COMMIT');
-      return { id: msgId };
+      return { id: msgId, createdAt: new Date(q.rows[0].created_at).toISOString(), duplicate: false };
     } catch (e) {
       try { await cli.query('ROLLBACK'); } catch {}
+      if (clientId && (e as any)?.code === '23505') {
+        const dup = await this.findByClientId(input.conversationId, input.authorId, clientId);
+        if (dup) return dup;
+      }
       throw e;
     } finally {
       cli.release();
@@ -183,6 +274,11 @@ export class MessagesService {
         [input.conversationId]
       );
       await this.upsertReceipt(cli, msgId, input.actorId, { delivered: true, read: true });
+      await this.advanceReadPointer(cli, input.conversationId, input.actorId, [msgId]);
+
+      await enqueue(cli, topics.conv(input.conversationId), 'message:new', {
+        conversationId: input.conversationId, messageId: msgId, senderId: input.actorId, kind: 'system',
+      });
 
       await cli.query('COMMIT');
       return { id: msgId };
@@ -204,19 +300,39 @@ export class MessagesService {
     await this.ensureMember(conversationId, userId);
 
     const limit = Math.min(Math.max(1, opts.limit ?? 30), 200);
-    const params: any[] = [conversationId, limit + 1];
-    let where = 'deleted_at IS NULL';
+    const params: any[] = [conversationId, limit + 1, userId];
+    let where = 'm.deleted_at IS NULL';
 
     if (opts.cursor?.ts && opts.cursor?.id) {
       params.push(opts.cursor.ts, opts.cursor.id);
-      where += ` AND (created_at, id) < ($3::timestamptz, $4::uuid)`;
+      where += ` AND (m.created_at, m.id) < ($4::timestamptz, $5::uuid)`;
     }
 
+    // reactions: [{ emoji, count, me }] — по убыванию count, затем по первому появлению
+    // reply_count / last_reply_at — агрегаты треда; thread_last_read_at — маркер текущего пользователя
     const q = await this.pool.query(
-      `SELECT id, conversation_id, author_id, kind, text, media_id, reply_to_id, created_at
-         FROM messages
-        WHERE conversation_id = $1 AND ${where}
-        ORDER BY created_at DESC, id DESC
+      `SELECT m.id, m.conversation_id, m.author_id, m.kind, m.text, m.media_id, m.reply_to_id, m.created_at, m.edited_at,
+              COALESCE(r.reactions, '[]'::json) AS reactions,
+              t.reply_count, t.last_reply_at, tr.last_read_at AS thread_last_read_at
+         FROM messages m
+         LEFT JOIN LATERAL (
+           SELECT json_agg(json_build_object('emoji', x.emoji, 'count', x.cnt, 'me', x.me)
+                           ORDER BY x.cnt DESC, x.first_at ASC) AS reactions
+             FROM (
+               SELECT emoji, COUNT(*)::int AS cnt, bool_or(user_id = $3) AS me, MIN(created_at) AS first_at
+                 FROM reactions
+                WHERE target_type = 'message' AND target_id = m.id
+                GROUP BY emoji
+             ) x
+         ) r ON true
+         LEFT JOIN LATERAL (
+           SELECT COUNT(*)::int AS reply_count, MAX(rp.created_at) AS last_reply_at
+             FROM messages rp
+            WHERE rp.reply_to_id = m.id AND rp.deleted_at IS NULL
+         ) t ON true
+         LEFT JOIN message_thread_reads tr ON tr.root_message_id = m.id AND tr.user_id = $3
+        WHERE m.conversation_id = $1 AND ${where}
+        ORDER BY m.created_at DESC, m.id DESC
         LIMIT $2`,
       params
     );
@@ -233,6 +349,306 @@ export class MessagesService {
     return { items: rows, nextCursor };
   }
 
+  // ────────────────────────────────────────────────────────────────────────────
+  // Треды
+  // ────────────────────────────────────────────────────────────────────────────
+
+  /** Тред: корневое сообщение + ответы (reply_to_id = root) по возрастанию (created_at,id), keyset «после курсора». */
+  async getThread(userId: string, conversationId: string, rootId: string, opts: { limit?: number; cursor?: Cursor | null } = {}) {
+    this.ensureUuid(userId); this.ensureUuid(conversationId); this.ensureUuid(rootId);
+    await this.ensureMember(conversationId, userId);
+
+    const r = await this.pool.query(
+      `SELECT m.id, m.conversation_id, m.author_id, m.kind, m.text, m.media_id, m.reply_to_id, m.created_at, m.edited_at,
+              t.reply_count, t.last_reply_at,
+              tr.last_read_at, tr.last_read_message_id
+         FROM messages m
+         LEFT JOIN LATERAL (
+           SELECT COUNT(*)::int AS reply_count, MAX(rp.created_at) AS last_reply_at
+             FROM messages rp
+            WHERE rp.reply_to_id = m.id AND rp.deleted_at IS NULL
+         ) t ON true
+         LEFT JOIN message_thread_reads tr ON tr.root_message_id = m.id AND tr.user_id = $3
+        WHERE m.id = $1 AND m.conversation_id = $2 AND m.deleted_at IS NULL
+        LIMIT 1`,
+      [rootId, conversationId, userId]
+    );
+    if (!r.rowCount) this.errThrow(404, 'message_not_found');
+    const { last_read_at, last_read_message_id, ...root } = r.rows[0];
+
+    const limit = Math.min(Math.max(1, opts.limit ?? 50), 200);
+    const params: any[] = [rootId, limit + 1];
+    let where = 'reply_to_id = $1 AND deleted_at IS NULL';
+    if (opts.cursor?.ts && opts.cursor?.id) {
+      params.push(opts.cursor.ts, opts.cursor.id);
+      where += ` AND (created_at, id) > ($3::timestamptz, $4::uuid)`;
+    }
+
+    const q = await this.pool.query(
+      `SELECT id, conversation_id, author_id, kind, text, media_id, reply_to_id, created_at, edited_at
+         FROM messages
+        WHERE ${where}
+        ORDER BY created_at ASC, id ASC
+        LIMIT $2`,
+      params
+    );
+
+    const rows = q.rows;
+    let nextCursor: Cursor | null = null;
+    if (rows.length > limit) {
+      const last = rows[limit - 1];
+      rows.length = limit;
+      nextCursor = { ts: last.created_at, id: String(last.id) };
+    }
+
+    // непрочитанные ответы (чужие, после маркера)
+    const u = await this.pool.query(
+      `SELECT COUNT(*)::int AS cnt
+         FROM messages
+        WHERE reply_to_id = $1 AND deleted_at IS NULL
+          AND author_id IS DISTINCT FROM $2
+          AND ($3::timestamptz IS NULL OR created_at > $3::timestamptz)`,
+      [rootId, userId, last_read_at ?? null]
+    );
+
+    return {
+      root,
+      items: rows,
+      nextCursor,
+      readMarker: last_read_at ? { lastReadAt: last_read_at, lastReadMessageId: last_read_message_id ?? null } : null,
+      unreadCount: Number(u.rows[0].cnt || 0),
+    };
+  }
+
+  /** Отметить тред прочитанным до ответа upToMessageId (или до последнего ответа). Маркер только двигается вперёд. */
+  async markThreadRead(userId: string, conversationId: string, rootId: string, upToMessageId?: string | null) {
+    this.ensureUuid(userId); this.ensureUuid(conversationId); this.ensureUuid(rootId);
+    if (upToMessageId) this.ensureUuid(upToMessageId);
+    await this.ensureMember(conversationId, userId);
+    await this.ensureLiveMessage(rootId, conversationId);
+
+    const target = upToMessageId
+      ? await this.pool.query(
+          `SELECT id, created_at FROM messages WHERE id = $1 AND reply_to_id = $2 LIMIT 1`,
+          [upToMessageId, rootId]
+        )
+      : await this.pool.query(
+          `SELECT id, created_at FROM messages
+            WHERE reply_to_id = $1 AND deleted_at IS NULL
+            ORDER BY created_at DESC, id DESC
+            LIMIT 1`,
+          [rootId]
+        );
+    if (!target.rowCount) {
+      if (upToMessageId) this.errThrow(400, 'not_a_thread_reply');
+      return { ok: true as const, changed: false };
+    }
+    const { id: lastId, created_at: lastAt } = target.rows[0];
+
+    const cli = await this.pool.connect();
+    try {
+      await cli.query('BEGIN');
+      const upd = await cli.query(
+        `INSERT INTO message_thread_reads (root_message_id, user_id, last_read_message_id, last_read_at)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (root_message_id, user_id) DO UPDATE
+           SET last_read_message_id = EXCLUDED.last_read_message_id,
+               last_read_at = EXCLUDED.last_read_at,
+               updated_at = now_utc()
+         WHERE message_thread_reads.last_read_at < EXCLUDED.last_read_at
+         RETURNING last_read_at`,
+        [rootId, userId, lastId, lastAt]
+      );
+      if (upd.rowCount) {
+        await enqueue(cli, topics.user(userId), 'thread:read', {
+          conversationId, rootMessageId: rootId, lastReadMessageId: String(lastId), lastReadAt: lastAt,
+        });
+      }
+      await cli.query('COMMIT');
+      return { ok: true as const, changed: Boolean(upd.rowCount) };
+    } catch (e) {
+      try { await cli.query('ROLLBACK'); } catch {}
+      throw e;
+    } finally {
+      cli.release();
+    }
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Редактирование
+  // ────────────────────────────────────────────────────────────────────────────
+
+  /** Правка текста (text) или подписи (media). Пишет историю, событие и задачу переиндексации. */
+  async edit(input: EditInput): Promise<{ id: string; editedAt: string | null }> {
+    this.ensureUuid(input.conversationId); this.ensureUuid(input.messageId); this.ensureUuid(input.editorId);
+    await this.ensureMember(input.conversationId, input.editorId);
+
+    const cli = await this.pool.connect();
+    try {
+      await cli.query('BEGIN');
+      const q = await cli.query(
+        `SELECT author_id, kind, text, edited_at, created_at,
+                (created_at < now_utc() - make_interval(secs => $3)) AS expired
+           FROM messages
+          WHERE id = $1 AND conversation_id = $2 AND deleted_at IS NULL
+          FOR UPDATE`,
+        [input.messageId, input.conversationId, this.cfg.editWindowSec]
+      );
+      if (!q.rowCount) this.errThrow(404, 'message_not_found');
+      const m = q.rows[0];
+      if (String(m.author_id) !== input.editorId) this.errThrow(403, 'forbidden');
+      if (m.kind === 'system') this.errThrow(400, 'message_not_editable');
+      if (m.expired === true) this.errThrow(403, 'edit_window_expired');
+
+      let text = input.text === null ? null : String(input.text ?? '').trim();
+      if (m.kind === 'text' && !text) this.errThrow(400, 'text_required');
+      if (m.kind === 'media' && !text) text = null;
+
+      // без изменений — ничего не пишем
+      if ((m.text ?? null) === text) {
+        await cli.query('COMMIT');
+        return { id: input.messageId, editedAt: m.edited_at ?? null };
+      }
+
+      const upd = await cli.query(
+        `UPDATE messages SET text = $2, edited_at = now_utc(), updated_at = now_utc()
+          WHERE id = $1
+          RETURNING edited_at`,
+        [input.messageId, text]
+      );
+      const editedAt = upd.rows[0].edited_at;
+      await this.syncMentions(cli, input.messageId, input.conversationId, input.editorId, text, m.created_at);
+
+      await cli.query(
+        `INSERT INTO message_edits (message_id, editor_id, old_text, new_text, edited_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [input.messageId, input.editorId, m.text ?? null, text, editedAt]
+      );
+
+      await enqueue(cli, topics.conv(input.conversationId), 'message:edited', {
+        conversationId: input.conversationId, messageId: input.messageId, editorId: input.editorId, text, editedAt,
+      });
+      await enqueueSearch(cli, 'index', { type: 'message', id: input.messageId });
+
+      await cli.query('COMMIT');
+      return { id: input.messageId, editedAt };
+    } catch (e) {
+      try { await cli.query('ROLLBACK'); } catch {}
+      throw e;
+    } finally {
+      cli.release();
+    }
+  }
+
+  /** История правок сообщения (DESC). Доступна участникам беседы. */
+  async listEdits(userId: string, conversationId: string, messageId: string) {
+    this.ensureUuid(userId); this.ensureUuid(conversationId); this.ensureUuid(messageId);
+    await this.ensureMember(conversationId, userId);
+    // история удалённого сообщения не выдаётся
+    await this.ensureLiveMessage(messageId, conversationId);
+
+    const q = await this.pool.query(
+      `SELECT id, editor_id, old_text, new_text, edited_at
+         FROM message_edits
+        WHERE message_id = $1
+        ORDER BY edited_at DESC, id DESC
+        LIMIT 100`,
+      [messageId]
+    );
+    return { items: q.rows };
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Реакции (emoji)
+  // ────────────────────────────────────────────────────────────────────────────
+
+  async addReaction(userId: string, conversationId: string, messageId: string, emoji: string) {
+    return this.toggleReaction(userId, conversationId, messageId, emoji, 'added');
+  }
+
+  async removeReaction(userId: string, conversationId: string, messageId: string, emoji: string) {
+    return this.toggleReaction(userId, conversationId, messageId, emoji, 'removed');
+  }
+
+  /** Кто поставил реакции (DESC по времени), опционально по конкретному emoji. */
+  async listReactors(userId: string, conversationId: string, messageId: string, opts: { emoji?: string | null; limit?: number; cursor?: Cursor | null } = {}) {
+    this.ensureUuid(userId); this.ensureUuid(conversationId); this.ensureUuid(messageId);
+    await this.ensureMember(conversationId, userId);
+    await this.ensureLiveMessage(messageId, conversationId);
+
+    const limit = Math.min(Math.max(1, opts.limit ?? 50), 200);
+    const params: any[] = [messageId, limit + 1];
+    let where = `target_type = 'message' AND target_id = $1`;
+    if (opts.emoji) {
+      params.push(this.normEmoji(opts.emoji));
+      where += ` AND emoji = $${params.length}`;
+    }
+    if (opts.cursor?.ts && opts.cursor?.id) {
+      params.push(opts.cursor.ts, opts.cursor.id);
+      where += ` AND (created_at, id) < ($${params.length - 1}::timestamptz, $${params.length}::uuid)`;
+    }
+
+    const q = await this.pool.query(
+      `SELECT id, user_id, emoji, created_at
+         FROM reactions
+        WHERE ${where}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $2`,
+      params
+    );
+
+    const rows = q.rows;
+    let nextCursor: Cursor | null = null;
+    if (rows.length > limit) {
+      const last = rows[limit - 1];
+      rows.length = limit;
+      nextCursor = { ts: last.created_at, id: String(last.id) };
+    }
+    return { items: rows, nextCursor };
+  }
+
+  private async toggleReaction(userId: string, conversationId: string, messageId: string, rawEmoji: string, action: 'added'|'removed') {
+    this.ensureUuid(userId); this.ensureUuid(conversationId); this.ensureUuid(messageId);
+    const emoji = this.normEmoji(rawEmoji);
+    await this.ensureMember(conversationId, userId);
+    await this.ensureLiveMessage(messageId, conversationId);
+
+    const cli = await this.pool.connect();
+    try {
+      await cli.query('BEGIN');
+      const res = action === 'added'
+        ? await cli.query(
+            `INSERT INTO reactions (target_type, target_id, user_id, emoji)
+             VALUES ('message', $1, $2, $3)
+             ON CONFLICT (target_id, user_id, emoji) WHERE target_type = 'message' DO NOTHING`,
+            [messageId, userId, emoji]
+          )
+        : await cli.query(
+            `DELETE FROM reactions WHERE target_type = 'message' AND target_id = $1 AND user_id = $2 AND emoji = $3`,
+            [messageId, userId, emoji]
+          );
+
+      // повторная постановка/снятие — состояние не изменилось, событие не пишем
+      if (res.rowCount) {
+        const c = await cli.query(
+          `SELECT COUNT(*)::int AS cnt FROM reactions WHERE target_type = 'message' AND target_id = $1 AND emoji = $2`,
+          [messageId, emoji]
+        );
+        await enqueue(cli, topics.conv(conversationId), 'message:reaction', {
+          conversationId, messageId, userId, emoji, action, count: Number(c.rows[0].cnt || 0),
+        });
+      }
+
+      await cli.query('COMMIT');
+      return { ok: true as const, changed: Boolean(res.rowCount) };
+    } catch (e) {
+      try { await cli.query('ROLLBACK'); } catch {}
+      throw e;
+    } finally {
+      cli.release();
+    }
+  }
+
   // ────────────────────────────────────────────────────────────────────────────
   // Квитанции
   // ────────────────────────────────────────────────────────────────────────────
@@ -244,11 +660,18 @@ export class MessagesService {
     const cli = await this.pool.connect();
     try {
       await cli.query('BEGIN');
+      const affected: string[] = [];
       for (const mid of messageIds) {
         this.ensureUuid(mid);
         const ok = await this.isMessageInConversation(mid, conversationId);
         if (!ok) continue;
         await this.upsertReceipt(cli, mid, userId, { delivered: true });
+        affected.push(mid);
+      }
+      if (affected.length) {
+        await enqueue(cli, topics.conv(conversationId), 'message:delivered', {
+          conversationId, userId, messageIds: affected,
+        });
       }
       await cli.query('COMMIT');
       return { ok: true as const };
@@ -267,11 +690,19 @@ export class MessagesService {
     const cli = await this.pool.connect();
     try {
       await cli.query('BEGIN');
+      const affected: string[] = [];
       for (const mid of messageIds) {
         this.ensureUuid(mid);
         const ok = await this.isMessageInConversation(mid, conversationId);
         if (!ok) continue;
         await this.upsertReceipt(cli, mid, userId, { delivered: true, read: true });
+        affected.push(mid);
+      }
+      if (affected.length) {
+        await this.advanceReadPointer(cli, conversationId, userId, affected);
+        await enqueue(cli, topics.conv(conversationId), 'message:read', {
+          conversationId, readerId: userId, messageIds: affected,
+        });
       }
       await cli.query('COMMIT');
       return { ok: true as const };
@@ -307,8 +738,20 @@ export class MessagesService {
     const isAuthor = can.rows[0].is_author === true;
     if (!isAuthor && !isAdmin) this.errThrow(403, 'forbidden');
 
-    await this.pool.query(`UPDATE messages SET deleted_at = now_utc(), updated_at = now_utc() WHERE id = $1`, [messageId]);
-    return { ok: true as const };
+    const cli = await this.pool.connect();
+    try {
+      await cli.query('BEGIN');
+      await cli.query(`UPDATE messages SET deleted_at = now_utc(), updated_at = now_utc() WHERE id = $1`, [messageId]);
+      await enqueue(cli, topics.conv(conversationId), 'message:deleted', { conversationId, messageId, actorId });
+      await enqueueSearch(cli, 'delete', { type: 'message', id: messageId });
+      await cli.query('COMMIT');
+      return { ok: true as const };
+    } catch (e) {
+      try { await cli.query('ROLLBACK'); } catch {}
+      throw e;
+    } finally {
+      cli.release();
+    }
   }
 
   // ────────────────────────────────────────────────────────────────────────────
@@ -323,6 +766,73 @@ export class MessagesService {
     if (!q.rowCount) this.errThrow(403, 'not_a_member');
   }
 
+  /** Личная беседа: собеседник не заблокирован автором и не заблокировал его. */
+  private async ensureNotBlocked(conversationId: string, authorId: string) {
+    const q = await this.pool.query(
+      `SELECT (b.blocker_id = $2) AS by_me
+         FROM conversations c
+         JOIN conversation_members o ON o.conversation_id = c.id AND o.user_id <> $2
+         JOIN user_blocks b ON (b.blocker_id = $2 AND b.blocked_id = o.user_id)
+                            OR (b.blocker_id = o.user_id AND b.blocked_id = $2)
+        WHERE c.id = $1 AND c.type = 'private'
+        ORDER BY by_me DESC
+        LIMIT 1`,
+      [conversationId, authorId]
+    );
+    if (q.rowCount) this.errThrow(403, q.rows[0].by_me ? 'user_blocked' : 'privacy_restricted');
+  }
+
+  /** Сдвинуть указатель прочтения на самое позднее из messageIds (только вперёд). */
+  private async advanceReadPointer(cli: any, conversationId: string, userId: string, messageIds: string[]) {
+    await cli.query(
+      `UPDATE conversation_members cm
+          SET last_read_message_id = last.id, last_read_at = last.created_at, updated_at = now_utc()
+         FROM (
+           SELECT id, created_at FROM messages
+            WHERE id = ANY($3::uuid[]) AND conversation_id = $1
+            ORDER BY created_at DESC, id DESC
+            LIMIT 1
+         ) last
+        WHERE cm.conversation_id = $1 AND cm.user_id = $2 AND cm.left_at IS NULL
+          AND (cm.last_read_at IS NULL OR cm.last_read_at < last.created_at)`,
+      [conversationId, userId, messageIds]
+    );
+  }
+
+  /** Пересобрать упоминания сообщения: @nickname активных участников беседы (кроме автора). */
+  private async syncMentions(cli: any, messageId: string, conversationId: string, authorId: string, text: string | null, createdAt: any) {
+    await cli.query(`DELETE FROM message_mentions WHERE message_id = $1`, [messageId]);
+    const nicks = extractMentions(text);
+    if (!nicks.length) return;
+    await cli.query(
+      `INSERT INTO message_mentions (message_id, user_id, conversation_id, created_at)
+       SELECT $1, u.id, $2, $3
+         FROM users u
+         JOIN conversation_members cm ON cm.user_id = u.id AND cm.conversation_id = $2 AND cm.left_at IS NULL
+        WHERE u.nickname = ANY($4::citext[]) AND u.deleted_at IS NULL AND u.id <> $5
+       ON CONFLICT DO NOTHING`,
+      [messageId, conversationId, createdAt, nicks, authorId]
+    );
+  }
+
+  private async ensureLiveMessage(messageId: string, conversationId: string) {
+    const q = await this.pool.query(
+      `SELECT 1 FROM messages WHERE id = $1 AND conversation_id = $2 AND deleted_at IS NULL LIMIT 1`,
+      [messageId, conversationId]
+    );
+    if (!q.rowCount) this.errThrow(404, 'message_not_found');
+  }
+
+  /** Один emoji (включая ZWJ-последовательности, модификаторы тона и флаги). */
+  private normEmoji(raw: string): string {
+    const e = String(raw ?? '').trim();
+    const ok = e.length > 0 && e.length <= 32
+      && /^(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u.test(e)
+      && /\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(e);
+    if (!ok) this.errThrow(400, 'invalid_emoji');
+    return e;
+  }
+
   private async isMessageInConversation(messageId: string, conversationId: string): Promise<boolean> {
     const q = await this.pool.query(`SELECT 1 FROM messages WHERE id = $1 AND conversation_id = $2 LIMIT 1`, [messageId, conversationId]);
     return q.rowCount > 0;
@@ -355,6 +865,24 @@ export class MessagesService {
   private ensureUuid(id: string) {
     if (!/^[0-9a-f-]{36}$/i.test(id)) this.errThrow(400, 'invalid_uuid');
   }
+  private normClientId(v: string | null | undefined): string | null {
+    if (v === undefined || v === null || v === '') return null;
+    const s = String(v);
+    if (!/^[A-Za-z0-9_-]{1,64}$/.test(s)) this.errThrow(400, 'invalid_client_id');
+    return s;
+  }
+
+  private async findByClientId(conversationId: string, authorId: string, clientId: string): Promise<SendResult | null> {
+    const q = await this.pool.query(
+      `SELECT id, created_at FROM messages
+        WHERE conversation_id = $1 AND author_id = $2 AND client_id = $3
+        LIMIT 1`,
+      [conversationId, authorId, clientId]
+    );
+    if (!q.rowCount) return null;
+    return { id: String(q.rows[0].id), createdAt: new Date(q.rows[0].created_at).toISOString(), duplicate: true };
+  }
+
   private errThrow(status: number, code: string): never {
     const e: any = new Error(code); e.statusCode = status; throw e;
   }
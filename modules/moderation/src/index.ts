@@ -0,0 +1,533 @@
+/**
+ * Модерация (миграции 008, 026)
+ *  - жалобы пользователей на посты/каналы/сообщения/пользователей (reports);
+ *  - очередь жалоб для модераторов: фильтр по статусу и типу, разбор (reviewing → resolved/rejected);
+ *  - действия модераторов (hide_post, block_channel, ban_user, remove_message и обратные к ним)
+ *    пишутся в moderation_actions в той же транзакции, что и само действие; действие закрывает
+ *    открытые жалобы на тот же объект;
+ *  - баны: user_bans + отзыв сессий; после COMMIT — ключ auth:banned:<userId> в Redis
+ *    (его проверяет requireAuth, TTL — до expires_at), выдачу токенов AuthService сверяет с БД.
+ *    Ключ переписывается при каждом ban_user/unban_user, даже если состояние в БД не менялось;
+ *    сбой Redis только логируется — бан уже в БД, повторное действие восстановит кэш.
+ *
+ * Realtime/jobs (outbox, в транзакции действия):
+ *  post:updated { hidden } → rt:channel:<id>; channel:updated { blocked } → rt:channel:<id>;
+ *  user:banned { expiresAt } → rt:user:<id> (realtime-гейтвей закрывает сокеты пользователя);
+ *  message:deleted { moderated: true } / message:restored → rt:conv:<id>;
+ *  q:search.delete / q:search.index (enqueueSearch) — снять объект из поиска или вернуть.
+ */
+import postgres from 'postgres';
+import { sql, transaction } from '@db/index';
+import { redis } from '@redis/index';
+import { logger } from '@logger/index';
+import { enqueue, enqueueSearch, outboxClient, topics } from '@modules/outbox';
+
+const { PostgresError: DatabaseError } = postgres;
+
+export type TargetType = 'post' | 'channel' | 'message' | 'user';
+export type ReportStatus = 'open' | 'reviewing' | 'resolved' | 'rejected' | 'blocked';
+export type ActionKind =
+  | 'hide_post' | 'unhide_post'
+  | 'block_channel' | 'unblock_channel'
+  | 'ban_user' | 'unban_user'
+  | 'remove_message' | 'restore_message';
+
+export const TARGET_TYPES: TargetType[] = ['post', 'channel', 'message', 'user'];
+export const REPORT_STATUSES: ReportStatus[] = ['open', 'reviewing', 'resolved', 'rejected', 'blocked'];
+
+/** Действие → тип объекта, к которому оно применимо. */
+export const ACTION_TARGET: Record<ActionKind, TargetType> = {
+  hide_post: 'post', unhide_post: 'post',
+  block_channel: 'channel', unblock_channel: 'channel',
+  ban_user: 'user', unban_user: 'user',
+  remove_message: 'message', restore_message: 'message',
+};
+
+/** Действия, закрывающие открытые жалобы на объект (resolution — имя действия). */
+const ENFORCING: ActionKind[] = ['hide_post', 'block_channel', 'ban_user', 'remove_message'];
+
+const STAFF_ROLES = ['admin', 'moderator'];
+
+const REPORTS_PER_HOUR = Math.max(1, Number(process.env.MODERATION_REPORTS_PER_HOUR || 20));
+
+export type ReportView = {
+  id: string;
+  reporterId: string;
+  targetType: TargetType;
+  targetId: string;
+  reason: string;
+  details: Record<string, unknown>;
+  status: ReportStatus;
+  moderatorId: string | null;
+  resolution: string | null;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+  /** Только в очереди модератора: сколько незакрытых жалоб на этот объект. */
+  targetOpenReports?: number;
+};
+
+export type ActionView = {
+  id: string;
+  actorId: string;
+  action: ActionKind | 'note';
+  targetType: TargetType;
+  targetId: string;
+  reportId: string | null;
+  payload: Record<string, unknown>;
+  createdAt: string;
+};
+
+export type ActionResult = {
+  action: ActionKind;
+  targetType: TargetType;
+  targetId: string;
+  /** false — объект уже был в нужном состоянии, в журнал ничего не записано. */
+  changed: boolean;
+  actionId: string | null;
+  resolvedReports: number;
+};
+
+function modErr(status: number, code: string): Error {
+  return Object.assign(new Error(code), { statusCode: status });
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function iso(v: unknown): string | null {
+  return v ? new Date(v as string | number | Date).toISOString() : null;
+}
+
+function toReportView(r: postgres.Row): ReportView {
+  const v: ReportView = {
+    id: String(r.id),
+    reporterId: String(r.reporter_id),
+    targetType: r.target_type,
+    targetId: String(r.target_id),
+    reason: r.reason,
+    details: r.details ?? {},
+    status: r.status,
+    moderatorId: r.moderator_id ?? null,
+    resolution: r.resolution ?? null,
+    createdAt: iso(r.created_at)!,
+    updatedAt: iso(r.updated_at)!,
+    resolvedAt: iso(r.resolved_at),
+  };
+  if (r.target_open_reports != null) v.targetOpenReports = Number(r.target_open_reports);
+  return v;
+}
+
+function toActionView(r: postgres.Row): ActionView {
+  return {
+    id: String(r.id),
+    actorId: String(r.actor_id),
+    action: r.action,
+    targetType: r.target_type,
+    targetId: String(r.target_id),
+    reportId: r.report_id ?? null,
+    payload: r.payload ?? {},
+    createdAt: iso(r.created_at)!,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Жалобы пользователей (/v1/reports)
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Пожаловаться на объект. Жаловаться можно только на то, что пользователь видит: на сообщение —
+ * будучи участником беседы. У сообщения сохраняется снимок текста, чтобы удаление автором
+ * не уничтожило доказательства. Одна незакрытая жалоба на объект от пользователя.
+ */
+export async function createReport(
+  reporterId: string,
+  input: { targetType: TargetType; targetId: string; reason: string; comment?: string | null }
+): Promise<ReportView> {
+  if (!TARGET_TYPES.includes(input.targetType)) throw modErr(400, 'invalid_target_type');
+  if (!UUID_RE.test(String(input.targetId))) throw modErr(400, 'invalid_uuid');
+  const reason = String(input.reason ?? '').trim().slice(0, 100);
+  if (!reason) throw modErr(400, 'reason_required');
+  if (input.targetType === 'user' && input.targetId === reporterId) throw modErr(400, 'cannot_report_self');
+
+  try {
+    return await transaction(async (trx) => {
+      const recent = await trx<{ n: number }[]>`
+        SELECT count(*)::int AS n FROM reports
+         WHERE reporter_id = ${reporterId} AND created_at > now_utc() - interval '1 hour'
+      `;
+      if (recent[0].n >= REPORTS_PER_HOUR) throw modErr(429, 'report_rate_limited');
+
+      const details: Record<string, unknown> = {};
+      if (input.comment) details.comment = String(input.comment).slice(0, 2000);
+      const id = input.targetId;
+      let found: postgres.Row[];
+      if (input.targetType === 'post') {
+        found = await trx`SELECT 1 FROM posts WHERE id = ${id} AND deleted_at IS NULL LIMIT 1`;
+      } else if (input.targetType === 'channel') {
+        found = await trx`SELECT 1 FROM channels WHERE id = ${id} AND deleted_at IS NULL LIMIT 1`;
+      } else if (input.targetType === 'user') {
+        found = await trx`SELECT 1 FROM users WHERE id = ${id} AND deleted_at IS NULL LIMIT 1`;
+      } else {
+        found = await trx`
+          SELECT m.author_id, m.text, m.conversation_id
+            FROM messages m
+            JOIN conversation_members cm
+              ON cm.conversation_id = m.conversation_id AND cm.user_id = ${reporterId} AND cm.left_at IS NULL
+           WHERE m.id = ${id} AND m.deleted_at IS NULL
+           LIMIT 1
+        `;
+        if (found.length) {
+          details.snapshot = { authorId: found[0].author_id ?? null, conversationId: found[0].conversation_id, text: found[0].text ?? null };
+        }
+      }
+      if (!found.length) throw modErr(404, 'target_not_found');
+
+      const rows = await trx`
+        INSERT INTO reports (reporter_id, target_type, target_id, reason, details)
+        VALUES (${reporterId}, ${input.targetType}, ${id}, ${reason}, ${sql.json(details)})
+        RETURNING *
+      `;
+      return toReportView(rows[0]);
+    });
+  } catch (e) {
+    if (e instanceof DatabaseError && e.code === '23505') throw modErr(409, 'already_reported');
+    throw e;
+  }
+}
+
+/** Свои жалобы, новые сверху (keyset cursor). */
+export async function listMyReports(
+  reporterId: string,
+  params: { limit?: number; cursor?: string | null } = {}
+): Promise<{ items: ReportView[]; nextCursor: string | null }> {
+  const limit = clamp(params.limit ?? 20, 1, 100);
+  const cur = decodeCursor(params.cursor);
+  const rows = await sql`
+    SELECT * FROM reports
+     WHERE reporter_id = ${reporterId}
+       ${cur ? sql`AND (created_at, id) < (${cur.created_at}::timestamptz, ${cur.id}::uuid)` : sql``}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ${limit + 1}
+  `;
+  return page(rows, limit, toReportView);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Очередь модератора (/v1/admin/reports)
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Очередь жалоб по статусу (по умолчанию open), старые первыми. */
+export async function listReports(
+  params: { status?: ReportStatus; targetType?: TargetType; limit?: number; cursor?: string | null } = {}
+): Promise<{ items: ReportView[]; nextCursor: string | null }> {
+  const status = params.status ?? 'open';
+  if (!REPORT_STATUSES.includes(status)) throw modErr(400, 'invalid_status');
+  if (params.targetType && !TARGET_TYPES.includes(params.targetType)) throw modErr(400, 'invalid_target_type');
+  const limit = clamp(params.limit ?? 50, 1, 200);
+  const cur = decodeCursor(params.cursor);
+  const rows = await sql`
+    SELECT r.*,
+           (SELECT count(*) FROM reports o
+             WHERE o.target_type = r.target_type AND o.target_id = r.target_id
+               AND o.status IN ('open','reviewing'))::int AS target_open_reports
+      FROM reports r
+     WHERE r.status = ${status}
+       ${params.targetType ? sql`AND r.target_type = ${params.targetType}` : sql``}
+       ${cur ? sql`AND (r.created_at, r.id) > (${cur.created_at}::timestamptz, ${cur.id}::uuid)` : sql``}
+     ORDER BY r.created_at ASC, r.id ASC
+     LIMIT ${limit + 1}
+  `;
+  return page(rows, limit, toReportView);
+}
+
+/** Жалоба и история действий по её объекту. */
+export async function getReport(id: string): Promise<(ReportView & { actions: ActionView[] }) | null> {
+  if (!UUID_RE.test(String(id))) return null;
+  const rows = await sql`SELECT * FROM reports WHERE id = ${id} LIMIT 1`;
+  if (!rows.length) return null;
+  const r = rows[0];
+  const actions = await sql`
+    SELECT * FROM moderation_actions
+     WHERE target_type = ${r.target_type} AND target_id = ${r.target_id}
+     ORDER BY created_at DESC, id DESC
+     LIMIT 50
+  `;
+  return { ...toReportView(r), actions: actions.map(toActionView) };
+}
+
+/** Разбор жалобы: статус и резолюция; изменение фиксируется в журнале как note. */
+export async function updateReport(
+  actorId: string,
+  id: string,
+  input: { status: ReportStatus; resolution?: string | null }
+): Promise<ReportView> {
+  if (!UUID_RE.test(String(id))) throw modErr(404, 'report_not_found');
+  if (!REPORT_STATUSES.includes(input.status)) throw modErr(400, 'invalid_status');
+  const resolution = input.resolution == null ? null : String(input.resolution).trim().slice(0, 2000) || null;
+  const closed = input.status === 'resolved' || input.status === 'rejected' || input.status === 'blocked';
+
+  return transaction(async (trx) => {
+    const rows = await trx`
+      UPDATE reports
+         SET status = ${input.status}::report_status,
+             moderator_id = ${actorId},
+             resolution = COALESCE(${resolution}, resolution),
+             resolved_at = ${closed ? sql`COALESCE(resolved_at, now_utc())` : null},
+             updated_at = now_utc()
+       WHERE id = ${id}
+      RETURNING *
+    `;
+    if (!rows.length) throw modErr(404, 'report_not_found');
+    const r = rows[0];
+    await trx`
+      INSERT INTO moderation_actions (actor_id, action, target_type, target_id, report_id, payload)
+      VALUES (${actorId}, 'note', ${r.target_type}, ${r.target_id}, ${id}, ${sql.json({ status: input.status, resolution })})
+    `;
+    return toReportView(r);
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Действия модераторов (/v1/admin/actions)
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Применить действие к объекту. reason/durationSec — для бана и блокировки канала
+ * (без durationSec — бессрочно). Модератор не может банить сотрудников (admin/moderator) — только admin.
+ */
+export async function takeAction(
+  actor: { id: string; roles?: string[] },
+  input: { action: ActionKind; targetId: string; reportId?: string | null; reason?: string | null; durationSec?: number | null }
+): Promise<ActionResult> {
+  const action = input.action;
+  const targetType = ACTION_TARGET[action];
+  if (!targetType) throw modErr(400, 'invalid_action');
+  const targetId = String(input.targetId);
+  if (!UUID_RE.test(targetId)) throw modErr(400, 'invalid_uuid');
+  if (input.reportId && !UUID_RE.test(String(input.reportId))) throw modErr(400, 'invalid_uuid');
+  const reason = String(input.reason ?? '').trim().slice(0, 500) || null;
+  const duration = input.durationSec ? Math.max(60, Math.floor(Number(input.durationSec))) : null;
+
+  const { result, expiresAt } = await transaction(async (trx) => {
+    const out = outboxClient(trx);
+    if (input.reportId) {
+      const rep = await trx`SELECT target_type, target_id FROM reports WHERE id = ${input.reportId} LIMIT 1`;
+      if (!rep.length) throw modErr(404, 'report_not_found');
+      if (rep[0].target_type !== targetType || String(rep[0].target_id) !== targetId) throw modErr(400, 'report_target_mismatch');
+    }
+
+    let changed = false;
+    let expiresAt: string | null = null;
+    switch (action) {
+      case 'hide_post':
+      case 'unhide_post': {
+        const p = await trx`SELECT channel_id, hidden_at FROM posts WHERE id = ${targetId} AND deleted_at IS NULL FOR UPDATE`;
+        if (!p.length) throw modErr(404, 'post_not_found');
+        const hide = action === 'hide_post';
+        if (hide === !p[0].hidden_at) {
+          await trx`UPDATE posts SET hidden_at = ${hide ? sql`now_utc()` : null}, updated_at = now_utc() WHERE id = ${targetId}`;
+          const channelId = String(p[0].channel_id);
+          await enqueue(out, topics.channel(channelId), 'post:updated', { postId: targetId, channelId, actorId: actor.id, hidden: hide });
+          await enqueueSearch(out, hide ? 'delete' : 'index', { type: 'post', id: targetId });
+          changed = true;
+        }
+        break;
+      }
+      case 'block_channel': {
+        const c = await trx`SELECT 1 FROM channels WHERE id = ${targetId} AND deleted_at IS NULL LIMIT 1`;
+        if (!c.length) throw modErr(404, 'channel_not_found');
+        const b = await trx`
+          INSERT INTO channel_blocks (channel_id, reason, blocked_by, expires_at)
+          VALUES (${targetId}, ${reason ?? 'moderation'}, ${actor.id},
+                  ${duration ? sql`now_utc() + make_interval(secs => ${duration})` : null})
+          ON CONFLICT (channel_id) DO UPDATE
+            SET reason = EXCLUDED.reason, blocked_by = EXCLUDED.blocked_by,
+                created_at = now_utc(), expires_at = EXCLUDED.expires_at
+          RETURNING expires_at
+        `;
+        expiresAt = iso(b[0].expires_at);
+        await enqueue(out, topics.channel(targetId), 'channel:updated', { channelId: targetId, actorId: actor.id, blocked: true });
+        await enqueueSearch(out, 'index', { type: 'channel', id: targetId, scope: 'posts' });
+        changed = true;
+        break;
+      }
+      case 'unblock_channel': {
+        const d = await trx`DELETE FROM channel_blocks WHERE channel_id = ${targetId} RETURNING channel_id`;
+        if (d.length) {
+          await enqueue(out, topics.channel(targetId), 'channel:updated', { channelId: targetId, actorId: actor.id, blocked: false });
+          await enqueueSearch(out, 'index', { type: 'channel', id: targetId, scope: 'posts' });
+          changed = true;
+        }
+        break;
+      }
+      case 'ban_user': {
+        if (targetId === actor.id) throw modErr(400, 'cannot_moderate_self');
+        const u = await trx<{ roles: string[] }[]>`SELECT roles FROM users WHERE id = ${targetId} AND deleted_at IS NULL LIMIT 1`;
+        if (!u.length) throw modErr(404, 'user_not_found');
+        const isStaff = (u[0].roles || []).some((r) => STAFF_ROLES.includes(r));
+        if (isStaff && !(actor.roles || []).includes('admin')) throw modErr(403, 'forbidden');
+        const b = await trx`
+          INSERT INTO user_bans (user_id, reason, banned_by, expires_at)
+          VALUES (${targetId}, ${reason ?? 'moderation'}, ${actor.id},
+                  ${duration ? sql`now_utc() + make_interval(secs => ${duration})` : null})
+          ON CONFLICT (user_id) DO UPDATE
+            SET reason = EXCLUDED.reason, banned_by = EXCLUDED.banned_by,
+                created_at = now_utc(), expires_at = EXCLUDED.expires_at
+          RETURNING expires_at
+        `;
+        expiresAt = iso(b[0].expires_at);
+        await trx`
+          UPDATE auth_sessions SET revoked_at = now_utc(), revoked_reason = 'banned', updated_at = now_utc()
+           WHERE user_id = ${targetId} AND revoked_at IS NULL
+        `;
+        await trx`
+          INSERT INTO auth_security_events (user_id, kind, meta)
+          VALUES (${targetId}, 'banned', ${sql.json({ expiresAt, reason })})
+        `;
+        await enqueue(out, topics.user(targetId), 'user:banned', { userId: targetId, expiresAt });
+        changed = true;
+        break;
+      }
+      case 'unban_user': {
+        const d = await trx`DELETE FROM user_bans WHERE user_id = ${targetId} RETURNING user_id`;
+        changed = d.length > 0;
+        break;
+      }
+      case 'remove_message':
+      case 'restore_message': {
+        const m = await trx`SELECT conversation_id, deleted_at FROM messages WHERE id = ${targetId} FOR UPDATE`;
+        if (!m.length) throw modErr(404, 'message_not_found');
+        const conversationId = String(m[0].conversation_id);
+        if (action === 'remove_message') {
+          if (m[0].deleted_at) break;
+          await trx`UPDATE messages SET deleted_at = now_utc(), updated_at = now_utc() WHERE id = ${targetId}`;
+          await enqueue(out, topics.conv(conversationId), 'message:deleted', { conversationId, messageId: targetId, actorId: actor.id, moderated: true });
+          await enqueueSearch(out, 'delete', { type: 'message', id: targetId });
+        } else {
+          if (!m[0].deleted_at) break;
+          // вернуть можно только удалённое модератором (удалённое автором — нет)
+          const last = await trx<{ action: string }[]>`
+            SELECT action FROM moderation_actions
+             WHERE target_type = 'message' AND target_id = ${targetId}
+               AND action IN ('remove_message','restore_message')
+             ORDER BY created_at DESC, id DESC
+             LIMIT 1
+          `;
+          if (last[0]?.action !== 'remove_message') throw modErr(409, 'not_removed_by_moderation');
+          await trx`UPDATE messages SET deleted_at = NULL, updated_at = now_utc() WHERE id = ${targetId}`;
+          await enqueue(out, topics.conv(conversationId), 'message:restored', { conversationId, messageId: targetId, actorId: actor.id });
+          await enqueueSearch(out, 'index', { type: 'message', id: targetId });
+        }
+        changed = true;
+        break;
+      }
+    }
+
+    if (!changed) return { result: { action, targetType, targetId, changed, actionId: null, resolvedReports: 0 }, expiresAt };
+
+    const payload: Record<string, unknown> = {};
+    if (reason) payload.reason = reason;
+    if (expiresAt) payload.expiresAt = expiresAt;
+    const ins = await trx`
+      INSERT INTO moderation_actions (actor_id, action, target_type, target_id, report_id, payload)
+      VALUES (${actor.id}, ${action}::moderation_action_kind, ${targetType}, ${targetId}, ${input.reportId ?? null}, ${sql.json(payload)})
+      RETURNING id
+    `;
+    let resolvedReports = 0;
+    if (ENFORCING.includes(action)) {
+      const closed = await trx`
+        UPDATE reports
+           SET status = 'resolved', moderator_id = ${actor.id}, resolution = COALESCE(resolution, ${action}),
+               resolved_at = now_utc(), updated_at = now_utc()
+         WHERE target_type = ${targetType} AND target_id = ${targetId} AND status IN ('open','reviewing')
+        RETURNING id
+      `;
+      resolvedReports = closed.length;
+    }
+    return { result: { action, targetType, targetId, changed, actionId: String(ins[0].id), resolvedReports }, expiresAt };
+  });
+
+  // кэш бана для requireAuth — после COMMIT, на каждый вызов (идемпотентно)
+  if (action === 'ban_user') await syncBanCache(targetId, () => cacheBan(targetId, expiresAt));
+  if (action === 'unban_user') await syncBanCache(targetId, () => uncacheBan(targetId));
+
+  return result;
+}
+
+/** Журнал действий: по объекту и/или модератору, новые сверху. */
+export async function listActions(
+  params: { targetType?: TargetType; targetId?: string; actorId?: string; limit?: number; cursor?: string | null } = {}
+): Promise<{ items: ActionView[]; nextCursor: string | null }> {
+  if (params.targetType && !TARGET_TYPES.includes(params.targetType)) throw modErr(400, 'invalid_target_type');
+  if (params.targetId && !UUID_RE.test(params.targetId)) throw modErr(400, 'invalid_uuid');
+  if (params.actorId && !UUID_RE.test(params.actorId)) throw modErr(400, 'invalid_uuid');
+  const limit = clamp(params.limit ?? 50, 1, 200);
+  const cur = decodeCursor(params.cursor);
+  const rows = await sql`
+    SELECT * FROM moderation_actions
+     WHERE 1=1
+       ${params.targetType ? sql`AND target_type = ${params.targetType}` : sql``}
+       ${params.targetId ? sql`AND target_id = ${params.targetId}` : sql``}
+       ${params.actorId ? sql`AND actor_id = ${params.actorId}` : sql``}
+       ${cur ? sql`AND (created_at, id) < (${cur.created_at}::timestamptz, ${cur.id}::uuid)` : sql``}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ${limit + 1}
+  `;
+  return page(rows, limit, toActionView);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Баны: кэш для requireAuth
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Ключ, который проверяет requireAuth (apps/api/src/middleware/auth.guard.ts). */
+export const banKey = (userId: string) => `auth:banned:${userId}`;
+
+async function cacheBan(userId: string, expiresAt: string | null): Promise<void> {
+  if (!redis) return;
+  if (!expiresAt) { await redis.set(banKey(userId), '1'); return; }
+  const ms = new Date(expiresAt).getTime() - Date.now();
+  if (ms > 0) await redis.set(banKey(userId), '1', 'PX', ms);
+  else await redis.del(banKey(userId));
+}
+
+async function uncacheBan(userId: string): Promise<void> {
+  if (redis) await redis.del(banKey(userId));
+}
+
+/** Действие уже закоммичено — ошибка Redis не должна превращать его в 500. */
+async function syncBanCache(userId: string, write: () => Promise<void>): Promise<void> {
+  try {
+    await write();
+  } catch (err) {
+    logger.warn({ err, userId }, 'moderation: ban cache update failed');
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────────────────
+
+function page<T>(rows: postgres.Row[], limit: number, map: (r: postgres.Row) => T): { items: T[]; nextCursor: string | null } {
+  let nextCursor: string | null = null;
+  if (rows.length > limit) {
+    const last = rows[limit - 1];
+    nextCursor = encodeCursor(new Date(last.created_at).toISOString(), String(last.id));
+  }
+  return { items: rows.slice(0, limit).map(map), nextCursor };
+}
+
+function clamp(n: number, min: number, max: number) { return Math.max(min, Math.min(max, n)); }
+
+function decodeCursor(c?: string | null): { created_at: string; id: string } | null {
+  if (!c) return null;
+  try {
+    const raw = Buffer.from(String(c), 'base64').toString('utf8');
+    const [ts, id] = raw.split('|');
+    if (!ts || !id || !UUID_RE.test(id)) return null;
+    return { created_at: ts, id };
+  } catch { return null; }
+}
+function encodeCursor(created_at: string, id: string) {
+  return Buffer.from(`${created_at}|${id}`, 'utf8').toString('base64');
+}
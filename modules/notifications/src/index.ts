@@ -0,0 +1,133 @@
+/**
+ * NotificationEndpointsService
+ * Каналы доставки уведомлений пользователя (их читает worker-notify):
+ *  - email   — согласие на письма на email аккаунта (одна запись на пользователя);
+ *  - webpush — PushSubscription браузера { endpoint, keys: { p256dh, auth } };
+ *  - webhook — HTTPS URL; секрет HMAC-подписи генерируется, если не передан,
+ *              и возвращается только в ответе register.
+ *
+ * Повторная регистрация того же target обновляет запись и снимает disabled_at
+ * (endpoint мог быть отключён воркером после 410 Gone).
+ *
+ * Требования к БД: миграция 018 (notification_endpoints).
+ */
+
+import { Pool } from 'pg';
+import { randomBytes } from 'node:crypto';
+
+export type EndpointKind = 'email' | 'webpush' | 'webhook';
+
+export type RegisterInput =
+  | { kind: 'email'; label?: string | null }
+  | { kind: 'webpush'; subscription: { endpoint: string; keys: { p256dh: string; auth: string } }; label?: string | null }
+  | { kind: 'webhook'; url: string; secret?: string | null; label?: string | null };
+
+export type EndpointView = {
+  id: string;
+  kind: EndpointKind;
+  target: string | null;
+  label: string | null;
+  created_at: string;
+  last_success_at: string | null;
+  last_error: string | null;
+  disabled_at: string | null;
+};
+
+const MAX_ENDPOINTS = Number(process.env.NOTIFY_MAX_ENDPOINTS_PER_USER || 20);
+const B64U_RE = /^[A-Za-z0-9_-]+={0,2}$/;
+
+export class NotificationEndpointsService {
+  constructor(private pool: Pool) {}
+
+  async list(userId: string): Promise<EndpointView[]> {
+    this.ensureUuid(userId);
+    const q = await this.pool.query(
+      `SELECT id, kind, target, label, created_at, last_success_at, last_error, disabled_at
+         FROM notification_endpoints
+        WHERE user_id = $1
+        ORDER BY created_at DESC, id DESC`,
+      [userId]
+    );
+    return q.rows;
+  }
+
+  /** Зарегистрировать (или обновить) endpoint. secret возвращается только для webhook. */
+  async register(userId: string, input: RegisterInput): Promise<EndpointView & { secret?: string }> {
+    this.ensureUuid(userId);
+    const label = input.label ? String(input.label).trim().slice(0, 200) || null : null;
+
+    let target: string | null = null;
+    let keys: { p256dh: string; auth: string } | null = null;
+    let secret: string | null = null;
+    switch (input?.kind) {
+      case 'email':
+        break;
+      case 'webpush': {
+        const sub = input.subscription;
+        target = this.normHttpsUrl(sub?.endpoint, 'invalid_subscription');
+        const p256dh = String(sub?.keys?.p256dh || '');
+        const auth = String(sub?.keys?.auth || '');
+        if (!B64U_RE.test(p256dh) || Buffer.from(p256dh, 'base64url').length !== 65) this.errThrow(400, 'invalid_subscription');
+        if (!B64U_RE.test(auth) || Buffer.from(auth, 'base64url').length < 16) this.errThrow(400, 'invalid_subscription');
+        keys = { p256dh, auth };
+        break;
+      }
+      case 'webhook':
+        target = this.normHttpsUrl(input.url, 'invalid_url');
+        secret = input.secret == null || input.secret === '' ? randomBytes(32).toString('base64url') : String(input.secret);
+        if (secret.length < 16 || secret.length > 256) this.errThrow(400, 'invalid_secret');
+        break;
+      default:
+        this.errThrow(400, 'invalid_kind');
+    }
+
+    const cnt = await this.pool.query(
+      `SELECT count(*)::int AS n FROM notification_endpoints
+        WHERE user_id = $1 AND disabled_at IS NULL AND NOT (kind = $2 AND COALESCE(target,'') = COALESCE($3,''))`,
+      [userId, input.kind, target]
+    );
+    if (cnt.rows[0].n >= MAX_ENDPOINTS) this.errThrow(409, 'too_many_endpoints');
+
+    const q = await this.pool.query(
+      `INSERT INTO notification_endpoints (user_id, kind, target, keys, secret, label)
+       VALUES ($1, $2, $3, $4::jsonb, $5, $6)
+       ON CONFLICT (user_id, kind, COALESCE(target, '')) DO UPDATE
+         SET keys = EXCLUDED.keys,
+             secret = EXCLUDED.secret,
+             label = COALESCE(EXCLUDED.label, notification_endpoints.label),
+             disabled_at = NULL,
+             last_error = NULL
+       RETURNING id, kind, target, label, created_at, last_success_at, last_error, disabled_at`,
+      [userId, input.kind, target, keys ? JSON.stringify(keys) : null, secret, label]
+    );
+    const row = q.rows[0];
+    return input.kind === 'webhook' ? { ...row, secret: secret! } : row;
+  }
+
+  async remove(userId: string, endpointId: string): Promise<void> {
+    this.ensureUuid(userId); this.ensureUuid(endpointId);
+    const q = await this.pool.query(
+      `DELETE FROM notification_endpoints WHERE id = $1 AND user_id = $2`,
+      [endpointId, userId]
+    );
+    if (!q.rowCount) this.errThrow(404, 'endpoint_not_found');
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Helpers
+  // ────────────────────────────────────────────────────────────────────────────
+
+  private normHttpsUrl(raw: unknown, code: string): string {
+    let url: URL;
+    try { url = new URL(String(raw || '')); } catch { this.errThrow(400, code); }
+    if (url.protocol !== 'https:' || url.username || url.password || url.href.length > 2048) this.errThrow(400, code);
+    return url.href;
+  }
+
+  private ensureUuid(id: string) {
+    if (!/^[0-9a-f-]{36}$/i.test(id)) this.errThrow(400, 'invalid_uuid');
+  }
+  private errThrow(status: number, code: string): never {
+    const e: any = new Error(code); e.statusCode = status; throw e;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Transactional outbox (realtime-события)
+ * Возможности:
+ *  - enqueue(cli, topic, event, data) — записать событие в outbox_events
+ *    тем же клиентом, что держит транзакцию (BEGIN … COMMIT) доменного сервиса
+ *  - enqueueJob(cli, stream, payload) — задача для воркера (XADD <stream> * data <json>), 013
+ *  - enqueueSearch(cli, op, doc) — CDC для apps/workers/search-indexer: q:search.index / q:search.delete
+ *    { type, id }; неопубликованная задача по тому же документу схлопывается (027, dedupe_key).
+ *    { type: 'channel', scope: 'posts' } — канал вместе со всеми постами (смена видимости, блокировка)
+ *  - topics — имена Redis-топиков (совпадают с apps/api/src/lib/realtime.ts и apps/realtime)
+ *  - withTx(pool, fn) — BEGIN/COMMIT/ROLLBACK на клиенте pg-пула для сервисов на pg;
+ *    outboxClient(trx) — транзакция postgres.js (transaction из @db) как OutboxClient
+ *
+ * Публикацию (PUBLISH topic {event, topic, ts, data}) выполняет воркер
+ * apps/workers/outbox-relay. Событие уходит только после COMMIT; при ROLLBACK — исчезает.
+ *
+ * Требования к БД: миграции 012_outbox.sql, 013_message_edits.sql (outbox_events.delivery),
+ * 027_outbox_dedupe.sql (outbox_events.dedupe_key).
+ */
+
+import type { Pool, PoolClient } from 'pg';
+
+/** Всё, что нужно outbox от клиента: pg-подобный query(text, params) в открытой транзакции. */
+export type OutboxClient = { query(text: string, params?: unknown[]): PromiseLike<unknown> };
+export type OutboxEvent = { topic: string; event: string; data: Record<string, any> };
+export type SearchDocType = 'message' | 'post' | 'channel' | 'user';
+
+const RT_PREFIX = process.env.RT_PREFIX || 'rt';
+
+export const topics = {
+  user: (userId: string) => `${RT_PREFIX}:user:${userId}`,
+  conv: (conversationId: string) => `${RT_PREFIX}:conv:${conversationId}`,
+  channel: (channelId: string) => `${RT_PREFIX}:channel:${channelId}`,
+  feed: () => `${RT_PREFIX}:feed`,
+};
+
+/** Записать одно событие в outbox в рамках текущей транзакции. */
+export async function enqueue(cli: OutboxClient, topic: string, event: string, data: Record<string, any> = {}): Promise<void> {
+  await cli.query(
+    `INSERT INTO outbox_events (topic, event, payload) VALUES ($1, $2, $3::jsonb)`,
+    [topic, event, JSON.stringify(data)]
+  );
+}
+
+/** Поставить задачу в Redis Stream (например q:search.index) в рамках текущей транзакции. */
+export async function enqueueJob(cli: OutboxClient, stream: string, payload: Record<string, any>): Promise<void> {
+  await cli.query(
+    `INSERT INTO outbox_events (topic, event, payload, delivery) VALUES ($1, 'job', $2::jsonb, 'stream')`,
+    [stream, JSON.stringify(payload)]
+  );
+}
+
+/**
+ * Поставить индексацию (op='index') или удаление (op='delete') документа поиска.
+ * Пока прежняя задача по документу не опубликована relay, она переписывается последней
+ * операцией — индексатор получит одну задачу на серию изменений. Индексатор читает
+ * актуальное состояние из БД, поэтому терять промежуточные версии не страшно.
+ */
+export async function enqueueSearch(
+  cli: OutboxClient,
+  op: 'index' | 'delete',
+  doc: { type: SearchDocType; id: string; scope?: 'posts' }
+): Promise<void> {
+  const payload = doc.scope ? { type: doc.type, id: doc.id, scope: doc.scope } : { type: doc.type, id: doc.id };
+  const key = `search:${doc.type}:${doc.id}${doc.scope ? `:${doc.scope}` : ''}`;
+  await cli.query(
+    `INSERT INTO outbox_events (topic, event, payload, delivery, dedupe_key)
+     VALUES ($1, 'job', $2::jsonb, 'stream', $3)
+     ON CONFLICT (dedupe_key) WHERE published_at IS NULL AND dedupe_key IS NOT NULL
+     DO UPDATE SET topic = EXCLUDED.topic, payload = EXCLUDED.payload`,
+    [`q:search.${op}`, JSON.stringify(payload), key]
+  );
+}
+
+/** Записать пачку событий одним INSERT (порядок сохраняется по id). */
+export async function enqueueMany(cli: OutboxClient, events: OutboxEvent[]): Promise<void> {
+  if (!events.length) return;
+  const values: any[] = [];
+  const chunks: string[] = [];
+  for (const e of events) {
+    values.push(e.topic, e.event, JSON.stringify(e.data ?? {}));
+    chunks.push(`($${values.length - 2}, $${values.length - 1}, $${values.length}::jsonb)`);
+  }
+  await cli.query(`INSERT INTO outbox_events (topic, event, payload) VALUES ${chunks.join(',')}`, values);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Транзакции
+// ────────────────────────────────────────────────────────────────────────────
+
+/** BEGIN/COMMIT/ROLLBACK вокруг fn: доменные записи и события outbox — одним клиентом пула. */
+export async function withTx<T>(pool: Pick<Pool, 'connect'>, fn: (cli: PoolClient) => Promise<T>): Promise<T> {
+  const cli = await pool.connect();
+  try {
+    await cli.query('BEGIN');
+    const res = await fn(cli);
+    await cli.query('COMMIT');
+    return res;
+  } catch (e) {
+    try { await cli.query('ROLLBACK'); } catch {}
+    throw e;
+  } finally {
+    cli.release();
+  }
+}
+
+/** Транзакция postgres.js (trx из transaction() в @db) — то, что нужно адаптеру. */
+export type UnsafeSql = { unsafe(query: string, params?: unknown[]): PromiseLike<unknown> };
+
+/** Адаптер транзакции postgres.js к OutboxClient: запросы outbox идут через trx.unsafe. */
+export function outboxClient(trx: UnsafeSql): OutboxClient {
+  return { query: (text, params) => trx.unsafe(text, params) };
+}
@@ -17,13 +17,26 @@
  *  channel_members(channel_id,user_id,left_at)
  *  channel_counters(channel_id PK, posts bigint, ...)
  *  media_files(id uuid, ref_count int, quarantined bool, antivirus_status enum)
+ *  posts.hidden_at (026), channel_blocks (008) — скрытые модератором посты и посты заблокированных
+ *    каналов не попадают в выдачу; их видят только автор и owner/admin канала
+ *  outbox_events (012) — realtime-события пишутся в той же транзакции:
+ *    post:published → rt:channel:<id> + rt:feed; post:updated / post:archived / post:liked → rt:channel:<id>
+ *    (события по черновикам не публикуются; rt:feed открыт всем — туда только посты, которые
+ *    показывает listFeed: публичный неархивный незаблокированный канал, пост не скрыт модератором)
+ *  поиск (CDC, enqueueSearch): publish, правка и смена медиа опубликованного — q:search.index { type: 'post', id },
+ *    archive — q:search.delete; черновики в индекс не попадают
  */
 
 import { Pool } from 'pg';
+import { enqueue, enqueueSearch, topics, withTx } from '@modules/outbox';
 
 export type CursorTSID = { ts: string; id: string };
 export type CursorScore = { score: number; id: string };
 
+/** Действующая блокировка канала модератором (channel_blocks, миграция 008). */
+const channelBlocked = (alias: string) => `EXISTS (SELECT 1 FROM channel_blocks b
+  WHERE b.channel_id = ${alias}.id AND (b.expires_at IS NULL OR b.expires_at > now_utc()))`;
+
 export class PostsService {
   constructor(private pool: Pool) {}
 
@@ -83,7 +96,16 @@ export class PostsService {
     if (!sets.length) return this.getById(actorId, postId);
 
     vals.push(postId);
-    await this.pool.query(`UPDATE posts SET ${sets.join(', ')}, updated_at = now_utc() WHERE id = $${vals.length}`, vals);
+    await withTx(this.pool, async (cli) => {
+      const upd = await cli.query(
+        `UPDATE posts SET ${sets.join(', ')}, updated_at = now_utc() WHERE id = $${vals.length} RETURNING state`,
+        vals
+      );
+      if (upd.rows[0]?.state === 'published') {
+        await enqueue(cli, topics.channel(info.channel_id), 'post:updated', { postId, channelId: info.channel_id, actorId });
+        await enqueueSearch(cli, 'index', { type: 'post', id: postId });
+      }
+    });
     return this.getById(actorId, postId);
   }
 
@@ -110,7 +132,12 @@ export class PostsService {
       }
 
       // применяем обновление
-      await cli.query(`UPDATE posts SET media_id=$1, updated_at=now_utc() WHERE id=$2`, [newId, postId]);
+      const upd = await cli.query(`UPDATE posts SET media_id=$1, updated_at=now_utc() WHERE id=$2 RETURNING state`, [newId, postId]);
+      if (upd.rows[0]?.state === 'published') {
+        await enqueue(cli, topics.channel(info.channel_id), 'post:updated', { postId, channelId: info.channel_id, actorId, mediaId: newId });
+        // media_types документа (has:image и т.п.)
+        await enqueueSearch(cli, 'index', { type: 'post', id: postId });
+      }
 
       // декремент для старого
       if (oldId && (!newId || oldId !== newId)) {
@@ -161,6 +188,19 @@ export class PostsService {
         [info.channel_id]
       ).catch(() => {});
 
+      const published = { postId, channelId: info.channel_id, authorId: info.author_id, publishedAt: upd.rows[0].published_at };
+      await enqueue(cli, topics.channel(info.channel_id), 'post:published', published);
+      const feed = await cli.query(
+        `SELECT (p.hidden_at IS NULL AND ch.visibility = 'public' AND ch.is_archived = false
+                 AND NOT ${channelBlocked('ch')}) AS in_feed
+           FROM posts p
+           JOIN channels ch ON ch.id = p.channel_id
+          WHERE p.id = $1`,
+        [postId]
+      );
+      if (feed.rows[0]?.in_feed) await enqueue(cli, topics.feed(), 'post:published', published);
+      await enqueueSearch(cli, 'index', { type: 'post', id: postId });
+
       await cli.query('COMMIT');
       return { ok: true as const };
     } catch (e) {
@@ -177,10 +217,16 @@ export class PostsService {
     const info = await this.getPostCore(postId);
     await this.ensureCanEdit(actorId, info.channel_id, info.author_id);
 
-    await this.pool.query(
-      `UPDATE posts SET state='archived', updated_at=now_utc() WHERE id=$1`,
-      [postId]
-    );
+    await withTx(this.pool, async (cli) => {
+      const upd = await cli.query(
+        `UPDATE posts SET state='archived', updated_at=now_utc() WHERE id=$1 AND state <> 'archived'`,
+        [postId]
+      );
+      if (upd.rowCount) {
+        await enqueue(cli, topics.channel(info.channel_id), 'post:archived', { postId, channelId: info.channel_id, actorId });
+        await enqueueSearch(cli, 'delete', { type: 'post', id: postId });
+      }
+    });
     return { ok: true as const };
   }
 
@@ -193,8 +239,8 @@ export class PostsService {
     const q = await this.pool.query(
       `
       SELECT p.id, p.channel_id, p.author_id, p.title, p.text, p.media_id, p.state,
-             p.published_at, p.created_at, p.updated_at,
-             c.visibility, c.is_archived,
+             p.published_at, p.created_at, p.updated_at, p.hidden_at,
+             c.visibility, c.is_archived, ${channelBlocked('c')} AS channel_blocked,
              COALESCE(pc.views,0) AS views, COALESCE(pc.likes,0) AS likes
         FROM posts p
         JOIN channels c ON c.id = p.channel_id
@@ -207,6 +253,11 @@ export class PostsService {
     if (!q.rowCount) this.errThrow(404, 'post_not_found');
 
     const row = q.rows[0];
+    // модерация: скрытый пост — как отсутствующий, заблокированный канал — 403
+    if (row.hidden_at || row.channel_blocked) {
+      const insider = !!viewerId && (viewerId === String(row.author_id) || await this.isChannelManager(viewerId, row.channel_id));
+      if (!insider) this.errThrow(row.channel_blocked ? 403 : 404, row.channel_blocked ? 'channel_blocked' : 'post_not_found');
+    }
     // приватность канала
     if (row.visibility === 'private') {
       if (!viewerId) this.errThrow(403, 'forbidden');
@@ -233,8 +284,12 @@ export class PostsService {
     const limit = Math.min(Math.max(1, opts.limit ?? 24), 100);
 
     // проверка приватности
-    const ch = await this.pool.query(`SELECT visibility FROM channels WHERE id=$1 AND deleted_at IS NULL LIMIT 1`, [channelId]);
+    const ch = await this.pool.query(
+      `SELECT c.visibility, ${channelBlocked('c')} AS blocked FROM channels c WHERE c.id=$1 AND c.deleted_at IS NULL LIMIT 1`,
+      [channelId]
+    );
     if (!ch.rowCount) this.errThrow(404, 'channel_not_found');
+    if (ch.rows[0].blocked && !(viewerId && await this.isChannelManager(viewerId, channelId))) this.errThrow(403, 'channel_blocked');
     if (ch.rows[0].visibility === 'private') {
       if (!viewerId) this.errThrow(403, 'forbidden');
       const m = await this.pool.query(
@@ -245,7 +300,7 @@ export class PostsService {
     }
 
     const params: any[] = [channelId, limit + 1];
-    let where = `p.channel_id = $1 AND p.state = 'published' AND p.deleted_at IS NULL`;
+    let where = `p.channel_id = $1 AND p.state = 'published' AND p.deleted_at IS NULL AND p.hidden_at IS NULL`;
     if (opts.cursor?.ts && opts.cursor?.id) {
       params.push(opts.cursor.ts, opts.cursor.id);
       where += ` AND (p.published_at, p.id) < ($3::timestamptz, $4::uuid)`;
@@ -280,7 +335,8 @@ export class PostsService {
     const query = (opts.query || '').trim();
 
     const params: any[] = [limit + 1];
-    let where = `p.state = 'published' AND p.deleted_at IS NULL AND ch.visibility = 'public' AND ch.is_archived = false`;
+    let where = `p.state = 'published' AND p.deleted_at IS NULL AND p.hidden_at IS NULL
+      AND ch.visibility = 'public' AND ch.is_archived = false AND NOT ${channelBlocked('ch')}`;
     if (query) {
       params.push(`%${query.toLowerCase()}%`);
       where += ` AND (lower(p.title) LIKE $${params.length} OR lower(p.text) LIKE $${params.length})`;
@@ -327,31 +383,45 @@ export class PostsService {
 
   async like(userId: string, postId: string): Promise<{ liked: true }> {
     this.ensureUuid(userId); this.ensureUuid(postId);
-    await this.pool.query(
-      `INSERT INTO post_reactions (post_id, user_id, type, created_at)
-       SELECT $1, $2, 'like', now_utc()
-       WHERE EXISTS (SELECT 1 FROM posts WHERE id=$1 AND state='published' AND deleted_at IS NULL)
-       ON CONFLICT (post_id, user_id, type) DO NOTHING`,
-      [postId, userId]
-    );
-    await this.pool.query(
-      `INSERT INTO post_counters (post_id, views, likes, comments, reposts, updated_at)
-       VALUES ($1,0,1,0,0, now_utc())
-       ON CONFLICT (post_id) DO UPDATE SET likes = post_counters.likes + 1, updated_at = now_utc()`,
-      [postId]
-    );
+    await withTx(this.pool, async (cli) => {
+      const ins = await cli.query(
+        `INSERT INTO post_reactions (post_id, user_id, type, created_at)
+         SELECT $1, $2, 'like', now_utc()
+         WHERE EXISTS (SELECT 1 FROM posts WHERE id=$1 AND state='published' AND deleted_at IS NULL AND hidden_at IS NULL)
+         ON CONFLICT (post_id, user_id, type) DO NOTHING
+         RETURNING (SELECT channel_id FROM posts WHERE id=$1) AS channel_id`,
+        [postId, userId]
+      );
+      // повторный лайк — не меняет состояние: ни счётчика, ни события
+      if (!ins.rowCount) return;
+      await cli.query(
+        `INSERT INTO post_counters (post_id, views, likes, comments, reposts, updated_at)
+         VALUES ($1,0,1,0,0, now_utc())
+         ON CONFLICT (post_id) DO UPDATE SET likes = post_counters.likes + 1, updated_at = now_utc()`,
+        [postId]
+      );
+      const channelId = String(ins.rows[0].channel_id);
+      await enqueue(cli, topics.channel(channelId), 'post:liked', { postId, channelId, userId, liked: true });
+    });
     return { liked: true as const };
   }
 
   async unlike(userId: string, postId: string): Promise<{ liked: false }> {
     this.ensureUuid(userId); this.ensureUuid(postId);
-    const res = await this.pool.query(`DELETE FROM post_reactions WHERE post_id=$1 AND user_id=$2 AND type='like'`, [postId, userId]);
-    if (res.rowCount) {
-      await this.pool.query(
+    await withTx(this.pool, async (cli) => {
+      const res = await cli.query(
+        `DELETE FROM post_reactions WHERE post_id=$1 AND user_id=$2 AND type='like'
+         RETURNING (SELECT channel_id FROM posts WHERE id=$1) AS channel_id`,
+        [postId, userId]
+      );
+      if (!res.rowCount) return;
+      await cli.query(
         `UPDATE post_counters SET likes = GREATEST(0, likes - 1), updated_at = now_utc() WHERE post_id=$1`,
         [postId]
-      ).catch(() => {});
-    }
+      );
+      const channelId = String(res.rows[0].channel_id);
+      await enqueue(cli, topics.channel(channelId), 'post:liked', { postId, channelId, userId, liked: false });
+    });
     return { liked: false as const };
   }
 
@@ -367,8 +437,12 @@ export class PostsService {
 
   private async ensureChannelWritable(userId: string, channelId: string) {
     // канал должен существовать и не быть архивированным
-    const ch = await this.pool.query(`SELECT is_archived FROM channels WHERE id=$1 AND deleted_at IS NULL`, [channelId]);
+    const ch = await this.pool.query(
+      `SELECT c.is_archived, ${channelBlocked('c')} AS blocked FROM channels c WHERE c.id=$1 AND c.deleted_at IS NULL`,
+      [channelId]
+    );
     if (!ch.rowCount) this.errThrow(404, 'channel_not_found');
+    if (ch.rows[0].blocked === true) this.errThrow(403, 'channel_blocked');
     if (ch.rows[0].is_archived === true) this.errThrow(400, 'channel_archived');
 
     // участник?
@@ -391,6 +465,14 @@ export class PostsService {
     if (!(role === 'owner' || role === 'admin')) this.errThrow(403, 'forbidden');
   }
 
+  private async isChannelManager(userId: string, channelId: string): Promise<boolean> {
+    const r = await this.pool.query(
+      `SELECT 1 FROM channel_members WHERE channel_id=$1 AND user_id=$2 AND left_at IS NULL AND role IN ('owner','admin') LIMIT 1`,
+      [channelId, userId]
+    );
+    return !!r.rowCount;
+  }
+
   private async assertMediaClean(cli: any, mediaId: string) {
     const m = await cli.query(
       `SELECT quarantined, antivirus_status FROM media_files WHERE id = $1`,
@@ -412,6 +494,7 @@ export class PostsService {
     );
   }
 
+
   private ensureUuid(id: string) {
     if (!/^[0-9a-f-]{36}$/i.test(id)) this.errThrow(400, 'invalid_uuid');
   }
@@ -0,0 +1,115 @@
+/**
+ * Контракт бэкенда поиска и общие для реализаций хелперы.
+ * Реализации: OpenSearchBackend (./opensearch), PostgresBackend (./postgres) —
+ * одинаковые параметры, одинаковая форма результата и одинаковые права зрителя.
+ * q разбирается мини-языком (./query); фильтры из q и из параметров складываются (AND).
+ */
+
+import type { MediaType } from './query.js';
+
+export type SearchType = 'message' | 'post' | 'channel' | 'user';
+
+export const SEARCH_TYPES: SearchType[] = ['message', 'post', 'channel', 'user'];
+
+export type SearchQuery = {
+  viewerId: string;      // результаты фильтруются по правам этого пользователя
+  q: string;             // мини-язык: from:@nick in:#channel before:/after: has:media "фраза" -слово
+  types?: SearchType[];
+  limit?: number;        // 1..50
+  cursor?: string | null; // base64 { from, after? } — см. nextCursor
+  sort?: 'relevance' | 'recency'; // recency = updated_at desc
+  conversationId?: string;
+  channelId?: string;    // посты канала
+  authorId?: string;
+  after?: string;        // ISO: created_at >= after
+  before?: string;       // ISO: created_at < before
+  hasMedia?: boolean;
+  mediaType?: MediaType;
+};
+
+export type SearchHit = {
+  id: string;          // uuid сущности (тип — в поле type)
+  type: SearchType;
+  score: number;
+  created_at: string;  // ISO
+  updated_at: string;  // ISO
+  text?: string;
+  highlight?: string[]; // фрагменты, совпадения в <em>
+  meta?: Record<string, any>;
+};
+
+export type SearchResult = {
+  hits: SearchHit[];
+  nextCursor: string | null;
+  totalApprox: number;  // value из hits.total (approximate)
+};
+
+export type SuggestQuery = {
+  viewerId: string;
+  q: string;
+  types?: SearchType[];
+  limit?: number; // 1..10
+};
+
+export type SuggestResult = {
+  suggestions: Array<{ type: SearchType; text: string; id: string }>;
+};
+
+export interface SearchBackend {
+  search(params: SearchQuery): Promise<SearchResult>;
+  suggest(params: SuggestQuery): Promise<SuggestResult>;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function searchTypes(types?: SearchType[]): SearchType[] {
+  return Array.isArray(types) && types.length ? types : SEARCH_TYPES;
+}
+
+export function searchLimit(limit: number | undefined, def: number, max: number): number {
+  return Math.max(1, Math.min(max, Number(limit || def)));
+}
+
+/**
+ * Курсор: from — смещение (первые страницы); after — значения sort последнего результата
+ * (search_after, глубже DEEP_PAGE_FROM). Бэкенд без keyset (postgres) читает только from.
+ */
+export type Cursor = { from: number; after?: unknown[] };
+
+/** С этого смещения OpenSearch листает через search_after, а не from. */
+export const DEEP_PAGE_FROM = 100;
+
+/** Предел смещения для страниц без search_after (Postgres, OFFSET): дальше курсора нет. */
+export const MAX_OFFSET = 10000;
+
+export function decodeCursor(cursor?: string | null): Cursor {
+  if (!cursor) return { from: 0 };
+  try {
+    const d = JSON.parse(Buffer.from(String(cursor), 'base64').toString('utf8'));
+    const from = typeof d?.from === 'number' && d.from >= 0 ? d.from : 0;
+    if (Array.isArray(d?.after) && d.after.length) return { from, after: d.after };
+    return { from: Math.min(from, MAX_OFFSET) };
+  } catch { return { from: 0 }; }
+}
+
+/**
+ * Курсор следующей страницы: from + фактическое число результатов; неполная страница — последняя.
+ * lastSort — sort последнего результата: с DEEP_PAGE_FROM курсор переходит на search_after.
+ * Без lastSort выдача обрывается на MAX_OFFSET.
+ */
+export function nextCursor(from: number, got: number, limit: number, lastSort?: unknown[]): string | null {
+  if (got < limit) return null;
+  const next: Cursor = { from: from + got };
+  if (lastSort?.length && next.from >= DEEP_PAGE_FROM) next.after = lastSort;
+  else if (next.from > MAX_OFFSET) return null;
+  return Buffer.from(JSON.stringify(next)).toString('base64');
+}
+
+/** Подпись подсказки: имя пользователя, заголовок канала/поста, иначе текст. */
+export function suggestionText(type: SearchType, text: string | null | undefined, meta: Record<string, any> | null | undefined): string {
+  let s = '';
+  if (type === 'user') s = meta?.display_name || meta?.nickname || text || '';
+  else if (type === 'channel' || type === 'post') s = meta?.title || text || '';
+  else s = text || '';
+  return String(s).slice(0, 160);
+}
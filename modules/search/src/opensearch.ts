@@ -0,0 +1,227 @@
+/**
+ * OpenSearchBackend — поиск по алиасу <prefix>-content, который ведёт apps/workers/search-indexer.
+ *
+ *  - multi_match (рус/англ анализатор) по text и meta.*, highlight по text;
+ *  - мини-язык q (./query) и фильтры SearchQuery → bool: фразы — match_phrase по text.exact,
+ *    исключения — must_not, from:@nick / in:#channel — id из user/channel-документов индекса
+ *    (неизвестный ник/канал — пустой результат), has:* — media_types (индекс v4+);
+ *  - пагинация: from на первых страницах, дальше search_after (sort с тай-брейком по id);
+ *  - suggest — phrase_prefix по тем же полям;
+ *  - фильтр по зрителю (viewerFilter) в search и suggest:
+ *      message — только беседы, где зритель активный участник;
+ *      post/channel — публичные каналы или каналы, где зритель участник;
+ *      user — обнаруживаемые профили (privacy.discoverable) и сам зритель;
+ *      контент пользователей, с которыми есть блокировка (в любую сторону), исключается.
+ *    Членства берутся terms lookup'ом из документа user:<viewerId> (acl.*, индекс v3+,
+ *    поддерживается search-indexer'ом). Нет документа зрителя — фильтр закрыт:
+ *    остаются только публичные каналы/посты/профили.
+ */
+
+import { Client } from '@opensearch-project/opensearch';
+import {
+  decodeCursor, nextCursor, searchLimit, searchTypes, suggestionText,
+  SearchBackend, SearchHit, SearchQuery, SearchResult, SearchType, SuggestQuery, SuggestResult,
+} from './backend.js';
+import { parseSearchQuery, ParsedQuery } from './query.js';
+
+const TEXT_FIELDS = ['text^3', 'meta.title^4', 'meta.nickname^4', 'meta.display_name^4'];
+
+export type OpenSearchConfig = { node: string; username?: string; password?: string; index: string };
+
+export class OpenSearchBackend implements SearchBackend {
+  private client: Client;
+  private index: string;
+
+  constructor(cfg: OpenSearchConfig) {
+    this.client = new Client({
+      node: cfg.node,
+      auth: cfg.username || cfg.password ? { username: cfg.username || '', password: cfg.password || '' } : undefined,
+      ssl: { rejectUnauthorized: false }, // dev: разрешаем self-signed
+    });
+    this.index = cfg.index;
+  }
+
+  private ensureQ(q: string): string {
+    const s = String(q || '').trim();
+    if (!s) return '*';
+    // Нейтрализуем спецсимволы Lucene, оставим базовые слова.
+    return s.replace(/[+\-=&|><!(){}\[\]^"~*?:\\/]/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  /** terms lookup по членствам зрителя из его user-документа. */
+  private viewerTerms(field: string, viewerId: string, path: 'conversations' | 'channels' | 'blocked') {
+    return { terms: { [field]: { index: this.index, id: `user:${viewerId}`, path: `acl.${path}`, routing: 'user' } } };
+  }
+
+  /** Фильтр видимости для зрителя — общий для search и suggest. */
+  private viewerFilter(viewerId: string): any {
+    const publicOr = (type: SearchType, member: any) => ({
+      bool: {
+        filter: [{ term: { type } }],
+        should: [{ term: { 'acl.visibility': 'public' } }, member],
+        minimum_should_match: 1,
+      },
+    });
+    return {
+      bool: {
+        should: [
+          { bool: { filter: [{ term: { type: 'message' } }, this.viewerTerms('meta.conversation_id', viewerId, 'conversations')] } },
+          publicOr('post', this.viewerTerms('meta.channel_id', viewerId, 'channels')),
+          publicOr('channel', this.viewerTerms('id', viewerId, 'channels')),
+          publicOr('user', { term: { id: viewerId } }),
+        ],
+        minimum_should_match: 1,
+        must_not: [
+          {
+            bool: {
+              filter: [this.viewerTerms('owner_id', viewerId, 'blocked')],
+              must_not: [{ term: { owner_id: viewerId } }],
+            },
+          },
+        ],
+      },
+    };
+  }
+
+  /** from:@nick / in:#channel → id по user/channel-документам; null — не найден. */
+  private async resolveNames(parsed: ParsedQuery): Promise<{ authorId?: string; channelId?: string } | null> {
+    if (!parsed.from && !parsed.in) return {};
+    const should: any[] = [];
+    if (parsed.from) should.push({ bool: { filter: [{ term: { type: 'user' } }, { term: { 'meta.nickname': { value: parsed.from, case_insensitive: true } } }] } });
+    if (parsed.in) should.push({ bool: { filter: [{ term: { type: 'channel' } }, { term: { 'meta.slug': { value: parsed.in, case_insensitive: true } } }] } });
+    const res = await this.client.search({
+      index: this.index,
+      body: { size: should.length, query: { bool: { should, minimum_should_match: 1 } }, _source: ['id', 'type'] },
+    });
+    const found: Record<string, string> = {};
+    for (const h of (res.body.hits?.hits || []) as any[]) found[h._source.type] = String(h._source.id);
+    if ((parsed.from && !found.user) || (parsed.in && !found.channel)) return null;
+    return { authorId: found.user, channelId: found.channel };
+  }
+
+  /** Текстовая часть и фильтры запроса (без прав зрителя). */
+  private queryClauses(params: SearchQuery, parsed: ParsedQuery, names: { authorId?: string; channelId?: string }) {
+    const must: any[] = [];
+    const filter: any[] = [{ terms: { type: searchTypes(params.types) } }];
+    const mustNot: any[] = [];
+
+    const words = this.ensureQ(parsed.words.join(' '));
+    if (words !== '*') {
+      // используем multi_match с рус/англ анализатором
+      must.push({ multi_match: { query: words, fields: TEXT_FIELDS, type: 'best_fields', operator: 'and' } });
+    }
+    for (const p of parsed.phrases) must.push({ match_phrase: { 'text.exact': p } });
+    for (const x of parsed.exclude) mustNot.push({ multi_match: { query: x, fields: TEXT_FIELDS, type: 'phrase' } });
+
+    const term = (field: string, value?: string) => { if (value) filter.push({ term: { [field]: value } }); };
+    term('meta.conversation_id', params.conversationId);
+    term('meta.channel_id', params.channelId);
+    term('meta.channel_id', names.channelId);
+    term('owner_id', params.authorId);
+    term('owner_id', names.authorId);
+
+    for (const range of [{ gte: params.after, lt: params.before }, { gte: parsed.after, lt: parsed.before }]) {
+      const r = Object.fromEntries(Object.entries(range).filter(([, v]) => v));
+      if (Object.keys(r).length) filter.push({ range: { created_at: r } });
+    }
+
+    const hasMedia = params.hasMedia ?? parsed.hasMedia;
+    if (hasMedia === true) filter.push({ exists: { field: 'media_types' } });
+    if (hasMedia === false) mustNot.push({ exists: { field: 'media_types' } });
+    term('media_types', params.mediaType);
+    term('media_types', parsed.mediaType);
+
+    return { must, filter, mustNot };
+  }
+
+  async search(params: SearchQuery): Promise<SearchResult> {
+    const parsed = parseSearchQuery(params.q);
+    const limit = searchLimit(params.limit, 20, 50);
+    const cursor = decodeCursor(params.cursor ?? null);
+    const sortRecency = params.sort === 'recency';
+
+    const names = await this.resolveNames(parsed);
+    if (!names) return { hits: [], totalApprox: 0, nextCursor: null };
+    const { must, filter, mustNot } = this.queryClauses(params, parsed, names);
+
+    const body: any = {
+      track_total_hits: false,
+      size: limit,
+      query: { bool: { must, filter: [this.viewerFilter(params.viewerId), ...filter], must_not: mustNot } },
+      _source: ['id', 'type', 'created_at', 'updated_at', 'text', 'meta'],
+      highlight: {
+        pre_tags: ['<em>'],
+        post_tags: ['</em>'],
+        fields: { text: { fragment_size: 120, number_of_fragments: 2 } },
+      },
+      // тай-брейк по id/type — стабильный порядок для search_after
+      sort: [
+        ...(sortRecency ? [] : ['_score']),
+        { updated_at: { order: 'desc' } },
+        { id: { order: 'desc' } },
+        { type: { order: 'asc' } },
+      ],
+    };
+    if (cursor.after) body.search_after = cursor.after;
+    else body.from = cursor.from;
+
+    const res = await this.client.search({ index: this.index, body });
+    const hitsRaw: any[] = (res.body.hits?.hits || []);
+    const hits: SearchHit[] = hitsRaw.map((h) => ({
+      id: String(h._source.id),
+      type: String(h._source.type) as SearchType,
+      score: typeof h._score === 'number' ? h._score : 0,
+      created_at: h._source.created_at,
+      updated_at: h._source.updated_at,
+      text: h._source.text,
+      highlight: (h.highlight?.text || []) as string[],
+      meta: h._source.meta || {},
+    }));
+
+    return {
+      hits,
+      totalApprox: Number(res.body.hits?.total?.value ?? 0), // у OS часто приблизительное
+      nextCursor: nextCursor(cursor.from, hits.length, limit, hitsRaw[hitsRaw.length - 1]?.sort),
+    };
+  }
+
+  async suggest(params: SuggestQuery): Promise<SuggestResult> {
+    const q = this.ensureQ(params.q);
+    const limit = searchLimit(params.limit, 8, 10);
+    const types = searchTypes(params.types);
+
+    if (q === '*' || q.length < 2) {
+      return { suggestions: [] }; // не спамим пустотой
+    }
+
+    // Простой лайт-суггест: ищем top N по prefix-подобному matсh
+    const body: any = {
+      size: limit,
+      query: {
+        bool: {
+          must: [
+            { terms: { type: types } },
+            {
+              multi_match: {
+                query: q,
+                fields: ['meta.title^4', 'meta.nickname^4', 'meta.display_name^4', 'text^1'],
+                type: 'phrase_prefix',
+              },
+            },
+          ],
+          filter: [this.viewerFilter(params.viewerId)],
+        },
+      },
+      _source: ['id', 'type', 'text', 'meta'],
+    };
+
+    const res = await this.client.search({ index: this.index, body });
+    const hits = res.body.hits?.hits || [];
+    const suggestions = hits.map((h: any) => {
+      const t = String(h._source.type) as SearchType;
+      return { type: t, text: suggestionText(t, h._source.text, h._source.meta), id: String(h._source.id) };
+    });
+
+    return { suggestions };
+  }
+}
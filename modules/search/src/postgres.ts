@@ -0,0 +1,220 @@
+/**
+ * PostgresBackend — полнотекстовый поиск без OpenSearch, поверх search_index (009_search.sql).
+ *
+ *  - message/post/channel — из search_index (tsvector 'simple' + unaccent, триггеры 009);
+ *    users в search_index нет — их tsvector строится на лету (build_search_tsv), для небольших
+ *    инсталляций этого достаточно;
+ *  - ранжирование ts_rank, highlight — ts_headline (<em>…</em>), suggest — префиксный tsquery (word:*);
+ *  - права зрителя те же, что у OpenSearchBackend, но проверяются прямо по таблицам:
+ *    членство в беседе, публичный канал или членство в нём, privacy.discoverable,
+ *    блокировки в обе стороны; удалённое, скрытое модератором и заблокированное не выдаётся.
+ *  - мини-язык q (./query) и фильтры SearchQuery: слова/фразы/исключения → tsquery (&, <->, !),
+ *    from:@nick — users.nickname, in:#channel — channels.handle, даты — created_at,
+ *    has:* — MIME вложений (messages.media_id, posts.media_id, post_media); медиа-сообщения без текста
+ *    в search_index не попадают, поэтому has:* находит их только вместе с OpenSearch;
+ *  - результат — та же форма SearchResult/SuggestResult; пагинация — только from (OFFSET, не дальше MAX_OFFSET).
+ *
+ * Требования к БД: 001, 004, 005, 007, 008, 009, 023, 026, 029 применены.
+ */
+
+import {
+  decodeCursor, nextCursor, searchLimit, searchTypes, suggestionText,
+  SearchBackend, SearchHit, SearchQuery, SearchResult, SearchType, SuggestQuery, SuggestResult,
+} from './backend.js';
+import { parseSearchQuery, ParsedQuery } from './query.js';
+
+/** Достаточно pg.Pool (или клиента) — модуль не тянет драйвер сам. */
+export type Queryable = { query(text: string, params?: any[]): Promise<{ rows: any[] }> };
+
+// разделитель фрагментов ts_headline: в тексте сообщений не встречается
+const FRAGMENT_SEP = '\u001f';
+const HEADLINE_OPTS = `StartSel=<em>, StopSel=</em>, MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter="${FRAGMENT_SEP}"`;
+
+function mediaType(mime: string) {
+  return `CASE split_part(${mime}, '/', 1) WHEN 'image' THEN 'image' WHEN 'video' THEN 'video'
+                                           WHEN 'audio' THEN 'audio' ELSE 'file' END`;
+}
+
+function memberOfChannel(channel: string) {
+  return `EXISTS (SELECT 1 FROM channel_members chm
+                   WHERE chm.channel_id = ${channel} AND chm.user_id = $1 AND chm.left_at IS NULL)`;
+}
+
+function channelBlocked(channel: string) {
+  return `EXISTS (SELECT 1 FROM channel_blocks cb
+                   WHERE cb.channel_id = ${channel} AND (cb.expires_at IS NULL OR cb.expires_at > now_utc()))`;
+}
+
+/**
+ * Видимые зрителю ($1) документы типов $2 с tsvector; q — tsquery из $3 (NULL — без текстового условия).
+ * Колонки: type, id, owner_id, conversation_id, channel_id, media_types, created_at, updated_at, body, meta, tsv.
+ * Фильтры запроса (searchFilters) дописываются в WHERE matched.
+ */
+const VISIBLE_DOCS = `
+  q AS (SELECT CASE WHEN $3::text IS NULL THEN NULL ELSE to_tsquery('simple', unaccent($3::text)) END AS tsq),
+  docs AS (
+    SELECT 'message'::text AS type, m.id, m.author_id AS owner_id, m.conversation_id, NULL::uuid AS channel_id,
+           ARRAY(SELECT ${mediaType('mf.mime')} FROM media_files mf WHERE mf.id = m.media_id) AS media_types,
+           m.created_at, m.updated_at,
+           m.text AS body, jsonb_build_object('conversation_id', m.conversation_id) AS meta, si.tsv
+      FROM search_index si
+      JOIN messages m ON m.id = si.target_id
+      JOIN users a ON a.id = m.author_id AND a.deleted_at IS NULL
+      JOIN conversation_members cm ON cm.conversation_id = m.conversation_id AND cm.user_id = $1 AND cm.left_at IS NULL
+     WHERE si.target_type = 'message' AND 'message' = ANY($2::text[]) AND m.deleted_at IS NULL
+    UNION ALL
+    SELECT 'post', p.id, p.author_id, NULL, p.channel_id,
+           ARRAY(SELECT DISTINCT ${mediaType('mf.mime')}
+                   FROM media_files mf
+                  WHERE mf.id IN (SELECT p.media_id UNION SELECT pm.media_id FROM post_media pm WHERE pm.post_id = p.id)),
+           p.created_at, p.updated_at,
+           concat_ws(E'\\n', p.title, p.body), jsonb_build_object('channel_id', p.channel_id, 'title', p.title), si.tsv
+      FROM search_index si
+      JOIN posts p ON p.id = si.target_id
+      JOIN channels c ON c.id = p.channel_id AND c.deleted_at IS NULL
+      JOIN users a ON a.id = p.author_id AND a.deleted_at IS NULL
+     WHERE si.target_type = 'post' AND 'post' = ANY($2::text[])
+       AND p.status = 'published' AND p.deleted_at IS NULL AND p.hidden_at IS NULL
+       AND NOT ${channelBlocked('c.id')}
+       AND (c.visibility = 'public' OR ${memberOfChannel('c.id')})
+    UNION ALL
+    SELECT 'channel', c.id, c.owner_id, NULL, NULL, '{}'::text[], c.created_at, c.updated_at,
+           concat_ws(E'\\n', c.title, c.description), jsonb_build_object('slug', c.handle::text, 'title', c.title), si.tsv
+      FROM search_index si
+      JOIN channels c ON c.id = si.target_id
+     WHERE si.target_type = 'channel' AND 'channel' = ANY($2::text[]) AND c.deleted_at IS NULL
+       AND NOT ${channelBlocked('c.id')}
+       AND (c.visibility = 'public' OR ${memberOfChannel('c.id')})
+    UNION ALL
+    SELECT 'user', u.id, u.id, NULL, NULL, '{}'::text[], u.created_at, u.updated_at,
+           concat_ws(E'\\n', u.display_name, u.nickname::text, u.bio),
+           jsonb_build_object('nickname', u.nickname::text, 'display_name', u.display_name),
+           build_search_tsv(concat_ws(' ', u.display_name, u.nickname::text, u.bio))
+      FROM users u
+     WHERE 'user' = ANY($2::text[]) AND u.deleted_at IS NULL
+       AND (COALESCE((u.privacy->>'discoverable')::boolean, true) OR u.id = $1)
+  ),
+  matched AS (
+    SELECT d.*, COALESCE(ts_rank(d.tsv, q.tsq), 0) AS score
+      FROM docs d CROSS JOIN q
+     WHERE (q.tsq IS NULL OR d.tsv @@ q.tsq)
+       AND (d.owner_id = $1 OR NOT EXISTS (
+             SELECT 1 FROM user_blocks b
+              WHERE (b.blocker_id = $1 AND b.blocked_id = d.owner_id)
+                 OR (b.blocker_id = d.owner_id AND b.blocked_id = $1)))
+       /*filters*/
+  )`;
+
+/** Фильтры SearchQuery и мини-языка → условия над колонками docs (d.*); значения — плейсхолдеры в params. */
+function searchFilters(params: SearchQuery, parsed: ParsedQuery, sqlParams: any[]): string {
+  const where: string[] = [];
+  const p = (v: unknown) => { sqlParams.push(v); return `$${sqlParams.length}`; };
+
+  if (params.conversationId) where.push(`d.conversation_id = ${p(params.conversationId)}::uuid`);
+  if (params.channelId) where.push(`d.channel_id = ${p(params.channelId)}::uuid`);
+  if (params.authorId) where.push(`d.owner_id = ${p(params.authorId)}::uuid`);
+  if (parsed.from) where.push(`d.owner_id IN (SELECT id FROM users WHERE nickname = ${p(parsed.from)} AND deleted_at IS NULL)`);
+  if (parsed.in) where.push(`d.channel_id IN (SELECT id FROM channels WHERE handle = ${p(parsed.in)} AND deleted_at IS NULL)`);
+  for (const v of [params.after, parsed.after]) if (v) where.push(`d.created_at >= ${p(v)}::timestamptz`);
+  for (const v of [params.before, parsed.before]) if (v) where.push(`d.created_at < ${p(v)}::timestamptz`);
+
+  const hasMedia = params.hasMedia ?? parsed.hasMedia;
+  if (hasMedia === true) where.push(`cardinality(d.media_types) > 0`);
+  if (hasMedia === false) where.push(`cardinality(d.media_types) = 0`);
+  for (const v of [params.mediaType, parsed.mediaType]) if (v) where.push(`${p(v)} = ANY(d.media_types)`);
+
+  return where.map((w) => `AND ${w}`).join('\n       ');
+}
+
+function tsWords(s: string): string[] {
+  return (String(s || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(0, 16);
+}
+
+export class PostgresBackend implements SearchBackend {
+  constructor(private readonly pool: Queryable) {}
+
+  /** Слова, фразы и исключения → tsquery 'a & (b <-> c) & !d'; null — нет текстового условия. */
+  private toTsQuery(parsed: ParsedQuery): string | null {
+    const parts = [
+      ...tsWords(parsed.words.join(' ')),
+      ...parsed.phrases.map((ph: string) => tsWords(ph)).filter((w: string[]) => w.length).map((w: string[]) => `(${w.join(' <-> ')})`),
+      ...parsed.exclude.map((x: string) => tsWords(x)).filter((w: string[]) => w.length).map((w: string[]) => `!(${w.join(' <-> ')})`),
+    ];
+    return parts.length ? parts.join(' & ') : null;
+  }
+
+  /** Подсказка: слова как есть, последнее — префикс (word:*). */
+  private toPrefixTsQuery(q: string): string | null {
+    const words = tsWords(q);
+    if (!words.length) return null;
+    words[words.length - 1] += ':*';
+    return words.join(' & ');
+  }
+
+  async search(params: SearchQuery): Promise<SearchResult> {
+    const parsed = parseSearchQuery(params.q);
+    const tsq = this.toTsQuery(parsed);
+    const limit = searchLimit(params.limit, 20, 50);
+    const { from } = decodeCursor(params.cursor ?? null);
+    const order = params.sort === 'recency' || !tsq
+      ? 'updated_at DESC, id DESC'
+      : 'score DESC, updated_at DESC, id DESC';
+
+    const sqlParams: any[] = [params.viewerId, searchTypes(params.types), tsq];
+    const filters = searchFilters(params, parsed, sqlParams);
+    sqlParams.push(limit, from, HEADLINE_OPTS);
+    const n = sqlParams.length;
+
+    const r = await this.pool.query(
+      `WITH ${VISIBLE_DOCS.replace('/*filters*/', filters)},
+       page AS (
+         SELECT type, id, created_at, updated_at, body, meta, score, count(*) OVER () AS total
+           FROM matched
+          ORDER BY ${order}
+          LIMIT $${n - 2} OFFSET $${n - 1}
+       )
+       SELECT page.*, CASE WHEN q.tsq IS NULL THEN NULL ELSE ts_headline('simple', page.body, q.tsq, $${n}) END AS headline
+         FROM page CROSS JOIN q
+        ORDER BY ${order}`,
+      sqlParams
+    );
+
+    const hits: SearchHit[] = r.rows.map((row) => ({
+      id: String(row.id),
+      type: String(row.type) as SearchType,
+      score: Number(row.score) || 0,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+      text: row.body ?? '',
+      highlight: row.headline ? String(row.headline).split(FRAGMENT_SEP).filter((f) => f.includes('<em>')) : [],
+      meta: row.meta || {},
+    }));
+
+    return {
+      hits,
+      totalApprox: Number(r.rows[0]?.total ?? 0),
+      nextCursor: nextCursor(from, hits.length, limit),
+    };
+  }
+
+  async suggest(params: SuggestQuery): Promise<SuggestResult> {
+    const tsq = this.toPrefixTsQuery(params.q);
+    const limit = searchLimit(params.limit, 8, 10);
+    if (!tsq || String(params.q).trim().length < 2) return { suggestions: [] };
+
+    const r = await this.pool.query(
+      `WITH ${VISIBLE_DOCS.replace('/*filters*/', '')}
+       SELECT type, id, body, meta FROM matched
+        ORDER BY score DESC, updated_at DESC, id DESC
+        LIMIT $4`,
+      [params.viewerId, searchTypes(params.types), tsq, limit]
+    );
+
+    return {
+      suggestions: r.rows.map((row) => {
+        const t = String(row.type) as SearchType;
+        return { type: t, text: suggestionText(t, row.body, row.meta), id: String(row.id) };
+      }),
+    };
+  }
+}
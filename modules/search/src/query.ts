@@ -0,0 +1,96 @@
+/**
+ * Мини-язык запроса поиска:
+ *   слова                 — все должны встретиться (AND)
+ *   "точная фраза"        — фраза целиком
+ *   -слово, -"фраза"      — исключить
+ *   from:@nick            — автор (ник, @ можно опустить)
+ *   in:#channel           — посты канала (slug/handle, # можно опустить)
+ *   before:2026-01-01     — создано раньше даты (ISO date/datetime)
+ *   after:2026-01-01      — создано не раньше даты
+ *   has:media             — с вложениями; has:image | has:video | has:audio | has:file — с вложением типа
+ * Оператор с невалидным значением остаётся обычным словом. Регистр операторов не важен.
+ */
+
+export const MEDIA_TYPES = ['image', 'video', 'audio', 'file'] as const;
+
+export type MediaType = (typeof MEDIA_TYPES)[number];
+
+export type ParsedQuery = {
+  words: string[];
+  phrases: string[];
+  exclude: string[];      // слова и фразы
+  from?: string;          // ник автора без @
+  in?: string;            // slug канала без #
+  before?: string;        // ISO
+  after?: string;         // ISO
+  hasMedia?: boolean;
+  mediaType?: MediaType;
+};
+
+const TOKEN_RE = /(-?)"([^"]*)"?|(\S+)/g;
+const NICK_RE = /^[\p{L}\p{N}_.-]{1,64}$/u;
+
+/** ISO date/datetime → ISO-строка; null — не дата. */
+export function parseDate(s: string | undefined | null): string | null {
+  if (!s || !/^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(s)) return null;
+  const t = Date.parse(s);
+  return Number.isFinite(t) ? new Date(t).toISOString() : null;
+}
+
+/** Слова без спецсимволов (Lucene/tsquery) — для свободного текста и исключений. */
+export function plainWords(s: string): string[] {
+  return String(s || '').match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+function applyOperator(out: ParsedQuery, key: string, value: string): boolean {
+  switch (key) {
+    case 'from': {
+      const nick = value.replace(/^@/, '');
+      if (!NICK_RE.test(nick)) return false;
+      out.from = nick;
+      return true;
+    }
+    case 'in': {
+      const slug = value.replace(/^#/, '');
+      if (!NICK_RE.test(slug)) return false;
+      out.in = slug;
+      return true;
+    }
+    case 'before':
+    case 'after': {
+      const d = parseDate(value);
+      if (!d) return false;
+      out[key] = d;
+      return true;
+    }
+    case 'has': {
+      const v = value.toLowerCase();
+      if (v === 'media') { out.hasMedia = true; return true; }
+      if ((MEDIA_TYPES as readonly string[]).includes(v)) { out.mediaType = v as MediaType; return true; }
+      return false;
+    }
+    default:
+      return false;
+  }
+}
+
+export function parseSearchQuery(q: string): ParsedQuery {
+  const out: ParsedQuery = { words: [], phrases: [], exclude: [] };
+  const s = String(q || '').slice(0, 512);
+  for (const m of s.matchAll(TOKEN_RE)) {
+    const [, neg, phrase, token] = m;
+    if (phrase !== undefined) {
+      const p = plainWords(phrase).join(' ');
+      if (p) (neg ? out.exclude : out.phrases).push(p);
+      continue;
+    }
+    const op = /^([a-z]+):(.+)$/i.exec(token);
+    if (op && applyOperator(out, op[1].toLowerCase(), op[2])) continue;
+    if (token.startsWith('-') && token.length > 1) {
+      out.exclude.push(...plainWords(token.slice(1)));
+      continue;
+    }
+    out.words.push(...plainWords(token));
+  }
+  return out;
+}
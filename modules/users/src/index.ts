@@ -1,6 +1,8 @@
 import argon2 from 'argon2';
 import postgres from 'postgres';
-import { sql } from '@db/index';
+import { sql, transaction } from '@db/index';
+import { enqueue, enqueueJob, enqueueSearch, outboxClient, topics } from '@modules/outbox';
+import { presignGetObject } from '@s3/index';
 
 const { PostgresError: DatabaseError } = postgres;
 
@@ -9,12 +11,119 @@ export type UserRecord = {
   email: string;
   password_hash: string;
   display_name: string;
+  nickname: string | null;
+  bio: string | null;
+  privacy: Partial<PrivacySettings> | null;
   roles: string[];
   avatar_media_id: string | null;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
+  deletion_scheduled_for?: string | null;
 };
 
+/**
+ * Настройки приватности (users.privacy, JSONB). Отсутствующие ключи — значения по умолчанию.
+ *  profile      — кому видны bio и аватар;
+ *  email        — кому виден email (и кто может найти пользователя по точному адресу);
+ *  discoverable — показывать ли пользователя в каталоге /v1/users;
+ *  messages     — кто может начать личный диалог (уже начатые диалоги не затрагиваются);
+ *  groupInvites — кто может добавлять в групповые беседы.
+ * contacts — пользователи, с которыми есть общий активный диалог.
+ * messages/groupInvites проверяют ConversationsService (тот же JSONB, те же значения по умолчанию).
+ */
+export type Audience = 'everyone' | 'contacts' | 'nobody';
+export type PrivacySettings = {
+  profile: Audience;
+  email: Audience;
+  discoverable: boolean;
+  messages: Audience;
+  groupInvites: Audience;
+};
+
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  profile: 'everyone', email: 'nobody', discoverable: true, messages: 'everyone', groupInvites: 'everyone',
+};
+
+const AUDIENCES: Audience[] = ['everyone', 'contacts', 'nobody'];
+
+export function normalizePrivacy(raw: unknown): PrivacySettings {
+  const p: any = raw && typeof raw === 'object' ? raw : {};
+  return {
+    profile: AUDIENCES.includes(p.profile) ? p.profile : DEFAULT_PRIVACY.profile,
+    email: AUDIENCES.includes(p.email) ? p.email : DEFAULT_PRIVACY.email,
+    discoverable: typeof p.discoverable === 'boolean' ? p.discoverable : DEFAULT_PRIVACY.discoverable,
+    messages: AUDIENCES.includes(p.messages) ? p.messages : DEFAULT_PRIVACY.messages,
+    groupInvites: AUDIENCES.includes(p.groupInvites) ? p.groupInvites : DEFAULT_PRIVACY.groupInvites,
+  };
+}
+
+/** Свой профиль (GET/PATCH /v1/users/me). */
+export type MeView = {
+  id: string;
+  email: string;
+  displayName: string;
+  nickname: string | null;
+  bio: string | null;
+  avatarMediaId: string | null;
+  roles: string[];
+  privacy: PrivacySettings;
+  createdAt: string;
+  deletionScheduledFor: string | null;
+};
+
+/** Профиль глазами другого пользователя: скрытые настройками поля — null. */
+export type ProfileView = {
+  id: string;
+  displayName: string;
+  nickname: string | null;
+  bio: string | null;
+  avatarMediaId: string | null;
+  email: string | null;
+  createdAt: string;
+};
+
+export function toMeView(u: UserRecord): MeView {
+  return {
+    id: u.id,
+    email: u.email,
+    displayName: u.display_name,
+    nickname: u.nickname ?? null,
+    bio: u.bio ?? null,
+    avatarMediaId: u.avatar_media_id ?? null,
+    roles: u.roles ?? [],
+    privacy: normalizePrivacy(u.privacy),
+    createdAt: new Date(u.created_at).toISOString(),
+    deletionScheduledFor: u.deletion_scheduled_for ? new Date(u.deletion_scheduled_for).toISOString() : null,
+  };
+}
+
+/** Применить privacy владельца к профилю; isContact — есть общий активный диалог со зрителем. */
+export function toProfileView(u: UserRecord & { is_contact?: boolean }, viewerId: string | null): ProfileView {
+  const privacy = normalizePrivacy(u.privacy);
+  const self = viewerId === u.id;
+  const allowed = (a: Audience) => self || a === 'everyone' || (a === 'contacts' && !!u.is_contact);
+  const showProfile = allowed(privacy.profile);
+  return {
+    id: u.id,
+    displayName: u.display_name,
+    nickname: u.nickname ?? null,
+    bio: showProfile ? u.bio ?? null : null,
+    avatarMediaId: showProfile ? u.avatar_media_id ?? null : null,
+    email: allowed(privacy.email) ? u.email : null,
+    createdAt: new Date(u.created_at).toISOString(),
+  };
+}
+
+function userErr(status: number, code: string): Error {
+  const e: any = new Error(code); e.statusCode = status; return e;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const NICKNAME_RE = /^[a-z0-9_]{3,32}$/i;
+const BIO_MAX = 500;
+const DISPLAY_NAME_MAX = 64;
+
 export type UserDTO = Omit<UserRecord, 'password_hash'>;
 
 function toDTO(u: UserRecord): UserDTO {
@@ -27,6 +136,37 @@ export async function getById(id: string): Promise<UserDTO | null> {
   return rows[0] ? toDTO(rows[0]) : null;
 }
 
+export async function getMe(id: string): Promise<MeView | null> {
+  const rows = await sql<UserRecord[]>`SELECT * FROM users WHERE id = ${id} AND deleted_at IS NULL LIMIT 1`;
+  return rows[0] ? toMeView(rows[0]) : null;
+}
+
+/** Признак «контакт зрителя» (общий активный диалог) для выборок из users u. */
+function isContactExpr(viewerId: string | null) {
+  if (!viewerId) return sql`false`;
+  return sql`EXISTS (
+    SELECT 1
+      FROM conversation_members a
+      JOIN conversation_members b ON b.conversation_id = a.conversation_id
+     WHERE a.user_id = ${viewerId} AND a.left_at IS NULL
+       AND b.user_id = u.id AND b.left_at IS NULL
+  )`;
+}
+
+/** Публичный профиль по id или нику с учётом privacy; удалённые — null. */
+export async function getProfile(idOrNickname: string, viewerId: string | null): Promise<ProfileView | null> {
+  const key = String(idOrNickname || '').trim().replace(/^@/, '');
+  if (!key) return null;
+  const match = UUID_RE.test(key) ? sql`u.id = ${key}` : sql`u.nickname = ${key}`;
+  const rows = await sql<(UserRecord & { is_contact: boolean })[]>`
+    SELECT u.*, ${isContactExpr(viewerId)} AS is_contact
+      FROM users u
+     WHERE ${match} AND u.deleted_at IS NULL
+     LIMIT 1
+  `;
+  return rows[0] ? toProfileView(rows[0], viewerId) : null;
+}
+
 export async function getByEmail(email: string): Promise<UserRecord | null> {
   const e = email.trim().toLowerCase();
   const rows = await sql<UserRecord[]>`SELECT * FROM users WHERE email = ${e} LIMIT 1`;
@@ -44,11 +184,15 @@ export async function createUser(input: { email: string; password: string; displ
 
   let rows: UserRecord[];
   try {
-    rows = await sql<UserRecord[]>`
-      INSERT INTO users (email, password_hash, display_name, roles)
-      VALUES (${email}, ${hash}, ${input.displayName}, ${input.roles ?? sql`'{}'::text[]`})
-      RETURNING *
-    `;
+    rows = await transaction(async (trx) => {
+      const ins = await trx<UserRecord[]>`
+        INSERT INTO users (email, password_hash, display_name, roles)
+        VALUES (${email}, ${hash}, ${input.displayName}, ${input.roles ?? sql`'{}'::text[]`})
+        RETURNING *
+      `;
+      await enqueueSearch(outboxClient(trx), 'index', { type: 'user', id: ins[0].id });
+      return ins;
+    });
   } catch (e) {
     if (
       e instanceof DatabaseError &&
@@ -63,29 +207,115 @@ export async function createUser(input: { email: string; password: string; displ
 
 export async function verifyPassword(email: string, password: string): Promise<UserRecord | null> {
   const rec = await getByEmail(email);
-  if (!rec) return null;
+  // '!…' — аккаунт без пароля (создан через OIDC)
+  if (!rec || rec.password_hash.startsWith('!')) return null;
   const ok = await argon2.verify(rec.password_hash, password);
   return ok ? rec : null;
 }
 
-export async function updateProfile(userId: string, patch: { displayName?: string; avatarMediaId?: string | null }): Promise<UserDTO | null> {
-  const dn = patch.displayName?.trim();
-  const av = patch.avatarMediaId;
-  const rows = await sql<UserRecord[]>`
-    UPDATE users
-       SET display_name = COALESCE(${dn}, display_name),
-           avatar_media_id = COALESCE(${av}::uuid, avatar_media_id),
-           updated_at = now()
-     WHERE id = ${userId}
-     RETURNING *
-  `;
-  return rows[0] ? toDTO(rows[0]) : null;
+/**
+ * Изменить свой профиль. Переданные ключи перезаписываются (null очищает nickname/bio/avatar),
+ * privacy сливается с текущими настройками. Аватар — собственное изображение из media_files;
+ * он учитывается в его ref_count (смена аватара переносит ссылку).
+ * Документ пользователя в поиске переиндексируется в той же транзакции (enqueueSearch).
+ */
+export async function updateProfile(
+  userId: string,
+  patch: {
+    displayName?: string;
+    nickname?: string | null;
+    bio?: string | null;
+    avatarMediaId?: string | null;
+    privacy?: Partial<PrivacySettings>;
+  }
+): Promise<MeView | null> {
+  const set: Record<string, unknown> = {};
+
+  if (patch.displayName !== undefined) {
+    const dn = String(patch.displayName).trim();
+    if (!dn || dn.length > DISPLAY_NAME_MAX) throw userErr(400, 'invalid_display_name');
+    set.display_name = dn;
+  }
+  if (patch.nickname !== undefined) {
+    const nick = patch.nickname === null ? null : String(patch.nickname).trim().replace(/^@/, '');
+    if (nick !== null && !NICKNAME_RE.test(nick)) throw userErr(400, 'invalid_nickname');
+    // ник в форме uuid сделал бы /v1/users/:idOrNickname неоднозначным — регулярка его и так не пропускает
+    set.nickname = nick;
+  }
+  if (patch.bio !== undefined) {
+    const bio = patch.bio === null ? null : String(patch.bio).trim();
+    if (bio !== null && bio.length > BIO_MAX) throw userErr(400, 'bio_too_long');
+    set.bio = bio || null;
+  }
+  if (patch.avatarMediaId !== undefined) {
+    const av = patch.avatarMediaId;
+    if (av !== null) {
+      if (!UUID_RE.test(String(av))) throw userErr(400, 'invalid_avatar');
+      const m = await sql`
+        SELECT 1 FROM media_files
+         WHERE id = ${av} AND owner_id = ${userId} AND mime LIKE 'image/%'
+           AND antivirus_status <> 'infected'
+         LIMIT 1
+      `;
+      if (!m.length) throw userErr(400, 'invalid_avatar');
+    }
+    set.avatar_media_id = av;
+  }
+
+  const privacyPatch = patch.privacy ? normalizePrivacyPatch(patch.privacy) : null;
+  if (!Object.keys(set).length && !privacyPatch) return getMe(userId);
+
+  try {
+    const rows = await transaction(async (trx) => {
+      const avatar = set.avatar_media_id as string | null | undefined;
+      const prev = avatar !== undefined
+        ? await trx<{ avatar_media_id: string | null }[]>`SELECT avatar_media_id FROM users WHERE id = ${userId} FOR UPDATE`
+        : [];
+      const upd = await trx<UserRecord[]>`
+        UPDATE users
+           SET ${Object.keys(set).length ? sql`${sql(set as any, Object.keys(set))},` : sql``}
+               privacy = privacy || ${sql.json((privacyPatch ?? {}) as any)},
+               updated_at = now()
+         WHERE id = ${userId} AND deleted_at IS NULL
+         RETURNING *
+      `;
+      // аватар держит ссылку на медиа (media_files.ref_count), как вложения постов и сообщений
+      const oldAvatar = prev[0]?.avatar_media_id ?? null;
+      if (upd.length && avatar !== undefined && avatar !== oldAvatar) {
+        if (avatar) await trx`UPDATE media_files SET ref_count = ref_count + 1, updated_at = now() WHERE id = ${avatar}`;
+        if (oldAvatar) await trx`UPDATE media_files SET ref_count = GREATEST(ref_count - 1, 0), updated_at = now() WHERE id = ${oldAvatar}`;
+      }
+      if (upd.length) await enqueueSearch(outboxClient(trx), 'index', { type: 'user', id: userId });
+      return upd;
+    });
+    return rows[0] ? toMeView(rows[0]) : null;
+  } catch (e: any) {
+    if (e instanceof DatabaseError && (e.code === '23505' || e.constraint_name === 'ux_users_nickname_alive')) {
+      throw userErr(409, 'nickname_taken');
+    }
+    throw e;
+  }
+}
+
+function normalizePrivacyPatch(p: Partial<PrivacySettings>): Partial<PrivacySettings> {
+  const out: Partial<PrivacySettings> = {};
+  for (const k of ['profile', 'email', 'messages', 'groupInvites'] as const) {
+    if (p[k] === undefined) continue;
+    if (!AUDIENCES.includes(p[k] as Audience)) throw userErr(400, 'invalid_privacy');
+    out[k] = p[k];
+  }
+  if (p.discoverable !== undefined) {
+    if (typeof p.discoverable !== 'boolean') throw userErr(400, 'invalid_privacy');
+    out.discoverable = p.discoverable;
+  }
+  return out;
 }
 
 export async function changePassword(userId: string, oldPassword: string, newPassword: string): Promise<boolean> {
   const rows = await sql<UserRecord[]>`SELECT * FROM users WHERE id = ${userId} LIMIT 1`;
   if (!rows.length) return false;
   const rec = rows[0];
+  if (rec.password_hash.startsWith('!')) return false;
   const ok = await argon2.verify(rec.password_hash, oldPassword);
   if (!ok) return false;
 
@@ -99,29 +329,284 @@ export async function changePassword(userId: string, oldPassword: string, newPas
   return true;
 }
 
-export async function listUsers(params: { q?: string; limit?: number; cursor?: string }): Promise<{ items: UserDTO[]; nextCursor: string | null }> {
+/**
+ * Каталог пользователей: поиск по имени/нику (подстрока) или точному email — только у тех, кто
+ * открыл email всем. Скрывает удалённых и discoverable=false; профили — с учётом privacy.
+ */
+export async function listUsers(params: { q?: string; limit?: number; cursor?: string; viewerId?: string | null }): Promise<{ items: ProfileView[]; nextCursor: string | null }> {
   const limit = Math.max(1, Math.min(Number(params.limit ?? 20), 100));
-  const q = params.q?.trim();
+  const q = params.q?.trim().replace(/^@/, '');
+  const email = params.q?.trim().toLowerCase(); // как AuthService.normalizeEmail
   const cur = decodeCursor(params.cursor);
+  const viewerId = params.viewerId ?? null;
+  const like = q ? '%' + q.replace(/[\\%_]/g, (c) => '\\' + c) + '%' : null;
 
   const where = sql`
-    1=1
-    ${q ? sql`AND (email ILIKE '%' || ${q} || '%' OR display_name ILIKE '%' || ${q} || '%')` : sql``}
-    ${cur ? sql`AND (created_at, id) < (${cur.created_at}::timestamptz, ${cur.id})` : sql``}
+    u.deleted_at IS NULL
+    AND COALESCE((u.privacy->>'discoverable')::boolean, true)
+    ${like ? sql`AND (
+      u.display_name ILIKE ${like} OR u.nickname ILIKE ${like}
+      OR (u.email = ${email!} AND u.privacy->>'email' = 'everyone')
+    )` : sql``}
+    ${cur ? sql`AND (u.created_at, u.id) < (${cur.created_at}::timestamptz, ${cur.id})` : sql``}
   `;
 
-  const rows = await sql<UserRecord[]>`
-    SELECT * FROM users
+  const rows = await sql<(UserRecord & { is_contact: boolean })[]>`
+    SELECT u.*, ${isContactExpr(viewerId)} AS is_contact
+      FROM users u
      WHERE ${where}
-     ORDER BY created_at DESC, id DESC
+     ORDER BY u.created_at DESC, u.id DESC
      LIMIT ${limit + 1}
   `;
   let nextCursor: string | null = null;
   if (rows.length > limit) {
     const last = rows[limit - 1];
-    nextCursor = encodeCursor(String(last.created_at), last.id);
+    nextCursor = encodeCursor(new Date(last.created_at).toISOString(), last.id);
   }
-  return { items: rows.slice(0, limit).map(toDTO), nextCursor };
+  return { items: rows.slice(0, limit).map((u) => toProfileView(u, viewerId)), nextCursor };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Блокировки (user_blocks, 023). Проверки в переписке — ConversationsService/MessagesService,
+// скрытие presence/typing — apps/realtime и GET /v1/presence (blockedAmong). Событие user:block уходит в rt:user
+// обеих сторон (гейтвеи сбрасывают кэш блокировок, где бы ни были подключены стороны); клиентам
+// гейтвей отдаёт его только блокирующему (data.by) — заблокированный о блокировке не узнаёт.
+// ────────────────────────────────────────────────────────────────────────────
+
+export type BlockView = { userId: string; displayName: string; nickname: string | null; createdAt: string };
+
+export async function listBlocks(userId: string, params: { limit?: number; cursor?: string } = {}): Promise<{ items: BlockView[]; nextCursor: string | null }> {
+  const limit = Math.max(1, Math.min(Number(params.limit ?? 50), 200));
+  const cur = decodeCursor(params.cursor);
+  const rows = await sql<{ blocked_id: string; display_name: string; nickname: string | null; created_at: string }[]>`
+    SELECT b.blocked_id, u.display_name, u.nickname, b.created_at
+      FROM user_blocks b
+      JOIN users u ON u.id = b.blocked_id
+     WHERE b.blocker_id = ${userId}
+       ${cur ? sql`AND (b.created_at, b.blocked_id) < (${cur.created_at}::timestamptz, ${cur.id})` : sql``}
+     ORDER BY b.created_at DESC, b.blocked_id DESC
+     LIMIT ${limit + 1}
+  `;
+  let nextCursor: string | null = null;
+  if (rows.length > limit) {
+    const last = rows[limit - 1];
+    nextCursor = encodeCursor(new Date(last.created_at).toISOString(), last.blocked_id);
+  }
+  return {
+    items: rows.slice(0, limit).map((r) => ({
+      userId: r.blocked_id,
+      displayName: r.display_name,
+      nickname: r.nickname ?? null,
+      createdAt: new Date(r.created_at).toISOString(),
+    })),
+    nextCursor,
+  };
+}
+
+/** Кто из ids в блокировке с userId (в любую сторону); id в нижнем регистре. */
+export async function blockedAmong(userId: string, ids: string[]): Promise<Set<string>> {
+  const list = ids.filter((id) => UUID_RE.test(id));
+  if (!list.length) return new Set();
+  const rows = await sql<{ id: string }[]>`
+    SELECT blocked_id AS id FROM user_blocks WHERE blocker_id = ${userId} AND blocked_id = ANY(${list})
+    UNION
+    SELECT blocker_id AS id FROM user_blocks WHERE blocked_id = ${userId} AND blocker_id = ANY(${list})
+  `;
+  return new Set(rows.map((r) => String(r.id).toLowerCase()));
+}
+
+/** Заблокировать пользователя (идемпотентно). */
+export async function blockUser(userId: string, targetId: string): Promise<{ ok: true }> {
+  if (!UUID_RE.test(String(targetId))) throw userErr(400, 'invalid_uuid');
+  if (userId === targetId) throw userErr(400, 'cannot_block_self');
+  await transaction(async (trx) => {
+    const target = await trx`SELECT 1 FROM users WHERE id = ${targetId} AND deleted_at IS NULL LIMIT 1`;
+    if (!target.length) throw userErr(404, 'user_not_found');
+    const ins = await trx`
+      INSERT INTO user_blocks (blocker_id, blocked_id) VALUES (${userId}, ${targetId})
+      ON CONFLICT DO NOTHING
+      RETURNING created_at
+    `;
+    if (!ins.length) return;
+    const out = outboxClient(trx);
+    await enqueue(out, topics.user(userId), 'user:block', { userId: targetId, action: 'blocked', by: userId });
+    await enqueue(out, topics.user(targetId), 'user:block', { userId, action: 'blocked', by: userId });
+    // acl.blocked обеих сторон — фильтр поиска (modules/search)
+    for (const id of [userId, targetId]) await enqueueSearch(out, 'index', { type: 'user', id });
+  });
+  return { ok: true };
+}
+
+export async function unblockUser(userId: string, targetId: string): Promise<{ ok: true }> {
+  if (!UUID_RE.test(String(targetId))) throw userErr(400, 'invalid_uuid');
+  await transaction(async (trx) => {
+    const del = await trx`
+      DELETE FROM user_blocks WHERE blocker_id = ${userId} AND blocked_id = ${targetId}
+      RETURNING blocked_id
+    `;
+    if (!del.length) return;
+    const out = outboxClient(trx);
+    await enqueue(out, topics.user(userId), 'user:block', { userId: targetId, action: 'unblocked', by: userId });
+    await enqueue(out, topics.user(targetId), 'user:block', { userId, action: 'unblocked', by: userId });
+    for (const id of [userId, targetId]) await enqueueSearch(out, 'index', { type: 'user', id });
+  });
+  return { ok: true };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Удаление аккаунта и выгрузка данных (024). Запрос удаления отзывает все сессии и назначает
+// deletion_scheduled_for; вход до этого момента удаление отменяет (AuthService). Обезличивание
+// и сборку архива выполняет воркер apps/workers/user-data.
+// ────────────────────────────────────────────────────────────────────────────
+
+const DELETION_GRACE_DAYS = Math.max(0, Number(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? 30));
+const EXPORT_MIN_INTERVAL_HOURS = Math.max(0, Number(process.env.USER_EXPORT_MIN_INTERVAL_HOURS ?? 24));
+const EXPORT_LINK_TTL_SEC = Math.max(60, Number(process.env.USER_EXPORT_LINK_TTL_SEC || 900));
+
+export type DeletionView = { scheduledFor: string | null };
+
+/**
+ * Запросить удаление своего аккаунта. Для аккаунтов с паролем нужен текущий пароль.
+ * Повторный запрос не сдвигает уже назначенную дату.
+ */
+export async function requestAccountDeletion(userId: string, input: { password?: string } = {}): Promise<DeletionView> {
+  const rows = await sql<UserRecord[]>`SELECT * FROM users WHERE id = ${userId} AND deleted_at IS NULL LIMIT 1`;
+  const rec = rows[0];
+  if (!rec) throw userErr(404, 'user_not_found');
+  if (!rec.password_hash.startsWith('!')) {
+    if (!input.password) throw userErr(400, 'password_required');
+    if (!(await argon2.verify(rec.password_hash, input.password))) throw userErr(403, 'invalid_password');
+  }
+
+  return transaction(async (trx) => {
+    const upd = await trx<{ deletion_scheduled_for: string }[]>`
+      UPDATE users
+         SET deletion_scheduled_for = COALESCE(deletion_scheduled_for, now_utc() + make_interval(days => ${DELETION_GRACE_DAYS})),
+             updated_at = now_utc()
+       WHERE id = ${userId} AND deleted_at IS NULL
+      RETURNING deletion_scheduled_for
+    `;
+    if (!upd.length) throw userErr(404, 'user_not_found');
+    const scheduledFor = new Date(upd[0].deletion_scheduled_for).toISOString();
+
+    await trx`
+      UPDATE auth_sessions SET revoked_at = now_utc(), revoked_reason = 'account_deletion', updated_at = now_utc()
+       WHERE user_id = ${userId} AND revoked_at IS NULL
+    `;
+    await trx`
+      INSERT INTO auth_security_events (user_id, kind, meta)
+      VALUES (${userId}, 'account_deletion_requested', ${sql.json({ scheduledFor })})
+    `;
+    await enqueueJob(outboxClient(trx), 'q:notify', {
+      userId,
+      kind: 'security',
+      title: 'Account deletion scheduled',
+      body: `Your account will be deleted on ${scheduledFor}. Sign in before then to cancel the deletion.`,
+      meta: { scheduledFor },
+    });
+    return { scheduledFor };
+  });
+}
+
+/** Отменить запрошенное удаление (то же делает любой успешный вход). */
+export async function cancelAccountDeletion(userId: string): Promise<DeletionView> {
+  await transaction(async (trx) => {
+    const upd = await trx`
+      UPDATE users SET deletion_scheduled_for = NULL, updated_at = now_utc()
+       WHERE id = ${userId} AND deleted_at IS NULL AND deletion_scheduled_for IS NOT NULL
+      RETURNING id
+    `;
+    if (upd.length) {
+      await trx`INSERT INTO auth_security_events (user_id, kind) VALUES (${userId}, 'account_deletion_cancelled')`;
+    }
+  });
+  return { scheduledFor: null };
+}
+
+export type ExportStatus = 'pending' | 'running' | 'ready' | 'failed' | 'expired';
+export type ExportView = {
+  id: string;
+  status: ExportStatus;
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  downloadUrl?: string | null;
+};
+
+type ExportRow = {
+  id: string; status: ExportStatus; storage_key: string | null; size_bytes: string | number | null; error: string | null;
+  created_at: string; completed_at: string | null; expires_at: string | null;
+};
+
+function toExportView(r: ExportRow): ExportView {
+  return {
+    id: r.id,
+    status: r.status,
+    sizeBytes: r.size_bytes == null ? null : Number(r.size_bytes),
+    error: r.error ?? null,
+    createdAt: new Date(r.created_at).toISOString(),
+    completedAt: r.completed_at ? new Date(r.completed_at).toISOString() : null,
+    expiresAt: r.expires_at ? new Date(r.expires_at).toISOString() : null,
+  };
+}
+
+/**
+ * Заказать выгрузку данных: строка user_data_exports + задание q:user.export в одной транзакции.
+ * Одна незавершённая выгрузка на пользователя (409), не чаще USER_EXPORT_MIN_INTERVAL_HOURS (429).
+ */
+export async function requestExport(userId: string): Promise<ExportView> {
+  return transaction(async (trx) => {
+    // сериализуем параллельные запросы одного пользователя
+    const me = await trx`SELECT 1 FROM users WHERE id = ${userId} AND deleted_at IS NULL FOR UPDATE`;
+    if (!me.length) throw userErr(404, 'user_not_found');
+
+    const active = await trx`SELECT 1 FROM user_data_exports WHERE user_id = ${userId} AND status IN ('pending','running') LIMIT 1`;
+    if (active.length) throw userErr(409, 'export_in_progress');
+    const recent = await trx`
+      SELECT 1 FROM user_data_exports
+       WHERE user_id = ${userId} AND status IN ('ready','expired')
+         AND created_at > now_utc() - make_interval(hours => ${EXPORT_MIN_INTERVAL_HOURS})
+       LIMIT 1
+    `;
+    if (recent.length) throw userErr(429, 'export_rate_limited');
+
+    const ins = await trx<ExportRow[]>`
+      INSERT INTO user_data_exports (user_id) VALUES (${userId})
+      RETURNING id, status, storage_key, size_bytes, error, created_at, completed_at, expires_at
+    `;
+    await enqueueJob(outboxClient(trx), 'q:user.export', { exportId: ins[0].id, userId });
+    return toExportView(ins[0]);
+  });
+}
+
+export async function listExports(userId: string): Promise<{ items: ExportView[] }> {
+  const rows = await sql<ExportRow[]>`
+    SELECT id, status, storage_key, size_bytes, error, created_at, completed_at, expires_at
+      FROM user_data_exports
+     WHERE user_id = ${userId}
+     ORDER BY created_at DESC
+     LIMIT 20
+  `;
+  return { items: rows.map(toExportView) };
+}
+
+/** Выгрузка по id; для готовой — короткоживущая пресайн-ссылка на архив. */
+export async function getExport(userId: string, exportId: string): Promise<ExportView | null> {
+  if (!UUID_RE.test(String(exportId))) return null;
+  const rows = await sql<ExportRow[]>`
+    SELECT id, status, storage_key, size_bytes, error, created_at, completed_at, expires_at
+      FROM user_data_exports
+     WHERE id = ${exportId} AND user_id = ${userId}
+     LIMIT 1
+  `;
+  const r = rows[0];
+  if (!r) return null;
+  const view = toExportView(r);
+  const live = r.status === 'ready' && r.storage_key && (!r.expires_at || new Date(r.expires_at).getTime() > Date.now());
+  view.downloadUrl = live ? await presignGetObject(r.storage_key!, { ttlSeconds: EXPORT_LINK_TTL_SEC }) : null;
+  return view;
 }
 
 function decodeCursor(c?: string | null): { created_at: string; id: string } | null {
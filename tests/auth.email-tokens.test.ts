@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const jobs = vi.hoisted(() => [] as any[]);
+
+vi.mock('pg', () => ({ Pool: class {}, DatabaseError: class extends Error {} }));
+vi.mock('argon2', () => ({ hash: async () => 'hashed-password', verify: async () => true, argon2id: 0 }));
+vi.mock('jose', () => ({ SignJWT: class {}, jwtVerify: async () => ({ payload: {} }) }));
+vi.mock('@modules/outbox', async () => ({
+  ...(await import('../modules/outbox/src')),
+  enqueue: async () => {},
+  enqueueJob: async (_cli: any, stream: string, payload: any) => { jobs.push({ stream, payload }); },
+  topics: { user: (id: string) => `rt:user:${id}` },
+}));
+import { AuthService } from '../modules/auth/src';
+
+const UID = '22222222-2222-2222-2222-222222222222';
+
+/** handlers: [regexp, result] — первый совпавший отвечает на запрос. */
+function fakePool(handlers: Array<[RegExp, any]>) {
+  const sql: Array<{ text: string; params: any[] }> = [];
+  const cli = {
+    query: async (text: string, params: any[] = []) => {
+      sql.push({ text, params });
+      const h = handlers.find(([re]) => re.test(text));
+      return h ? h[1] : { rowCount: 0, rows: [] };
+    },
+    release: () => {},
+  };
+  return { sql, connect: async () => cli };
+}
+
+const env = { AUTH_JWT_SECRET: 'a'.repeat(32), APP_PUBLIC_URL: 'https://app.example' } as any;
+
+describe('AuthService password reset', () => {
+  beforeEach(() => { jobs.length = 0; });
+
+  it('queues a reset mail with a link whose token is stored only as a hash', async () => {
+    const pool = fakePool([
+      [/SELECT id, email FROM users/, { rowCount: 1, rows: [{ id: UID, email: 'a@example.com' }] }],
+      [/SELECT count\(\*\)/, { rowCount: 1, rows: [{ n: 0 }] }],
+    ]);
+    await new AuthService(pool as any, env).requestPasswordReset(' A@Example.com ');
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({ stream: 'q:notify', payload: { userId: UID, to: 'a@example.com', kind: 'auth.password_reset' } });
+    const token = /reset-password\?token=([\w-]+)/.exec(jobs[0].payload.body)![1];
+    const insert = pool.sql.find((q) => /INSERT INTO auth_email_tokens/.test(q.text))!;
+    expect(insert.params[2]).toMatch(/^[0-9a-f]{64}$/);
+    expect(insert.params).not.toContain(token);
+  });
+
+  it('stays silent for unknown addresses and over the rate limit', async () => {
+    const unknown = fakePool([]);
+    await expect(new AuthService(unknown as any, env).requestPasswordReset('nobody@example.com')).resolves.toEqual({ ok: true });
+
+    const limited = fakePool([
+      [/SELECT id, email FROM users/, { rowCount: 1, rows: [{ id: UID, email: 'a@example.com' }] }],
+      [/SELECT count\(\*\)/, { rowCount: 1, rows: [{ n: 3 }] }],
+    ]);
+    await expect(new AuthService(limited as any, env).requestPasswordReset('a@example.com')).resolves.toEqual({ ok: true });
+    expect(jobs).toHaveLength(0);
+    expect(limited.sql.some((q) => /INSERT INTO auth_email_tokens/.test(q.text))).toBe(false);
+  });
+
+  it('sets the password and revokes every session for a valid token', async () => {
+    const pool = fakePool([
+      [/UPDATE auth_email_tokens SET used_at = now_utc\(\)\s+WHERE token_hash/, { rowCount: 1, rows: [{ user_id: UID, email: 'a@example.com' }] }],
+      [/UPDATE users/, { rowCount: 1, rows: [{ id: UID }] }],
+      [/UPDATE auth_sessions/, { rowCount: 2, rows: [] }],
+    ]);
+    await new AuthService(pool as any, env).resetPassword({ token: 'tok', password: 'new-password' });
+
+    const revoke = pool.sql.find((q) => /UPDATE auth_sessions/.test(q.text))!;
+    expect(revoke.text).toMatch(/revoked_reason = 'password_reset'/);
+    expect(revoke.params).toEqual([UID]);
+    expect(pool.sql.some((q) => /INSERT INTO auth_security_events/.test(q.text))).toBe(true);
+    const upd = pool.sql.find((q) => /UPDATE users/.test(q.text))!;
+    expect(upd.text).toMatch(/WHERE id = \$1 AND email = \$3/);
+    expect(upd.params).toEqual([UID, expect.any(String), 'a@example.com']);
+  });
+
+  it('rejects used or expired tokens', async () => {
+    const pool = fakePool([]);
+    const err = await new AuthService(pool as any, env).resetPassword({ token: 'tok', password: 'new-password' }).catch((e) => e);
+    expect(err.statusCode).toBe(400);
+    expect(err.message).toBe('invalid_token');
+    expect(pool.sql.some((q) => /UPDATE auth_sessions/.test(q.text))).toBe(false);
+  });
+});
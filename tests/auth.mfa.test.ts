@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('pg', () => ({ Pool: class {}, DatabaseError: class extends Error {} }));
+vi.mock('argon2', () => ({ hash: async () => '', verify: async () => true, argon2id: 0 }));
+vi.mock('jose', () => ({
+  SignJWT: class {
+    constructor(private payload: any) {}
+    setProtectedHeader() { return this; }
+    setSubject(sub: string) { this.payload.sub = sub; return this; }
+    setIssuedAt() { return this; }
+    setIssuer() { return this; }
+    setAudience(aud: string) { this.payload.aud = aud; return this; }
+    setExpirationTime() { return this; }
+    async sign() { return Buffer.from(JSON.stringify(this.payload)).toString('base64url'); }
+  },
+  jwtVerify: async (token: string, _k: any, opts: any) => {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString());
+    if (payload.aud !== opts.audience) throw new Error('aud');
+    return { payload };
+  },
+}));
+vi.mock('@modules/outbox', async () => ({ ...(await import('../modules/outbox/src')), enqueue: async () => {}, enqueueJob: async () => {}, topics: { user: (id: string) => `rt:user:${id}` } }));
+import { AuthService } from '../modules/auth/src';
+import { base32Encode, hotp, verifyTotp, otpauthUri } from '../modules/auth/src/totp';
+
+const UID = '22222222-2222-2222-2222-222222222222';
+const env = { AUTH_JWT_SECRET: 'a'.repeat(32) } as any;
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 SHA-1 test vector and builds an otpauth URI', () => {
+    const secret = base32Encode(Buffer.from('12345678901234567890'));
+    expect(hotp(Buffer.from('12345678901234567890'), 1)).toBe('287082');
+    expect(verifyTotp(secret, '287082', { nowMs: 59_000 })).toBe(1);
+    expect(verifyTotp(secret, '287082', { nowMs: 59_000 + 5 * 30_000 })).toBeNull();
+    expect(otpauthUri(secret, 'a@example.com', 'Messenger')).toBe(
+      `otpauth://totp/Messenger%3Aa%40example.com?secret=${secret}&issuer=Messenger&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
+
+describe('AuthService two-step login', () => {
+  it('returns an MFA challenge instead of tokens when TOTP is enabled', async () => {
+    const pool = {
+      query: async () => ({ rowCount: 1, rows: [{ id: UID, email: 'a@example.com', password_hash: 'h', display_name: 'A', roles: [], email_verified_at: 'x', mfa_enabled: true }] }),
+    };
+    const res: any = await new AuthService(pool as any, env).login({ email: 'a@example.com', password: 'pw' });
+    expect(res.mfaRequired).toBe(true);
+    expect(res.tokens).toBeUndefined();
+    // челлендж не годится как access-токен
+    await expect(new AuthService(pool as any, env).verifyAccessJwt(res.mfaToken)).rejects.toThrow();
+  });
+
+  it('counts a wrong code as a failed attempt and commits it', async () => {
+    const sql: string[] = [];
+    const cli = {
+      query: async (text: string) => {
+        sql.push(text);
+        if (/FROM auth_mfa_totp WHERE user_id/.test(text)) {
+          return { rowCount: 1, rows: [{ secret_enc: 'v1.x.y.z', last_used_step: null, failed_attempts: 4, locked_until: null }] };
+        }
+        return { rowCount: 0, rows: [] };
+      },
+      release: () => {},
+    };
+    const svc = new AuthService({ connect: async () => cli } as any, env);
+    const err = await svc.disableMfa(UID, { recoveryCode: 'aaaa-bbbb' }).catch((e) => e);
+    expect(err.statusCode).toBe(401);
+    expect(err.message).toBe('invalid_mfa_code');
+    expect(sql.some((q) => /locked_until = CASE WHEN/.test(q))).toBe(true);
+    expect(sql).toContain('COMMIT');
+    expect(sql.some((q) => /DELETE FROM auth_mfa_totp/.test(q))).toBe(false);
+  });
+});
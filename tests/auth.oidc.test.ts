@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+
+vi.mock('pg', () => ({ Pool: class {}, DatabaseError: class extends Error {} }));
+vi.mock('argon2', () => ({ hash: async () => '', verify: async () => true, argon2id: 0 }));
+vi.mock('jose', () => ({
+  SignJWT: class {
+    constructor(private payload: any) {}
+    setProtectedHeader() { return this; }
+    setSubject(sub: string) { this.payload.sub = sub; return this; }
+    setIssuedAt() { return this; }
+    setIssuer() { return this; }
+    setAudience() { return this; }
+    setExpirationTime() { return this; }
+    async sign() { return Buffer.from(JSON.stringify(this.payload)).toString('base64url'); }
+  },
+  createRemoteJWKSet: () => ({}),
+  // подпись не проверяем: mock-провайдер отдаёт base64url(JSON) вместо JWS
+  jwtVerify: async (token: string, _k: any, opts: any) => {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString());
+    if (payload.iss !== opts.issuer || payload.aud !== opts.audience) throw new Error('claims');
+    return { payload };
+  },
+}));
+vi.mock('@modules/outbox', async () => ({ ...(await import('../modules/outbox/src')), enqueue: async () => {}, enqueueJob: async () => {}, enqueueSearch: async () => {}, topics: { user: (id: string) => `rt:user:${id}` } }));
+import { AuthService } from '../modules/auth/src';
+import { OidcClient } from '../modules/auth/src/oidc';
+
+const UID = '33333333-3333-3333-3333-333333333333';
+
+let server: Server;
+let issuer: string;
+let idClaims: Record<string, any> = {};
+let tokenRequest: URLSearchParams | null = null;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    if (req.url === '/.well-known/openid-configuration') {
+      return res.end(JSON.stringify({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      }));
+    }
+    if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        tokenRequest = new URLSearchParams(body);
+        const idToken = Buffer.from(JSON.stringify({ iss: issuer, aud: 'client-1', ...idClaims })).toString('base64url');
+        res.end(JSON.stringify({ access_token: 'at', token_type: 'Bearer', id_token: idToken }));
+      });
+      return;
+    }
+    res.statusCode = 404;
+    res.end('{}');
+  });
+  await new Promise<void>((r) => server.listen(0, '127.0.0.1', r));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+const cfg = () => ({
+  id: 'mock', issuer, clientId: 'client-1', clientSecret: null,
+  redirectUri: 'http://app.local/cb', scopes: 'openid email', trustEmail: false,
+});
+
+describe('OidcClient', () => {
+  it('refuses http issuers unless explicitly allowed', async () => {
+    const err = await new OidcClient(cfg()).authorizationUrl({ state: 's', nonce: 'n', codeChallenge: 'c' }).catch((e) => e);
+    expect(err.message).toBe('oidc_issuer_must_be_https');
+  });
+
+  it('builds a PKCE authorization URL and checks the nonce of the ID token', async () => {
+    const client = new OidcClient(cfg(), { allowInsecure: true });
+    const url = new URL(await client.authorizationUrl({ state: 'st', nonce: 'n1', codeChallenge: 'ch' }));
+    expect(url.pathname).toBe('/authorize');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('state')).toBe('st');
+
+    idClaims = { sub: 'ext-1', nonce: 'n1', email: 'Bob@Example.com', email_verified: true, name: 'Bob' };
+    await expect(client.exchange('code-1', 'verifier-1', 'n1')).resolves.toEqual({
+      subject: 'ext-1', email: 'bob@example.com', emailVerified: true, name: 'Bob',
+    });
+    expect(tokenRequest?.get('code_verifier')).toBe('verifier-1');
+
+    const err = await client.exchange('code-2', 'verifier-2', 'other-nonce').catch((e) => e);
+    expect(err.statusCode).toBe(401);
+    expect(err.message).toBe('oidc_invalid_id_token');
+  });
+});
+
+describe('AuthService.oidcCallback', () => {
+  const env = () => ({
+    AUTH_JWT_SECRET: 'a'.repeat(32),
+    OIDC_PROVIDERS: 'mock',
+    OIDC_MOCK_ISSUER: issuer,
+    OIDC_MOCK_CLIENT_ID: 'client-1',
+    OIDC_MOCK_REDIRECT_URI: 'http://app.local/cb',
+    OIDC_ALLOW_INSECURE: 'true',
+  }) as any;
+
+  const browserKey = 'browser-key-1';
+  const stateRow = {
+    code_verifier: 'v', nonce: 'n2', user_id: null as string | null, expires_at: new Date(Date.now() + 60_000),
+    browser_hash: createHash('sha256').update(browserKey).digest('hex'),
+  };
+
+  it('creates a passwordless account for an unknown subject and signs it in', async () => {
+    idClaims = { sub: 'ext-2', nonce: 'n2', email: 'new@example.com', email_verified: true };
+    const sql: string[] = [];
+    const query = async (text: string, params: any[] = []) => {
+      sql.push(text);
+      if (/DELETE FROM auth_oidc_states/.test(text)) return { rowCount: 1, rows: [stateRow] };
+      if (/INSERT INTO users/.test(text)) {
+        expect(String(params[1])).toMatch(/^!oidc:/);
+        return { rowCount: 1, rows: [{ id: UID }] };
+      }
+      if (/INSERT INTO user_identities/.test(text)) return { rowCount: 1, rows: [{ id: 'i1', provider: 'mock', email: 'new@example.com' }] };
+      if (/FROM users u/.test(text)) {
+        return { rowCount: 1, rows: [{ id: UID, email: 'new@example.com', display_name: 'new', roles: [], email_verified_at: 'x', mfa_enabled: false }] };
+      }
+      if (/INSERT INTO auth_sessions/.test(text)) return { rowCount: 1, rows: [{ id: 'sess-1' }] };
+      return { rowCount: 0, rows: [] };
+    };
+    const cli = { query, release: () => {} };
+    const svc = new AuthService({ query, connect: async () => cli } as any, env());
+    const res: any = await svc.oidcCallback('mock', { code: 'c', state: 'st', browserKey });
+    expect(res.user.id).toBe(UID);
+    expect(res.tokens.accessToken).toBeTruthy();
+    expect(sql).toContain('COMMIT');
+  });
+
+  it('does not take over an existing account with the same email', async () => {
+    idClaims = { sub: 'ext-3', nonce: 'n2', email: 'taken@example.com', email_verified: true };
+    const query = async (text: string) => {
+      if (/DELETE FROM auth_oidc_states/.test(text)) return { rowCount: 1, rows: [stateRow] };
+      if (/SELECT id FROM users WHERE email/.test(text)) return { rowCount: 1, rows: [{ id: UID }] };
+      return { rowCount: 0, rows: [] };
+    };
+    const cli = { query, release: () => {} };
+    const svc = new AuthService({ query, connect: async () => cli } as any, env());
+    const err = await svc.oidcCallback('mock', { code: 'c', state: 'st', browserKey }).catch((e) => e);
+    expect(err.statusCode).toBe(409);
+    expect(err.message).toBe('account_exists');
+  });
+
+  it('accepts a state only from the browser and the user that started the flow', async () => {
+    const other = '44444444-4444-4444-4444-444444444444';
+    const sql: string[] = [];
+    const query = async (text: string) => {
+      sql.push(text);
+      if (/DELETE FROM auth_oidc_states/.test(text)) return { rowCount: 1, rows: [{ ...stateRow, user_id: UID }] };
+      return { rowCount: 0, rows: [] };
+    };
+    const svc = new AuthService({ query, connect: async () => ({ query, release: () => {} }) } as any, env());
+
+    const noKey = await svc.oidcCallback('mock', { code: 'c', state: 'st', viewerId: UID }).catch((e) => e);
+    expect(noKey.statusCode).toBe(400);
+    expect(noKey.message).toBe('invalid_oidc_state');
+
+    const wrongKey = await svc.oidcCallback('mock', { code: 'c', state: 'st', browserKey: 'forged', viewerId: UID }).catch((e) => e);
+    expect(wrongKey.message).toBe('invalid_oidc_state');
+
+    for (const viewerId of [undefined, other]) {
+      const err = await svc.oidcCallback('mock', { code: 'c', state: 'st', browserKey, viewerId }).catch((e) => e);
+      expect(err.statusCode).toBe(403);
+      expect(err.message).toBe('oidc_link_user_mismatch');
+    }
+    expect(sql.some((t) => /user_identities/.test(t))).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const events = vi.hoisted(() => ({ rt: [] as any[], jobs: [] as any[] }));
+
+vi.mock('pg', () => ({ Pool: class {}, DatabaseError: class extends Error {} }));
+vi.mock('argon2', () => ({ hash: async () => '', verify: async () => true, argon2id: 0 }));
+vi.mock('jose', () => ({
+  SignJWT: class {
+    setProtectedHeader() { return this; }
+    setSubject() { return this; }
+    setIssuedAt() { return this; }
+    setIssuer() { return this; }
+    setAudience() { return this; }
+    setExpirationTime() { return this; }
+    async sign() { return 'access'; }
+  },
+  jwtVerify: async () => ({ payload: {} }),
+}));
+vi.mock('@modules/outbox', async () => ({
+  ...(await import('../modules/outbox/src')),
+  enqueue: async (_cli: any, topic: string, event: string, data: any) => { events.rt.push({ topic, event, data }); },
+  enqueueJob: async (_cli: any, stream: string, payload: any) => { events.jobs.push({ stream, payload }); },
+  topics: { user: (id: string) => `rt:user:${id}` },
+}));
+import { AuthService } from '../modules/auth/src';
+
+const UID = '22222222-2222-2222-2222-222222222222';
+const FAMILY = '44444444-4444-4444-4444-444444444444';
+
+function fakePool(session: Record<string, any>) {
+  const sql: string[] = [];
+  const cli = {
+    query: async (text: string) => {
+      sql.push(text);
+      if (/FROM auth_sessions\s+WHERE refresh_hash/.test(text)) return { rowCount: 1, rows: [session] };
+      if (/WITH new_sess/.test(text)) return { rowCount: 1, rows: [{ new_id: 'new-session' }] };
+      if (/WHERE family_id = \$1/.test(text)) return { rowCount: 3, rows: [] };
+      return { rowCount: 0, rows: [] };
+    },
+    release: () => {},
+  };
+  return { sql, connect: async () => cli };
+}
+
+const env = { AUTH_JWT_SECRET: 'a'.repeat(32) } as any;
+const future = new Date(Date.now() + 3600_000).toISOString();
+
+describe('AuthService.refresh reuse detection', () => {
+  it('rotates an active session within its family', async () => {
+    const pool = fakePool({ id: 's1', user_id: UID, family_id: FAMILY, revoked_at: null, replaced_by: null, expires_at: future });
+    const t = await new AuthService(pool as any, env).refresh({ refreshToken: 'tok' });
+    expect(t.sessionId).toBe('new-session');
+    const rotate = pool.sql.find((q) => /WITH new_sess/.test(q))!;
+    expect(rotate).toMatch(/revoked_reason = 'rotated'/);
+    expect(pool.sql).toContain('COMMIT');
+  });
+
+  it('revokes the family, audits and alerts when a rotated token is replayed', async () => {
+    events.rt.length = 0; events.jobs.length = 0;
+    const pool = fakePool({ id: 's1', user_id: UID, family_id: FAMILY, revoked_at: future, replaced_by: 's2', expires_at: future });
+    const err = await new AuthService(pool as any, env).refresh({ refreshToken: 'tok', ipAddress: '203.0.113.7' }).catch((e) => e);
+
+    expect(err.statusCode).toBe(401);
+    expect(err.message).toBe('refresh_reused');
+    expect(pool.sql.some((q) => /reuse_detected/.test(q) && /family_id = \$1/.test(q))).toBe(true);
+    expect(pool.sql.some((q) => /INSERT INTO auth_security_events/.test(q))).toBe(true);
+    expect(pool.sql).toContain('COMMIT'); // отзыв не откатывается вместе с ошибкой
+    expect(events.rt[0]).toMatchObject({ topic: `rt:user:${UID}`, event: 'user:notification', data: { kind: 'security' } });
+    expect(events.jobs[0]).toMatchObject({ stream: 'q:notify', payload: { userId: UID, kind: 'security' } });
+  });
+
+  it('does not rotate the session of a banned user', async () => {
+    const session = { id: 's1', user_id: UID, family_id: FAMILY, revoked_at: null, replaced_by: null, expires_at: future };
+    let banned = true;
+    const sql: string[] = [];
+    const cli = {
+      query: async (text: string) => {
+        sql.push(text);
+        if (/FROM auth_sessions\s+WHERE refresh_hash/.test(text)) return { rowCount: 1, rows: [session] };
+        if (/LEFT JOIN user_bans/.test(text)) return { rowCount: 1, rows: [{ roles: ['moderator'], banned }] };
+        if (/WITH new_sess/.test(text)) return { rowCount: 1, rows: [{ new_id: 'new-session' }] };
+        return { rowCount: 0, rows: [] };
+      },
+      release: () => {},
+    };
+    const svc = new AuthService({ connect: async () => cli } as any, env);
+    const err = await svc.refresh({ refreshToken: 'tok' }).catch((e) => e);
+    expect(err).toMatchObject({ statusCode: 403, message: 'user_banned' });
+    expect(sql.some((q) => /WITH new_sess/.test(q))).toBe(false);
+    expect(sql).toContain('ROLLBACK');
+
+    banned = false;
+    await expect(svc.refresh({ refreshToken: 'tok' })).resolves.toMatchObject({ sessionId: 'new-session' });
+  });
+});
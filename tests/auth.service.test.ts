@@ -20,6 +20,7 @@ vi.mock('jose', () => {
   }
   return { SignJWT: SignJWTStub, jwtVerify };
 });
+vi.mock('@modules/outbox', async () => ({ ...(await import('../modules/outbox/src')), enqueue: async () => {}, enqueueJob: async () => {}, topics: {} }));
 import { AuthService } from '../modules/auth/src';
 
 describe('AuthService.signAccessJwt', () => {
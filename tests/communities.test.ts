@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const state = vi.hoisted(() => ({
+  queries: [] as { text: string; values: unknown[] }[],
+  community: null as any,
+  membership: null as any,
+  invite: null as any,
+}));
+
+vi.mock('@db/index', () => {
+  const sql: any = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const text = strings.join('?');
+    state.queries.push({ text, values });
+    if (/FROM communities WHERE id = \?/.test(text)) return state.community ? [state.community] : [];
+    if (/FROM community_members WHERE community_id = \? AND user_id = \?/.test(text)) return state.membership ? [state.membership] : [];
+    if (/FROM community_invites i/.test(text)) return state.invite ? [state.invite] : [];
+    if (/INSERT INTO community_members/.test(text)) {
+      return [{ community_id: values[0], user_id: values[1], role: values[2], status: /'active'\)/.test(text) ? 'active' : values[3] }];
+    }
+    return [];
+  };
+  return { sql, transaction: async (fn: (trx: unknown) => unknown) => fn(sql) };
+});
+
+import { canPost, joinCommunity, joinByInvite } from '../modules/communities/src';
+
+const CID = '0123456789abcdef0123456789abcdef';
+const USER = '11111111-1111-1111-1111-111111111111';
+
+describe('communities', () => {
+  beforeEach(() => {
+    state.queries.length = 0;
+    state.community = { id: CID, kind: 'group', is_public: true, posting_policy: 'owners' };
+    state.membership = null;
+    state.invite = null;
+  });
+
+  it('applies posting_policy', () => {
+    const owners = { posting_policy: 'owners' as const };
+    const members = { posting_policy: 'members' as const };
+    expect(canPost(owners, { role: 'admin', status: 'active' })).toBe(true);
+    expect(canPost(owners, { role: 'member', status: 'active' })).toBe(false);
+    expect(canPost(members, { role: 'member', status: 'active' })).toBe(true);
+    expect(canPost(members, { role: 'subscriber', status: 'active' })).toBe(false);
+    expect(canPost(members, { role: 'member', status: 'pending' })).toBe(false);
+    expect(canPost(members, null)).toBe(false);
+  });
+
+  it('turns a join into a pending request for non-public communities', async () => {
+    await expect(joinCommunity(CID, USER)).resolves.toMatchObject({ role: 'member', status: 'active' });
+
+    state.community.is_public = false;
+    await expect(joinCommunity(CID, USER)).resolves.toMatchObject({ status: 'pending' });
+
+    // повторная заявка не перезаписывает существующую
+    state.membership = { community_id: CID, user_id: USER, role: 'member', status: 'pending' };
+    state.queries.length = 0;
+    await joinCommunity(CID, USER);
+    expect(state.queries.some((q) => /INSERT INTO community_members/.test(q.text))).toBe(false);
+
+    state.membership.status = 'banned';
+    await expect(joinCommunity(CID, USER)).rejects.toThrow('banned');
+  });
+
+  it('rejects revoked, expired and used-up invites without consuming them', async () => {
+    const base = { code: 'c'.repeat(22), community_id: CID, kind: 'group', revoked_at: null, expires_at: null, max_uses: null, uses: 0 };
+    for (const inv of [
+      null,
+      { ...base, revoked_at: '2026-01-01T00:00:00Z' },
+      { ...base, expires_at: new Date(Date.now() - 1000).toISOString() },
+      { ...base, max_uses: 3, uses: 3 },
+    ]) {
+      state.invite = inv;
+      await expect(joinByInvite(base.code, USER)).rejects.toThrow('invite_invalid');
+    }
+    expect(state.queries.some((q) => /uses = uses \+ 1/.test(q.text))).toBe(false);
+  });
+
+  it('joins by invite as active and counts the use once', async () => {
+    state.community.is_public = false;
+    state.invite = { code: 'c'.repeat(22), community_id: CID, kind: 'channel', revoked_at: null, expires_at: null, max_uses: 5, uses: 1 };
+    await expect(joinByInvite(state.invite.code, USER)).resolves.toMatchObject({ role: 'subscriber', status: 'active' });
+    expect(state.queries.filter((q) => /uses = uses \+ 1/.test(q.text))).toHaveLength(1);
+
+    // уже участник — использование не списывается
+    state.membership = { community_id: CID, user_id: USER, role: 'subscriber', status: 'active' };
+    state.queries.length = 0;
+    await joinByInvite(state.invite.code, USER);
+    expect(state.queries.some((q) => /uses = uses \+ 1/.test(q.text))).toBe(false);
+  });
+});
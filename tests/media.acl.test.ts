@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// zod: цепочки схем → parse возвращает вход как есть
+vi.mock('zod', () => {
+  const schema: any = new Proxy(function () {}, {
+    get: (_t, prop) => (prop === 'parse' ? (v: any) => v : schema),
+    apply: () => schema,
+  });
+  return { z: schema };
+});
+
+const state = vi.hoisted(() => ({
+  queries: [] as string[],
+  grant: { via_message: false, via_post: false, via_avatar: false },
+  cache: new Map<string, string>(),
+}));
+
+vi.mock('@db/index', () => {
+  const sql = async (strings: TemplateStringsArray) => {
+    const text = strings.join('?');
+    state.queries.push(text);
+    if (/FROM media_files/.test(text)) return [{ storage_key: 'k/orig', created_by: 'owner' }];
+    if (/via_message/.test(text)) return [state.grant];
+    return [];
+  };
+  return { sql, transaction: async () => [] };
+});
+vi.mock('@s3/index', () => ({ presignGetObject: async (key: string) => `https://s3.local/${key}` }));
+vi.mock('@redis/index', () => ({
+  redis: {
+    get: async (k: string) => state.cache.get(k) ?? null,
+    set: async (k: string, v: string) => { state.cache.set(k, v); return 'OK'; },
+  },
+}));
+
+import { getPresignedOriginal } from '../modules/media';
+
+describe('media ACL', () => {
+  beforeEach(() => {
+    state.queries.length = 0;
+    state.cache.clear();
+    state.grant = { via_message: false, via_post: false, via_avatar: false };
+  });
+
+  it('lets the uploader through without resolving references', async () => {
+    const out = await getPresignedOriginal({ mediaId: 'm1', requesterId: 'owner' });
+    expect(out.url).toBe('https://s3.local/k/orig');
+    expect(state.queries.some((q) => /via_message/.test(q))).toBe(false);
+  });
+
+  it('grants conversation members and caches the decision', async () => {
+    state.grant.via_message = true;
+    await getPresignedOriginal({ mediaId: 'm1', requesterId: 'peer' });
+    expect(state.cache.get('media:acl:m1:peer')).toBe('1');
+
+    state.queries.length = 0;
+    await getPresignedOriginal({ mediaId: 'm1', requesterId: 'peer' });
+    expect(state.queries.some((q) => /via_message/.test(q))).toBe(false);
+  });
+
+  it('rejects requesters without any reference', async () => {
+    const err = await getPresignedOriginal({ mediaId: 'm1', requesterId: 'stranger' }).catch((e) => e);
+    expect(err.code).toBe('FORBIDDEN');
+    expect(state.cache.get('media:acl:m1:stranger')).toBe('0');
+  });
+});
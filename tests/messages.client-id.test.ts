@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('pg', () => ({ Pool: class {} }));
+vi.mock('@modules/outbox', () => ({
+  enqueue: async () => {},
+  enqueueJob: async () => {},
+  topics: { conv: (id: string) => `rt:conv:${id}`, user: (id: string) => `rt:user:${id}` },
+}));
+import { MessagesService } from '../modules/messages/src';
+
+const CID = '11111111-1111-1111-1111-111111111111';
+const UID = '22222222-2222-2222-2222-222222222222';
+const MID = '33333333-3333-3333-3333-333333333333';
+
+function fakePool(existing: { id: string; created_at: string } | null) {
+  const sql: string[] = [];
+  const pool = {
+    sql,
+    query: async (text: string) => {
+      sql.push(text);
+      if (/FROM conversation_members/.test(text)) return { rowCount: 1, rows: [{ role: 'member' }] };
+      if (/client_id = \$3/.test(text)) return existing ? { rowCount: 1, rows: [existing] } : { rowCount: 0, rows: [] };
+      return { rowCount: 0, rows: [] };
+    },
+    connect: async () => { throw new Error('unexpected transaction'); },
+  };
+  return pool;
+}
+
+describe('MessagesService client ids', () => {
+  it('returns the original message for a repeated clientId without inserting', async () => {
+    const pool = fakePool({ id: MID, created_at: '2026-01-01T00:00:00.000Z' });
+    const svc = new MessagesService(pool as any);
+    const out = await svc.sendText({ conversationId: CID, authorId: UID, text: 'hi', clientId: 'c-1' });
+    expect(out).toEqual({ id: MID, createdAt: '2026-01-01T00:00:00.000Z', duplicate: true });
+    expect(pool.sql.some((q) => /INSERT INTO messages/.test(q))).toBe(false);
+  });
+
+  it('rejects malformed clientId', async () => {
+    const svc = new MessagesService(fakePool(null) as any);
+    await expect(svc.sendText({ conversationId: CID, authorId: UID, text: 'hi', clientId: 'bad id!' }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'invalid_client_id' });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('pg', () => ({ Pool: class {} }));
+vi.mock('@modules/outbox', () => ({
+  enqueue: async () => {},
+  enqueueJob: async () => {},
+  topics: { conv: (id: string) => `rt:conv:${id}`, user: (id: string) => `rt:user:${id}` },
+}));
+import { extractMentions } from '../modules/messages/src';
+
+describe('extractMentions', () => {
+  it('finds @nicknames and normalizes case', () => {
+    expect(extractMentions('hi @Alice and @bob_42!')).toEqual(['alice', 'bob_42']);
+  });
+
+  it('dedupes and ignores emails / too short handles', () => {
+    expect(extractMentions('@alice @ALICE mail me: x@example.com, @ab')).toEqual(['alice']);
+  });
+
+  it('handles empty text', () => {
+    expect(extractMentions(null)).toEqual([]);
+    expect(extractMentions('')).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const state = vi.hoisted(() => ({
+  queries: [] as string[],
+  redis: [] as any[][],
+  redisDown: false,
+  warnings: [] as string[],
+  search: [] as string[][],
+  events: [] as string[][],
+  targetRoles: [] as string[],
+  lastMessageAction: null as string | null,
+  duplicate: false,
+}));
+
+vi.mock('postgres', () => ({ default: { PostgresError: class extends Error { code = ''; } } }));
+vi.mock('@redis/index', () => ({
+  redis: {
+    set: async (...args: any[]) => { if (state.redisDown) throw new Error('ECONNREFUSED'); state.redis.push(['set', ...args]); },
+    del: async (...args: any[]) => { if (state.redisDown) throw new Error('ECONNREFUSED'); state.redis.push(['del', ...args]); },
+  },
+}));
+vi.mock('@logger/index', () => ({ logger: { warn: (_obj: unknown, msg: string) => { state.warnings.push(msg); } } }));
+vi.mock('@modules/outbox', async () => ({
+  ...(await import('../modules/outbox/src')),
+  enqueue: async (_cli: unknown, topic: string, event: string) => { state.events.push([topic, event]); },
+  enqueueSearch: async (_cli: unknown, op: string, doc: { type: string; id: string }) => { state.search.push([op, doc.type, doc.id]); },
+  topics: { conv: (id: string) => `rt:conv:${id}`, channel: (id: string) => `rt:channel:${id}`, user: (id: string) => `rt:user:${id}` },
+}));
+vi.mock('@db/index', async () => {
+  const { default: pg } = await import('postgres');
+  const sql: any = async (strings: TemplateStringsArray) => {
+    const text = strings.join('?');
+    state.queries.push(text);
+    if (/count\(\*\)::int AS n FROM reports/.test(text)) return [{ n: 0 }];
+    if (/FROM messages m\s+JOIN conversation_members/.test(text)) return [{ author_id: 'a1', text: 'spam!', conversation_id: 'c1' }];
+    if (/INSERT INTO reports/.test(text)) {
+      if (state.duplicate) { const e: any = new (pg as any).PostgresError('duplicate'); e.code = '23505'; throw e; }
+      return [{ id: 'r1', reporter_id: 'u', target_type: 'message', target_id: 'm', reason: 'spam', details: {}, status: 'open', created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' }];
+    }
+    if (/SELECT roles FROM users/.test(text)) return [{ roles: state.targetRoles }];
+    if (/INSERT INTO user_bans/.test(text)) return [{ expires_at: '2030-01-01T00:00:00Z' }];
+    if (/DELETE FROM user_bans/.test(text)) return [];
+    if (/SELECT conversation_id, deleted_at FROM messages/.test(text)) return [{ conversation_id: 'c1', deleted_at: '2026-01-01T00:00:00Z' }];
+    if (/action IN \('remove_message','restore_message'\)/.test(text)) return state.lastMessageAction ? [{ action: state.lastMessageAction }] : [];
+    if (/INSERT INTO moderation_actions/.test(text)) return [{ id: 'act1' }];
+    if (/UPDATE reports/.test(text)) return [{ id: 'r1' }, { id: 'r2' }];
+    return [{}];
+  };
+  sql.json = (v: unknown) => v;
+  return { sql, transaction: async (fn: (trx: unknown) => unknown) => fn(sql) };
+});
+
+import { createReport, takeAction } from '../modules/moderation/src';
+
+const MOD = '11111111-1111-1111-1111-111111111111';
+const USER = '22222222-2222-2222-2222-222222222222';
+const MSG = '33333333-3333-3333-3333-333333333333';
+
+describe('moderation', () => {
+  beforeEach(() => {
+    state.queries.length = 0; state.redis.length = 0; state.search.length = 0; state.events.length = 0;
+    state.targetRoles = []; state.lastMessageAction = null; state.duplicate = false;
+    state.redisDown = false; state.warnings.length = 0;
+  });
+
+  it('snapshots a reported message and rejects a second open report', async () => {
+    await createReport(USER, { targetType: 'message', targetId: MSG, reason: 'spam' });
+    expect(state.queries.some((q) => /cm\.user_id = \? AND cm\.left_at IS NULL/.test(q))).toBe(true);
+
+    state.duplicate = true;
+    await expect(createReport(USER, { targetType: 'message', targetId: MSG, reason: 'spam' }))
+      .rejects.toMatchObject({ statusCode: 409, message: 'already_reported' });
+  });
+
+  it('bans a user: revokes sessions, logs the action, closes reports, caches the ban after commit', async () => {
+    const res = await takeAction({ id: MOD, roles: ['moderator'] }, { action: 'ban_user', targetId: USER, reason: 'spam', durationSec: 3600 });
+    expect(res).toEqual({ action: 'ban_user', targetType: 'user', targetId: USER, changed: true, actionId: 'act1', resolvedReports: 2 });
+
+    const at = (re: RegExp) => state.queries.findIndex((q) => re.test(q));
+    expect(at(/revoked_reason = 'banned'/)).toBeGreaterThan(at(/INSERT INTO user_bans/));
+    expect(at(/INSERT INTO moderation_actions/)).toBeGreaterThan(-1);
+    expect(state.redis).toHaveLength(1);
+    expect(state.redis[0].slice(0, 3)).toEqual(['set', `auth:banned:${USER}`, '1']);
+    expect(state.redis[0][3]).toBe('PX');
+    // гейтвей закрывает открытые сокеты по событию
+    expect(state.events).toContainEqual([`rt:user:${USER}`, 'user:banned']);
+  });
+
+  it('syncs the ban cache on every call and only logs a Redis failure', async () => {
+    await expect(takeAction({ id: MOD }, { action: 'unban_user', targetId: USER })).resolves.toMatchObject({ changed: false });
+    expect(state.redis).toEqual([['del', `auth:banned:${USER}`]]);
+
+    state.redisDown = true;
+    await expect(takeAction({ id: MOD }, { action: 'ban_user', targetId: USER })).resolves.toMatchObject({ changed: true, actionId: 'act1' });
+    expect(state.warnings).toEqual(['moderation: ban cache update failed']);
+  });
+
+  it('lets only admins ban staff', async () => {
+    state.targetRoles = ['moderator'];
+    await expect(takeAction({ id: MOD, roles: ['moderator'] }, { action: 'ban_user', targetId: USER }))
+      .rejects.toMatchObject({ statusCode: 403, message: 'forbidden' });
+    expect(state.queries.some((q) => /INSERT INTO user_bans/.test(q))).toBe(false);
+
+    await expect(takeAction({ id: MOD, roles: ['admin'] }, { action: 'ban_user', targetId: USER })).resolves.toMatchObject({ changed: true });
+  });
+
+  it('restores only messages removed by moderation', async () => {
+    await expect(takeAction({ id: MOD }, { action: 'restore_message', targetId: MSG }))
+      .rejects.toMatchObject({ statusCode: 409, message: 'not_removed_by_moderation' });
+
+    state.lastMessageAction = 'remove_message';
+    await expect(takeAction({ id: MOD }, { action: 'restore_message', targetId: MSG })).resolves.toMatchObject({ changed: true, resolvedReports: 0 });
+    expect(state.queries.some((q) => /SET deleted_at = NULL/.test(q))).toBe(true);
+    expect(state.search).toEqual([['index', 'message', MSG]]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { DeliveryError } from '../apps/workers/notify/src/provider';
+import { nextDelayMs } from '../apps/workers/notify/src/retry';
+import { WebhookProvider, signWebhook } from '../apps/workers/notify/src/webhook';
+import { encryptPayload } from '../apps/workers/notify/src/webpush';
+
+const payload = { userId: 'u1', kind: 'message', title: 'New message', body: 'hi' };
+
+describe('notify retry policy', () => {
+  it('backs off exponentially up to the cap and stops after maxAttempts', () => {
+    const p = { maxAttempts: 4, backoffMs: 1000, maxBackoffMs: 3000 };
+    const mid = () => 0.5; // без джиттера
+    expect(nextDelayMs(p, 1, undefined, mid)).toBe(1000);
+    expect(nextDelayMs(p, 2, undefined, mid)).toBe(2000);
+    expect(nextDelayMs(p, 3, undefined, mid)).toBe(3000);
+    expect(nextDelayMs(p, 4, undefined, mid)).toBeNull();
+    expect(nextDelayMs(p, 1, 10_000, mid)).toBe(10_000);
+  });
+});
+
+describe('WebhookProvider', () => {
+  let server: http.Server | null = null;
+  afterEach(() => new Promise<void>((r) => (server ? server.close(() => r()) : r())));
+
+  async function sink(status: number) {
+    const seen: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => { seen.push({ headers: req.headers, body }); res.statusCode = status; res.end(); });
+    });
+    await new Promise<void>((r) => server!.listen(0, '127.0.0.1', () => r()));
+    return { url: `http://127.0.0.1:${(server!.address() as AddressInfo).port}/hook`, seen };
+  }
+
+  it('signs the body and treats 410 as permanent with endpoint disable', async () => {
+    const provider = new WebhookProvider({ timeoutMs: 2000, allowInsecure: true });
+    const ok = await sink(200);
+    const ep = { id: 'e1', userId: 'u1', kind: 'webhook' as const, target: ok.url, keys: null, secret: 's'.repeat(32) };
+    await provider.send(payload, ep, { deliveryId: '1-0:e1', attempt: 1 });
+    const { headers, body } = ok.seen[0];
+    expect(headers['x-notify-id']).toBe('1-0:e1');
+    expect(headers['x-notify-signature']).toBe(signWebhook(ep.secret, Number(headers['x-notify-timestamp']), body));
+    await new Promise<void>((r) => server!.close(() => r()));
+
+    const gone = await sink(410);
+    const err = await provider.send(payload, { ...ep, target: gone.url }, { deliveryId: '1-0:e1', attempt: 1 }).catch((e) => e);
+    expect(err).toBeInstanceOf(DeliveryError);
+    expect(err.permanent).toBe(true);
+    expect(err.opts.disableEndpoint).toBe(true);
+  });
+
+  it('rejects private addresses unless insecure mode is allowed', async () => {
+    const provider = new WebhookProvider({ timeoutMs: 2000, allowInsecure: false });
+    const ep = { id: 'e1', userId: 'u1', kind: 'webhook' as const, target: 'https://127.0.0.1/hook', keys: null, secret: 's'.repeat(32) };
+    const err = await provider.send(payload, ep, { deliveryId: 'x', attempt: 1 }).catch((e) => e);
+    expect(err.message).toBe('webhook: private address');
+    expect(err.permanent).toBe(true);
+  });
+
+  it('checks the resolved address of the connection itself, not only the URL', async () => {
+    const provider = new WebhookProvider({ timeoutMs: 2000, allowInsecure: false });
+    const ep = { id: 'e1', userId: 'u1', kind: 'webhook' as const, target: 'https://localhost/hook', keys: null, secret: 's'.repeat(32) };
+    const err = await provider.send(payload, ep, { deliveryId: 'x', attempt: 1 }).catch((e) => e);
+    expect(err).toBeInstanceOf(DeliveryError);
+    expect(err.message).toBe('webhook: private address');
+    expect(err.opts.disableEndpoint).toBe(true);
+  });
+});
+
+describe('Web Push payload encryption (RFC 8291)', () => {
+  it('produces a record the user agent can decrypt', () => {
+    const ua = crypto.createECDH('prime256v1');
+    ua.generateKeys();
+    const auth = crypto.randomBytes(16);
+    const plaintext = Buffer.from(JSON.stringify(payload));
+    const out = encryptPayload(plaintext, ua.getPublicKey().toString('base64url'), auth.toString('base64url'));
+
+    // разбор заголовка и расшифровка на стороне UA
+    const salt = out.subarray(0, 16);
+    expect(out.readUInt32BE(16)).toBe(4096);
+    const idlen = out.readUInt8(20);
+    const asPublic = out.subarray(21, 21 + idlen);
+    const record = out.subarray(21 + idlen);
+    const shared = ua.computeSecret(asPublic);
+    const info = Buffer.concat([Buffer.from('WebPush: info\0'), ua.getPublicKey(), asPublic]);
+    const ikm = Buffer.from(crypto.hkdfSync('sha256', shared, auth, info, 32));
+    const cek = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+    const decipher = crypto.createDecipheriv('aes-128-gcm', cek, nonce);
+    decipher.setAuthTag(record.subarray(record.length - 16));
+    const dec = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+    expect(dec[dec.length - 1]).toBe(2); // delimiter последней записи
+    expect(dec.subarray(0, dec.length - 1).toString()).toBe(plaintext.toString());
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('pg', () => ({ Pool: class {} }));
+vi.mock('@modules/outbox', () => import('../modules/outbox/src'));
+import { PostsService } from '../modules/posts/src';
+
+const CID = '11111111-1111-1111-1111-111111111111';
+const UID = '22222222-2222-2222-2222-222222222222';
+const PID = '33333333-3333-3333-3333-333333333333';
+
+function fakePool(inFeed: boolean) {
+  const calls: Array<{ text: string; params: unknown[] }> = [];
+  const query = async (text: string, params: unknown[] = []) => {
+    calls.push({ text, params });
+    if (/AS in_feed/.test(text)) return { rowCount: 1, rows: [{ in_feed: inFeed }] };
+    return { rowCount: 1, rows: [{ channel_id: CID, author_id: UID, is_author: true, role: 'owner', published_at: new Date(0) }] };
+  };
+  return { calls, query, connect: async () => ({ query, release: () => {} }) };
+}
+
+const topicsOf = (calls: Array<{ text: string; params: unknown[] }>) =>
+  calls.filter((c) => /INSERT INTO outbox_events \(topic, event, payload\)/.test(c.text)).map((c) => c.params[0]);
+
+describe('PostsService.publish', () => {
+  it('announces the post on rt:feed only when listFeed would show it', async () => {
+    const open = fakePool(true);
+    await new PostsService(open as any).publish(UID, PID);
+    expect(topicsOf(open.calls)).toEqual([`rt:channel:${CID}`, 'rt:feed']);
+    const check = open.calls.find((c) => /AS in_feed/.test(c.text))!;
+    expect(check.text).toMatch(/ch\.visibility = 'public' AND ch\.is_archived = false/);
+    expect(check.text).toMatch(/FROM channel_blocks b/);
+
+    const hidden = fakePool(false);
+    await new PostsService(hidden as any).publish(UID, PID);
+    expect(topicsOf(hidden.calls)).toEqual([`rt:channel:${CID}`]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { ReplayGate } from '../apps/realtime/src/replay';
+
+type Msg = { seq?: string; event: string };
+const ev = (seq: string): Msg => ({ seq, event: 'message:new' });
+
+describe('realtime resume gate', () => {
+  it('holds live events of preloaded topics so resume neither repeats nor reorders them', async () => {
+    const sent: Msg[] = [];
+    const gate = new ReplayGate<Msg>((m) => sent.push(m));
+    gate.hold('rt:conv:a');
+    gate.hold('rt:conv:b');
+
+    // живые события после подключения, до resume
+    gate.live('rt:conv:a', ev('5-0'));
+    gate.live('rt:conv:a', { event: 'typing:start' });
+    gate.live('rt:conv:b', ev('9-0'));
+    expect(sent).toEqual([]);
+
+    // журнал после 3-0: 4-0, 5-0; во время досылки приходит 6-0
+    const res = await gate.replay('rt:conv:a', async () => {
+      sent.push(ev('4-0'));
+      gate.live('rt:conv:a', ev('6-0'));
+      sent.push(ev('5-0'));
+      return { result: 'ok', lastSent: '5-0' };
+    });
+    expect(res).toBe('ok');
+    expect(sent.map((m) => m.seq ?? m.event)).toEqual(['4-0', '5-0', 'typing:start', '6-0']);
+
+    // топик без resume отдаётся при release, дальше — напрямую
+    gate.release();
+    gate.live('rt:conv:b', ev('10-0'));
+    expect(sent.slice(4).map((m) => m.seq)).toEqual(['9-0', '10-0']);
+  });
+
+  it('flushes everything held when the replay falls back to resync', async () => {
+    const sent: Msg[] = [];
+    const gate = new ReplayGate<Msg>((m) => sent.push(m));
+    gate.hold('rt:conv:a');
+    gate.live('rt:conv:a', ev('5-0'));
+    await gate.replay('rt:conv:a', async () => ({ result: 'resync', lastSent: null }));
+    gate.live('rt:conv:a', ev('6-0'));
+    expect(sent.map((m) => m.seq)).toEqual(['5-0', '6-0']);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const searches: any[] = [];
+vi.mock('@opensearch-project/opensearch', () => ({
+  Client: class {
+    async search(req: any) { searches.push(req); return { body: { hits: { hits: [], total: { value: 0 } } } }; }
+  },
+}));
+vi.mock('pg', () => ({ Pool: class {} }));
+vi.mock('@modules/outbox', () => import('../modules/outbox/src'));
+import SearchService from '../modules/search/src';
+import { ConversationsService } from '../modules/conversations/src';
+
+const CID = '11111111-1111-1111-1111-111111111111';
+const ME = '22222222-2222-2222-2222-222222222222';
+const OTHER = '33333333-3333-3333-3333-333333333333';
+
+const lookup = (path: string) => ({ index: 'app-content', id: `user:${ME}`, path: `acl.${path}`, routing: 'user' });
+
+describe('permission-aware search', () => {
+  it('scopes search and suggest to the viewer memberships, visibility and blocks', async () => {
+    searches.length = 0;
+    const svc = new SearchService();
+    await svc.search({ viewerId: ME, q: 'hello' });
+    await svc.suggest({ viewerId: ME, q: 'hello' });
+
+    expect(searches).toHaveLength(2);
+    const [s, g] = searches.map((r) => r.body.query.bool.filter[0]);
+    expect(g).toEqual(s);
+
+    const [message, post, channel, user] = s.bool.should;
+    expect(message.bool.filter[1]).toEqual({ terms: { 'meta.conversation_id': lookup('conversations') } });
+    expect(post.bool.should).toEqual([{ term: { 'acl.visibility': 'public' } }, { terms: { 'meta.channel_id': lookup('channels') } }]);
+    expect(channel.bool.should[1]).toEqual({ terms: { id: lookup('channels') } });
+    expect(user.bool.should[1]).toEqual({ term: { id: ME } });
+    // контент заблокированных скрыт, свой — нет
+    expect(s.bool.must_not[0].bool).toEqual({
+      filter: [{ terms: { owner_id: lookup('blocked') } }],
+      must_not: [{ term: { owner_id: ME } }],
+    });
+  });
+
+  it('reindexes the member user document in the same transaction as a membership change', async () => {
+    const calls: Array<{ text: string; params: any[] }> = [];
+    const tx = { query: async (text: string, params: any[] = []) => { calls.push({ text, params }); return { rowCount: 1, rows: [] }; }, release: () => {} };
+    const pool = {
+      query: async (text: string) => {
+        if (/SELECT COUNT\(\*\) FILTER/.test(text)) return { rowCount: 1, rows: [{ owners: 1, is_owner: 0 }] };
+        return { rowCount: 1, rows: [{ role: 'owner' }] };
+      },
+      connect: async () => tx,
+    };
+    await new ConversationsService(pool as any).removeMember(ME, CID, OTHER);
+
+    const texts = calls.map((c) => c.text);
+    const job = calls.findIndex((c) => c.params[2] === `search:user:${OTHER}`);
+    expect(calls[job].params[0]).toBe('q:search.index');
+    expect(job).toBeGreaterThan(texts.findIndex((t) => /UPDATE conversation_members/.test(t)));
+    expect(job).toBeLessThan(texts.indexOf('COMMIT'));
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('pg', () => ({ Pool: class {} }));
+vi.mock('@modules/outbox', () => import('../modules/outbox/src'));
+import { enqueueSearch } from '../modules/outbox/src';
+import { MessagesService } from '../modules/messages/src';
+import { PostsService } from '../modules/posts/src';
+
+const CID = '11111111-1111-1111-1111-111111111111';
+const UID = '22222222-2222-2222-2222-222222222222';
+const MID = '33333333-3333-3333-3333-333333333333';
+
+function recorder() {
+  const calls: Array<{ text: string; params: any[] }> = [];
+  return { calls, query: async (text: string, params: any[] = []) => { calls.push({ text, params }); return { rowCount: 1, rows: [{ is_author: true, role: 'member' }] }; } };
+}
+
+describe('search CDC', () => {
+  it('keys search jobs by document so a pending job is overwritten by the latest operation', async () => {
+    const cli = recorder();
+    await enqueueSearch(cli, 'index', { type: 'post', id: MID });
+    await enqueueSearch(cli, 'delete', { type: 'post', id: MID });
+
+    expect(cli.calls.map((c) => c.params[0])).toEqual(['q:search.index', 'q:search.delete']);
+    expect(cli.calls[1].params.slice(1)).toEqual([JSON.stringify({ type: 'post', id: MID }), `search:post:${MID}`]);
+    expect(cli.calls[1].text).toMatch(/ON CONFLICT \(dedupe_key\) WHERE published_at IS NULL AND dedupe_key IS NOT NULL/);
+    expect(cli.calls[1].text).toMatch(/DO UPDATE SET topic = EXCLUDED\.topic, payload = EXCLUDED\.payload/);
+  });
+
+  it('enqueues the search delete in the same transaction as a message deletion', async () => {
+    const tx = recorder();
+    const pool = { query: recorder().query, connect: async () => ({ ...tx, release: () => {} }) };
+    await new MessagesService(pool as any).softDelete(UID, CID, MID);
+
+    const texts = tx.calls.map((c) => c.text);
+    const job = tx.calls.findIndex((c) => c.params[2] === `search:message:${MID}`);
+    expect(tx.calls[job].params[0]).toBe('q:search.delete');
+    expect(job).toBeGreaterThan(texts.findIndex((t) => /UPDATE messages SET deleted_at/.test(t)));
+    expect(job).toBeLessThan(texts.indexOf('COMMIT'));
+  });
+
+  it('reindexes a published post when its media changes', async () => {
+    const post = { channel_id: CID, author_id: UID, state: 'published', media_id: null, antivirus_status: 'clean', visibility: 'public' };
+    const calls: Array<{ text: string; params: any[] }> = [];
+    const query = async (text: string, params: any[] = []) => { calls.push({ text, params }); return { rowCount: 1, rows: [post] }; };
+    const pool = { query, connect: async () => ({ query, release: () => {} }) };
+    await new PostsService(pool as any).attachMedia(UID, MID, CID);
+
+    const texts = calls.map((c) => c.text);
+    const job = calls.findIndex((c) => c.params[2] === `search:post:${MID}`);
+    expect(calls[job].params[0]).toBe('q:search.index');
+    expect(job).toBeGreaterThan(texts.findIndex((t) => /UPDATE posts SET media_id/.test(t)));
+    expect(job).toBeLessThan(texts.indexOf('COMMIT'));
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@opensearch-project/opensearch', () => ({ Client: class {} }));
+import { PostgresBackend, SearchService } from '../modules/search/src';
+
+const ME = '22222222-2222-2222-2222-222222222222';
+const POST = '44444444-4444-4444-4444-444444444444';
+
+function fakePool(rows: any[]) {
+  const calls: Array<{ text: string; params: any[] }> = [];
+  return { calls, query: async (text: string, params: any[] = []) => { calls.push({ text, params }); return { rows }; } };
+}
+
+describe('postgres search backend', () => {
+  it('ranks over search_index with viewer filters and returns the common result shape', async () => {
+    const pool = fakePool([{
+      type: 'post', id: POST, created_at: new Date('2026-01-01T00:00:00Z'), updated_at: new Date('2026-01-02T00:00:00Z'),
+      body: 'Release notes\nnew search', meta: { channel_id: 'c1', title: 'Release notes' }, score: '0.6', total: '3',
+      headline: 'Release <em>notes</em>\u001fno match here\u001fnew <em>search</em>',
+    }]);
+    const svc = new SearchService({ backend: new PostgresBackend(pool) });
+    const res = await svc.search({ viewerId: ME, q: 'Notes, search!', types: ['post'], limit: 1 });
+
+    const { text, params } = pool.calls[0];
+    expect(params.slice(0, 5)).toEqual([ME, ['post'], 'notes & search', 1, 0]);
+    expect(text).toMatch(/FROM search_index si/);
+    expect(text).toMatch(/ts_rank\(d\.tsv, q\.tsq\)/);
+    expect(text).toMatch(/conversation_members cm ON .* cm\.user_id = \$1 AND cm\.left_at IS NULL/);
+    expect(text).toMatch(/FROM user_blocks b/);
+    expect(text).toMatch(/ORDER BY score DESC/);
+
+    expect(res).toEqual({
+      hits: [{
+        id: POST, type: 'post', score: 0.6,
+        created_at: '2026-01-01T00:00:00.000Z', updated_at: '2026-01-02T00:00:00.000Z',
+        text: 'Release notes\nnew search',
+        highlight: ['Release <em>notes</em>', 'new <em>search</em>'],
+        meta: { channel_id: 'c1', title: 'Release notes' },
+      }],
+      totalApprox: 3,
+      nextCursor: Buffer.from(JSON.stringify({ from: 1 })).toString('base64'),
+    });
+  });
+
+  it('turns phrases, exclusions and filters into tsquery operators and bound conditions', async () => {
+    const pool = fakePool([]);
+    await new PostgresBackend(pool).search({
+      viewerId: ME, q: 'from:@anna "exact phrase" -spam has:video', channelId: POST, after: '2026-01-01T00:00:00.000Z',
+    });
+
+    const { text, params } = pool.calls[0];
+    expect(params.slice(2)).toEqual([
+      '(exact <-> phrase) & !(spam)', POST, 'anna', '2026-01-01T00:00:00.000Z', 'video', 20, 0, expect.any(String),
+    ]);
+    expect(text).toMatch(/AND d\.channel_id = \$4::uuid/);
+    expect(text).toMatch(/AND d\.owner_id IN \(SELECT id FROM users WHERE nickname = \$5/);
+    expect(text).toMatch(/AND d\.created_at >= \$6::timestamptz/);
+    expect(text).toMatch(/AND \$7 = ANY\(d\.media_types\)/);
+    expect(text).toMatch(/mf\.id IN \(SELECT p\.media_id UNION SELECT pm\.media_id FROM post_media pm/);
+    expect(text).toMatch(/LIMIT \$8 OFFSET \$9/);
+  });
+
+  it('ends offset paging at the cap instead of wrapping to the first page', async () => {
+    const pool = fakePool(Array.from({ length: 20 }, () => ({ type: 'post', id: POST, created_at: new Date(0), updated_at: new Date(0), body: '', meta: {}, score: '1', total: '20000' })));
+    const backend = new PostgresBackend(pool);
+    const cursor = (from: number) => Buffer.from(JSON.stringify({ from })).toString('base64');
+
+    const near = await backend.search({ viewerId: ME, q: 'x', cursor: cursor(9960) });
+    expect(near.nextCursor).toBe(cursor(9980));
+    const last = await backend.search({ viewerId: ME, q: 'x', cursor: cursor(9990) });
+    expect(pool.calls[1].params.at(-2)).toBe(9990);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('suggests by prefix and skips queries that are too short', async () => {
+    const pool = fakePool([{ type: 'user', id: ME, body: 'Anna\nanna_k', meta: { display_name: 'Anna', nickname: 'anna_k' } }]);
+    const backend = new PostgresBackend(pool);
+
+    await expect(backend.suggest({ viewerId: ME, q: 'a' })).resolves.toEqual({ suggestions: [] });
+    expect(pool.calls).toHaveLength(0);
+
+    const res = await backend.suggest({ viewerId: ME, q: 'ann k' });
+    expect(pool.calls[0].params[2]).toBe('ann & k:*');
+    expect(res.suggestions).toEqual([{ type: 'user', text: 'Anna', id: ME }]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const searches: any[] = [];
+let hitsFor: (body: any) => any[] = () => [];
+vi.mock('@opensearch-project/opensearch', () => ({
+  Client: class {
+    async search(req: any) { searches.push(req.body); return { body: { hits: { hits: hitsFor(req.body) } } }; }
+  },
+}));
+import { OpenSearchBackend, parseSearchQuery } from '../modules/search/src';
+
+const ME = '22222222-2222-2222-2222-222222222222';
+const NICK_ID = '55555555-5555-5555-5555-555555555555';
+const CHAN_ID = '66666666-6666-6666-6666-666666666666';
+
+const cursorOf = (c: string | null) => JSON.parse(Buffer.from(String(c), 'base64').toString('utf8'));
+
+describe('search query language', () => {
+  it('parses operators, phrases and exclusions, keeping invalid operators as words', () => {
+    expect(parseSearchQuery('from:@Anna in:#news before:2026-01-01 after:2025-06-01T10:00:00Z "exact phrase" -spam -"bad words" has:image release notes'))
+      .toEqual({
+        words: ['release', 'notes'],
+        phrases: ['exact phrase'],
+        exclude: ['spam', 'bad words'],
+        from: 'Anna',
+        in: 'news',
+        before: '2026-01-01T00:00:00.000Z',
+        after: '2025-06-01T10:00:00.000Z',
+        mediaType: 'image',
+      });
+    expect(parseSearchQuery('before:someday has:media has:gif')).toEqual({
+      words: ['before', 'someday', 'has', 'gif'], phrases: [], exclude: [], hasMedia: true,
+    });
+  });
+
+  it('builds a bool query from the mini-language and explicit filters', async () => {
+    searches.length = 0;
+    hitsFor = (body) => (body.size === 2
+      ? [{ _source: { type: 'user', id: NICK_ID } }, { _source: { type: 'channel', id: CHAN_ID } }]
+      : []);
+    const os = new OpenSearchBackend({ node: 'http://os', index: 'app-content' });
+    await os.search({ viewerId: ME, q: 'from:@anna in:#news "exact phrase" -spam hello has:media', before: '2026-02-01T00:00:00.000Z' });
+
+    expect(searches).toHaveLength(2);
+    const { bool } = searches[1].query;
+    expect(bool.must).toEqual([
+      { multi_match: expect.objectContaining({ query: 'hello', operator: 'and' }) },
+      { match_phrase: { 'text.exact': 'exact phrase' } },
+    ]);
+    expect(bool.must_not).toEqual([{ multi_match: expect.objectContaining({ query: 'spam', type: 'phrase' }) }]);
+    expect(bool.filter).toEqual(expect.arrayContaining([
+      { term: { 'meta.channel_id': CHAN_ID } },
+      { term: { owner_id: NICK_ID } },
+      { range: { created_at: { lt: '2026-02-01T00:00:00.000Z' } } },
+      { exists: { field: 'media_types' } },
+    ]));
+  });
+
+  it('returns nothing for an unknown author without running the main query', async () => {
+    searches.length = 0;
+    hitsFor = () => [];
+    const os = new OpenSearchBackend({ node: 'http://os', index: 'app-content' });
+    await expect(os.search({ viewerId: ME, q: 'from:@nobody hi' })).resolves.toEqual({ hits: [], totalApprox: 0, nextCursor: null });
+    expect(searches).toHaveLength(1);
+  });
+
+  it('switches from offsets to search_after on deep pages', async () => {
+    searches.length = 0;
+    const hit = (i: number) => ({ _score: 1, sort: [1, 1700000000000 - i, `id-${i}`, 'post'], _source: { id: `id-${i}`, type: 'post' } });
+    hitsFor = (body) => Array.from({ length: body.size }, (_, i) => hit(i));
+    const os = new OpenSearchBackend({ node: 'http://os', index: 'app-content' });
+
+    const first = await os.search({ viewerId: ME, q: 'x', limit: 50 });
+    expect(searches[0].from).toBe(0);
+    expect(cursorOf(first.nextCursor)).toEqual({ from: 50 });
+
+    const second = await os.search({ viewerId: ME, q: 'x', limit: 50, cursor: first.nextCursor });
+    expect(searches[1].from).toBe(50);
+    expect(cursorOf(second.nextCursor)).toEqual({ from: 100, after: hit(49).sort });
+
+    await os.search({ viewerId: ME, q: 'x', limit: 50, cursor: second.nextCursor });
+    expect(searches[2].from).toBeUndefined();
+    expect(searches[2].search_after).toEqual(hit(49).sort);
+    expect(searches[2].sort.at(-2)).toEqual({ id: { order: 'desc' } });
+  });
+});
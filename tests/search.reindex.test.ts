@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@opensearch-project/opensearch', () => ({ Client: class {} }));
+import { rollbackReindex, startReindex } from '../apps/workers/search-indexer/src/reindex';
+import { removeDoc } from '../apps/workers/search-indexer/src/opensearch';
+
+const ids = (n: number) => Array.from({ length: n }, (_, i) => `00000000-0000-0000-0000-00000000000${i + 1}`);
+const ROWS: Record<string, string[]> = { channels: ids(3), users: ids(1), posts: [], messages: ids(2) };
+
+function fakeCtx(alias: string, state: Record<string, string> = {}) {
+  const hash: Record<string, string> = { ...state };
+  const calls: { pages: Array<[string, string | null]>; bulk: string[][]; aliases: any[]; created: string[]; mirrors: string[] } =
+    { pages: [], bulk: [], aliases: [], created: [], mirrors: [] };
+  let current = alias;
+  const ctx = {
+    prefix: 'app',
+    batchSize: 2,
+    settleMs: 0,
+    log: () => {},
+    pool: {
+      query: async (text: string, params: any[]) => {
+        const table = /FROM (channels|users|posts|messages) \w\b/.exec(text)![1];
+        calls.pages.push([table, params[0]]);
+        const rows = ROWS[table].filter((id) => !params[0] || id > params[0]).slice(0, params[1])
+          .map((id) => ({ id, author_id: id, owner_id: id, conversation_id: id, channel_id: id, updated_at: '2026-01-01T00:00:00Z' }));
+        return { rowCount: rows.length, rows };
+      },
+    },
+    redis: {
+      hgetall: async () => ({ ...hash }),
+      hget: async (_k: string, f: string) => hash[f] ?? null,
+      hset: async (_k: string, v: Record<string, string>) => {
+        Object.assign(hash, v);
+        if (v.mirror) calls.mirrors.push(v.mirror);
+      },
+      hdel: async (_k: string, f: string) => { delete hash[f]; },
+      del: async () => { for (const k of Object.keys(hash)) delete hash[k]; },
+    },
+    os: {
+      bulk: async ({ body }: any) => {
+        calls.bulk.push(body.filter((_: any, i: number) => i % 2 === 0).map((a: any) => a.index._id));
+        return { body: { items: [] } };
+      },
+      indices: {
+        getAlias: async () => ({ body: { [current]: { aliases: { 'app-content': {} } } } }),
+        exists: async () => ({ body: false }),
+        create: async ({ index }: any) => { calls.created.push(index); },
+        delete: async () => {},
+        putSettings: async () => {},
+        refresh: async () => {},
+        updateAliases: async ({ body }: any) => { calls.aliases.push(body.actions); current = body.actions[1].add.index; },
+      },
+    },
+  };
+  return { ctx: ctx as any, hash, calls };
+}
+
+describe('search reindex', () => {
+  it('backfills in keyset pages with checkpoints, mirrors live writes and flips the alias atomically', async () => {
+    const { ctx, hash, calls } = fakeCtx('app-content-v1');
+    const out = await startReindex(ctx, { version: 2 });
+
+    expect(out).toMatchObject({ status: 'flipped', from: 'app-content-v1', to: 'app-content-v2' });
+    expect(calls.created).toEqual(['app-content-v2']);
+    expect(calls.pages.filter(([t]) => t === 'channels').map(([, after]) => after)).toEqual([null, ROWS.channels[1]]);
+    expect(calls.bulk.flat()).toHaveLength(6);
+    expect(hash['cursor:channel']).toBe(ROWS.channels[2]);
+    expect(hash['count:message']).toBe('2');
+
+    // в новый индекс — с начала заливки, в оба — на время переключения, в старый — после
+    expect(calls.mirrors).toEqual(['app-content-v2', 'app-content-v2,app-content-v1', 'app-content-v1']);
+    expect(calls.aliases).toEqual([[
+      { remove: { index: 'app-content-v1', alias: 'app-content' } },
+      { add: { index: 'app-content-v2', alias: 'app-content' } },
+    ]]);
+    expect(hash.phase).toBe('flipped');
+  });
+
+  it('resumes an interrupted backfill from the Redis checkpoint', async () => {
+    const { ctx, calls } = fakeCtx('app-content-v1', {
+      phase: 'backfill', target: 'app-content-v2', source: 'app-content-v1', mirror: 'app-content-v2',
+      'done:channel': '1', 'count:channel': '3', 'cursor:user': ROWS.users[0], 'count:user': '1',
+    });
+    const out: any = await startReindex(ctx, { version: 2 });
+
+    expect(calls.created).toEqual([]);
+    expect(calls.pages.some(([t]) => t === 'channels')).toBe(false);
+    expect(calls.pages.find(([t]) => t === 'users')).toEqual(['users', ROWS.users[0]]);
+    expect(out.counts).toMatchObject({ channel: 3, user: 1, message: 2 });
+  });
+
+  it('rolls the alias back and stops mirroring', async () => {
+    const { ctx, hash, calls } = fakeCtx('app-content-v2', {
+      phase: 'flipped', target: 'app-content-v2', source: 'app-content-v1', mirror: 'app-content-v1',
+    });
+    await expect(rollbackReindex(ctx)).resolves.toMatchObject({ status: 'rolled_back', to: 'app-content-v1' });
+    expect(calls.aliases[0][1]).toEqual({ add: { index: 'app-content-v1', alias: 'app-content' } });
+    expect(hash.mirror).toBeUndefined();
+    expect(hash.phase).toBe('rolled_back');
+    await expect(rollbackReindex(ctx)).rejects.toThrow('nothing_to_rollback');
+  });
+
+  it('deletes with a current external version so an older backfill write cannot restore the document', async () => {
+    const deletes: any[] = [];
+    const os = { delete: async (req: any) => { deletes.push(req); throw Object.assign(new Error('not_found'), { statusCode: 404 }); } };
+    const before = Date.now();
+    await removeDoc(os as any, 'app-content-v2', 'post', ids(1)[0]);
+
+    expect(deletes[0]).toMatchObject({ id: `post:${ids(1)[0]}`, routing: 'post', version_type: 'external_gte' });
+    expect(deletes[0].version).toBeGreaterThanOrEqual(before);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('pg', () => ({ Pool: class {} }));
+vi.mock('@modules/outbox', async () => ({
+  ...(await import('../modules/outbox/src')),
+  enqueue: async () => {},
+  enqueueJob: async () => {},
+  enqueueMany: async () => {},
+  topics: { conv: (id: string) => `rt:conv:${id}`, user: (id: string) => `rt:user:${id}` },
+}));
+import { ConversationsService } from '../modules/conversations/src';
+import { MessagesService } from '../modules/messages/src';
+
+const CID = '11111111-1111-1111-1111-111111111111';
+const ME = '22222222-2222-2222-2222-222222222222';
+const OTHER = '33333333-3333-3333-3333-333333333333';
+
+type Reach = { blocked_by_me: boolean; blocked_me: boolean; audience: string; is_contact: boolean };
+
+function convPool(reach: Reach) {
+  return {
+    query: async (text: string) => {
+      if (/c\.type = 'private'/.test(text)) return { rowCount: 0, rows: [] }; // нет существующего диалога
+      if (/FROM user_blocks/.test(text)) return { rowCount: 1, rows: [reach] };
+      return { rowCount: 0, rows: [] };
+    },
+    connect: async () => { throw new Error('unexpected transaction'); },
+  };
+}
+
+describe('blocking and messaging privacy', () => {
+  it('refuses a new private conversation when either side blocked the other', async () => {
+    const base = { audience: 'everyone', is_contact: false };
+    await expect(new ConversationsService(convPool({ ...base, blocked_by_me: true, blocked_me: false }) as any).createPrivate(ME, OTHER))
+      .rejects.toMatchObject({ statusCode: 403, message: 'user_blocked' });
+    // блокировку другой стороны не раскрываем — тот же код, что у privacy
+    await expect(new ConversationsService(convPool({ ...base, blocked_by_me: false, blocked_me: true }) as any).createPrivate(ME, OTHER))
+      .rejects.toMatchObject({ statusCode: 403, message: 'privacy_restricted' });
+  });
+
+  it('applies privacy.messages = contacts to strangers only', async () => {
+    const strangers = { blocked_by_me: false, blocked_me: false, audience: 'contacts', is_contact: false };
+    await expect(new ConversationsService(convPool(strangers) as any).createPrivate(ME, OTHER))
+      .rejects.toMatchObject({ message: 'privacy_restricted' });
+    // контакт проходит проверку и доходит до транзакции
+    await expect(new ConversationsService(convPool({ ...strangers, is_contact: true }) as any).createPrivate(ME, OTHER))
+      .rejects.toThrow('unexpected transaction');
+  });
+
+  it('blocks sending into an existing private conversation', async () => {
+    const pool = {
+      query: async (text: string) => {
+        if (/FROM conversation_members WHERE/.test(text)) return { rowCount: 1, rows: [{}] };
+        if (/JOIN user_blocks/.test(text)) return { rowCount: 1, rows: [{ by_me: false }] };
+        return { rowCount: 0, rows: [] };
+      },
+      connect: async () => { throw new Error('unexpected transaction'); },
+    };
+    await expect(new MessagesService(pool as any).sendText({ conversationId: CID, authorId: ME, text: 'hi' }))
+      .rejects.toMatchObject({ statusCode: 403, message: 'privacy_restricted' });
+  });
+});
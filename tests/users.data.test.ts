@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { inflateRawSync } from 'node:zlib';
+
+const state = vi.hoisted(() => ({ queries: [] as string[], active: false, jobs: [] as any[] }));
+
+vi.mock('argon2', () => ({ default: { hash: async () => '', verify: async () => true, argon2id: 0 } }));
+vi.mock('postgres', () => ({ default: { PostgresError: class extends Error {} } }));
+vi.mock('@s3/index', () => ({ presignGetObject: async (key: string) => `https://s3.local/${key}?sig` }));
+vi.mock('@modules/outbox', async () => ({
+  ...(await import('../modules/outbox/src')),
+  enqueue: async () => {},
+  enqueueJob: async (_cli: unknown, stream: string, payload: unknown) => { state.jobs.push({ stream, payload }); },
+  topics: { user: (id: string) => `rt:user:${id}` },
+}));
+vi.mock('@db/index', () => {
+  const sql: any = async (strings: TemplateStringsArray) => {
+    const text = strings.join('?');
+    state.queries.push(text);
+    if (/FROM user_data_exports WHERE user_id = \? AND status IN \('pending','running'\)/.test(text)) return state.active ? [{}] : [];
+    if (/FROM users WHERE id = \? AND deleted_at IS NULL FOR UPDATE/.test(text)) return [{}];
+    if (/INSERT INTO user_data_exports/.test(text)) {
+      return [{ id: 'e1', status: 'pending', storage_key: null, size_bytes: null, error: null, created_at: '2026-01-01T00:00:00Z', completed_at: null, expires_at: null }];
+    }
+    return [];
+  };
+  sql.json = (v: unknown) => v;
+  return { sql, transaction: async (fn: (trx: unknown) => unknown) => fn(sql) };
+});
+
+import { requestExport } from '../modules/users/src';
+import { buildZip, crc32 } from '../apps/workers/user-data/src/zip';
+import { purgeUser } from '../apps/workers/user-data/src/purge';
+
+const USER = '11111111-1111-1111-1111-111111111111';
+
+/** Разобрать записи по локальным заголовкам (без central directory). */
+function unzip(buf: Buffer): Record<string, string> {
+  const out: Record<string, string> = {};
+  let p = 0;
+  while (buf.readUInt32LE(p) === 0x04034b50) {
+    const crc = buf.readUInt32LE(p + 14);
+    const packed = buf.readUInt32LE(p + 18);
+    const nameLen = buf.readUInt16LE(p + 26);
+    const name = buf.subarray(p + 30, p + 30 + nameLen).toString('utf8');
+    const data = inflateRawSync(buf.subarray(p + 30 + nameLen, p + 30 + nameLen + packed));
+    expect(crc32(data)).toBe(crc);
+    out[name] = data.toString('utf8');
+    p += 30 + nameLen + packed;
+  }
+  return out;
+}
+
+describe('account deletion and data export', () => {
+  beforeEach(() => { state.queries.length = 0; state.jobs.length = 0; state.active = false; });
+
+  it('writes a zip whose entries inflate back with matching CRCs', () => {
+    const buf = buildZip([{ name: 'profile.json', data: '{"a":1}' }, { name: 'сообщения.ndjson', data: 'x\n'.repeat(1000) }]);
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(unzip(buf)).toEqual({ 'profile.json': '{"a":1}', 'сообщения.ndjson': 'x\n'.repeat(1000) });
+    // end of central directory: 2 записи
+    expect(buf.readUInt32LE(buf.length - 22)).toBe(0x06054b50);
+    expect(buf.readUInt16LE(buf.length - 12)).toBe(2);
+  });
+
+  it('queues one export at a time', async () => {
+    await expect(requestExport(USER)).resolves.toMatchObject({ id: 'e1', status: 'pending' });
+    expect(state.jobs).toEqual([{ stream: 'q:user.export', payload: { exportId: 'e1', userId: USER } }]);
+
+    state.active = true;
+    state.jobs.length = 0;
+    await expect(requestExport(USER)).rejects.toMatchObject({ statusCode: 409, message: 'export_in_progress' });
+    expect(state.jobs).toHaveLength(0);
+  });
+
+  it('releases media references before wiping content and returns export keys', async () => {
+    const texts: string[] = [];
+    const cli = {
+      query: async (text: string) => {
+        texts.push(text);
+        if (/FOR UPDATE/.test(text)) return { rowCount: 1, rows: [{ id: USER, email: 'me@example.com' }] };
+        if (/UPDATE user_data_exports/.test(text)) return { rowCount: 2, rows: [{ storage_key: 'exports/u/1.zip' }, { storage_key: null }] };
+        return { rowCount: 0, rows: [] };
+      },
+    };
+    const res = await purgeUser(cli, USER);
+    expect(res).toEqual({ purged: true, exportKeys: ['exports/u/1.zip'] });
+
+    const at = (re: RegExp) => texts.findIndex((t) => re.test(t));
+    const wipeMessages = at(/UPDATE messages\s+SET text = NULL/);
+    expect(at(/ref_count - x\.n[\s\S]*FROM messages/)).toBeLessThan(wipeMessages);
+    expect(at(/ref_count - x\.n[\s\S]*FROM post_media/)).toBeLessThan(at(/DELETE FROM post_media/));
+    const postRefs = at(/ref_count - x\.n[\s\S]*FROM posts/);
+    const avatarRef = at(/ref_count - 1[\s\S]*u\.avatar_media_id/);
+    expect(Math.min(postRefs, avatarRef)).toBeGreaterThan(-1);
+    expect(postRefs).toBeLessThan(at(/UPDATE posts\s+SET title = NULL, body = NULL, media_id = NULL/));
+    expect(avatarRef).toBeLessThan(at(/avatar_media_id = NULL/));
+    expect(at(/q:search\.delete/)).toBeLessThan(wipeMessages);
+    // прощальное письмо — на адрес до обезличивания
+    expect(at(/'q:notify'/)).toBeLessThan(at(/SET email = 'deleted\+'/));
+    expect(at(/revoked_reason = 'account_deleted'/)).toBeGreaterThan(-1);
+  });
+
+  it('does nothing when the deletion was cancelled or is not due', async () => {
+    const texts: string[] = [];
+    const cli = { query: async (text: string) => { texts.push(text); return { rowCount: 0, rows: [] }; } };
+    await expect(purgeUser(cli, USER)).resolves.toEqual({ purged: false, exportKeys: [] });
+    expect(texts).toHaveLength(1);
+  });
+});
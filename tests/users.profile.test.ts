@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const state = vi.hoisted(() => ({ queries: [] as string[], values: [] as unknown[], rows: [] as [RegExp, unknown[]][] }));
+
+vi.mock('argon2', () => ({ default: { hash: async () => '', verify: async () => true, argon2id: 0 } }));
+vi.mock('postgres', () => ({ default: { PostgresError: class extends Error {} } }));
+vi.mock('@modules/outbox', async () => ({ ...(await import('../modules/outbox/src')), enqueue: async () => {}, topics: { user: (id: string) => `rt:user:${id}` } }));
+vi.mock('@s3/index', () => ({ presignGetObject: async () => '' }));
+vi.mock('@db/index', () => {
+  const sql: any = async (strings: TemplateStringsArray | Record<string, unknown>, ...values: unknown[]) => {
+    if (!Array.isArray(strings)) return strings;
+    const text = (strings as TemplateStringsArray).join('?');
+    state.queries.push(text);
+    state.values.push(...values);
+    for (const [re, rows] of state.rows) if (re.test(text)) return rows;
+    return [];
+  };
+  sql.json = (v: unknown) => v;
+  sql.unsafe = async () => [];
+  return { sql, transaction: async (fn: (trx: unknown) => unknown) => fn(sql) };
+});
+
+import { listUsers, normalizePrivacy, toProfileView, updateProfile, UserRecord } from '../modules/users/src';
+
+const OWNER = '11111111-1111-1111-1111-111111111111';
+const VIEWER = '22222222-2222-2222-2222-222222222222';
+
+const row = (privacy: any, isContact = false): UserRecord & { is_contact: boolean } => ({
+  id: OWNER,
+  email: 'owner@example.com',
+  password_hash: 'h',
+  display_name: 'Owner',
+  nickname: 'owner',
+  bio: 'hello',
+  privacy,
+  roles: ['admin'],
+  avatar_media_id: '33333333-3333-3333-3333-333333333333',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  deleted_at: null,
+  is_contact: isContact,
+});
+
+describe('users privacy', () => {
+  beforeEach(() => { state.queries.length = 0; state.values.length = 0; state.rows.length = 0; });
+
+  it('falls back to defaults for missing or invalid keys', () => {
+    expect(normalizePrivacy(null)).toEqual({
+      profile: 'everyone', email: 'nobody', discoverable: true, messages: 'everyone', groupInvites: 'everyone',
+    });
+    expect(normalizePrivacy({ profile: 'contacts', email: 'all', discoverable: 'no', messages: 'nobody' })).toMatchObject({
+      profile: 'contacts', email: 'nobody', discoverable: true, messages: 'nobody',
+    });
+  });
+
+  it('hides bio, avatar and email according to the owner settings', () => {
+    const byDefault = toProfileView(row({}), VIEWER);
+    expect(byDefault.bio).toBe('hello');
+    expect(byDefault.email).toBeNull();
+    expect(byDefault).not.toHaveProperty('roles');
+
+    const contactsOnly = { profile: 'contacts', email: 'contacts' };
+    expect(toProfileView(row(contactsOnly), VIEWER)).toMatchObject({ bio: null, avatarMediaId: null, email: null });
+    expect(toProfileView(row(contactsOnly, true), VIEWER)).toMatchObject({ bio: 'hello', email: 'owner@example.com' });
+    // владелец видит всё
+    expect(toProfileView(row({ profile: 'nobody' }), OWNER).bio).toBe('hello');
+  });
+
+  it('rejects invalid nicknames and privacy values before touching the database', async () => {
+    await expect(updateProfile(OWNER, { nickname: 'a b' })).rejects.toThrow('invalid_nickname');
+    await expect(updateProfile(OWNER, { privacy: { email: 'friends' as any } })).rejects.toThrow('invalid_privacy');
+    await expect(updateProfile(OWNER, { avatarMediaId: 'not-a-uuid' })).rejects.toThrow('invalid_avatar');
+    expect(state.queries).toHaveLength(0);
+  });
+
+  it('accepts only own images as avatar', async () => {
+    const err: any = await updateProfile(OWNER, { avatarMediaId: '44444444-4444-4444-4444-444444444444' }).catch((e) => e);
+    expect(err.statusCode).toBe(400);
+    expect(state.queries[0]).toMatch(/FROM media_files/);
+    expect(state.queries[0]).toMatch(/owner_id = \?/);
+  });
+
+  it('moves the media reference when the avatar changes', async () => {
+    const OLD = '33333333-3333-3333-3333-333333333333';
+    const NEW = '44444444-4444-4444-4444-444444444444';
+    state.rows.push(
+      [/FROM media_files/, [{ '?column?': 1 }]],
+      [/SELECT avatar_media_id FROM users/, [{ avatar_media_id: OLD }]],
+      [/UPDATE users/, [row({})]],
+    );
+    await updateProfile(OWNER, { avatarMediaId: NEW });
+    const refs = state.queries.filter((q) => /UPDATE media_files SET ref_count/.test(q));
+    expect(refs).toHaveLength(2);
+    expect(refs[0]).toMatch(/ref_count \+ 1/);
+    expect(refs[1]).toMatch(/GREATEST\(ref_count - 1, 0\)/);
+    expect(state.values).toEqual(expect.arrayContaining([NEW, OLD]));
+  });
+
+  it('matches the catalog email query normalised like sign-in', async () => {
+    await listUsers({ q: '  Owner@Example.COM ' });
+    expect(state.queries.some((q) => /u\.email = \?/.test(q))).toBe(true);
+    expect(state.values).toContain('owner@example.com');
+    expect(state.values).not.toContain('Owner@Example.COM');
+  });
+});